@@ -16,6 +16,7 @@ import { authService } from './services/authService';
 import { userCloudSyncService } from './services/userCloudSyncService';
 import { StorageCleanup } from './services/storageCleanup';
 import { PDFService } from './services/pdfService';
+import { CricketEngine } from './services/cricketEngine';
 import { SimpleGroupShare } from './services/simpleGroupShare';
 import { Trophy, BarChart3, Play, Award, Users, UserPlus, LogIn, LogOut, Crown, Sparkles, Target, Zap, Shield, Share2, MessageCircle, Cloud, CloudOff, RefreshCw, AlertTriangle, User as UserIcon } from 'lucide-react';
 import { MultiGroupDashboard } from './components/MultiGroupDashboard';
@@ -796,7 +797,7 @@ function App() {
                     <h3 className="text-green-100 text-lg font-semibold mb-1">Resume Match</h3>
                     <p className="text-green-200 text-sm">
                       {activeMatch.team1.name} vs {activeMatch.team2.name} • 
-                      {activeMatch.currentInnings === 1 ? 'First' : 'Second'} innings in progress
+                      {CricketEngine.formatInnings(CricketEngine.getCurrentInningsNumber(activeMatch))} innings in progress
                     </p>
                     <p className="text-green-300 text-xs mt-1">
                       Started {new Date(activeMatch.startTime).toLocaleString()}
@@ -421,7 +421,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ onBack }) => {
                             <span className="font-medium">{personalStats.bowlingAverage}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-600">Economy:</span>
+                            <span className="text-gray-600">Economy (per 6 balls):</span>
                             <span className="font-medium">{personalStats.economyRate}</span>
                           </div>
                           <div className="flex justify-between">
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { Shuffle, X, ArrowLeftRight, AlertCircle, Check } from 'lucide-react';
+import { Player } from '../types/cricket';
+import { Lineup } from '../services/teamService';
+import { TeamBalancer, BalancedSides, PairConstraint } from '../services/teamBalancer';
+
+interface BalancedTeamPickerProps {
+  team1Name: string;
+  team2Name: string;
+  players: Player[];
+  playersPerTeam: number;
+  initialPlayerIds: string[];
+  initialKeeperIds: string[];
+  onApply: (lineup1: Lineup, lineup2: Lineup) => void;
+  onClose: () => void;
+}
+
+// Splits the players who turned up into two sides of even rating, keeping
+// pairs together or apart and a keeper on each side, for the organizer to
+// adjust by swapping players before using them as the playing XIs
+export const BalancedTeamPicker: React.FC<BalancedTeamPickerProps> = ({
+  team1Name,
+  team2Name,
+  players,
+  playersPerTeam,
+  initialPlayerIds,
+  initialKeeperIds,
+  onApply,
+  onClose
+}) => {
+  const [playingIds, setPlayingIds] = useState<string[]>(initialPlayerIds);
+  const [keeperIds, setKeeperIds] = useState<string[]>(initialKeeperIds);
+  const [pairs, setPairs] = useState<PairConstraint[]>([]);
+  const [pairDraft, setPairDraft] = useState<[string, string]>(['', '']);
+  const [sides, setSides] = useState<BalancedSides | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const playing = players.filter(p => playingIds.includes(p.id));
+  const ratings = TeamBalancer.getRatings(playing);
+  const constraints = { pairs, keeperIds };
+  const balance = sides ? TeamBalancer.getBalance(sides, playing, constraints) : null;
+  const tooMany = playing.length > playersPerTeam * 2;
+  const getName = (id: string) => players.find(p => p.id === id)?.name || 'Unknown player';
+
+  const togglePlaying = (id: string) => {
+    const isPlaying = playingIds.includes(id);
+    setPlayingIds(isPlaying ? playingIds.filter(playerId => playerId !== id) : [...playingIds, id]);
+    if (isPlaying) {
+      setPairs(pairs.filter(pair => !pair.playerIds.includes(id)));
+    }
+    setSides(null);
+  };
+
+  const toggleKeeper = (id: string) => {
+    setKeeperIds(keeperIds.includes(id) ? keeperIds.filter(playerId => playerId !== id) : [...keeperIds, id]);
+  };
+
+  const addPair = (type: PairConstraint['type']) => {
+    const [a, b] = pairDraft;
+    if (!a || !b || a === b) return;
+    setPairs([...pairs.filter(pair => !(pair.playerIds.includes(a) && pair.playerIds.includes(b))), { playerIds: [a, b], type }]);
+    setPairDraft(['', '']);
+  };
+
+  const handlePropose = () => {
+    setSelectedId(null);
+    setSides(TeamBalancer.proposeSides(playing, constraints));
+  };
+
+  // Pick a player, then one on the other side to swap them with
+  const handlePlayerClick = (id: string) => {
+    if (!sides) return;
+    if (!selectedId || selectedId === id) {
+      setSelectedId(selectedId === id ? null : id);
+      return;
+    }
+    if (sides.team1.includes(selectedId) === sides.team1.includes(id)) {
+      setSelectedId(id);
+      return;
+    }
+    setSides(TeamBalancer.swapPlayers(sides, selectedId, id));
+    setSelectedId(null);
+  };
+
+  const handleApply = () => {
+    if (!sides) return;
+    const toLineup = (ids: string[]): Lineup => ({
+      playerIds: TeamBalancer.getBattingOrder(ids, playing),
+      wicketkeeperId: ids.find(id => keeperIds.includes(id))
+    });
+    onApply(toLineup(sides.team1), toLineup(sides.team2));
+  };
+
+  const renderSide = (name: string, ids: string[], rating: number) => (
+    <div className="bg-white/10 rounded-xl p-4 border border-white/20">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-white font-semibold">{name}</h4>
+        <span className="text-xs text-purple-200">{ids.length} players · rating {Math.round(rating)}</span>
+      </div>
+      <ul className="space-y-1">
+        {ids.map(id => (
+          <li key={id}>
+            <button
+              type="button"
+              onClick={() => handlePlayerClick(id)}
+              title={ratings.get(id) ? TeamBalancer.describeRating(ratings.get(id)!) : undefined}
+              className={`w-full flex items-center justify-between px-2 py-1 rounded text-sm transition-colors ${
+                selectedId === id ? 'bg-yellow-400 text-slate-900' : 'text-white hover:bg-white/10'
+              }`}
+            >
+              <span className="truncate">
+                {getName(id)}
+                {keeperIds.includes(id) && ' (wk)'}
+              </span>
+              <span className="text-xs opacity-75">{Math.round(ratings.get(id)?.overall || 0)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold flex items-center">
+          <Shuffle className="w-5 h-5 mr-2" />
+          Balanced Sides
+        </h3>
+        <button type="button" onClick={onClose} className="text-purple-300 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div>
+        <p className="text-sm text-purple-200 mb-2">
+          Who's playing? ({playing.length} picked) - tap WK to mark the keepers
+        </p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-60 overflow-y-auto">
+          {players.map(player => (
+            <div key={player.id} className="flex items-center space-x-2 text-sm text-white">
+              <input type="checkbox" checked={playingIds.includes(player.id)} onChange={() => togglePlaying(player.id)} />
+              <span className="flex-1 truncate">{player.name}</span>
+              {playingIds.includes(player.id) && (
+                <button
+                  type="button"
+                  onClick={() => toggleKeeper(player.id)}
+                  className={`px-2 py-0.5 rounded text-xs font-bold transition-colors ${
+                    keeperIds.includes(player.id) ? 'bg-yellow-400 text-slate-900' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                  }`}
+                >
+                  WK
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {playing.length >= 2 && (
+        <div>
+          <p className="text-sm text-purple-200 mb-2">Keep players together or apart</p>
+          <div className="flex flex-wrap items-center gap-2">
+            {[0, 1].map(index => (
+              <select
+                key={index}
+                value={pairDraft[index]}
+                onChange={(e) => {
+                  const draft: [string, string] = [...pairDraft];
+                  draft[index] = e.target.value;
+                  setPairDraft(draft);
+                }}
+                className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+              >
+                <option value="" className="text-gray-900">Player...</option>
+                {playing.map(player => (
+                  <option key={player.id} value={player.id} className="text-gray-900">{player.name}</option>
+                ))}
+              </select>
+            ))}
+            <button
+              type="button"
+              onClick={() => addPair('together')}
+              className="px-3 py-2 rounded-lg text-sm bg-white/10 text-white hover:bg-white/20"
+            >
+              Together
+            </button>
+            <button
+              type="button"
+              onClick={() => addPair('apart')}
+              className="px-3 py-2 rounded-lg text-sm bg-white/10 text-white hover:bg-white/20"
+            >
+              Apart
+            </button>
+          </div>
+          {pairs.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {pairs.map(pair => (
+                <span key={pair.playerIds.join('_')} className="flex items-center px-3 py-1 bg-white/10 rounded-full text-xs text-white">
+                  {getName(pair.playerIds[0])} {pair.type === 'together' ? 'with' : 'not with'} {getName(pair.playerIds[1])}
+                  <button
+                    type="button"
+                    onClick={() => setPairs(pairs.filter(p => p !== pair))}
+                    className="ml-2 text-purple-300 hover:text-red-300"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {tooMany && (
+        <div className="flex items-start space-x-2 bg-red-500/20 rounded-xl p-3 border border-red-400/30">
+          <AlertCircle className="w-5 h-5 text-red-300 mt-0.5 flex-shrink-0" />
+          <p className="text-red-200 text-sm">
+            {playing.length} players is more than two sides of {playersPerTeam}.
+          </p>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handlePropose}
+        disabled={playing.length < 2 || tooMany}
+        className="w-full py-2 rounded-lg bg-purple-600 text-white font-medium hover:bg-purple-700 disabled:opacity-50 transition-colors"
+      >
+        <Shuffle className="w-4 h-4 inline mr-2" />
+        Propose Sides
+      </button>
+
+      {sides && balance && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-purple-200 flex items-center">
+              <ArrowLeftRight className="w-4 h-4 mr-2" />
+              Tap a player on each side to swap them
+            </span>
+            <span className={`font-bold ${balance.score >= 90 ? 'text-green-300' : balance.score >= 75 ? 'text-yellow-300' : 'text-red-300'}`}>
+              Balance {balance.score}%
+            </span>
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            {renderSide(team1Name || 'Team 1', sides.team1, balance.team1Rating)}
+            {renderSide(team2Name || 'Team 2', sides.team2, balance.team2Rating)}
+          </div>
+          {balance.issues.map(issue => (
+            <p key={issue} className="text-sm text-yellow-200 flex items-center">
+              <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {issue}
+            </p>
+          ))}
+          <button
+            type="button"
+            onClick={handleApply}
+            className="w-full py-2 rounded-lg bg-green-600 text-white font-medium hover:bg-green-700 transition-colors"
+          >
+            <Check className="w-4 h-4 inline mr-2" />
+            Use These Sides
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
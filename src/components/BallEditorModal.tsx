@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { X, Trash2, PlusCircle, Save } from 'lucide-react';
+import { Match, Ball, Player, WicketType } from '../types/cricket';
+import { CricketEngine, FREE_HIT_DISMISSALS } from '../services/cricketEngine';
+import { MatchReducer } from '../services/matchReducer';
+
+type ExtraType = 'none' | 'wide' | 'noBall' | 'bye' | 'legBye';
+
+interface BallEditorModalProps {
+  match: Match;
+  ball: Ball;
+  mode: 'edit' | 'insert';
+  onSave: (ball: Ball, incoming?: Player) => void; // incoming: who came in after the batter it gets out
+  onDelete?: () => void;
+  onInsertBefore?: () => void;
+  onClose: () => void;
+}
+
+const dismissalOptions: { type: WicketType; label: string }[] = [
+  { type: 'bowled', label: 'Bowled' },
+  { type: 'caught', label: 'Caught' },
+  { type: 'lbw', label: 'LBW' },
+  { type: 'run_out', label: 'Run Out' },
+  { type: 'stumped', label: 'Stumped' },
+  { type: 'hit_wicket', label: 'Hit Wicket' }
+];
+
+const extraOptions: { type: ExtraType; label: string }[] = [
+  { type: 'none', label: 'None' },
+  { type: 'wide', label: 'Wide' },
+  { type: 'noBall', label: 'No Ball' },
+  { type: 'bye', label: 'Bye' },
+  { type: 'legBye', label: 'Leg Bye' }
+];
+
+const getExtraType = (ball: Ball): ExtraType => {
+  if (ball.isWide) return 'wide';
+  if (ball.isNoBall) return 'noBall';
+  if (ball.isBye) return 'bye';
+  if (ball.isLegBye) return 'legBye';
+  return 'none';
+};
+
+// Correct a delivery already scored, or fill in one the scorer missed. The
+// match is replayed from the log once the change is saved.
+export const BallEditorModal: React.FC<BallEditorModalProps> = ({
+  match,
+  ball,
+  mode,
+  onSave,
+  onDelete,
+  onInsertBefore,
+  onClose
+}) => {
+  const [extraType, setExtraType] = useState<ExtraType>(mode === 'insert' ? 'none' : getExtraType(ball));
+  const [runsTaken, setRunsTaken] = useState(mode === 'insert' ? 0 : CricketEngine.getRunsTaken(ball, match));
+  const [isWicket, setIsWicket] = useState(mode === 'insert' ? false : ball.isWicket);
+  const [wicketType, setWicketType] = useState<WicketType>(
+    mode === 'edit' && ball.wicketType && ball.wicketType !== 'retired_out' ? ball.wicketType : 'bowled'
+  );
+  const [runOutEnd, setRunOutEnd] = useState<'striker' | 'nonStriker'>(
+    mode === 'edit' && ball.dismissedPlayer && ball.dismissedPlayer.id === ball.nonStriker.id && ball.nonStriker.id !== ball.striker.id ? 'nonStriker' : 'striker'
+  );
+  const [fielder, setFielder] = useState<Player | undefined>(mode === 'insert' ? undefined : ball.fielder);
+  const [incomingId, setIncomingId] = useState('');
+  // A missed ball starts blank rather than from the delivery after it
+  const [base] = useState<Ball>(() => (mode === 'insert' ? MatchReducer.createMissedBall(match, ball) : ball));
+
+  // The fielding side is whichever team the bowler plays for
+  const fieldingTeam = [match.team1, match.team2].find(t => t.players.some(p => p.id === ball.bowler.id));
+  const fielders = fieldingTeam?.players || [ball.bowler];
+  const hasNonStriker = ball.nonStriker.id !== ball.striker.id;
+  const allowedDismissals = ball.isFreeHit && mode === 'edit'
+    ? dismissalOptions.filter(o => FREE_HIT_DISMISSALS.includes(o.type))
+    : dismissalOptions;
+  const needsFielder = isWicket && (wicketType === 'caught' || wicketType === 'run_out' || wicketType === 'stumped');
+  const runOptions = extraType === 'wide' ? [0, 1, 2, 3, 4] : [0, 1, 2, 3, 4, 5, 6];
+  const overLabel = `${ball.overNumber - 1}.${((ball.ballNumber - 1) % CricketEngine.getBallsPerOver(match)) + 1}`;
+
+  const buildBall = (): Ball => {
+    const runs = runsTaken +
+      (extraType === 'wide' ? CricketEngine.getWideRuns(match) : 0) +
+      (extraType === 'noBall' ? CricketEngine.getNoBallRuns(match) : 0);
+    const type = allowedDismissals.some(o => o.type === wicketType) ? wicketType : allowedDismissals[0].type;
+    const dismissedPlayer = type === 'run_out' && runOutEnd === 'nonStriker' ? ball.nonStriker : ball.striker;
+
+    const updated: Ball = {
+      ...base,
+      runs,
+      batRuns: extraType === 'noBall' ? runsTaken : undefined,
+      isWide: extraType === 'wide',
+      isNoBall: extraType === 'noBall',
+      isBye: extraType === 'bye',
+      isLegBye: extraType === 'legBye',
+      isWicket,
+      wicketType: isWicket ? type : undefined,
+      fielder: isWicket && needsFielder ? fielder : undefined,
+      dismissedPlayer: isWicket ? dismissedPlayer : undefined,
+      // A direction only means something for runs off the bat
+      shotAngle: runsTaken > 0 && (extraType === 'none' || extraType === 'noBall') ? base.shotAngle : undefined
+    };
+    updated.commentary = CricketEngine.getCommentary(updated, match);
+    return updated;
+  };
+
+  // A batter this gets out who is still batting on later balls has to be
+  // replaced there by whoever came in next
+  const updatedBall = buildBall();
+  const needsIncoming = isWicket && MatchReducer.needsIncomingBatter(match, updatedBall, mode === 'insert' ? ball.id : undefined);
+  const battingTeam = [match.team1, match.team2].find(t => t.players.some(p => p.id === ball.striker.id));
+  const innings = CricketEngine.getBallInnings(ball, match);
+  const outIds = [
+    ...match.balls.filter(b => CricketEngine.getBallInnings(b, match) === innings).map(b => CricketEngine.getDismissedPlayer(b)?.id),
+    ...(match.retirements || []).filter(r => r.innings === innings && r.type === 'retired_out').map(r => r.player.id)
+  ];
+  const incomingOptions = (battingTeam?.players || []).filter(p =>
+    p.id !== ball.striker.id && p.id !== ball.nonStriker.id && !outIds.includes(p.id)
+  );
+  const incoming = needsIncoming ? incomingOptions.find(p => p.id === incomingId) : undefined;
+
+  const handleSave = () => {
+    if (needsIncoming && !incoming) return;
+    onSave(updatedBall, incoming);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-2xl w-full max-w-sm max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">
+              {mode === 'insert' ? 'Add Missed Ball' : `Edit Ball ${overLabel}`}
+            </h2>
+            <p className="text-xs text-gray-500">
+              {mode === 'insert' ? `Bowled before ${overLabel} - ` : ''}{ball.bowler.name} to {ball.striker.name}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Extra</div>
+            <div className="grid grid-cols-5 gap-1">
+              {extraOptions.map(option => (
+                <button
+                  key={option.type}
+                  onClick={() => setExtraType(option.type)}
+                  className={`py-2 rounded-lg text-xs font-medium ${
+                    extraType === option.type ? 'bg-orange-500 text-white' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              {extraType === 'none' || extraType === 'noBall' ? 'Runs off the bat' : 'Runs taken'}
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {runOptions.map(runs => (
+                <button
+                  key={runs}
+                  onClick={() => setRunsTaken(runs)}
+                  className={`py-2 rounded-lg text-sm font-bold ${
+                    runsTaken === runs ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {runs}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={isWicket} onChange={e => setIsWicket(e.target.checked)} />
+              <span>Wicket</span>
+            </label>
+            {isWicket && (
+              <div className="mt-2 space-y-3">
+                {ball.isFreeHit && mode === 'edit' && (
+                  <p className="text-xs text-orange-600">Free hit - only a run out counts</p>
+                )}
+                <div className="grid grid-cols-3 gap-1">
+                  {allowedDismissals.map(option => (
+                    <button
+                      key={option.type}
+                      onClick={() => setWicketType(option.type)}
+                      className={`py-2 rounded-lg text-xs font-medium ${
+                        wicketType === option.type ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {wicketType === 'run_out' && hasNonStriker && (
+                  <div className="grid grid-cols-2 gap-1">
+                    {(['striker', 'nonStriker'] as const).map(end => (
+                      <button
+                        key={end}
+                        onClick={() => setRunOutEnd(end)}
+                        className={`py-2 rounded-lg text-xs font-medium ${
+                          runOutEnd === end ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-700'
+                        }`}
+                      >
+                        {end === 'striker' ? ball.striker.name : ball.nonStriker.name} out
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {needsFielder && (
+                  <select
+                    value={fielder?.id || ''}
+                    onChange={e => setFielder(fielders.find(p => p.id === e.target.value))}
+                    className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Fielder (optional)</option>
+                    {fielders.map(player => (
+                      <option key={player.id} value={player.id}>{player.name}</option>
+                    ))}
+                  </select>
+                )}
+
+                {needsIncoming && (
+                  <div>
+                    <p className="text-xs text-orange-600 mb-1">
+                      {CricketEngine.getDismissedPlayer(updatedBall)?.name} bats on later balls - who came in instead?
+                    </p>
+                    <select
+                      value={incomingId}
+                      onChange={e => setIncomingId(e.target.value)}
+                      className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">Incoming batter</option>
+                      {incomingOptions.map(player => (
+                        <option key={player.id} value={player.id}>{player.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Everything scored after this ball is worked out again from the log.
+          </p>
+
+          <div className="space-y-2">
+            <button
+              onClick={handleSave}
+              disabled={needsIncoming && !incoming}
+              className="w-full flex items-center justify-center space-x-2 bg-green-600 text-white py-3 rounded-xl font-semibold hover:bg-green-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{mode === 'insert' ? 'Add Ball' : 'Save Changes'}</span>
+            </button>
+            {mode === 'edit' && (onInsertBefore || onDelete) && (
+              <div className="grid grid-cols-2 gap-2">
+                {onInsertBefore && (
+                  <button
+                    onClick={onInsertBefore}
+                    className="flex items-center justify-center space-x-1 bg-blue-50 text-blue-700 py-2 rounded-xl text-sm font-medium hover:bg-blue-100"
+                  >
+                    <PlusCircle className="w-4 h-4" />
+                    <span>Missed ball before</span>
+                  </button>
+                )}
+                {onDelete && (
+                  <button
+                    onClick={onDelete}
+                    className="flex items-center justify-center space-x-1 bg-red-50 text-red-700 py-2 rounded-xl text-sm font-medium hover:bg-red-100"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span>Delete ball</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,41 +1,31 @@
 import React from 'react';
 import { Match } from '../types/cricket';
 import { CricketEngine } from '../services/cricketEngine';
+import { MatchAnalytics } from '../services/matchAnalytics';
 
 interface CompactScoreDisplayProps {
   match: Match;
 }
 
 export const CompactScoreDisplay: React.FC<CompactScoreDisplayProps> = ({ match }) => {
-  const formatOvers = (balls: number): string => {
-    const overs = Math.floor(balls / 6);
-    const remainingBalls = balls % 6;
-    return `${overs}.${remainingBalls}`;
-  };
+  const ballsPerOver = CricketEngine.getBallsPerOver(match);
+  const legalBalls = CricketEngine.getLegalBalls(match.battingTeam, match);
+  const chase = MatchAnalytics.getChase(match);
+  const projections = MatchAnalytics.getProjections(match);
+  const interruptions = match.interruptions || [];
+  const isFreeHit = !match.isCompleted && CricketEngine.isFreeHitDue(match);
+  // Player figures during a Super Over count only Super Over balls
+  const scoredBalls = CricketEngine.getCurrentSuperOver(match)?.balls || match.balls;
 
-  const calculateRunRate = (runs: number, balls: number): string => {
-    if (balls === 0) return '0.00';
-    return ((runs / balls) * 6).toFixed(2);
-  };
+  const formatOvers = (balls: number): string => CricketEngine.formatOvers(balls, ballsPerOver);
 
-  const calculateRequiredRate = (): string | null => {
-    if (!match.isSecondInnings) return null;
-    
-    const target = match.firstInningsScore + 1;
-    const remaining = target - match.battingTeam.score;
-    const ballsLeft = (match.totalOvers * 6) - (match.battingTeam.overs * 6 + match.battingTeam.balls);
-    
-    if (ballsLeft <= 0) return '0.00';
-    return ((remaining / ballsLeft) * 6).toFixed(2);
-  };
+  const calculateRunRate = (runs: number, balls: number): string =>
+    CricketEngine.calculateRunRate(runs, balls, ballsPerOver);
 
   const calculatePartnership = () => {
     if (!match.currentStriker || !match.currentNonStriker) return { runs: 0, balls: 0 };
     // Only use balls from the current innings
-    const currentInningsBalls = match.balls.filter(ball =>
-      (!match.isSecondInnings && (ball.innings === 1 || !ball.innings)) ||
-      (match.isSecondInnings && ball.innings === 2)
-    );
+    const currentInningsBalls = CricketEngine.getCurrentInningsBalls(match);
     // Find when current partnership started (last wicket or start of innings)
     const lastWicketIndex = currentInningsBalls.map((ball, index) => ball.isWicket ? index : -1)
       .filter(index => index !== -1)
@@ -47,36 +37,30 @@ export const CompactScoreDisplay: React.FC<CompactScoreDisplayProps> = ({ match
   };
 
   const calculateBatsmanStats = (player: any) => {
-    const playerBalls = match.balls.filter(b => b.striker.id === player.id);
-    const runs = playerBalls.reduce((sum, ball) => {
-      if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-        return sum + ball.runs;
-      }
-      return sum;
-    }, 0);
-    const ballsFaced = playerBalls.filter(b => !b.isWide && !b.isNoBall).length;
-    const fours = playerBalls.filter(b => b.runs === 4).length;
-    const sixes = playerBalls.filter(b => b.runs === 6).length;
+    const playerBalls = scoredBalls.filter(b => b.striker.id === player.id);
+    const runs = playerBalls.reduce((sum, ball) => sum + CricketEngine.getBatRuns(ball), 0);
+    const ballsFaced = playerBalls.filter(b => CricketEngine.isBallFaced(b)).length;
+    const fours = playerBalls.filter(b => CricketEngine.getBatRuns(b) === 4).length;
+    const sixes = playerBalls.filter(b => CricketEngine.getBatRuns(b) === 6).length;
     const strikeRate = ballsFaced > 0 ? ((runs / ballsFaced) * 100).toFixed(2) : '0.00';
 
     return { runs, ballsFaced, fours, sixes, strikeRate };
   };
 
   const calculateBowlerStats = (player: any) => {
-    const bowlerBalls = match.balls.filter(b => b.bowler.id === player.id);
-    const runs = bowlerBalls.reduce((sum, ball) => sum + ball.runs, 0);
+    const bowlerBalls = scoredBalls.filter(b => b.bowler.id === player.id);
+    const runs = bowlerBalls.reduce((sum, ball) => sum + CricketEngine.getBowlerRuns(ball), 0);
     const ballsBowled = bowlerBalls.filter(b => !b.isWide && !b.isNoBall).length;
     const wickets = bowlerBalls.filter(b => b.isWicket && b.wicketType !== 'run_out').length;
     const maidens = 0; // Calculate maiden overs if needed
-    const economy = ballsBowled > 0 ? ((runs / ballsBowled) * 6).toFixed(2) : '0.00';
-    const overs = Math.floor(ballsBowled / 6);
-    const remainingBalls = ballsBowled % 6;
+    const economy = CricketEngine.calculateRunRate(runs, ballsBowled, ballsPerOver);
+    const overs = Math.floor(ballsBowled / ballsPerOver);
+    const remainingBalls = ballsBowled % ballsPerOver;
 
     return { runs, ballsBowled, wickets, maidens, economy, overs, remainingBalls };
   };
 
-  const requiredRate = calculateRequiredRate();
-  const currentRate = calculateRunRate(match.battingTeam.score, match.battingTeam.overs * 6 + match.battingTeam.balls);
+  const currentRate = calculateRunRate(match.battingTeam.score, legalBalls);
   const partnership = calculatePartnership();
 
   // Get current player stats
@@ -109,6 +93,16 @@ export const CompactScoreDisplay: React.FC<CompactScoreDisplayProps> = ({ match
       {/* Team Name */}
       <div className="text-2xl font-bold text-gray-900 mb-1">
         {match.battingTeam.name}
+        {match.isSuperOver && (
+          <span className="ml-2 align-middle text-xs font-semibold bg-purple-100 text-purple-700 px-2 py-1 rounded">
+            SUPER OVER
+          </span>
+        )}
+        {isFreeHit && (
+          <span className="ml-2 align-middle text-xs font-semibold bg-orange-100 text-orange-700 px-2 py-1 rounded animate-pulse">
+            FREE HIT
+          </span>
+        )}
       </div>
 
       {/* Main Score */}
@@ -123,7 +117,7 @@ export const CompactScoreDisplay: React.FC<CompactScoreDisplayProps> = ({ match
           {match.battingTeam.wickets}
         </div>
         <div className="text-2xl text-gray-600 ml-2">
-          ({formatOvers(match.battingTeam.overs * 6 + match.battingTeam.balls)})
+          ({formatOvers(legalBalls)})
         </div>
       </div>
 
@@ -137,9 +131,9 @@ export const CompactScoreDisplay: React.FC<CompactScoreDisplayProps> = ({ match
             <span className="font-medium">P'SHIP</span> {partnership.runs}({partnership.balls})
           </div>
         )}
-        {requiredRate && (
+        {chase && (
           <div>
-            <span className="font-medium">RRR</span> {requiredRate}
+            <span className="font-medium">RRR</span> {MatchAnalytics.formatRate(chase.requiredRate)}
           </div>
         )}
         <div className="ml-auto">
@@ -148,12 +142,49 @@ export const CompactScoreDisplay: React.FC<CompactScoreDisplayProps> = ({ match
       </div>
 
       {/* Target Display for Second Innings */}
-      {match.isSecondInnings && (
+      {chase && (
         <div className="bg-orange-50 rounded-lg p-3 mb-6 text-center">
           <div className="text-sm text-orange-700">
-            Target: {match.firstInningsScore + 1} • Need {match.firstInningsScore + 1 - match.battingTeam.score} runs from{' '}
-            {(match.totalOvers * 6) - (match.battingTeam.overs * 6 + match.battingTeam.balls)} balls
+            {chase.isRevised ? 'Revised target' : 'Target'}: {chase.target} • {MatchAnalytics.describeChase(chase)}
           </div>
+          {chase.parScore !== null && !match.isCompleted && (
+            <div className="text-xs text-orange-600 mt-1">
+              {chase.isRevised ? 'DLS par' : 'Par'} at {match.battingTeam.wickets} down: {chase.parScore} •{' '}
+              {match.battingTeam.score === chase.parScore
+                ? 'Level'
+                : `${match.battingTeam.score > chase.parScore ? 'Ahead' : 'Behind'} by ${Math.abs(match.battingTeam.score - chase.parScore)}`}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Projected Scores */}
+      {projections.length > 0 && (
+        <div className="bg-blue-50 rounded-lg p-3 mb-6">
+          <div className="text-xs font-medium text-blue-700 mb-2 text-center">Projected score</div>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            {projections.map(projection => (
+              <div key={projection.label}>
+                <div className="text-lg font-bold text-blue-800">{projection.total}</div>
+                <div className="text-xs text-blue-600">
+                  {projection.label} ({MatchAnalytics.formatRate(projection.runRate)})
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Interruptions */}
+      {interruptions.length > 0 && !match.isSuperOver && (
+        <div className="bg-sky-50 rounded-lg p-3 mb-6 text-xs text-sky-700 space-y-1">
+          {interruptions.map(interruption => (
+            <div key={interruption.timestamp}>
+              {interruption.reason === 'bad_light' ? 'Bad light' : interruption.reason === 'rain' ? 'Rain' : 'Interruption'}
+              {' '}at {formatOvers(interruption.legalBalls)} ({interruption.innings === 1 ? '1st' : '2nd'} inns):
+              {' '}{interruption.oversBefore} → {interruption.oversAfter} overs
+            </div>
+          ))}
         </div>
       )}
 
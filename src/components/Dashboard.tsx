@@ -3,10 +3,14 @@ import { Trophy, TrendingUp, Target, Award, Users, Download, Upload, User, Refre
 import { Player, Match } from '../types/cricket';
 import { PlayerDashboard } from './PlayerDashboard';
 import { DetailedScorecardModal } from './DetailedScorecardModal';
+import { ScorecardCorrectionModal } from './ScorecardCorrectionModal';
 import { GroupDashboard } from './GroupDashboard';
 import { storageService } from '../services/storage';
 import { cloudStorageService } from '../services/cloudStorageService';
 import { CricketEngine } from '../services/cricketEngine';
+import { MatchReducer } from '../services/matchReducer';
+import { UserStatsService } from '../services/userStatsService';
+import { KnockoutBracket } from '../services/knockoutBracket';
 import { PDFService } from '../services/pdfService';
 import { LiveScorer } from './LiveScorer';
 import { authService } from '../services/authService';
@@ -47,6 +51,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onResumeMatch }) =
   const [showCloudMigration, setShowCloudMigration] = useState(false);
   const [showDeleteMatchModal, setShowDeleteMatchModal] = useState(false);
   const [matchToDelete, setMatchToDelete] = useState<Match | null>(null);
+  const [matchToCorrect, setMatchToCorrect] = useState<Match | null>(null);
+  const [rebuildingStats, setRebuildingStats] = useState(false);
 
   // Mobile detection
   const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
@@ -406,12 +412,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onResumeMatch }) =
       const battingBalls = match.balls.filter(b => b.striker.id === player.id);
       const bowlingBalls = match.balls.filter(b => b.bowler.id === player.id);
       
-      totalRuns += battingBalls.reduce((sum, ball) => {
-        if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-          return sum + ball.runs;
-        }
-        return sum;
-      }, 0);
+      totalRuns += battingBalls.reduce((sum, ball) => sum + CricketEngine.getBatRuns(ball), 0);
       
       totalWickets += bowlingBalls.filter(b => b.isWicket && b.wicketType !== 'run_out').length;
     });
@@ -515,6 +516,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onResumeMatch }) =
       setMatches(matches.filter(m => m.id !== matchToDelete.id));
       setIncompleteMatches(incompleteMatches.filter(m => m.id !== matchToDelete.id));
 
+      // A deleted result no longer counts towards anyone's career stats
+      if (matchToDelete.isCompleted) {
+        await UserStatsService.updateMatchStatistics(matchToDelete);
+      }
+
       // Close modal
       setShowDeleteMatchModal(false);
       setMatchToDelete(null);
@@ -528,6 +534,47 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onResumeMatch }) =
     }
   };
 
+  const handleSaveCorrection = async (match: Match) => {
+    try {
+      console.log('✏️ Saving corrected scorecard:', match.id);
+
+      // A changed result can send a different side through a knockout tie
+      const correctedMatch = await KnockoutBracket.recordResult(match);
+      await storageService.saveMatch(correctedMatch);
+      try {
+        await cloudStorageService.saveMatch(correctedMatch);
+      } catch (error) {
+        console.warn('⚠️ Failed to save correction to cloud:', error);
+      }
+
+      await UserStatsService.updateMatchStatistics(correctedMatch);
+
+      setMatches(matches.map(m => m.id === correctedMatch.id ? correctedMatch : m));
+      setMatchToCorrect(null);
+      console.log('✅ Scorecard corrected and stats rebuilt');
+    } catch (error) {
+      console.error('❌ Failed to save correction:', error);
+      alert('Failed to save the correction. Please try again.');
+    }
+  };
+
+  const handleRebuildStats = async () => {
+    if (!currentGroup) return;
+    if (!confirm(`Rebuild all player statistics for ${currentGroup.name} from its stored matches?`)) return;
+
+    setRebuildingStats(true);
+    try {
+      const rebuilt = await UserStatsService.rebuildGroupStats(currentGroup.id);
+      await loadData();
+      alert(`✅ Statistics rebuilt for ${rebuilt} players`);
+    } catch (error) {
+      console.error('❌ Failed to rebuild stats:', error);
+      alert('Failed to rebuild statistics. Please try again.');
+    } finally {
+      setRebuildingStats(false);
+    }
+  };
+
   const handleShowDebugInfo = async () => {
     if (!currentUser) return;
     
@@ -663,7 +710,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onResumeMatch }) =
           <h1 className="text-2xl font-bold text-gray-900">
             {currentGroup?.name} - Player Statistics
           </h1>
-          <div className="w-32"></div>
+          {currentGroup && authService.canUserManageGroup(currentGroup.id) ? (
+            <button
+              onClick={handleRebuildStats}
+              disabled={rebuildingStats}
+              className="flex items-center space-x-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-semibold disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${rebuildingStats ? 'animate-spin' : ''}`} />
+              <span>{rebuildingStats ? 'Rebuilding...' : 'Rebuild Stats'}</span>
+            </button>
+          ) : (
+            <div className="w-32"></div>
+          )}
         </div>
 
         {/* Search Bar */}
@@ -1031,6 +1089,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onResumeMatch }) =
                       >
                         View Scorecard
                       </button>
+                      {match.isCompleted && MatchReducer.canEditBalls(match) && currentGroup && authService.canUserManageGroup(currentGroup.id) && (
+                        <button
+                          className="px-3 py-1 bg-orange-500 text-white rounded hover:bg-orange-600 text-sm font-semibold"
+                          onClick={() => setMatchToCorrect(match)}
+                        >
+                          Correct
+                        </button>
+                      )}
                       {!match.isCompleted && (
                         <button
                           className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-sm font-semibold"
@@ -1137,6 +1203,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onResumeMatch }) =
         />
       )}
 
+      {matchToCorrect && (
+        <ScorecardCorrectionModal
+          match={matchToCorrect}
+          onSave={handleSaveCorrection}
+          onClose={() => setMatchToCorrect(null)}
+        />
+      )}
+
       {showCloudMigration && (
         <CloudMigrationStatus
           onClose={() => setShowCloudMigration(false)}
@@ -1,57 +1,53 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { X, Trophy, Award, TrendingUp, Target, User } from 'lucide-react';
-import { Match, Player } from '../types/cricket';
+import { Match, Player, Ball, SuperOverInnings } from '../types/cricket';
 import { CricketEngine } from '../services/cricketEngine';
+import { WagonWheel } from '../services/wagonWheel';
+import { InningsAnalytics } from '../services/inningsAnalytics';
+import { TeamService } from '../services/teamService';
+import { WagonWheelChart } from './WagonWheelChart';
+import { MatchProgressCharts } from './MatchProgressCharts';
+import { WinProbabilityChart } from './WinProbabilityChart';
+import { WinProbability, DEFAULT_WIN_MODEL } from '../services/winProbability';
 
 interface DetailedScorecardModalProps {
   match: Match;
   isOpen: boolean;
   onClose: () => void;
+  onEditBall?: (ball: Ball) => void; // Makes the ball-by-ball chips tappable for corrections
 }
 
 export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
   match,
   isOpen,
-  onClose
+  onClose,
+  onEditBall
 }) => {
+  const [winModel, setWinModel] = useState(DEFAULT_WIN_MODEL);
+
+  useEffect(() => {
+    if (!isOpen || !WinProbability.isSupported(match)) return;
+    let cancelled = false;
+    WinProbability.loadModel(match).then(model => {
+      if (!cancelled) setWinModel(model);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, match.id]);
+
   if (!isOpen) return null;
 
-  // Helper method to get correct team for each innings based on toss
-  const getInningsTeams = (innings: number) => {
-    // Determine who batted first based on toss
-    const tossWinnerBattedFirst = match.tossDecision === 'bat';
-    const team1WonToss = match.tossWinner === match.team1.name;
-    
-    let firstInningsBattingTeam, firstInningsBowlingTeam;
-    
-    if ((team1WonToss && tossWinnerBattedFirst) || (!team1WonToss && !tossWinnerBattedFirst)) {
-      // Team 1 batted first
-      firstInningsBattingTeam = match.team1;
-      firstInningsBowlingTeam = match.team2;
-    } else {
-      // Team 2 batted first
-      firstInningsBattingTeam = match.team2;
-      firstInningsBowlingTeam = match.team1;
-    }
-    
-    if (innings === 1) {
-      return {
-        battingTeam: firstInningsBattingTeam,
-        bowlingTeam: firstInningsBowlingTeam
-      };
-    } else {
-      return {
-        battingTeam: firstInningsBowlingTeam,
-        bowlingTeam: firstInningsBattingTeam
-      };
-    }
-  };
+  const ballsPerOver = CricketEngine.getBallsPerOver(match);
+
+  const getInningsTeams = (innings: number) => CricketEngine.getInningsTeams(match, innings);
 
   const calculateBattingStats = (player: Player, innings: number) => {
     const { battingTeam } = getInningsTeams(innings);
     const battingBalls = match.balls.filter(b => 
       b.striker.id === player.id && 
-      battingTeam.players.some(p => p.id === player.id)
+      battingTeam.players.some(p => p.id === player.id) &&
+      CricketEngine.getBallInnings(b, match) === innings
     );
     
     let runs = 0;
@@ -61,17 +57,21 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
     let gotOut = false;
 
     battingBalls.forEach(ball => {
-      if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-        runs += ball.runs;
-      }
-      if (!ball.isWide && !ball.isNoBall) {
+      const batRuns = CricketEngine.getBatRuns(ball);
+      runs += batRuns;
+      if (CricketEngine.isBallFaced(ball)) {
         balls++;
       }
-      if (ball.runs === 4) fours++;
-      if (ball.runs === 6) sixes++;
-      if (ball.isWicket && ball.striker.id === player.id) gotOut = true;
+      if (batRuns === 4) fours++;
+      if (batRuns === 6) sixes++;
     });
 
+    const wicketBall = getWicketBall(player, innings);
+    const retirement = wicketBall ? undefined : CricketEngine.getActiveRetirement(match, player.id, innings);
+    // Retired out counts as out; retired hurt stays not out but still appears on the card
+    gotOut = !!wicketBall || retirement?.type === 'retired_out';
+    const retired = !!retirement;
+
     const strikeRate = balls > 0 ? ((runs / balls) * 100).toFixed(1) : '0.0';
 
     return {
@@ -80,6 +80,7 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
       fours,
       sixes,
       gotOut,
+      retired,
       strikeRate
     };
   };
@@ -88,7 +89,8 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
     const { bowlingTeam } = getInningsTeams(innings);
     const bowlingBalls = match.balls.filter(b => 
       b.bowler.id === player.id && 
-      bowlingTeam.players.some(p => p.id === player.id)
+      bowlingTeam.players.some(p => p.id === player.id) &&
+      CricketEngine.getBallInnings(b, match) === innings
     );
     
     let wickets = 0;
@@ -108,7 +110,7 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
       if (ball.isWicket && ball.wicketType !== 'run_out') {
         wickets++;
       }
-      runs += ball.runs;
+      runs += CricketEngine.getBowlerRuns(ball);
       if (ball.isWide) wides++;
       if (ball.isNoBall) noBalls++;
 
@@ -117,7 +119,7 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
         oversMap.set(ball.overNumber, { runs: 0, balls: 0 });
       }
       const overStats = oversMap.get(ball.overNumber)!;
-      overStats.runs += ball.runs;
+      overStats.runs += CricketEngine.getBowlerRuns(ball);
       if (!ball.isWide && !ball.isNoBall) {
         overStats.balls++;
       }
@@ -125,16 +127,15 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
 
     // Count maiden overs
     oversMap.forEach(overStat => {
-      if (overStat.balls === 6 && overStat.runs === 0) {
+      if (overStat.balls === ballsPerOver && overStat.runs === 0) {
         maidens++;
       }
     });
 
-    const overs = Math.floor(balls / 6) + (balls % 6) / 10;
-    const economy = overs > 0 ? (runs / overs).toFixed(2) : '0.00';
+    const economy = CricketEngine.calculateRunRate(runs, balls, ballsPerOver);
 
     return {
-      overs: overs.toFixed(1),
+      overs: CricketEngine.formatOvers(balls, ballsPerOver),
       maidens,
       wickets,
       runs,
@@ -144,48 +145,376 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
     };
   };
 
-  const getDismissalInfo = (player: Player, innings: number) => {
+  const getWicketBall = (player: Player, innings: number) => {
     const { battingTeam } = getInningsTeams(innings);
-    const wicketBall = match.balls.find(b => 
-      b.isWicket && 
-      b.striker.id === player.id && 
-      battingTeam.players.some(p => p.id === player.id)
+    return match.balls.find(b => 
+      CricketEngine.getDismissedPlayer(b)?.id === player.id && 
+      battingTeam.players.some(p => p.id === player.id) &&
+      CricketEngine.getBallInnings(b, match) === innings
     );
-    
-    if (wicketBall) {
-      let info = '';
-      if (wicketBall.wicketType === 'caught' && wicketBall.fielder) {
-        info = `c ${wicketBall.fielder.name} b ${wicketBall.bowler.name}`;
-      } else if (wicketBall.wicketType === 'bowled') {
-        info = `b ${wicketBall.bowler.name}`;
-      } else if (wicketBall.wicketType === 'lbw') {
-        info = `lbw b ${wicketBall.bowler.name}`;
-      } else if (wicketBall.wicketType === 'run_out') {
-        info = wicketBall.fielder ? `run out (${wicketBall.fielder.name})` : 'run out';
-      } else if (wicketBall.wicketType === 'stumped') {
-        info = `st ${wicketBall.fielder?.name || 'wk'} b ${wicketBall.bowler.name}`;
-      } else if (wicketBall.wicketType === 'hit_wicket') {
-        info = `hit wicket b ${wicketBall.bowler.name}`;
-      } else {
-        info = `${wicketBall.wicketType} b ${wicketBall.bowler.name}`;
-      }
-      return info;
-    }
+  };
+
+  const getDismissalInfo = (player: Player, innings: number) => {
+    const wicketBall = getWicketBall(player, innings);
+    if (wicketBall) return describeDismissal(wicketBall);
+    const retirement = CricketEngine.getActiveRetirement(match, player.id, innings);
+    if (retirement) return retirement.type === 'retired_hurt' ? 'retired hurt' : 'retired out';
     return 'not out';
   };
 
+  const describeDismissal = (wicketBall: Ball) => {
+    let info = '';
+    if (wicketBall.wicketType === 'caught' && wicketBall.fielder) {
+      info = `c ${wicketBall.fielder.name} b ${wicketBall.bowler.name}`;
+    } else if (wicketBall.wicketType === 'bowled') {
+      info = `b ${wicketBall.bowler.name}`;
+    } else if (wicketBall.wicketType === 'lbw') {
+      info = `lbw b ${wicketBall.bowler.name}`;
+    } else if (wicketBall.wicketType === 'run_out') {
+      info = wicketBall.fielder ? `run out (${wicketBall.fielder.name})` : 'run out';
+    } else if (wicketBall.wicketType === 'stumped') {
+      info = `st ${wicketBall.fielder?.name || 'wk'} b ${wicketBall.bowler.name}`;
+    } else if (wicketBall.wicketType === 'hit_wicket') {
+      info = `hit wicket b ${wicketBall.bowler.name}`;
+    } else if (wicketBall.wicketType === 'retired_out') {
+      info = 'retired out';
+    } else {
+      info = `${wicketBall.wicketType} b ${wicketBall.bowler.name}`;
+    }
+    return info;
+  };
+
+  // Super Over figures come from that innings' own balls
+  const getSuperOverBatting = (superOver: SuperOverInnings) => {
+    return superOver.battingTeam.players.map(player => {
+      const faced = superOver.balls.filter(b => b.striker.id === player.id);
+      const wicketBall = superOver.balls.find(b => CricketEngine.getDismissedPlayer(b)?.id === player.id);
+      return {
+        player,
+        runs: faced.reduce((sum, b) => sum + CricketEngine.getBatRuns(b), 0),
+        balls: faced.filter(b => CricketEngine.isBallFaced(b)).length,
+        dismissal: wicketBall ? describeDismissal(wicketBall) : 'not out',
+        batted: faced.length > 0 || !!wicketBall
+      };
+    }).filter(entry => entry.batted);
+  };
+
+  const getSuperOverBowling = (superOver: SuperOverInnings) => {
+    return superOver.bowlingTeam.players.map(player => {
+      const bowled = superOver.balls.filter(b => b.bowler.id === player.id);
+      return {
+        player,
+        overs: CricketEngine.formatOvers(bowled.filter(b => !b.isWide && !b.isNoBall).length, ballsPerOver),
+        runs: bowled.reduce((sum, b) => sum + CricketEngine.getBowlerRuns(b), 0),
+        wickets: bowled.filter(b => b.isWicket && b.wicketType !== 'run_out').length,
+        bowledAny: bowled.length > 0
+      };
+    }).filter(entry => entry.bowledAny);
+  };
+
   // Get match result
   const matchResult = CricketEngine.getMatchResult(match);
 
-  // Get teams for each innings
-  const firstInnings = getInningsTeams(1);
-  const secondInnings = getInningsTeams(2);
+  // Both innings of a one-innings match; a two-innings match shows those played so far
+  const inningsNumbers = InningsAnalytics.getInningsNumbers(match);
+
+  const getInningsTarget = (innings: number): number | null => {
+    if (!CricketEngine.isMultiInnings(match)) {
+      return innings === 2 && match.firstInningsScore ? CricketEngine.getRevisedTarget(match, match.firstInningsScore) : null;
+    }
+    return innings === CricketEngine.getTotalInnings(match) && CricketEngine.isFinalInnings(match)
+      ? CricketEngine.getTarget(match)
+      : null;
+  };
+
+  // Short label for a delivery, e.g. "4", "W", "1wd", "2nb", "1lb"
+  const getBallLabel = (ball: Ball): string => {
+    if (ball.isWicket) return ball.runs > 0 ? `W+${ball.runs}` : 'W';
+    if (ball.isWide) return `${ball.runs}wd`;
+    if (ball.isNoBall) return `${ball.runs}nb`;
+    if (ball.isBye) return `${ball.runs}b`;
+    if (ball.isLegBye) return `${ball.runs}lb`;
+    return ball.runs === 0 ? '•' : `${ball.runs}`;
+  };
 
-  // Calculate run rates
-  const firstInningsRunRate = firstInnings.battingTeam.overs > 0 ? 
-    ((firstInnings.battingTeam.score / (firstInnings.battingTeam.overs + firstInnings.battingTeam.balls / 6))).toFixed(2) : '0.00';
-  const secondInningsRunRate = secondInnings.battingTeam.overs > 0 ? 
-    ((secondInnings.battingTeam.score / (secondInnings.battingTeam.overs + secondInnings.battingTeam.balls / 6))).toFixed(2) : '0.00';
+  const getBallChipColor = (ball: Ball): string => {
+    if (ball.isWicket) return 'bg-red-500 text-white';
+    if (ball.isWide || ball.isNoBall || ball.isBye || ball.isLegBye) return 'bg-yellow-100 text-yellow-800';
+    if (ball.runs === 6) return 'bg-purple-500 text-white';
+    if (ball.runs === 4) return 'bg-blue-500 text-white';
+    return 'bg-gray-100 text-gray-700';
+  };
+
+  // Deliveries of one innings, over by over
+  const getOversTimeline = (innings: number): { over: number; balls: Ball[] }[] => {
+    const overs = new Map<number, Ball[]>();
+    match.balls
+      .filter(b => CricketEngine.getBallInnings(b, match) === innings)
+      .forEach(ball => {
+        overs.set(ball.overNumber, [...(overs.get(ball.overNumber) || []), ball]);
+      });
+    return Array.from(overs.entries()).map(([over, balls]) => ({ over, balls }));
+  };
+
+  // Batters of one innings with their deliveries, for those with shot directions
+  const getWagonWheels = (innings: number): { player: Player; balls: Ball[] }[] => {
+    const inningsBalls = match.balls.filter(b => CricketEngine.getBallInnings(b, match) === innings);
+    return getInningsTeams(innings).battingTeam.players
+      .map(player => ({ player, balls: inningsBalls.filter(b => b.striker.id === player.id) }))
+      .filter(entry => WagonWheel.getShots(entry.balls).length > 0);
+  };
+
+  // Batting, extras, fall of wickets and bowling for one innings
+  const renderInnings = (innings: number) => {
+    const teams = CricketEngine.getInningsTeams(match, innings);
+    const fallOfWickets = InningsAnalytics.getFallOfWickets(match, innings);
+    const lineup = InningsAnalytics.getBattingLineup(match, innings);
+    const partnerships = InningsAnalytics.getPartnerships(match, innings);
+    const spells = InningsAnalytics.getBowlerSpells(match, innings);
+    const phases = InningsAnalytics.getPhaseSplits(match, innings).filter(phase => phase.legalBalls > 0);
+    const target = getInningsTarget(innings);
+    const runRate = CricketEngine.calculateRunRate(
+      teams.battingTeam.score, CricketEngine.getLegalBalls(teams.battingTeam, match), ballsPerOver);
+
+    return (
+      <div key={innings} className="mb-8">
+        <div className={`bg-gradient-to-r ${innings % 2 === 1 ? 'from-blue-500 to-blue-600' : 'from-orange-500 to-red-500'} text-white p-4 rounded-t-lg`}>
+          <div className="flex justify-between items-center">
+            <h3 className="text-xl font-bold">
+              {teams.battingTeam.name} - {CricketEngine.formatInnings(innings)} Innings
+              {innings === 3 && match.followOnEnforced && ' (following on)'}
+            </h3>
+            <div className="text-right">
+              <div className="text-2xl font-bold">
+                {teams.battingTeam.score}-{teams.battingTeam.wickets}{CricketEngine.isDeclared(match, innings) && ' d'}
+              </div>
+              <div className="text-sm">({teams.battingTeam.overs}.{teams.battingTeam.balls} overs, RR: {runRate})</div>
+            </div>
+          </div>
+          {target !== null && (
+            <div className="mt-2 text-sm opacity-90">
+              Target: {target} runs
+            </div>
+          )}
+        </div>
+            
+        <div className="bg-white rounded-b-lg shadow-sm overflow-hidden">
+          {/* Batting Table */}
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Batsman</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-500">Dismissal</th>
+                  <th className="px-4 py-3 text-right font-semibold text-gray-500">R</th>
+                  <th className="px-4 py-3 text-right font-semibold text-gray-500">B</th>
+                  <th className="px-4 py-3 text-right font-semibold text-gray-500">4s</th>
+                  <th className="px-4 py-3 text-right font-semibold text-gray-500">6s</th>
+                  <th className="px-4 py-3 text-right font-semibold text-gray-500">SR</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lineup.batted.map(player => {
+                  const stats = calculateBattingStats(player, innings);
+                  return (
+                    <tr key={player.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-semibold text-gray-900">
+                        {player.name}{TeamService.getRoleMarker(teams.battingTeam, player.id)}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600 text-sm">{getDismissalInfo(player, innings)}</td>
+                      <td className="px-4 py-3 text-right font-bold">{stats.runs}</td>
+                      <td className="px-4 py-3 text-right">{stats.balls}</td>
+                      <td className="px-4 py-3 text-right">{stats.fours}</td>
+                      <td className="px-4 py-3 text-right">{stats.sixes}</td>
+                      <td className="px-4 py-3 text-right">{stats.strikeRate}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Did Not Bat */}
+          {lineup.didNotBat.length > 0 && (
+            <div className="px-4 py-3 border-t text-sm text-gray-600">
+              <span className="font-semibold text-gray-700">Did not bat: </span>
+              {lineup.didNotBat.map(player => `${player.name}${TeamService.getRoleMarker(teams.battingTeam, player.id)}`).join(', ')}
+            </div>
+          )}
+
+          {/* Extras and Total */}
+          <div className="p-4 bg-gray-50 border-t">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-gray-700">
+                Extras: (B {teams.battingTeam.extras.byes}, LB {teams.battingTeam.extras.legByes}, W {teams.battingTeam.extras.wides}, NB {teams.battingTeam.extras.noBalls}{teams.battingTeam.extras.penalties ? `, P ${teams.battingTeam.extras.penalties}` : ''})
+              </span>
+              <span className="font-semibold">
+                {CricketEngine.getTotalExtras(teams.battingTeam)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center font-bold text-lg">
+              <span>Total</span>
+              <span>{teams.battingTeam.score}-{teams.battingTeam.wickets} ({teams.battingTeam.overs}.{teams.battingTeam.balls} overs)</span>
+            </div>
+          </div>
+
+          {/* Fall of Wickets */}
+          {fallOfWickets.length > 0 && (
+            <div className="p-4 border-t">
+              <h4 className="font-semibold text-gray-800 mb-2">Fall of Wickets</h4>
+              <div className="text-sm text-gray-600 space-y-1">
+                {fallOfWickets.map((fall, index) => (
+                  <div key={index}>
+                    {fall.wicketNumber}-{fall.score} ({fall.batsman}, {fall.over} ov)
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Partnerships */}
+          {partnerships.length > 0 && (
+            <div className="p-4 border-t">
+              <h4 className="font-semibold text-gray-800 mb-2">Partnerships</h4>
+              <div className="space-y-2">
+                {partnerships.map((partnership, index) => (
+                  <div key={index} className="text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">{InningsAnalytics.getOrdinal(partnership.wicket)} wicket</span>
+                      <span className="font-semibold text-gray-900">
+                        {partnership.runs}{partnership.unbroken && '*'} ({partnership.balls})
+                      </span>
+                    </div>
+                    <div className="text-gray-600">
+                      {partnership.batters.map(b => `${b.player.name} ${b.runs} (${b.balls})`).join(' · ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Bowling Figures */}
+          <div className="p-4 border-t">
+            <h4 className="font-semibold text-gray-800 mb-3">Bowling</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">Bowler</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">O</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">M</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">R</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">W</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">Econ</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {teams.bowlingTeam.players.map(player => {
+                    const stats = calculateBowlingStats(player, innings);
+                    if (parseFloat(stats.overs) === 0) return null;
+                    return (
+                      <tr key={player.id}>
+                        <td className="px-3 py-2 text-sm font-medium text-gray-900">{player.name}</td>
+                        <td className="px-3 py-2 text-right text-sm">{stats.overs}</td>
+                        <td className="px-3 py-2 text-right text-sm">{stats.maidens}</td>
+                        <td className="px-3 py-2 text-right text-sm font-semibold">{stats.runs}</td>
+                        <td className="px-3 py-2 text-right text-sm font-semibold">{stats.wickets}</td>
+                        <td className="px-3 py-2 text-right text-sm">{stats.economy}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Bowling Spells */}
+          {spells.length > 0 && (
+            <div className="p-4 border-t">
+              <h4 className="font-semibold text-gray-800 mb-2">Spells</h4>
+              <div className="text-sm text-gray-600 space-y-1">
+                {spells.map((spell, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span>
+                      {spell.bowler.name}
+                      {spell.spell > 1 && <span className="text-gray-400"> (spell {spell.spell})</span>}
+                      <span className="text-gray-400"> · overs {spell.fromOver}{spell.toOver > spell.fromOver ? `-${spell.toOver}` : ''}</span>
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {spell.overs}-{spell.maidens}-{spell.runs}-{spell.wickets}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Phases */}
+          {phases.length > 0 && (
+            <div className="p-4 border-t">
+              <h4 className="font-semibold text-gray-800 mb-2">Phases</h4>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {phases.map(phase => (
+                  <div key={phase.label} className="bg-gray-50 rounded-lg p-2">
+                    <div className="text-xs text-gray-500">{phase.label} (ov {phase.fromOver}-{phase.toOver})</div>
+                    <div className="font-bold text-gray-900">{phase.runs}-{phase.wickets}</div>
+                    <div className="text-xs text-gray-500">
+                      RR {CricketEngine.calculateRunRate(phase.runs, phase.legalBalls, ballsPerOver)} · {phase.boundaries} boundaries
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Wagon Wheels */}
+          {getWagonWheels(innings).length > 0 && (
+            <div className="p-4 border-t">
+              <h4 className="font-semibold text-gray-800 mb-3">Wagon Wheels</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                {getWagonWheels(innings).map(({ player, balls }) => (
+                  <WagonWheelChart key={player.id} balls={balls} size={140} title={player.name} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Ball by Ball */}
+          {getOversTimeline(innings).length > 0 && (
+            <div className="p-4 border-t">
+              <h4 className="font-semibold text-gray-800 mb-1">Ball by Ball</h4>
+              {onEditBall && (
+                <p className="text-xs text-gray-500 mb-2">Tap a ball to correct it</p>
+              )}
+              <div className="space-y-2">
+                {getOversTimeline(innings).map(({ over, balls }) => (
+                  <div key={over} className="flex items-center space-x-2">
+                    <span className="text-xs font-medium text-gray-500 w-12 shrink-0">Over {over}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {balls.map(ball => (
+                        <button
+                          key={ball.id}
+                          onClick={onEditBall ? () => onEditBall(ball) : undefined}
+                          disabled={!onEditBall}
+                          title={ball.commentary}
+                          className={`min-w-[2rem] px-1.5 py-1 rounded-full text-xs font-semibold ${getBallChipColor(ball)} ${
+                            onEditBall ? 'hover:ring-2 hover:ring-green-400 cursor-pointer' : 'cursor-default'
+                          }`}
+                        >
+                          {getBallLabel(ball)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4">
@@ -199,7 +528,10 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
                 {matchResult}
               </div>
               <div className="text-sm opacity-90">
-                {new Date(match.startTime).toLocaleDateString()} • {match.totalOvers} overs per side
+                {new Date(match.startTime).toLocaleDateString()} • {CricketEngine.isMultiInnings(match)
+                  ? `Two innings per side, ${match.totalOvers} overs per innings`
+                  : `${match.totalOvers} overs per side`}
+                {ballsPerOver !== 6 && ` (${ballsPerOver}-ball overs)`}
               </div>
             </div>
             <button
@@ -217,242 +549,80 @@ export const DetailedScorecardModal: React.FC<DetailedScorecardModalProps> = ({
               <span className="font-semibold">Man of the Match: {match.manOfTheMatch.name}</span>
             </div>
           )}
-        </div>
 
-        {/* Content */}
-        <div className="overflow-y-auto max-h-[calc(90vh-200px)] p-6 bg-gray-50">
-          {/* First Innings */}
-          <div className="mb-8">
-            <div className="bg-gradient-to-r from-blue-500 to-blue-600 text-white p-4 rounded-t-lg">
-              <div className="flex justify-between items-center">
-                <h3 className="text-xl font-bold">{firstInnings.battingTeam.name} - 1st Innings</h3>
-                <div className="text-right">
-                  <div className="text-2xl font-bold">{firstInnings.battingTeam.score}-{firstInnings.battingTeam.wickets}</div>
-                  <div className="text-sm">({firstInnings.battingTeam.overs}.{firstInnings.battingTeam.balls} overs, RR: {firstInningsRunRate})</div>
+          {/* Corrections made after the match */}
+          {match.corrections && match.corrections.length > 0 && (
+            <div className="mt-3 text-xs opacity-90 space-y-1">
+              {match.corrections.map((correction, index) => (
+                <div key={index}>
+                  Corrected {new Date(correction.timestamp).toLocaleDateString()}: {correction.reason}
+                  {correction.previousResult && ` (was: ${correction.previousResult})`}
                 </div>
-              </div>
+              ))}
             </div>
-            
-            <div className="bg-white rounded-b-lg shadow-sm overflow-hidden">
-              {/* Batting Table */}
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead className="bg-gray-100">
-                    <tr>
-                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Batsman</th>
-                      <th className="px-4 py-3 text-left font-semibold text-gray-500">Dismissal</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">R</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">B</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">4s</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">6s</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">SR</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-200">
-                    {firstInnings.battingTeam.players.map(player => {
-                      const stats = calculateBattingStats(player, 1);
-                      if (stats.balls === 0) return null;
-                      return (
-                        <tr key={player.id} className="hover:bg-gray-50">
-                          <td className="px-4 py-3 font-semibold text-gray-900">{player.name}</td>
-                          <td className="px-4 py-3 text-gray-600 text-sm">{getDismissalInfo(player, 1)}</td>
-                          <td className="px-4 py-3 text-right font-bold">{stats.runs}</td>
-                          <td className="px-4 py-3 text-right">{stats.balls}</td>
-                          <td className="px-4 py-3 text-right">{stats.fours}</td>
-                          <td className="px-4 py-3 text-right">{stats.sixes}</td>
-                          <td className="px-4 py-3 text-right">{stats.strikeRate}</td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
-              </div>
-
-              {/* Extras and Total */}
-              <div className="p-4 bg-gray-50 border-t">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-gray-700">
-                    Extras: (B {firstInnings.battingTeam.extras.byes}, LB {firstInnings.battingTeam.extras.legByes}, W {firstInnings.battingTeam.extras.wides}, NB {firstInnings.battingTeam.extras.noBalls})
-                  </span>
-                  <span className="font-semibold">
-                    {firstInnings.battingTeam.extras.byes + firstInnings.battingTeam.extras.legByes + firstInnings.battingTeam.extras.wides + firstInnings.battingTeam.extras.noBalls}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center font-bold text-lg">
-                  <span>Total</span>
-                  <span>{firstInnings.battingTeam.score}-{firstInnings.battingTeam.wickets} ({firstInnings.battingTeam.overs}.{firstInnings.battingTeam.balls} overs)</span>
-                </div>
-              </div>
+          )}
+        </div>
 
-              {/* Fall of Wickets */}
-              {firstInnings.battingTeam.fallOfWickets && firstInnings.battingTeam.fallOfWickets.length > 0 && (
-                <div className="p-4 border-t">
-                  <h4 className="font-semibold text-gray-800 mb-2">Fall of Wickets</h4>
-                  <div className="text-sm text-gray-600 space-y-1">
-                    {firstInnings.battingTeam.fallOfWickets.map((fall, index) => (
-                      <div key={index}>
-                        {fall.wicketNumber}-{fall.score} ({fall.batsman}, {fall.over} ov)
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+        {/* Content */}
+        <div className="overflow-y-auto max-h-[calc(90vh-200px)] p-6 bg-gray-50">
+          {inningsNumbers.map(innings => renderInnings(innings))}
 
-              {/* Bowling Figures */}
-              <div className="p-4 border-t">
-                <h4 className="font-semibold text-gray-800 mb-3">Bowling</h4>
-                <div className="overflow-x-auto">
-                  <table className="w-full">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">Bowler</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">O</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">M</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">R</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">W</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">Econ</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-gray-100">
-                      {firstInnings.bowlingTeam.players.map(player => {
-                        const stats = calculateBowlingStats(player, 1);
-                        if (parseFloat(stats.overs) === 0) return null;
-                        return (
-                          <tr key={player.id}>
-                            <td className="px-3 py-2 text-sm font-medium text-gray-900">{player.name}</td>
-                            <td className="px-3 py-2 text-right text-sm">{stats.overs}</td>
-                            <td className="px-3 py-2 text-right text-sm">{stats.maidens}</td>
-                            <td className="px-3 py-2 text-right text-sm font-semibold">{stats.runs}</td>
-                            <td className="px-3 py-2 text-right text-sm font-semibold">{stats.wickets}</td>
-                            <td className="px-3 py-2 text-right text-sm">{stats.economy}</td>
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
+          {/* Charts */}
+          {match.balls.length > 0 && (
+            <div className="mb-8 bg-white rounded-lg shadow-sm p-4">
+              <h3 className="text-xl font-bold text-gray-900 mb-3">Match Charts</h3>
+              <MatchProgressCharts match={match} />
             </div>
-          </div>
+          )}
 
-          {/* Second Innings */}
-          <div className="mb-6">
-            <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-4 rounded-t-lg">
-              <div className="flex justify-between items-center">
-                <h3 className="text-xl font-bold">{secondInnings.battingTeam.name} - 2nd Innings</h3>
-                <div className="text-right">
-                  <div className="text-2xl font-bold">{secondInnings.battingTeam.score}-{secondInnings.battingTeam.wickets}</div>
-                  <div className="text-sm">({secondInnings.battingTeam.overs}.{secondInnings.battingTeam.balls} overs, RR: {secondInningsRunRate})</div>
-                </div>
-              </div>
-              {match.firstInningsScore && (
-                <div className="mt-2 text-sm opacity-90">
-                  Target: {match.firstInningsScore + 1} runs
-                </div>
-              )}
+          {/* Win Probability */}
+          {WinProbability.getTimeline(match, winModel).length > 0 && (
+            <div className="mb-8 bg-white rounded-lg shadow-sm p-4">
+              <h3 className="text-xl font-bold text-gray-900 mb-3">Win Probability</h3>
+              <WinProbabilityChart match={match} model={winModel} />
             </div>
-            
-            <div className="bg-white rounded-b-lg shadow-sm overflow-hidden">
-              {/* Batting Table */}
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead className="bg-gray-100">
-                    <tr>
-                      <th className="px-4 py-3 text-left font-semibold text-gray-700">Batsman</th>
-                      <th className="px-4 py-3 text-left font-semibold text-gray-500">Dismissal</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">R</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">B</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">4s</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">6s</th>
-                      <th className="px-4 py-3 text-right font-semibold text-gray-500">SR</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-200">
-                    {secondInnings.battingTeam.players.map(player => {
-                      const stats = calculateBattingStats(player, 2);
-                      if (stats.balls === 0) return null;
-                      return (
-                        <tr key={player.id} className="hover:bg-gray-50">
-                          <td className="px-4 py-3 font-semibold text-gray-900">{player.name}</td>
-                          <td className="px-4 py-3 text-gray-600 text-sm">{getDismissalInfo(player, 2)}</td>
-                          <td className="px-4 py-3 text-right font-bold">{stats.runs}</td>
-                          <td className="px-4 py-3 text-right">{stats.balls}</td>
-                          <td className="px-4 py-3 text-right">{stats.fours}</td>
-                          <td className="px-4 py-3 text-right">{stats.sixes}</td>
-                          <td className="px-4 py-3 text-right">{stats.strikeRate}</td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
-              </div>
+          )}
 
-              {/* Extras and Total */}
-              <div className="p-4 bg-gray-50 border-t">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-gray-700">
-                    Extras: (B {secondInnings.battingTeam.extras.byes}, LB {secondInnings.battingTeam.extras.legByes}, W {secondInnings.battingTeam.extras.wides}, NB {secondInnings.battingTeam.extras.noBalls})
-                  </span>
-                  <span className="font-semibold">
-                    {secondInnings.battingTeam.extras.byes + secondInnings.battingTeam.extras.legByes + secondInnings.battingTeam.extras.wides + secondInnings.battingTeam.extras.noBalls}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center font-bold text-lg">
-                  <span>Total</span>
-                  <span>{secondInnings.battingTeam.score}-{secondInnings.battingTeam.wickets} ({secondInnings.battingTeam.overs}.{secondInnings.battingTeam.balls} overs)</span>
-                </div>
+          {/* Super Over */}
+          {match.superOvers && match.superOvers.length > 0 && (
+            <div className="mb-6">
+              <div className="bg-gradient-to-r from-purple-500 to-indigo-500 text-white p-4 rounded-t-lg">
+                <h3 className="text-xl font-bold">Super Over</h3>
               </div>
-
-              {/* Fall of Wickets */}
-              {secondInnings.battingTeam.fallOfWickets && secondInnings.battingTeam.fallOfWickets.length > 0 && (
-                <div className="p-4 border-t">
-                  <h4 className="font-semibold text-gray-800 mb-2">Fall of Wickets</h4>
-                  <div className="text-sm text-gray-600 space-y-1">
-                    {secondInnings.battingTeam.fallOfWickets.map((fall, index) => (
-                      <div key={index}>
-                        {fall.wicketNumber}-{fall.score} ({fall.batsman}, {fall.over} ov)
+              <div className="bg-white rounded-b-lg shadow-sm divide-y divide-gray-200">
+                {match.superOvers.map((superOver, index) => (
+                  <div key={index} className="p-4">
+                    <div className="flex justify-between items-center mb-3">
+                      <h4 className="font-semibold text-gray-800">{superOver.battingTeam.name}</h4>
+                      <span className="font-bold text-lg">
+                        {superOver.battingTeam.score}-{superOver.battingTeam.wickets} ({CricketEngine.formatOvers(CricketEngine.getLegalBalls(superOver.battingTeam, match), ballsPerOver)} ov)
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                      <div className="space-y-1">
+                        {getSuperOverBatting(superOver).map(entry => (
+                          <div key={entry.player.id} className="flex justify-between">
+                            <span className="text-gray-900">
+                              {entry.player.name} <span className="text-gray-500">{entry.dismissal}</span>
+                            </span>
+                            <span className="font-semibold">{entry.runs} ({entry.balls})</span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="space-y-1">
+                        {getSuperOverBowling(superOver).map(entry => (
+                          <div key={entry.player.id} className="flex justify-between">
+                            <span className="text-gray-900">{entry.player.name}</span>
+                            <span className="font-semibold">{entry.overs}-{entry.runs}-{entry.wickets}</span>
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    </div>
                   </div>
-                </div>
-              )}
-
-              {/* Bowling Figures */}
-              <div className="p-4 border-t">
-                <h4 className="font-semibold text-gray-800 mb-3">Bowling</h4>
-                <div className="overflow-x-auto">
-                  <table className="w-full">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">Bowler</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">O</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">M</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">R</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">W</th>
-                        <th className="px-3 py-2 text-right text-sm font-semibold text-gray-500">Econ</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-gray-100">
-                      {secondInnings.bowlingTeam.players.map(player => {
-                        const stats = calculateBowlingStats(player, 2);
-                        if (parseFloat(stats.overs) === 0) return null;
-                        return (
-                          <tr key={player.id}>
-                            <td className="px-3 py-2 text-sm font-medium text-gray-900">{player.name}</td>
-                            <td className="px-3 py-2 text-right text-sm">{stats.overs}</td>
-                            <td className="px-3 py-2 text-right text-sm">{stats.maidens}</td>
-                            <td className="px-3 py-2 text-right text-sm font-semibold">{stats.runs}</td>
-                            <td className="px-3 py-2 text-right text-sm font-semibold">{stats.wickets}</td>
-                            <td className="px-3 py-2 text-right text-sm">{stats.economy}</td>
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
-                </div>
+                ))}
               </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </div>
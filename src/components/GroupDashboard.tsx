@@ -4,6 +4,10 @@ import { Player, Match } from '../types/cricket';
 import { storageService } from '../services/storage';
 import { PDFService } from '../services/pdfService';
 import { authService } from '../services/authService';
+import { CricketEngine } from '../services/cricketEngine';
+import { InningsAnalytics } from '../services/inningsAnalytics';
+import { TournamentPanel } from './TournamentPanel';
+import { TeamsPanel } from './TeamsPanel';
 
 interface GroupDashboardProps {
   onBack: () => void;
@@ -36,7 +40,7 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({ onBack }) => {
   const [matches, setMatches] = useState<Match[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [playerStats, setPlayerStats] = useState<PlayerStats[]>([]);
-  const [activeTab, setActiveTab] = useState<'batting' | 'bowling' | 'fielding'>('batting');
+  const [activeTab, setActiveTab] = useState<'batting' | 'bowling' | 'fielding' | 'records' | 'teams' | 'tournaments'>('batting');
   const [timeRange, setTimeRange] = useState<'all' | 'month' | 'week'>('all');
   const [loading, setLoading] = useState(true);
   const [currentGroup, setCurrentGroup] = useState<any>(null);
@@ -131,15 +135,14 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({ onBack }) => {
         let highestInThisMatch = 0;
 
         balls.forEach(ball => {
-          if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-            runs += ball.runs;
-            highestInThisMatch += ball.runs;
-          }
-          if (!ball.isWide && !ball.isNoBall) {
+          const batRuns = CricketEngine.getBatRuns(ball);
+          runs += batRuns;
+          highestInThisMatch += batRuns;
+          if (CricketEngine.isBallFaced(ball)) {
             ballsFaced++;
           }
-          if (ball.runs === 4) fours++;
-          if (ball.runs === 6) sixes++;
+          if (batRuns === 4) fours++;
+          if (batRuns === 6) sixes++;
         });
         
         return {
@@ -154,12 +157,12 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({ onBack }) => {
       const bowlingStats = playerMatches.reduce((acc, match) => {
         const balls = match.balls.filter(b => b.bowler.id === player.id);
         const wickets = balls.filter(b => b.isWicket && b.wicketType !== 'run_out').length;
-        const runs = balls.reduce((sum, b) => sum + b.runs, 0);
+        const runs = balls.reduce((sum, b) => sum + CricketEngine.getBowlerRuns(b), 0);
         const ballsBowled = balls.filter(b => !b.isWide && !b.isNoBall).length;
         
         return {
           wickets: acc.wickets + wickets,
-          overs: acc.overs + (ballsBowled / 6),
+          overs: acc.overs + ballsBowled / CricketEngine.getBallsPerOver(match),
           runsConceded: acc.runsConceded + runs
         };
       }, { wickets: 0, overs: 0, runsConceded: 0 });
@@ -305,6 +308,8 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({ onBack }) => {
     );
   }
 
+  const groupRecords = InningsAnalytics.getGroupRecords(matches);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 py-8">
@@ -365,7 +370,7 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({ onBack }) => {
         </div>
 
         {/* Tab Navigation */}
-        <div className="flex space-x-4 mb-6">
+        <div className="flex space-x-4 mb-6 overflow-x-auto">
           <button
             onClick={() => setActiveTab('batting')}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -399,6 +404,39 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({ onBack }) => {
             <Award className="w-5 h-5 inline mr-2" />
             Fielding
           </button>
+          <button
+            onClick={() => setActiveTab('records')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              activeTab === 'records'
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Users className="w-5 h-5 inline mr-2" />
+            Records
+          </button>
+          <button
+            onClick={() => setActiveTab('teams')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              activeTab === 'teams'
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Users className="w-5 h-5 inline mr-2" />
+            Teams
+          </button>
+          <button
+            onClick={() => setActiveTab('tournaments')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              activeTab === 'tournaments'
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <Trophy className="w-5 h-5 inline mr-2" />
+            Tournaments
+          </button>
         </div>
 
         {/* Statistics Display */}
@@ -596,6 +634,75 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({ onBack }) => {
               )}
             </div>
           )}
+
+          {activeTab === 'records' && (
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Highest Partnerships</h2>
+              {groupRecords.partnershipsByWicket.length > 0 ? (
+                <div className="overflow-x-auto mb-8">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="bg-gray-50">
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Wicket</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Batters</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Runs</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Balls</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Date</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {groupRecords.partnershipsByWicket.map(record => (
+                        <tr key={record.wicket}>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{InningsAnalytics.getOrdinal(record.wicket)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {record.batters.map(b => `${b.player.name} ${b.runs}`).join(' & ')}
+                            <div className="text-xs text-gray-500">{record.teamName}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900 text-right font-bold">
+                            {record.runs}{record.unbroken && '*'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-500 text-right">{record.balls}</td>
+                          <td className="px-4 py-3 text-sm text-gray-500 text-right">{new Date(record.date).toLocaleDateString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-500 mb-8">No partnerships recorded for this time period</p>
+              )}
+
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Best Spells</h2>
+              {groupRecords.bestSpells.length > 0 ? (
+                <div className="space-y-2">
+                  {groupRecords.bestSpells.map((spell, index) => (
+                    <div key={`${spell.matchId}-${spell.bowler.id}-${spell.spell}`} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">#{index + 1} {spell.bowler.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {spell.teamName} · overs {spell.fromOver}-{spell.toOver} · {new Date(spell.date).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-bold text-gray-900">{spell.wickets}/{spell.runs}</div>
+                        <div className="text-xs text-gray-500">{spell.overs} ov</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500">No wicket-taking spells for this time period</p>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'teams' && currentGroup && (
+            <TeamsPanel groupId={currentGroup.id} />
+          )}
+
+          {activeTab === 'tournaments' && currentGroup && (
+            <TournamentPanel groupId={currentGroup.id} />
+          )}
         </div>
       </div>
     </div>
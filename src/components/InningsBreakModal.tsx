@@ -1,18 +1,39 @@
 import React from 'react';
-import { Trophy, Target, Clock, TrendingUp, Play } from 'lucide-react';
+import { Trophy, Target, Clock, TrendingUp, Play, CloudRain } from 'lucide-react';
 import { Match } from '../types/cricket';
 import { motion } from 'framer-motion';
+import { CricketEngine } from '../services/cricketEngine';
+import { MatchAnalytics } from '../services/matchAnalytics';
 
 interface InningsBreakModalProps {
   match: Match;
-  onContinue: () => void;
+  onContinue: (enforceFollowOn?: boolean) => void;
+  onReduceOvers?: () => void;
 }
 
-export const InningsBreakModal: React.FC<InningsBreakModalProps> = ({ match, onContinue }) => {
+export const InningsBreakModal: React.FC<InningsBreakModalProps> = ({ match, onContinue, onReduceOvers }) => {
+  if (CricketEngine.isMultiInnings(match)) {
+    return <MultiInningsBreak match={match} onContinue={onContinue} />;
+  }
+
   const firstInningsTeam = match.isSecondInnings ? match.bowlingTeam : match.battingTeam;
-  const target = firstInningsTeam.score + 1;
-  const runRate = ((firstInningsTeam.score / ((firstInningsTeam.overs * 6) + firstInningsTeam.balls)) * 6).toFixed(2);
-  const requiredRunRate = (target / match.totalOvers).toFixed(2);
+  const target = CricketEngine.getRevisedTarget(match, firstInningsTeam.score);
+  const secondInningsOvers = CricketEngine.getInningsOversLimit(match, 2);
+  const isRevised = CricketEngine.hasInterruptions(match);
+  const ballsPerOver = CricketEngine.getBallsPerOver(match);
+  const chaseBalls = secondInningsOvers * ballsPerOver;
+  // Par at the halfway mark, with no wickets and with three down
+  const halfwayBalls = Math.floor(secondInningsOvers / 2) * ballsPerOver;
+  const halfwayPar = [0, 3].map(wickets => ({
+    wickets,
+    par: MatchAnalytics.getParScoreAt(match, firstInningsTeam.score, halfwayBalls, wickets)
+  }));
+  const runRate = CricketEngine.calculateRunRate(
+    firstInningsTeam.score,
+    CricketEngine.getLegalBalls(firstInningsTeam, match),
+    ballsPerOver
+  );
+  const requiredRunRate = MatchAnalytics.formatRate(MatchAnalytics.getRequiredRate(target, chaseBalls, ballsPerOver));
 
   return (
     <motion.div
@@ -54,10 +75,21 @@ export const InningsBreakModal: React.FC<InningsBreakModalProps> = ({ match, onC
             <div className="text-center">
               <Target className="w-6 h-6 text-orange-600 mx-auto mb-1" />
               <div className="text-sm font-medium text-orange-800 mb-1">
-                Target for {match.isSecondInnings ? match.battingTeam.name : match.bowlingTeam.name}
+                {isRevised ? 'Revised target' : 'Target'} for {match.isSecondInnings ? match.battingTeam.name : match.bowlingTeam.name}
               </div>
               <div className="text-3xl font-bold text-orange-600 mb-1">{target}</div>
-              <div className="text-xs text-orange-700">runs to win</div>
+              <div className="text-xs text-orange-700">
+                runs to win{isRevised && ` from ${secondInningsOvers} overs (DLS method)`}
+              </div>
+              <div className="text-xs text-orange-700 mt-1">
+                Need {target} from {chaseBalls} balls
+              </div>
+              {halfwayBalls > 0 && (
+                <div className="text-xs text-orange-700 mt-2">
+                  Par after {Math.floor(secondInningsOvers / 2)} overs:{' '}
+                  {halfwayPar.map(({ wickets, par }) => `${par} (${wickets} down)`).join(' • ')}
+                </div>
+              )}
             </div>
           </div>
 
@@ -65,7 +97,7 @@ export const InningsBreakModal: React.FC<InningsBreakModalProps> = ({ match, onC
           <div className="grid grid-cols-2 gap-3 text-xs">
             <div className="bg-blue-50 rounded-lg p-2 text-center">
               <Clock className="w-4 h-4 text-blue-500 mx-auto mb-1" />
-              <div className="font-bold text-blue-700">{match.totalOvers}</div>
+              <div className="font-bold text-blue-700">{secondInningsOvers}</div>
               <div className="text-blue-600">Total Overs</div>
             </div>
             <div className="bg-purple-50 rounded-lg p-2 text-center">
@@ -75,9 +107,19 @@ export const InningsBreakModal: React.FC<InningsBreakModalProps> = ({ match, onC
             </div>
           </div>
 
+          {onReduceOvers && (
+            <button
+              onClick={onReduceOvers}
+              className="w-full bg-gray-100 text-gray-700 py-2 px-4 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors flex items-center justify-center"
+            >
+              <CloudRain className="w-4 h-4 mr-2" />
+              Reduce Overs (Rain / Bad Light)
+            </button>
+          )}
+
           {/* Continue Button */}
           <button
-            onClick={onContinue}
+            onClick={() => onContinue()}
             className="w-full bg-gradient-to-r from-green-500 to-blue-500 text-white py-3 px-4 rounded-lg font-semibold hover:from-green-600 hover:to-blue-600 transition-all duration-200 shadow-lg flex items-center justify-center"
           >
             <Play className="w-4 h-4 mr-2" />
@@ -87,4 +129,102 @@ export const InningsBreakModal: React.FC<InningsBreakModalProps> = ({ match, onC
       </motion.div>
     </motion.div>
   );
-};
\ No newline at end of file
+};
+
+// Break between innings of a two-innings match: the lead on aggregate, the
+// follow-on choice after the second innings and the target before the last.
+const MultiInningsBreak: React.FC<Pick<InningsBreakModalProps, 'match' | 'onContinue'>> = ({ match, onContinue }) => {
+  const innings = CricketEngine.getCurrentInningsNumber(match);
+  const completedTeam = match.battingTeam;
+  const otherTeam = match.bowlingTeam;
+  const lead = CricketEngine.getLead(match);
+  const canFollowOn = CricketEngine.canEnforceFollowOn(match);
+  const nextInnings = CricketEngine.formatInnings(innings + 1);
+  const isNextFinal = innings + 1 === CricketEngine.getTotalInnings(match);
+  // The side batting next chases whatever it trails by
+  const target = isNextFinal ? lead + 1 : null;
+  const runRate = CricketEngine.calculateRunRate(
+    completedTeam.score,
+    CricketEngine.getLegalBalls(completedTeam, match),
+    CricketEngine.getBallsPerOver(match)
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-white rounded-2xl w-full max-w-sm shadow-2xl"
+      >
+        <div className="bg-gradient-to-r from-green-500 to-blue-500 text-white p-4 rounded-t-2xl text-center">
+          <Trophy className="w-8 h-8 mx-auto mb-2" />
+          <h2 className="text-lg font-bold">Innings Break</h2>
+          <p className="text-green-100 text-sm">{CricketEngine.formatInnings(innings)} innings completed!</p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-center">
+              <div className="text-sm font-medium text-gray-600">{completedTeam.name}</div>
+              <div className="text-2xl font-bold text-green-600 my-1">
+                {completedTeam.score}/{completedTeam.wickets}
+                {CricketEngine.isDeclared(match, innings) && <span className="text-base"> dec</span>}
+              </div>
+              <div className="text-xs text-gray-500">
+                {completedTeam.overs}.{completedTeam.balls} overs • RR: {runRate}
+              </div>
+            </div>
+          </div>
+
+          {target !== null ? (
+            <div className="bg-gradient-to-r from-orange-50 to-red-50 rounded-lg p-3 border border-orange-200">
+              <div className="text-center">
+                <Target className="w-6 h-6 text-orange-600 mx-auto mb-1" />
+                <div className="text-sm font-medium text-orange-800 mb-1">Target for {otherTeam.name}</div>
+                <div className="text-3xl font-bold text-orange-600 mb-1">{target}</div>
+                <div className="text-xs text-orange-700">runs to win in the {nextInnings} innings</div>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-blue-50 rounded-lg p-3 text-center text-sm font-medium text-blue-800">
+              {lead === 0
+                ? 'Scores level'
+                : `${lead > 0 ? completedTeam.name : otherTeam.name} lead by ${Math.abs(lead)} run${Math.abs(lead) === 1 ? '' : 's'}`}
+            </div>
+          )}
+
+          {canFollowOn && (
+            <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 text-xs text-purple-700 text-center">
+              {otherTeam.name} lead by at least {CricketEngine.getFollowOnMargin(match)} and can make {completedTeam.name} follow on
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {canFollowOn && (
+              <button
+                onClick={() => onContinue(true)}
+                className="w-full bg-purple-600 text-white py-3 px-4 rounded-lg font-semibold hover:bg-purple-700 transition-colors flex items-center justify-center"
+              >
+                <TrendingUp className="w-4 h-4 mr-2" />
+                Enforce Follow-On ({completedTeam.name} bat)
+              </button>
+            )}
+            <button
+              onClick={() => onContinue()}
+              className="w-full bg-gradient-to-r from-green-500 to-blue-500 text-white py-3 px-4 rounded-lg font-semibold hover:from-green-600 hover:to-blue-600 transition-all duration-200 shadow-lg flex items-center justify-center"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Start {nextInnings} Innings{canFollowOn ? ` (${otherTeam.name} bat)` : ''}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -4,6 +4,7 @@ import { Player, Match } from '../types/cricket';
 import { PlayerSelector } from './PlayerSelector';
 import { storageService } from '../services/storage';
 import { authService } from '../services/authService';
+import { CricketEngine } from '../services/cricketEngine';
 
 interface InningsSetupModalProps {
   match: Match;
@@ -11,6 +12,7 @@ interface InningsSetupModalProps {
   onClose: () => void;
   onSetupComplete: (striker: Player, nonStriker: Player, bowler: Player) => void;
   isSecondInnings?: boolean;
+  isSuperOver?: boolean;
 }
 
 export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
@@ -18,7 +20,8 @@ export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
   isOpen,
   onClose,
   onSetupComplete,
-  isSecondInnings = false
+  isSecondInnings = false,
+  isSuperOver = false
 }) => {
   const [striker, setStriker] = useState<Player | null>(null);
   const [nonStriker, setNonStriker] = useState<Player | null>(null);
@@ -32,9 +35,12 @@ export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
 
   useEffect(() => {
     if (isOpen) {
-      // Reset selections when modal opens
-      setStriker(null);
-      setNonStriker(null);
+      // Reset selections when modal opens, with the openers from the planned
+      // batting order if the side has one
+      const [opener1, opener2] = isSuperOver ? [] : (match.battingTeam.battingOrder || [])
+        .map(id => match.battingTeam.players.find(p => p.id === id));
+      setStriker(opener1 || null);
+      setNonStriker(opener2 || null);
       setBowler(null);
       
       // PERFORMANCE FIX: Load players instantly from match data first
@@ -207,6 +213,12 @@ export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
   };
 
   const canComplete = striker && nonStriker && bowler;
+  const target = CricketEngine.getTarget(match);
+  const inningsOvers = CricketEngine.getInningsOvers(match);
+  // Two-innings matches name the innings: "3rd Innings"
+  const inningsName = CricketEngine.isMultiInnings(match)
+    ? `${CricketEngine.formatInnings(CricketEngine.getCurrentInningsNumber(match))} Innings`
+    : isSecondInnings ? 'Second Innings' : 'First Innings';
   const currentGroup = authService.getCurrentGroup();
   const isGroupMatch = !match.isStandalone && currentGroup;
 
@@ -221,7 +233,9 @@ export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
         <div className="p-4 sm:p-6 border-b border-gray-200">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-bold text-gray-900">
-              {isSecondInnings ? 'Second Innings Setup' : 'First Innings Setup'}
+              {isSuperOver
+                ? `Super Over - ${match.battingTeam.name} Batting`
+                : `${inningsName} Setup`}
             </h2>
             <button
               onClick={onClose}
@@ -230,9 +244,13 @@ export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
               <X size={24} />
             </button>
           </div>
-          {isSecondInnings && (
+          {isSuperOver ? (
             <p className="text-sm text-gray-600 mt-2">
-              Select opening batsmen and bowler for the chase
+              One over, two wickets - select two batsmen and the bowler
+            </p>
+          ) : isSecondInnings && (
+            <p className="text-sm text-gray-600 mt-2">
+              Select opening batsmen and bowler{target !== null ? ' for the chase' : ''}
             </p>
           )}
           {isGroupMatch && (
@@ -243,20 +261,20 @@ export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
         </div>
 
         <div className="p-4 sm:p-6 space-y-4 sm:space-y-6">
-          {isSecondInnings && match.firstInningsScore && (
+          {isSecondInnings && target !== null && (
             <div className="bg-gradient-to-r from-orange-50 to-red-50 rounded-lg p-4 border border-orange-200">
               <div className="flex items-center mb-2">
                 <Target className="w-5 h-5 text-orange-600 mr-2" />
                 <span className="font-semibold text-orange-800">Target to Win</span>
               </div>
               <div className="text-3xl font-bold text-orange-900 mb-1">
-                {match.firstInningsScore + 1} runs
+                {target} runs
               </div>
               <div className="text-sm text-orange-700">
-                {match.battingTeam.name} needs {match.firstInningsScore + 1} runs in {match.totalOvers} overs
+                {match.battingTeam.name} needs {target} runs in {inningsOvers} over{inningsOvers === 1 ? '' : 's'}
               </div>
               <div className="text-xs text-orange-600 mt-1">
-                Required run rate: {((match.firstInningsScore + 1) / match.totalOvers).toFixed(2)} per over
+                Required run rate: {(target / inningsOvers).toFixed(2)} per over
               </div>
             </div>
           )}
@@ -421,7 +439,7 @@ export const InningsSetupModal: React.FC<InningsSetupModalProps> = ({
             >
               <Play className="w-4 h-4 mr-2" />
               <span className="text-sm sm:text-base">
-                {isSecondInnings ? 'Start Second Innings' : 'Start Match'}
+                {isSuperOver ? 'Start Super Over' : isSecondInnings ? `Start ${inningsName}` : 'Start Match'}
               </span>
             </button>
           </div>
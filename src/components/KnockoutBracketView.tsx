@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Trophy, Download } from 'lucide-react';
+import { KnockoutFixture, Match, TieBreakRule, Tournament } from '../types/cricket';
+import { CricketEngine } from '../services/cricketEngine';
+import { TournamentService } from '../services/tournamentService';
+import { KnockoutBracket, TIE_BREAK_LABELS } from '../services/knockoutBracket';
+
+interface KnockoutSetupFormProps {
+  tournament: Tournament;
+  matches: Match[];
+  onCreate: (seeds: string[], tieBreak: TieBreakRule, seededFromTable: boolean) => void;
+  onCancel: () => void;
+}
+
+// Pick how many sides go through and in what order, from the table or by hand
+export const KnockoutSetupForm: React.FC<KnockoutSetupFormProps> = ({ tournament, matches, onCreate, onCancel }) => {
+  const tableOrder = KnockoutBracket.getSeedsFromTable(tournament, matches, tournament.teams.length);
+  const [count, setCount] = useState(Math.min(4, tournament.teams.length));
+  const [seeds, setSeeds] = useState<string[]>(tableOrder);
+  const [tieBreak, setTieBreak] = useState<TieBreakRule>('boundaries');
+
+  const chosen = seeds.slice(0, count);
+  const hasLeague = tournament.fixtures.length > 0;
+  const seededFromTable = hasLeague && chosen.every((id, index) => id === tableOrder[index]);
+
+  const handleSeedChange = (index: number, teamId: string) => {
+    // Swap so every team still appears once
+    const next = [...seeds];
+    const previous = next.indexOf(teamId);
+    next[previous] = next[index];
+    next[index] = teamId;
+    setSeeds(next);
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-medium text-gray-700">Teams through</label>
+        <select
+          value={count}
+          onChange={(e) => setCount(parseInt(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+        >
+          {tournament.teams.slice(1).map((_, index) => (
+            <option key={index} value={index + 2}>{index + 2}</option>
+          ))}
+        </select>
+        {hasLeague && (
+          <button
+            type="button"
+            onClick={() => setSeeds(tableOrder)}
+            className="px-3 py-1 rounded-lg text-sm bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Seed from points table
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {chosen.map((teamId, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <span className="text-sm text-gray-500 w-14">Seed {index + 1}</span>
+            <select
+              value={teamId}
+              onChange={(e) => handleSeedChange(index, e.target.value)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            >
+              {tournament.teams.map(team => (
+                <option key={team.id} value={team.id}>{team.name}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <label className="text-sm font-medium text-gray-700">Tie-break after a tied Super Over</label>
+        <select
+          value={tieBreak}
+          onChange={(e) => setTieBreak(e.target.value as TieBreakRule)}
+          className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+        >
+          {(Object.keys(TIE_BREAK_LABELS) as TieBreakRule[]).map(rule => (
+            <option key={rule} value={rule}>{TIE_BREAK_LABELS[rule]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onCreate(chosen, tieBreak, seededFromTable)}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+        >
+          Create Knockout
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface KnockoutBracketViewProps {
+  tournament: Tournament;
+  matches: Match[];
+  onLinkMatch: (fixture: KnockoutFixture, matchId: string) => void;
+  onExport: () => void;
+}
+
+// Rounds side by side, each fixture with its sides, winner and linked match
+export const KnockoutBracketView: React.FC<KnockoutBracketViewProps> = ({ tournament, matches, onLinkMatch, onExport }) => {
+  const stage = tournament.knockout;
+  if (!stage) return null;
+
+  const rounds = Array.from({ length: KnockoutBracket.getRoundCount(stage) }, (_, i) => i + 1);
+  const championId = KnockoutBracket.getChampionId(stage);
+  const linkedIds = new Set([...stage.fixtures, ...tournament.fixtures].map(f => f.matchId));
+
+  const getTeamLabel = (teamId: string | undefined, round: number): string => {
+    if (!teamId) return round === 1 ? 'Bye' : 'TBD';
+    const seed = KnockoutBracket.getSeed(stage, teamId);
+    return `${seed ? `(${seed}) ` : ''}${TournamentService.getTeam(tournament, teamId)?.name || ''}`;
+  };
+
+  const getNote = (fixture: KnockoutFixture): string => {
+    const match = matches.find(m => m.id === fixture.matchId);
+    if (!match) return '';
+    if (!match.isCompleted) return 'In progress';
+    const result = CricketEngine.getMatchResult(match);
+    return fixture.decidedBy === 'tie_break' ? `${result}, through on ${TIE_BREAK_LABELS[stage.tieBreak].toLowerCase()}` : result;
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="text-sm text-gray-600">
+          {championId ? (
+            <span className="font-semibold text-green-700">
+              <Trophy className="w-4 h-4 inline mr-1" />
+              Champions: {TournamentService.getTeam(tournament, championId)?.name}
+            </span>
+          ) : (
+            <span>
+              {stage.seededFromTable ? 'Seeded from the points table' : 'Seeded by hand'} · Ties settled by {TIE_BREAK_LABELS[stage.tieBreak].toLowerCase()}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onExport}
+          className="px-3 py-1 rounded-lg text-sm bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+        >
+          <Download className="w-4 h-4 inline mr-1" />
+          Bracket PDF
+        </button>
+      </div>
+
+      <div className="flex space-x-4 overflow-x-auto pb-2">
+        {rounds.map(round => (
+          <div key={round} className="min-w-[220px] flex-1 flex flex-col">
+            <h3 className="text-sm font-semibold text-gray-500 mb-2">{KnockoutBracket.getRoundName(stage, round)}</h3>
+            <div className="flex-1 flex flex-col justify-around space-y-3">
+              {stage.fixtures
+                .filter(f => f.round === round)
+                .sort((a, b) => a.position - b.position)
+                .map(fixture => {
+                  const candidates = matches.filter(m =>
+                    (m.id === fixture.matchId || !linkedIds.has(m.id)) &&
+                    TournamentService.isMatchForFixture(tournament, fixture, m)
+                  );
+                  return (
+                    <div key={fixture.id} className="border border-gray-200 rounded-lg bg-white">
+                      {[fixture.team1Id, fixture.team2Id].map((teamId, index) => (
+                        <div
+                          key={index}
+                          className={`px-3 py-2 text-sm ${index === 0 ? 'border-b border-gray-100' : ''} ${
+                            teamId && teamId === fixture.winnerId ? 'font-bold text-green-700' : 'text-gray-700'
+                          }`}
+                        >
+                          {getTeamLabel(teamId, round)}
+                        </div>
+                      ))}
+                      {fixture.decidedBy !== 'bye' && fixture.team1Id && fixture.team2Id && (
+                        <div className="px-3 py-2 bg-gray-50 rounded-b-lg">
+                          <select
+                            value={fixture.matchId || ''}
+                            onChange={(e) => onLinkMatch(fixture, e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                          >
+                            <option value="">No match linked</option>
+                            {candidates.map(match => (
+                              <option key={match.id} value={match.id}>
+                                {new Date(match.startTime).toLocaleDateString()} · {match.isCompleted ? CricketEngine.getMatchResult(match) : 'In progress'}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {getNote(fixture) && (
+                        <div className="px-3 pb-2 text-xs text-gray-500">{getNote(fixture)}</div>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Menu, BarChart3, RefreshCw, AlertCircle, Trophy, UserPlus, X, Wifi, WifiOff, User, Share2, MessageCircle, Cloud, CloudOff, Save } from 'lucide-react';
-import { Match, Ball, Player } from '../types/cricket';
+import { ArrowLeft, Menu, BarChart3, RefreshCw, AlertCircle, Trophy, UserPlus, X, Wifi, WifiOff, User, Share2, MessageCircle, Cloud, CloudOff, Save, CloudRain, Flag, Clock, Keyboard } from 'lucide-react';
+import { Match, Ball, Player, Interruption, RetirementType } from '../types/cricket';
 import { CompactScoreDisplay } from './CompactScoreDisplay';
+import { WinProbabilityBar } from './WinProbabilityChart';
 import { ScoringPanel } from './ScoringPanel';
 import { PlayerSelector } from './PlayerSelector';
 import { InningsBreakModal } from './InningsBreakModal';
 import { InningsSetupModal } from './InningsSetupModal';
-import { CricketEngine } from '../services/cricketEngine';
+import { CricketEngine, PENALTY_RUNS } from '../services/cricketEngine';
+import { MatchReducer, UndoneEvents } from '../services/matchReducer';
+import { ScoringNotation, ParsedDelivery } from '../services/scoringNotation';
+import { ScoringShortcuts } from '../services/scoringShortcuts';
+import { WinProbability, DEFAULT_WIN_MODEL } from '../services/winProbability';
+import { KnockoutBracket } from '../services/knockoutBracket';
+import { TeamService } from '../services/teamService';
+import { ShortcutCheatSheet } from './ShortcutCheatSheet';
+import { ScoringKeyBindings } from '../types/auth';
 import { storageService } from '../services/storage';
 import { cloudStorageService } from '../services/cloudStorageService';
 import { UserStatsService } from '../services/userStatsService';
@@ -15,6 +24,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { authService } from '../services/authService';
 import { PDFService } from '../services/pdfService';
 import { DetailedScorecardModal } from './DetailedScorecardModal';
+import { BallEditorModal } from './BallEditorModal';
 
 interface LiveScorerProps {
   match: Match;
@@ -28,10 +38,10 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
   onBack
 }) => {
   // Match state
-  const [match, setMatch] = useState<Match>(initialMatch);
+  // Resuming rebuilds the state from the scoring log
+  const [match, setMatch] = useState<Match>(() => MatchReducer.replay(initialMatch));
   const [target, setTarget] = useState<number>(0);
-  const [actionHistory, setActionHistory] = useState<Ball[]>([]);
-  const [redoStack, setRedoStack] = useState<Ball[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoneEvents[]>([]);
 
   // UI state
   const [showMenu, setShowMenu] = useState(false);
@@ -48,6 +58,19 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
   const [showScorecard, setShowScorecard] = useState(false);
   const [showMotmSelector, setShowMotmSelector] = useState(false);
   const [showEndInningsModal, setShowEndInningsModal] = useState(false);
+  const [showSuperOverOffer, setShowSuperOverOffer] = useState(false);
+  const [showInterruptionModal, setShowInterruptionModal] = useState(false);
+  const [interruptionInnings, setInterruptionInnings] = useState<1 | 2>(1);
+  const [revisedOvers, setRevisedOvers] = useState(0);
+  const [interruptionReason, setInterruptionReason] = useState<Interruption['reason']>('rain');
+  const [showPenaltyModal, setShowPenaltyModal] = useState(false);
+  const [penaltySide, setPenaltySide] = useState<'batting' | 'fielding'>('batting');
+  const [penaltyReason, setPenaltyReason] = useState('');
+  const [editingBall, setEditingBall] = useState<{ ball: Ball; mode: 'edit' | 'insert' } | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [shortcutBindings, setShortcutBindings] = useState<ScoringKeyBindings>(() => ScoringShortcuts.getBindings(authService.getCurrentUser()));
+  const [shortcutsEnabled, setShortcutsEnabled] = useState(() => ScoringShortcuts.isEnabled(authService.getCurrentUser()));
+  const [winModel, setWinModel] = useState(DEFAULT_WIN_MODEL);
 
   // Game state
   const [pendingStrikeRotation, setPendingStrikeRotation] = useState(false);
@@ -59,6 +82,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [needsBowlerChange, setNeedsBowlerChange] = useState(false);
   const [needsNewBatsman, setNeedsNewBatsman] = useState(false);
+  const [dismissedBatsmanId, setDismissedBatsmanId] = useState<string | null>(null);
   const [cloudSyncDisabled, setCloudSyncDisabled] = useState(false);
   const [backgroundSaves, setBackgroundSaves] = useState(0);
   const [lastCloudSave, setLastCloudSave] = useState<Date | null>(null);
@@ -108,6 +132,11 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     loadPlayers();
   }, []);
 
+  // Calibrate win probability against the group's earlier matches
+  useEffect(() => {
+    WinProbability.loadModel(initialMatch).then(setWinModel);
+  }, [initialMatch.id]);
+
   // Load match from cloud storage on mount
   useEffect(() => {
     const loadMatch = async () => {
@@ -116,7 +145,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
           const savedMatch = await cloudStorageService.getMatch(initialMatch.id);
           if (savedMatch && savedMatch.balls && savedMatch.balls.length > match.balls.length) {
             console.log('🔄 Loading more recent match state from cloud');
-            setMatch(savedMatch);
+            setMatch(MatchReducer.replay(savedMatch));
           }
         }
       } catch (error) {
@@ -216,112 +245,20 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
 
   // Calculate remaining runs and balls
   useEffect(() => {
-    if (match.isSecondInnings) {
-      const totalBalls = match.totalOvers * 6;
-      const ballsBowled = (match.battingTeam.overs * 6) + match.battingTeam.balls;
-      setTarget(match.firstInningsScore + 1);
+    const inningsTarget = CricketEngine.getTarget(match);
+    if (inningsTarget !== null) {
+      setTarget(inningsTarget);
     }
-  }, [match.battingTeam.score, match.battingTeam.overs, match.battingTeam.balls, match.isSecondInnings, match.firstInningsScore]);
-
-  // Update player stats after match completion with enhanced tracking
-  useEffect(() => {
-    const updatePlayerStats = async () => {
-      if (match.isCompleted) {
-        try {
-          console.log('Updating player stats after match completion...');
-          
-          // Get all players who participated in the match (from both teams)
-          const allMatchPlayers = [
-            ...(match.team1?.players || []),
-            ...(match.team2?.players || []),
-            ...(match.battingTeam?.players || []),
-            ...(match.bowlingTeam?.players || [])
-          ];
-          
-          // Remove duplicates based on player ID
-          const uniquePlayers = allMatchPlayers.filter((player, index, self) => 
-            index === self.findIndex(p => p.id === player.id)
-          );
-          
-          console.log('Players to update:', uniquePlayers.map(p => p.name));
-          
-          // Update stats for each player
-          for (const player of uniquePlayers) {
-            console.log(`Updating stats for ${player.name}...`);
-            
-            // Calculate updated stats using cricket engine
-            const updatedStats = CricketEngine.updatePlayerStats(player, match);
-            
-            // Create updated player object
-            const updatedPlayer = { 
-              ...player, 
-              stats: updatedStats 
-            };
-            
-            // Save to storage
-            await storageService.savePlayer(updatedPlayer);
-            
-            // Save to cloud if online
-            if (isOnline) {
-              try {
-                await cloudStorageService.savePlayer(updatedPlayer);
-              } catch (error) {
-                console.warn('Failed to save player to cloud:', error);
-              }
-            }
-            
-            console.log(`Stats updated for ${player.name}:`, {
-              matches: updatedStats.matchesPlayed,
-              runs: updatedStats.runsScored,
-              wickets: updatedStats.wicketsTaken,
-              motm: updatedStats.motmAwards
-            });
-          }
-          
-          console.log('All player stats updated successfully');
-          
-          // Force refresh of dashboard data by triggering a storage event
-          window.dispatchEvent(new CustomEvent('playerStatsUpdated'));
-          
-        } catch (error) {
-          console.error('Failed to update player stats:', error);
-        }
-      }
-    };
-
-    updatePlayerStats();
-  }, [match.isCompleted, isOnline]);
+  }, [match.battingTeam.score, match.battingTeam.overs, match.battingTeam.balls, match.isSecondInnings, match.currentInnings, match.firstInningsScore, match.isSuperOver, match.superOvers?.length, match.interruptions?.length]);
 
   const handleInningsTransition = () => {
     setShowInningsBreak(true);
   };
 
-  const handleInningsBreakContinue = () => {
-    console.log('🔄 Starting second innings transition...');
-    
-    const updatedMatch = { ...match };
-    updatedMatch.isSecondInnings = true;
+  const handleInningsBreakContinue = (enforceFollowOn: boolean = false) => {
+    console.log(`🔄 Starting next innings transition${enforceFollowOn ? ' - follow-on enforced' : ''}...`);
     
-    // Swap teams
-    const temp = updatedMatch.battingTeam;
-    updatedMatch.battingTeam = updatedMatch.bowlingTeam;
-    updatedMatch.bowlingTeam = temp;
-    
-    updatedMatch.firstInningsScore = temp.score;
-    setTarget(temp.score + 1);
-    
-    // Reset batting team stats
-    updatedMatch.battingTeam.score = 0;
-    updatedMatch.battingTeam.overs = 0;
-    updatedMatch.battingTeam.balls = 0;
-    updatedMatch.battingTeam.wickets = 0;
-    updatedMatch.battingTeam.extras = { wides: 0, noBalls: 0, byes: 0, legByes: 0 };
-    updatedMatch.battingTeam.fallOfWickets = [];
-    
-    // Clear current players for new selection
-    updatedMatch.currentStriker = undefined;
-    updatedMatch.currentNonStriker = undefined;
-    updatedMatch.currentBowler = undefined;
+    const updatedMatch = MatchReducer.reduce(match, { type: 'next_innings', enforceFollowOn });
     
     // CRITICAL FIX: Disable auto-save temporarily during transition to prevent infinite loading
     setCloudSyncDisabled(true);
@@ -331,27 +268,13 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     setShowInningsSetup(true);
     setIsSecondInningsSetup(true);
     
-    console.log('✅ Second innings transition setup complete');
+    console.log(`✅ ${CricketEngine.formatInnings(CricketEngine.getCurrentInningsNumber(updatedMatch))} innings transition setup complete`);
   };
 
   const handleInningsSetup = async (striker: Player, nonStriker: Player, bowler: Player) => {
     console.log('🏏 Setting up second innings players...');
     
-    const updatedMatch = { ...match };
-    updatedMatch.currentStriker = striker;
-    updatedMatch.currentNonStriker = nonStriker;
-    updatedMatch.currentBowler = bowler;
-
-    // Add players to their respective teams if not already present
-    if (!updatedMatch.battingTeam.players.find(p => p.id === striker.id)) {
-      updatedMatch.battingTeam.players.push(striker);
-    }
-    if (!updatedMatch.battingTeam.players.find(p => p.id === nonStriker.id)) {
-      updatedMatch.battingTeam.players.push(nonStriker);
-    }
-    if (!updatedMatch.bowlingTeam.players.find(p => p.id === bowler.id)) {
-      updatedMatch.bowlingTeam.players.push(bowler);
-    }
+    const updatedMatch = MatchReducer.reduce(match, { type: 'openers', striker, nonStriker, bowler });
 
     // Save the fully setup match state
     try {
@@ -371,11 +294,11 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     console.log('🎉 Second innings ready to start!');
   };
 
-  const handleMatchComplete = async () => {
+  const handleMatchComplete = async (completedMatch: Match = match) => {
     console.log('🏆 MATCH COMPLETION STARTING...');
     
     try {
-      const updatedMatch = { ...match };
+      let updatedMatch: Match = { ...completedMatch };
       updatedMatch.isCompleted = true;
       updatedMatch.completedAt = new Date().toISOString();
       
@@ -392,6 +315,9 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
 
       console.log(`🏆 Match Result: ${result}`);
 
+      // A knockout fixture's winner moves on to the next round
+      updatedMatch = await KnockoutBracket.recordResult(updatedMatch);
+
       // Save match state with comprehensive error handling
       let saveSuccessful = false;
       let errorMessage = '';
@@ -402,14 +328,10 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
         console.log('✅ Match saved to local storage');
         saveSuccessful = true;
         
-        // Stage 2: Player statistics update
+        // Stage 2: Player statistics, rebuilt from the stored matches of those who played
         try {
-          if (isOnline) {
-            await UserStatsService.updateMatchStats(updatedMatch);
-            console.log('✅ Player statistics updated');
-          } else {
-            console.log('📱 Offline: Player stats will update when online');
-          }
+          await UserStatsService.updateMatchStatistics(updatedMatch);
+          console.log('✅ Player statistics updated');
         } catch (statsError) {
           console.error('⚠️ Statistics update failed, but match is saved:', statsError);
           errorMessage += 'Statistics update failed. ';
@@ -468,6 +390,118 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     }
   };
 
+  // Work out what follows a finished innings and return the match to carry on with
+  const handleInningsComplete = (completedMatch: Match): Match => {
+    if (completedMatch.isSuperOver && CricketEngine.getSuperOverInningsNumber(completedMatch) === 1) {
+      console.log(`🔄 Moving to second Super Over innings`);
+      setCloudSyncDisabled(true);
+      setIsSecondInningsSetup(true);
+      setShowInningsSetup(true);
+      return MatchReducer.reduce(completedMatch, { type: 'super_over' });
+    }
+
+    if (!CricketEngine.isFinalInnings(completedMatch) && !CricketEngine.isWonByInnings(completedMatch)) {
+      console.log(`🔄 Moving to next innings`);
+      handleInningsTransition();
+    } else if (!CricketEngine.isMultiInnings(completedMatch) && CricketEngine.isTied(completedMatch)) {
+      console.log(`🤝 SCORES LEVEL - offering Super Over`);
+      setShowSuperOverOffer(true);
+    } else {
+      console.log(`🏆 MATCH COMPLETE!`);
+      handleMatchComplete(completedMatch);
+    }
+    return completedMatch;
+  };
+
+  const handleStartSuperOver = () => {
+    console.log('🏏 Starting Super Over');
+
+    // CRITICAL FIX: Disable auto-save temporarily during transition to prevent infinite loading
+    setCloudSyncDisabled(true);
+
+    setMatch(MatchReducer.reduce(match, { type: 'super_over' }));
+    setShowSuperOverOffer(false);
+    setIsSecondInningsSetup(false);
+    setShowInningsSetup(true);
+  };
+
+  const handleDeclineSuperOver = () => {
+    setShowSuperOverOffer(false);
+    handleMatchComplete();
+  };
+
+  const openInterruptionModal = (innings: 1 | 2) => {
+    setInterruptionInnings(innings);
+    setRevisedOvers(Math.max(1, CricketEngine.getInningsOversLimit(match, innings) - 1));
+    setInterruptionReason('rain');
+    setShowInterruptionModal(true);
+    setShowMenu(false);
+  };
+
+  const handleRecordInterruption = () => {
+    const isCurrentInnings = interruptionInnings === (match.isSecondInnings ? 2 : 1) && !showInningsBreak;
+    const oversBefore = CricketEngine.getInningsOversLimit(match, interruptionInnings);
+    const legalBalls = isCurrentInnings ? CricketEngine.getLegalBalls(match.battingTeam, match) : 0;
+    // Overs can't be cut below what has been bowled, and a part-bowled over must be finished
+    const minOvers = Math.max(1, Math.ceil(legalBalls / CricketEngine.getBallsPerOver(match)));
+
+    if (!Number.isInteger(revisedOvers) || revisedOvers < minOvers || revisedOvers >= oversBefore) {
+      alert(`Revised overs must be a whole number from ${minOvers} to ${oversBefore - 1}.`);
+      return;
+    }
+
+    const interruption: Interruption = {
+      innings: interruptionInnings,
+      legalBalls,
+      wickets: isCurrentInnings ? match.battingTeam.wickets : 0,
+      oversBefore,
+      oversAfter: revisedOvers,
+      reason: interruptionReason,
+      timestamp: Date.now()
+    };
+    console.log(`🌧️ INTERRUPTION: innings ${interruption.innings} cut from ${oversBefore} to ${revisedOvers} overs`);
+
+    const updatedMatch = MatchReducer.reduce(match, { type: 'interruption', interruption });
+    setRedoStack([]);
+    setShowInterruptionModal(false);
+
+    // Cutting the overs to what has been bowled, or lowering the target below the score, ends the innings
+    if (isCurrentInnings && CricketEngine.isInningsComplete(updatedMatch)) {
+      setMatch(handleInningsComplete(updatedMatch));
+    } else {
+      setMatch(updatedMatch);
+    }
+  };
+
+  const openPenaltyModal = () => {
+    setPenaltySide('batting');
+    setPenaltyReason('');
+    setShowPenaltyModal(true);
+    setShowMenu(false);
+  };
+
+  const handleAwardPenalty = () => {
+    const team = penaltySide === 'batting' ? match.battingTeam : match.bowlingTeam;
+    console.log(`⚠️ PENALTY: ${PENALTY_RUNS} runs to ${team.name}`);
+
+    const award = CricketEngine.createPenaltyAward(match, team, penaltyReason.trim());
+    const updatedMatch = MatchReducer.reduce(match, { type: 'penalty', award });
+    setRedoStack([]);
+    setShowPenaltyModal(false);
+
+    // Penalty runs to the batting side can reach the target
+    if (CricketEngine.isInningsComplete(updatedMatch)) {
+      setMatch(handleInningsComplete(updatedMatch));
+    } else {
+      setMatch(updatedMatch);
+    }
+  };
+
+  const handleRemovePenalty = (awardId: string) => {
+    setMatch(MatchReducer.reduce(match, { type: 'remove_penalty', awardId }));
+    setRedoStack([]);
+  };
+
   const handleEndInnings = () => {
     console.log('🏏 End Innings requested by user');
     
@@ -479,34 +513,27 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
   const confirmEndInnings = () => {
     console.log('🏏 MANUALLY ENDING INNINGS - User confirmed');
     
-    const updatedMatch = { ...match };
-    
-    if (!updatedMatch.isSecondInnings) {
-      // End first innings, start second
-      console.log('🔄 Manually ending first innings, starting second');
-      setShowEndInningsModal(false);
-      handleInningsTransition();
-    } else {
-      // End second innings, complete match
-      console.log('🏆 Manually ending second innings, completing match');
-      setShowEndInningsModal(false);
-      handleMatchComplete();
-    }
+    setShowEndInningsModal(false);
+    // Closing a two-innings match innings early is a declaration
+    const isDeclaration = CricketEngine.isMultiInnings(match) && !CricketEngine.isFinalInnings(match) &&
+      match.battingTeam.wickets < CricketEngine.getMaxWickets(match);
+    const updatedMatch = isDeclaration ? MatchReducer.reduce(match, { type: 'declare' }) : match;
+    setMatch(handleInningsComplete(updatedMatch));
+  };
+
+  const handleCallDraw = () => {
+    if (!window.confirm('End the match as a draw?')) return;
+    setShowMenu(false);
+    handleMatchComplete(MatchReducer.reduce(match, { type: 'draw' }));
   };
 
   const handleScoreUpdate = (ball: Ball) => {
     console.log(`\n🏏 PROCESSING BALL: ${ball.runs} runs by ${ball.striker.name} off ${ball.bowler.name}`);
     
-    // Add innings and batting team info to ball
-    ball.innings = match.isSecondInnings ? 2 : 1;
-    ball.battingTeamId = match.battingTeam.id || (match.isSecondInnings ? match.team2.id : match.team1.id);
-    
-    // Add to action history for undo functionality
-    setActionHistory([...actionHistory, ball]);
     setRedoStack([]); // Clear redo stack when new action is performed
 
-    // Process the ball using cricket engine
-    let updatedMatch = CricketEngine.processBall(match, ball);
+    // Process the ball through the scoring log
+    let updatedMatch = MatchReducer.scoreBall(match, ball);
 
     console.log(`📊 After ball: ${updatedMatch.battingTeam.score}/${updatedMatch.battingTeam.wickets} in ${updatedMatch.battingTeam.overs}.${updatedMatch.battingTeam.balls}`);
 
@@ -549,25 +576,54 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     }
 
     // Check for wicket - need new batsman
-    if (ball.isWicket) {
-      console.log(`🏏 WICKET! ${ball.striker.name} is out`);
-      setNeedsNewBatsman(true);
-      setShowNewBatsmanSelector(true);
+    if (ball.isWicket && !isInningsComplete) {
+      const dismissed = CricketEngine.getDismissedPlayer(ball);
+      console.log(`🏏 WICKET! ${dismissed?.name} is out`);
+
+      if (CricketEngine.isLastManBatting(updatedMatch)) {
+        // Last man stands: the reducer leaves the survivor batting alone
+        console.log(`🏏 LAST MAN STANDS: ${updatedMatch.currentStriker?.name} bats alone`);
+      } else {
+        setDismissedBatsmanId(dismissed?.id || null);
+        setNeedsNewBatsman(true);
+        setShowNewBatsmanSelector(true);
+      }
     }
 
     // Check for innings completion
     if (isInningsComplete) {
       console.log(`🏁 INNINGS COMPLETE!`);
-      if (!updatedMatch.isSecondInnings) {
-        console.log(`🔄 Moving to second innings`);
-        handleInningsTransition();
-      } else {
-        console.log(`🏆 MATCH COMPLETE!`);
-        handleMatchComplete();
-      }
+      updatedMatch = handleInningsComplete(updatedMatch);
+    }
+
+    setMatch(updatedMatch);
+  };
+
+  // Typed notation: score what can be scored now and hand back the rest,
+  // e.g. the balls after a wicket until the new batter is chosen
+  const handleScoreText = (input: string): { remaining: string; message?: string } => {
+    let deliveries: ParsedDelivery[];
+    try {
+      deliveries = ScoringNotation.parse(input);
+    } catch (error) {
+      return { remaining: input, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    const result = ScoringNotation.score(match, deliveries);
+    console.log(`⌨️ TYPED SCORING: ${result.scored} of ${deliveries.length} balls scored`);
+    if (result.scored === 0) {
+      return { remaining: input, message: result.stoppedFor };
     }
 
+    setRedoStack([]);
+    let updatedMatch = result.match;
+    if (CricketEngine.isInningsComplete(updatedMatch)) {
+      updatedMatch = handleInningsComplete(updatedMatch);
+    } else {
+      promptForMissingPlayers(updatedMatch);
+    }
     setMatch(updatedMatch);
+    return { remaining: result.remaining, message: result.stoppedFor };
   };
 
   const handleBowlerChange = (newBowler: Player) => {
@@ -582,32 +638,30 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     setBowlerSelectionInProgress(true);
     
     try {
-    const updatedMatch = { ...match };
-    
     // ABSOLUTE VALIDATION: Check if this bowler can bowl the next over
-    const nextOver = updatedMatch.battingTeam.overs + 1;
-    const canBowl = CricketEngine.canBowlerBowlNextOver(newBowler, updatedMatch);
+    const nextOver = match.battingTeam.overs + 1;
+    const canBowl = CricketEngine.canBowlerBowlNextOver(newBowler, match);
     
     if (!canBowl) {
       console.log(`❌ BOWLER CHANGE REJECTED: ${newBowler.name} cannot bowl consecutive overs!`);
       alert(`🚫 RULE VIOLATION!\n\n${newBowler.name} cannot bowl consecutive overs!\n\nThis is a fundamental cricket rule. Please select a different bowler.`);
       return;
     }
+
+    if (CricketEngine.hasBowlerReachedLimit(match, newBowler.id)) {
+      console.log(`❌ BOWLER CHANGE REJECTED: ${newBowler.name} has no overs left!`);
+      alert(`🚫 ${newBowler.name} has already bowled their ${CricketEngine.getMaxOversPerBowler(match)} overs.\n\nPlease select a different bowler.`);
+      return;
+    }
     
     console.log(`✅ BOWLER CHANGE APPROVED: ${newBowler.name} can bowl over ${nextOver}`);
     
-    // Update bowler
-    updatedMatch.previousBowler = updatedMatch.currentBowler;
-    updatedMatch.currentBowler = newBowler;
+    // Update bowler - the reducer adds them to the bowling team if needed
+    const updatedMatch = MatchReducer.reduce(match, { type: 'bowler', bowler: newBowler });
+    setRedoStack([]);
     
     console.log(`🔄 Bowler changed: ${updatedMatch.previousBowler?.name} → ${newBowler.name}`);
     
-    // Add bowler to bowling team if not already present
-    if (!updatedMatch.bowlingTeam.players.find(p => p.id === newBowler.id)) {
-      updatedMatch.bowlingTeam.players.push(newBowler);
-      console.log(`➕ Added ${newBowler.name} to bowling team`);
-    }
-    
     // AUTO-CLOSE FIRST: Close all modals immediately to prevent double selection
     setShowBowlerSelector(false);
     setNeedsBowlerChange(false);
@@ -650,20 +704,36 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     }
   };
 
+  const handleRetire = (player: Player, type: RetirementType) => {
+    console.log(`🏏 ${player.name} ${type === 'retired_hurt' ? 'RETIRED HURT' : 'RETIRED OUT'}`);
+    let updatedMatch = MatchReducer.reduce(match, { type: 'retire', player, retirementType: type, timestamp: Date.now() });
+    setRedoStack([]);
+
+    if (type === 'retired_out' && CricketEngine.isInningsComplete(updatedMatch)) {
+      updatedMatch = handleInningsComplete(updatedMatch);
+    } else if (type === 'retired_out' && CricketEngine.isLastManBatting(updatedMatch)) {
+      // Last man stands: the reducer leaves the partner batting alone
+      console.log(`🏏 LAST MAN STANDS: ${updatedMatch.currentStriker?.name} bats alone`);
+    } else {
+      setDismissedBatsmanId(player.id);
+      setNeedsNewBatsman(true);
+      setShowNewBatsmanSelector(true);
+    }
+
+    setMatch(updatedMatch);
+  };
+
   const handleNewBatsman = (newBatsman: Player) => {
-    const updatedMatch = { ...match };
-    
     console.log(`✅ NEW BATSMAN SELECTED: ${newBatsman.name} (${newBatsman.isGuest ? 'Guest' : newBatsman.isGroupMember ? 'Group Member' : 'Player'})`);
     
-    // Immediately update the match and UI
-    // Replace the out batsman (striker) with new batsman
-    updatedMatch.currentStriker = newBatsman;
-    
-    // Add new batsman to batting team if not already present
-    if (!updatedMatch.battingTeam.players.find(p => p.id === newBatsman.id)) {
-      updatedMatch.battingTeam.players.push(newBatsman);
-      console.log(`🏏 Added ${newBatsman.name} to batting team as new batsman`);
-    }
+    // Immediately update the match and UI - the new batsman takes the out batsman's end
+    const updatedMatch = MatchReducer.reduce(match, {
+      type: 'new_batter',
+      batter: newBatsman,
+      replacing: dismissedBatsmanId || undefined
+    });
+    setDismissedBatsmanId(null);
+    setRedoStack([]);
     
     setMatch(updatedMatch);
     
@@ -681,65 +751,96 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     });
   };
 
+  // Undo replays the log without the last ball, so the end of an over or a
+  // wicket comes back exactly as it was
   const handleUndo = () => {
-    if (actionHistory.length === 0) return;
-
-    const lastBall = actionHistory[actionHistory.length - 1];
-    const updatedMatch = { ...match };
-
-    // Remove last ball from match
-    updatedMatch.balls = updatedMatch.balls.filter(b => b.id !== lastBall.id);
-
-    // Revert score changes
-    updatedMatch.battingTeam.score -= lastBall.runs;
-
-    // Revert extras
-    if (lastBall.isWide) {
-      updatedMatch.battingTeam.extras.wides--;
-    } else if (lastBall.isNoBall) {
-      updatedMatch.battingTeam.extras.noBalls--;
-    } else if (lastBall.isBye) {
-      updatedMatch.battingTeam.extras.byes -= lastBall.runs;
-    } else if (lastBall.isLegBye) {
-      updatedMatch.battingTeam.extras.legByes -= lastBall.runs;
-    }
+    if (!MatchReducer.canUndo(match)) return;
 
-    // Revert wickets and Fall of Wickets
-    if (lastBall.isWicket) {
-      updatedMatch.battingTeam.wickets--;
-      // Remove the last fall of wicket entry
-      if (updatedMatch.battingTeam.fallOfWickets && updatedMatch.battingTeam.fallOfWickets.length > 0) {
-        updatedMatch.battingTeam.fallOfWickets.pop();
-      }
+    const { match: updatedMatch, undone } = MatchReducer.undo(match);
+    console.log(`↩️ UNDO: took back ${undone.events.length} scoring event(s)`);
+
+    setMatch(updatedMatch);
+    setRedoStack([undone, ...redoStack]);
+    setPendingStrikeRotation(false);
+    setOverCompleteMessage(null);
+    setNeedsBowlerChange(false);
+    setNeedsNewBatsman(false);
+    setDismissedBatsmanId(null);
+    setShowBowlerSelector(false);
+    setShowNewBatsmanSelector(false);
+  };
+
+  const handleRedo = () => {
+    if (redoStack.length === 0) return;
+
+    const [undone, ...remaining] = redoStack;
+    let updatedMatch = MatchReducer.redo(match, undone);
+    console.log(`↪️ REDO: replayed ${undone.events.length} scoring event(s)`);
+    setRedoStack(remaining);
+
+    if (CricketEngine.isInningsComplete(updatedMatch)) {
+      updatedMatch = handleInningsComplete(updatedMatch);
+    } else {
+      promptForMissingPlayers(updatedMatch);
     }
+    setMatch(updatedMatch);
+  };
 
-    // Revert ball count and overs
-    if (!lastBall.isWide && !lastBall.isNoBall) {
-      if (updatedMatch.battingTeam.balls === 0 && updatedMatch.battingTeam.overs > 0) {
-        updatedMatch.battingTeam.overs--;
-        updatedMatch.battingTeam.balls = 5;
-      } else {
-        updatedMatch.battingTeam.balls--;
-      }
+  // Ask for whoever is still needed when the redone events stop short of choosing them
+  const promptForMissingPlayers = (updatedMatch: Match) => {
+    const outgoing = CricketEngine.getBatterToReplace(updatedMatch);
+    if (outgoing) {
+      setDismissedBatsmanId(outgoing.id);
+      setNeedsNewBatsman(true);
+      setShowNewBatsmanSelector(true);
+    }
+    if (!updatedMatch.currentBowler) {
+      setOverCompleteMessage(`Over ${updatedMatch.battingTeam.overs} completed!`);
+      setNeedsBowlerChange(true);
+      setShowBowlerSelector(true);
     }
+  };
+
+  // Corrections to past deliveries replay the match from its log
+  const canEditBalls = MatchReducer.canEditBalls(match);
 
-    // CRITICAL: Check if undoing the last ball of an over
-    // If we're undoing and the current bowler is undefined (over complete), 
-    // we need to restore the previous bowler
-    if (!updatedMatch.currentBowler && updatedMatch.previousBowler) {
-      console.log(`🔄 UNDO: Restoring bowler from over completion`);
-      updatedMatch.currentBowler = updatedMatch.previousBowler;
-      updatedMatch.previousBowler = undefined;
+  const handleSaveBall = (ball: Ball, incoming?: Player) => {
+    if (!editingBall) return;
+    console.log(`✏️ ${editingBall.mode === 'insert' ? 'INSERTING' : 'EDITING'} BALL: ${ball.commentary}`);
+    try {
+      applyCorrection(editingBall.mode === 'insert'
+        ? MatchReducer.insertBall(match, editingBall.ball.id, ball, incoming)
+        : MatchReducer.editBall(match, ball, incoming));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not correct this ball');
     }
+  };
 
-    setMatch(updatedMatch);
-    setActionHistory(actionHistory.slice(0, -1));
-    setRedoStack([lastBall, ...redoStack]);
+  const handleDeleteBall = () => {
+    if (!editingBall) return;
+    if (!confirm('Delete this ball? Everything scored after it will be worked out again.')) return;
+    console.log(`🗑️ DELETING BALL: ${editingBall.ball.commentary}`);
+    applyCorrection(MatchReducer.deleteBall(match, editingBall.ball.id));
+  };
+
+  const applyCorrection = (correctedMatch: Match) => {
+    setEditingBall(null);
+    setRedoStack([]);
     setPendingStrikeRotation(false);
     setOverCompleteMessage(null);
     setNeedsBowlerChange(false);
     setNeedsNewBatsman(false);
+    setDismissedBatsmanId(null);
     setShowBowlerSelector(false);
+    setShowNewBatsmanSelector(false);
+
+    let updatedMatch = correctedMatch;
+    if (CricketEngine.isInningsComplete(updatedMatch)) {
+      updatedMatch = handleInningsComplete(updatedMatch);
+    } else {
+      promptForMissingPlayers(updatedMatch);
+    }
+    setMatch(updatedMatch);
   };
 
   const getAvailableBowlers = (): Player[] => {
@@ -758,7 +859,8 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
       console.log(`🚨 NO AVAILABLE BOWLERS - USING FALLBACK LOGIC`);
       const fallbackBowlers = match.bowlingTeam.players.filter(bowler => 
         bowler.id !== match.currentStriker?.id &&
-        bowler.id !== match.currentNonStriker?.id
+        bowler.id !== match.currentNonStriker?.id &&
+        !CricketEngine.hasBowlerReachedLimit(match, bowler.id)
       );
       console.log(`✅ FALLBACK BOWLERS:`, fallbackBowlers.map(b => b.name));
       return fallbackBowlers;
@@ -770,29 +872,46 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
   const getAvailableBatsmen = (): Player[] => {
     return match.battingTeam.players.filter(p => 
       p.id !== match.currentStriker?.id && 
-      p.id !== match.currentNonStriker?.id
+      p.id !== match.currentNonStriker?.id &&
+      !CricketEngine.isOutInCurrentInnings(match, p.id)
     );
   };
 
+  // The next batter in the side's planned order, offered first
+  const getNextBatterSuggestion = (): { playerId: string; label: string } | undefined => {
+    const next = TeamService.getNextBatter(match);
+    return next ? { playerId: next.id, label: 'Next in the batting order' } : undefined;
+  };
+
+  // Flag retired hurt batters who can resume
+  const getRetiredHurtNotes = (): Record<string, string> => {
+    const notes: Record<string, string> = {};
+    match.battingTeam.players.forEach(p => {
+      if (CricketEngine.isRetiredHurt(match, p.id)) notes[p.id] = 'Retired hurt - can resume';
+    });
+    return notes;
+  };
+
+  const getBowlerOversNotes = (): Record<string, string> => {
+    const notes: Record<string, string> = {};
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    match.bowlingTeam.players.forEach(p => {
+      const bowled = CricketEngine.formatOvers(CricketEngine.getBowlerLegalBalls(match, p.id), ballsPerOver);
+      const remaining = CricketEngine.getBowlerOversRemaining(match, p.id);
+      notes[p.id] = remaining === null ? `${bowled} ov` : `${bowled} ov - ${remaining} left`;
+    });
+    return notes;
+  };
+
   const handleAddPlayer = (player: Player) => {
-    const updatedMatch = { ...match };
-    
     console.log(`✅ PLAYER SELECTED: ${player.name} (${player.isGuest ? 'Guest' : player.isGroupMember ? 'Group Member' : 'Player'})`);
     
-    // Immediately update the match and UI
-    if (addPlayerType === 'batting') {
-      if (updatedMatch.battingTeam?.players && !updatedMatch.battingTeam.players.find(p => p.id === player.id)) {
-        updatedMatch.battingTeam.players.push(player);
-        console.log(`🏏 Added ${player.name} to batting team`);
-      }
-    } else {
-      if (updatedMatch.bowlingTeam?.players && !updatedMatch.bowlingTeam.players.find(p => p.id === player.id)) {
-        updatedMatch.bowlingTeam.players.push(player);
-        console.log(`🎳 Added ${player.name} to bowling team`);
-      }
+    // Logged, so the player is still in the side after an undo or a resume
+    const team = addPlayerType === 'batting' ? match.battingTeam : match.bowlingTeam;
+    if (!team.players.some(p => p.id === player.id)) {
+      setMatch(MatchReducer.reduce(match, { type: 'add_player', player, teamName: team.name }));
+      console.log(`${addPlayerType === 'batting' ? '🏏' : '🎳'} Added ${player.name} to ${team.name}`);
     }
-    
-    setMatch(updatedMatch);
     setShowAddPlayerModal(false);
     
     // Save to storage in the background with indicator
@@ -805,8 +924,82 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
     });
   };
 
+  const handleSwapStrike = () => {
+    if (!match.currentNonStriker) return;
+    console.log(`🔄 STRIKE SWAPPED BY HAND: ${match.currentNonStriker.name} now on strike`);
+    setMatch(MatchReducer.reduce(match, { type: 'swap_strike' }));
+    setRedoStack([]);
+  };
+
+  // Keys are saved to the signed-in user's match settings
+  const handleShortcutsChange = async (bindings: ScoringKeyBindings, enabled: boolean) => {
+    setShortcutBindings(bindings);
+    setShortcutsEnabled(enabled);
+
+    const user = authService.getCurrentUser();
+    if (!user?.preferences) return;
+    try {
+      await authService.updateUserProfile({
+        preferences: {
+          ...user.preferences,
+          matchSettings: {
+            ...user.preferences.matchSettings,
+            scoringShortcuts: enabled,
+            scoringKeyBindings: ScoringShortcuts.getOverrides(bindings)
+          }
+        }
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to save keyboard shortcuts:', error);
+    }
+  };
+
+  // Shortcuts stay quiet while anything else has the scorer's attention
+  const isKeyboardBlocked = showBowlerSelector || showNewBatsmanSelector || showBatsmanSelector || showInningsBreak ||
+    showInningsSetup || showMatchSummary || showAddPlayerModal || showScorecard || showMotmSelector ||
+    showEndInningsModal || showSuperOverOffer || showInterruptionModal || showPenaltyModal || showShortcuts ||
+    !!editingBall || match.isCompleted;
+
+  // Match-level shortcuts; ScoringPanel handles the scoring keys
+  useEffect(() => {
+    if (!shortcutsEnabled || isKeyboardBlocked) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = ScoringShortcuts.getAction(event, shortcutBindings);
+      switch (action) {
+        case 'undo':
+          handleUndo();
+          break;
+        case 'redo':
+          handleRedo();
+          break;
+        case 'swap_strike':
+          handleSwapStrike();
+          break;
+        case 'change_bowler':
+          setShowBowlerSelector(true);
+          break;
+        case 'shortcut_help':
+          setShowShortcuts(true);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [match, redoStack, shortcutBindings, shortcutsEnabled, isKeyboardBlocked]);
+
   const currentGroup = authService.getCurrentGroup();
   const isGroupMatch = !match.isStandalone && currentGroup;
+  const recentBalls = CricketEngine.getCurrentSuperOver(match)?.balls || match.balls;
+  const isFinalInnings = match.isSuperOver
+    ? CricketEngine.getSuperOverInningsNumber(match) === 2
+    : CricketEngine.isFinalInnings(match);
+  const isMultiInnings = CricketEngine.isMultiInnings(match);
+  const endInningsLabel = isFinalInnings ? 'End Match' : match.isSuperOver ? 'End Innings' : isMultiInnings ? 'Declare' : 'End First Innings';
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -882,6 +1075,14 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
             </>
           )}
           
+          <button
+            onClick={() => setShowShortcuts(true)}
+            className="hidden sm:block p-1 hover:bg-gray-100 rounded-lg transition-colors"
+            title={`Keyboard shortcuts (${shortcutBindings.shortcut_help})`}
+          >
+            <Keyboard className="w-4 h-4" />
+          </button>
+
           {/* Debug: Manual Bowler Selector */}
           {needsBowlerChange && (
             <button
@@ -917,6 +1118,33 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
                <BarChart3 className="w-4 h-4 text-gray-600" />
                <span className="text-gray-700">View Scorecard</span>
              </button>
+             {!match.isCompleted && !match.isSuperOver && !isMultiInnings && (
+               <button
+                 onClick={() => openInterruptionModal(match.isSecondInnings ? 2 : 1)}
+                 className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center space-x-3"
+               >
+                 <CloudRain className="w-4 h-4 text-gray-600" />
+                 <span className="text-gray-700">Rain / Bad Light</span>
+               </button>
+             )}
+             {!match.isCompleted && !match.isSuperOver && (
+               <button
+                 onClick={openPenaltyModal}
+                 className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center space-x-3"
+               >
+                 <Flag className="w-4 h-4 text-gray-600" />
+                 <span className="text-gray-700">Penalty Runs</span>
+               </button>
+             )}
+             {!match.isCompleted && isMultiInnings && (
+               <button
+                 onClick={handleCallDraw}
+                 className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center space-x-3"
+               >
+                 <Clock className="w-4 h-4 text-gray-600" />
+                 <span className="text-gray-700">Stumps - Match Drawn</span>
+               </button>
+             )}
            </div>
          </div>
        )}
@@ -971,6 +1199,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
       {/* Content */}
       <div className="p-2 space-y-2">
         <CompactScoreDisplay match={match} />
+        <WinProbabilityBar match={match} model={winModel} />
         
         {/* End Innings Button - Mobile optimized */}
         {!match.isCompleted && (
@@ -982,7 +1211,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
                 </div>
                 <div className="min-w-0 flex-1">
                   <h3 className="font-semibold text-gray-900 text-sm">
-                    {match.isSecondInnings ? 'End Match Early?' : 'End First Innings Early?'}
+                    {isFinalInnings ? 'End Match Early?' : match.isSuperOver ? 'End Super Over Innings?' : isMultiInnings ? 'Declare Innings?' : 'End First Innings Early?'}
                   </h3>
                   <p className="text-xs text-gray-600 mt-1">
                     For friendly matches with fewer players or early completion
@@ -995,7 +1224,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
                 type="button"
               >
                 <Trophy className="w-4 h-4" />
-                <span>{match.isSecondInnings ? 'End Match' : 'End Innings'}</span>
+                <span>{isFinalInnings ? 'End Match' : isMultiInnings ? 'Declare' : 'End Innings'}</span>
               </button>
             </div>
           </div>
@@ -1005,20 +1234,32 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
           match={match}
           onScoreUpdate={handleScoreUpdate}
           onUndo={handleUndo}
-          canUndo={actionHistory.length > 0}
+          onRedo={handleRedo}
+          onRetire={handleRetire}
+          onScoreText={handleScoreText}
+          onSwapStrike={handleSwapStrike}
+          shortcutBindings={shortcutsEnabled && !isKeyboardBlocked ? shortcutBindings : undefined}
+          canUndo={MatchReducer.canUndo(match)}
+          canRedo={redoStack.length > 0}
           pendingStrikeRotation={pendingStrikeRotation}
           onStrikeRotation={() => setPendingStrikeRotation(false)}
         />
 
         {/* Recent Balls */}
-        {match.balls.length > 0 && (
+        {recentBalls.length > 0 && (
           <div className="bg-white rounded-lg shadow-sm p-2">
             <h3 className="font-semibold text-gray-900 text-sm mb-2">Recent Balls</h3>
             <div className="space-y-1">
-              {match.balls.slice(-5).reverse().map((ball, index) => (
-                <div key={ball.id} className="flex justify-between items-center py-1 border-b border-gray-100 last:border-b-0 text-xs">
+              {recentBalls.slice(-5).reverse().map((ball, index) => (
+                <div
+                  key={ball.id}
+                  onClick={canEditBalls ? () => setEditingBall({ ball, mode: 'edit' }) : undefined}
+                  className={`flex justify-between items-center py-1 border-b border-gray-100 last:border-b-0 text-xs ${
+                    canEditBalls ? 'cursor-pointer hover:bg-gray-50' : ''
+                  }`}
+                >
                   <div className="text-gray-600">
-                    {ball.overNumber}.{((ball.ballNumber - 1) % 6) + 1}
+                    {ball.overNumber}.{((ball.ballNumber - 1) % CricketEngine.getBallsPerOver(match)) + 1}
                   </div>
                   <div className="flex-1 mx-2">{ball.commentary}</div>
                   <div className="font-semibold">
@@ -1037,6 +1278,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
           <InningsBreakModal
             match={match}
             onContinue={handleInningsBreakContinue}
+            onReduceOvers={isMultiInnings ? undefined : () => openInterruptionModal(2)}
           />
         )}
       </AnimatePresence>
@@ -1049,9 +1291,51 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
           onClose={() => setShowInningsSetup(false)}
           onSetupComplete={handleInningsSetup}
           isSecondInnings={isSecondInningsSetup}
+          isSuperOver={match.isSuperOver}
         />
       )}
 
+      {/* Super Over Offer Modal */}
+      {showSuperOverOffer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+            <div className="bg-gradient-to-r from-purple-500 to-indigo-500 p-6 text-white rounded-t-2xl">
+              <div className="flex items-center space-x-3">
+                <Trophy className="w-6 h-6" />
+                <h2 className="text-xl font-bold">{match.isSuperOver ? 'Super Over Tied!' : 'Match Tied!'}</h2>
+              </div>
+              <p className="text-sm mt-2 opacity-90">
+                {match.battingTeam.name} and {match.bowlingTeam.name} are level on {match.battingTeam.score}
+              </p>
+            </div>
+
+            <div className="p-6">
+              <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+                <p className="text-sm text-purple-700">
+                  <strong>Super Over:</strong> one over per side with two wickets each.
+                  {' '}{match.battingTeam.name} bats first. The side with more runs wins the match.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 p-6 bg-gray-50 rounded-b-2xl">
+              <button
+                onClick={handleDeclineSuperOver}
+                className="px-6 py-3 text-gray-600 hover:text-gray-800 font-medium transition-colors rounded-lg hover:bg-gray-100"
+              >
+                End as Tie
+              </button>
+              <button
+                onClick={handleStartSuperOver}
+                className="px-6 py-3 bg-gradient-to-r from-purple-500 to-indigo-500 text-white font-semibold rounded-lg hover:from-purple-600 hover:to-indigo-600 transition-all duration-200 transform hover:scale-105 active:scale-95 shadow-lg"
+              >
+                🏏 Play Super Over
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* IMPROVED: Simple Bowler Selector using PlayerSelector - Just like Batsman Selection */}
       {showBowlerSelector && (
         <PlayerSelector
@@ -1077,6 +1361,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
           groupId={currentGroup?.id}
           filterByGroup={isGroupMatch} // Filter by group for group matches
           excludePlayerIds={match.currentBowler ? [match.currentBowler.id] : []}
+          playerNotes={getBowlerOversNotes()}
         />
       )}
 
@@ -1094,6 +1379,18 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
           allowAddPlayer={true}
           groupId={currentGroup?.id}
           filterByGroup={isGroupMatch} // Filter by group for group matches
+          playerNotes={getRetiredHurtNotes()}
+          suggestion={getNextBatterSuggestion()}
+        />
+      )}
+
+      {/* Keyboard Shortcuts */}
+      {showShortcuts && (
+        <ShortcutCheatSheet
+          bindings={shortcutBindings}
+          enabled={shortcutsEnabled}
+          onChange={handleShortcutsChange}
+          onClose={() => setShowShortcuts(false)}
         />
       )}
 
@@ -1103,6 +1400,20 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
           match={match}
           isOpen={showScorecard}
           onClose={() => setShowScorecard(false)}
+          onEditBall={canEditBalls ? ball => setEditingBall({ ball, mode: 'edit' }) : undefined}
+        />
+      )}
+
+      {/* Ball Editor Modal */}
+      {editingBall && (
+        <BallEditorModal
+          match={match}
+          ball={editingBall.ball}
+          mode={editingBall.mode}
+          onSave={handleSaveBall}
+          onDelete={handleDeleteBall}
+          onInsertBefore={() => setEditingBall({ ball: editingBall.ball, mode: 'insert' })}
+          onClose={() => setEditingBall(null)}
         />
       )}
 
@@ -1130,7 +1441,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
                 <h2 className="text-xl font-bold">End Innings Confirmation</h2>
               </div>
               <p className="text-sm mt-2 opacity-90">
-                {match.isSecondInnings ? 'This will end the match' : 'This will end the first innings'}
+                {isFinalInnings ? 'This will end the match' : match.isSuperOver ? 'This will end this Super Over innings' : `This will end the ${CricketEngine.formatInnings(CricketEngine.getCurrentInningsNumber(match))} innings`}
               </p>
             </div>
             
@@ -1142,7 +1453,7 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
                 </div>
                 <div className="text-sm text-yellow-700 space-y-1">
                   <p><strong>{match.battingTeam.name}:</strong> {match.battingTeam.score}/{match.battingTeam.wickets} ({match.battingTeam.overs}.{match.battingTeam.balls} overs)</p>
-                  {match.isSecondInnings && (
+                  {isFinalInnings && (
                     <p><strong>Target:</strong> {target} runs</p>
                   )}
                   <p><strong>Batting:</strong> {match.currentStriker?.name || 'N/A'} & {match.currentNonStriker?.name || 'N/A'}</p>
@@ -1161,15 +1472,15 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
                 </ul>
               </div>
 
-              {!match.isSecondInnings && (
+              {!isFinalInnings && !match.isSuperOver && (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                   <p className="text-sm text-green-700">
-                    <strong>After ending first innings:</strong> You'll proceed to set up the second innings with opening batsmen and bowler selection.
+                    <strong>After ending this innings:</strong> You'll proceed to set up the next innings with opening batsmen and bowler selection.
                   </p>
                 </div>
               )}
 
-              {match.isSecondInnings && (
+              {isFinalInnings && (
                 <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
                   <p className="text-sm text-purple-700">
                     <strong>After ending second innings:</strong> The match will be completed and final results will be calculated.
@@ -1189,7 +1500,174 @@ export const LiveScorer: React.FC<LiveScorerProps> = ({
                 onClick={confirmEndInnings}
                 className="px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 text-white font-semibold rounded-lg hover:from-orange-600 hover:to-red-600 transition-all duration-200 transform hover:scale-105 active:scale-95 shadow-lg"
               >
-                {match.isSecondInnings ? '🏆 End Match' : '🔄 End First Innings'}
+                {isFinalInnings ? '🏆 ' : '🔄 '}{endInningsLabel}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Interruption Modal */}
+      {showInterruptionModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+            <div className="bg-gradient-to-r from-sky-500 to-blue-600 p-6 text-white rounded-t-2xl">
+              <div className="flex items-center space-x-3">
+                <CloudRain className="w-6 h-6" />
+                <h2 className="text-xl font-bold">Record Interruption</h2>
+              </div>
+              <p className="text-sm mt-2 opacity-90">
+                Reduce the overs and revise the target using the DLS method
+              </p>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Innings</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {([1, 2] as const).map(innings => (
+                    <button
+                      key={innings}
+                      onClick={() => {
+                        setInterruptionInnings(innings);
+                        setRevisedOvers(Math.max(1, CricketEngine.getInningsOversLimit(match, innings) - 1));
+                      }}
+                      disabled={innings === 1 && (match.isSecondInnings || showInningsBreak)}
+                      className={`py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 ${
+                        interruptionInnings === innings ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {innings === 1 ? '1st' : '2nd'} Innings ({CricketEngine.getInningsOversLimit(match, innings)} ov)
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Revised Overs</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={CricketEngine.getInningsOversLimit(match, interruptionInnings) - 1}
+                  value={revisedOvers}
+                  onChange={(e) => setRevisedOvers(parseInt(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                <select
+                  value={interruptionReason}
+                  onChange={(e) => setInterruptionReason(e.target.value as Interruption['reason'])}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="rain">Rain</option>
+                  <option value="bad_light">Bad light</option>
+                  <option value="other">Other</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 p-6 bg-gray-50 rounded-b-2xl">
+              <button
+                onClick={() => setShowInterruptionModal(false)}
+                className="px-6 py-3 text-gray-600 hover:text-gray-800 font-medium transition-colors rounded-lg hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRecordInterruption}
+                className="px-6 py-3 bg-gradient-to-r from-sky-500 to-blue-600 text-white font-semibold rounded-lg hover:from-sky-600 hover:to-blue-700 transition-all duration-200 shadow-lg"
+              >
+                Reduce Overs
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Penalty Runs Modal */}
+      {showPenaltyModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+            <div className="bg-gradient-to-r from-amber-500 to-orange-600 p-6 text-white rounded-t-2xl">
+              <div className="flex items-center space-x-3">
+                <Flag className="w-6 h-6" />
+                <h2 className="text-xl font-bold">Penalty Runs</h2>
+              </div>
+              <p className="text-sm mt-2 opacity-90">
+                Award {PENALTY_RUNS} penalty runs to either side
+              </p>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Awarded To</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['batting', 'fielding'] as const).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => setPenaltySide(side)}
+                      className={`py-2 px-2 rounded-lg text-sm font-medium transition-colors ${
+                        penaltySide === side ? 'bg-orange-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {side === 'batting' ? match.battingTeam.name : match.bowlingTeam.name}
+                      <span className="block text-xs opacity-75">{side === 'batting' ? 'Batting' : 'Fielding'}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason (optional)</label>
+                <input
+                  type="text"
+                  value={penaltyReason}
+                  onChange={(e) => setPenaltyReason(e.target.value)}
+                  placeholder="e.g. Ball hit fielder's helmet"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+              </div>
+
+              {(match.penaltyAwards || []).length > 0 && (
+                <div>
+                  <div className="text-sm font-medium text-gray-700 mb-2">Awarded This Match</div>
+                  <div className="space-y-1">
+                    {(match.penaltyAwards || []).map(award => (
+                      <div key={award.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                        <span className="text-gray-700">
+                          {award.runs} to {award.teamName}
+                          {award.reason && <span className="text-gray-500"> - {award.reason}</span>}
+                        </span>
+                        {award.innings === CricketEngine.getCurrentInningsNumber(match) && (
+                          <button
+                            onClick={() => handleRemovePenalty(award.id)}
+                            className="text-red-600 hover:text-red-700 text-xs font-medium"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3 p-6 bg-gray-50 rounded-b-2xl">
+              <button
+                onClick={() => setShowPenaltyModal(false)}
+                className="px-6 py-3 text-gray-600 hover:text-gray-800 font-medium transition-colors rounded-lg hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAwardPenalty}
+                className="px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-600 text-white font-semibold rounded-lg hover:from-amber-600 hover:to-orange-700 transition-all duration-200 shadow-lg"
+              >
+                Award {PENALTY_RUNS} Runs
               </button>
             </div>
           </div>
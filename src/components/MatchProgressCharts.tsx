@@ -0,0 +1,148 @@
+import React from 'react';
+import { Match } from '../types/cricket';
+import { MatchCharts, InningsProgression } from '../services/matchCharts';
+
+interface MatchProgressChartsProps {
+  match: Match;
+}
+
+const WIDTH = 320;
+const HEIGHT = 170;
+const PAD = { left: 30, right: 8, top: 8, bottom: 22 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+// Axes, gridlines and labels shared by the three charts
+const ChartFrame: React.FC<{ title: string; oversAxis: number; yMax: number; children: React.ReactNode }> = ({
+  title,
+  oversAxis,
+  yMax,
+  children
+}) => {
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(f => Math.round(yMax * f));
+  const xStep = Math.max(1, Math.ceil(oversAxis / 10));
+  const xTicks = Array.from({ length: Math.floor(oversAxis / xStep) + 1 }, (_, i) => i * xStep);
+
+  return (
+    <div>
+      <h5 className="text-sm font-semibold text-gray-700 mb-1">{title}</h5>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {yTicks.map(tick => {
+          const y = PAD.top + PLOT_HEIGHT - (tick / yMax) * PLOT_HEIGHT;
+          return (
+            <g key={tick}>
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y} y2={y} stroke="#e5e7eb" strokeWidth={1} />
+              <text x={PAD.left - 4} y={y + 3} fontSize={8} fill="#6b7280" textAnchor="end">{tick}</text>
+            </g>
+          );
+        })}
+        {xTicks.map(tick => (
+          <text
+            key={tick}
+            x={PAD.left + (tick / oversAxis) * PLOT_WIDTH}
+            y={HEIGHT - 8}
+            fontSize={8}
+            fill="#6b7280"
+            textAnchor="middle"
+          >
+            {tick}
+          </text>
+        ))}
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={PAD.top + PLOT_HEIGHT} y2={PAD.top + PLOT_HEIGHT} stroke="#9ca3af" />
+        {children}
+      </svg>
+    </div>
+  );
+};
+
+const Legend: React.FC<{ progressions: InningsProgression[] }> = ({ progressions }) => (
+  <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+    {progressions.map(p => (
+      <span key={p.innings} className="flex items-center">
+        <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: MatchCharts.getInningsColor(p.innings) }} />
+        {p.teamName}{progressions.length > 2 ? ` (inns ${p.innings})` : ''}
+      </span>
+    ))}
+    <span className="flex items-center">
+      <span className="inline-block w-2 h-2 rounded-full bg-red-600 mr-1" />
+      Wicket
+    </span>
+  </div>
+);
+
+// Worm, Manhattan and run-rate charts for every innings played
+export const MatchProgressCharts: React.FC<MatchProgressChartsProps> = ({ match }) => {
+  const progressions = MatchCharts.getProgressions(match);
+  if (progressions.length === 0) return null;
+
+  const oversAxis = MatchCharts.getOversAxis(match, progressions);
+  const x = (overs: number) => PAD.left + (overs / oversAxis) * PLOT_WIDTH;
+  const yFor = (value: number, max: number) => PAD.top + PLOT_HEIGHT - (value / max) * PLOT_HEIGHT;
+
+  const wormMax = MatchCharts.getAxisMax(Math.max(...progressions.flatMap(p => p.overs.map(o => o.total))));
+  const overMax = MatchCharts.getAxisMax(Math.max(...progressions.flatMap(p => p.overs.map(o => o.runs))));
+  const rateMax = MatchCharts.getAxisMax(Math.max(...progressions.flatMap(p => p.overs.map(o => o.runRate))));
+  const barWidth = (PLOT_WIDTH / oversAxis) / progressions.length;
+
+  return (
+    <div className="space-y-4">
+      <Legend progressions={progressions} />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ChartFrame title="Worm" oversAxis={oversAxis} yMax={wormMax}>
+          {progressions.map(p => (
+            <g key={p.innings}>
+              <polyline
+                fill="none"
+                stroke={MatchCharts.getInningsColor(p.innings)}
+                strokeWidth={2}
+                points={[`${x(0)},${yFor(0, wormMax)}`, ...p.overs.map(o => `${x(o.oversBowled)},${yFor(o.total, wormMax)}`)].join(' ')}
+              />
+              {p.wickets.map((wicket, index) => (
+                <circle key={index} cx={x(wicket.oversBowled)} cy={yFor(wicket.total, wormMax)} r={3} fill="#dc2626" stroke="white" strokeWidth={1} />
+              ))}
+            </g>
+          ))}
+        </ChartFrame>
+
+        <ChartFrame title="Manhattan" oversAxis={oversAxis} yMax={overMax}>
+          {progressions.map((p, index) => (
+            <g key={p.innings}>
+              {p.overs.map(o => {
+                const left = x(o.over - 1) + index * barWidth;
+                const top = yFor(o.runs, overMax);
+                return (
+                  <g key={o.over}>
+                    <rect
+                      x={left + barWidth * 0.1}
+                      y={top}
+                      width={barWidth * 0.8}
+                      height={PAD.top + PLOT_HEIGHT - top}
+                      fill={MatchCharts.getInningsColor(p.innings)}
+                    >
+                      <title>{`${p.teamName} over ${o.over}: ${o.runs} runs${o.wickets ? `, ${o.wickets} wkt` : ''}`}</title>
+                    </rect>
+                    {Array.from({ length: o.wickets }, (_, w) => (
+                      <circle key={w} cx={left + barWidth / 2} cy={top - 4 - w * 6} r={2.5} fill="#dc2626" />
+                    ))}
+                  </g>
+                );
+              })}
+            </g>
+          ))}
+        </ChartFrame>
+
+        <ChartFrame title="Run Rate" oversAxis={oversAxis} yMax={rateMax}>
+          {progressions.map(p => (
+            <polyline
+              key={p.innings}
+              fill="none"
+              stroke={MatchCharts.getInningsColor(p.innings)}
+              strokeWidth={2}
+              points={p.overs.map(o => `${x(o.oversBowled)},${yFor(o.runRate, rateMax)}`).join(' ')}
+            />
+          ))}
+        </ChartFrame>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Play, Users, Trophy, Sparkles, Target, Clock, ChevronDown, Search, History, Plus, AlertCircle, AlertTriangle } from 'lucide-react';
-import { Match, Team, MatchFormat, MATCH_FORMATS, Player } from '../types/cricket';
+import { Play, Users, Trophy, Sparkles, Target, Clock, ChevronDown, Search, History, Plus, AlertCircle, AlertTriangle, Shuffle } from 'lucide-react';
+import { Match, Team, MatchFormat, MATCH_FORMATS, Player, GroupTeam, Tournament } from '../types/cricket';
 import { InningsSetupModal } from './InningsSetupModal';
+import { PlayingXISelector } from './PlayingXISelector';
+import { BalancedTeamPicker } from './BalancedTeamPicker';
 import { storageService } from '../services/storage';
 import { authService } from '../services/authService';
+import { DEFAULT_PLAYERS_PER_TEAM, DEFAULT_WIDE_RUNS, DEFAULT_NO_BALL_RUNS, DEFAULT_FOLLOW_ON_MARGIN } from '../services/cricketEngine';
+import { MatchReducer } from '../services/matchReducer';
+import { TeamService, Lineup } from '../services/teamService';
+import { TournamentService } from '../services/tournamentService';
+import { KnockoutBracket } from '../services/knockoutBracket';
 
 interface MatchSetupProps {
   onMatchStart: (match: Match) => void;
@@ -17,6 +24,15 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
   const [tossDecision, setTossDecision] = useState<'bat' | 'bowl' | ''>('');
   const [selectedFormat, setSelectedFormat] = useState<MatchFormat>(MATCH_FORMATS[0]);
   const [customOvers, setCustomOvers] = useState(15);
+  const [customBallsPerOver, setCustomBallsPerOver] = useState(6);
+  const [customMaxOverPerBowler, setCustomMaxOverPerBowler] = useState(0);
+  const [playersPerTeam, setPlayersPerTeam] = useState(DEFAULT_PLAYERS_PER_TEAM);
+  const [lastManStands, setLastManStands] = useState(false);
+  const [wideRuns, setWideRuns] = useState(DEFAULT_WIDE_RUNS);
+  const [noBallRuns, setNoBallRuns] = useState(DEFAULT_NO_BALL_RUNS);
+  const [freeHits, setFreeHits] = useState(true);
+  const [inningsPerSide, setInningsPerSide] = useState<1 | 2>(1);
+  const [followOnMargin, setFollowOnMargin] = useState(DEFAULT_FOLLOW_ON_MARGIN);
   const [showInningsSetup, setShowInningsSetup] = useState(false);
   const [match, setMatch] = useState<Match | null>(null);
   const [currentGroup, setCurrentGroup] = useState<any>(null);
@@ -27,8 +43,29 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
   const [showTeam2Suggestions, setShowTeam2Suggestions] = useState(false);
   const [filteredTeam1Suggestions, setFilteredTeam1Suggestions] = useState<string[]>([]);
   const [filteredTeam2Suggestions, setFilteredTeam2Suggestions] = useState<string[]>([]);
+  const [teamRosterSizes, setTeamRosterSizes] = useState<Record<string, number>>({});
 
-  const canStartMatch = team1Name.trim() && team2Name.trim() && tossWinner && tossDecision && (isStandalone || currentGroup);
+  // The group's saved teams, and the players sides are picked from: the
+  // group's, or everyone's for a standalone match
+  const [groupTeams, setGroupTeams] = useState<GroupTeam[]>([]);
+  const [availablePlayers, setAvailablePlayers] = useState<Player[]>([]);
+
+  // Playing XIs in batting order; left empty, players are added as they come in
+  const [lineup1, setLineup1] = useState<Lineup>({ playerIds: [] });
+  const [lineup2, setLineup2] = useState<Lineup>({ playerIds: [] });
+  const [showBalancer, setShowBalancer] = useState(false);
+
+  // Knockout ties waiting to be played; a match started for one goes into the bracket
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [knockoutFixture, setKnockoutFixture] = useState<{ tournamentId: string; fixtureId: string } | null>(null);
+
+  const savedTeam1 = TeamService.findTeam(groupTeams, team1Name);
+  const savedTeam2 = TeamService.findTeam(groupTeams, team2Name);
+  const sharedPlayerIds = lineup1.playerIds.filter(id => lineup2.playerIds.includes(id));
+  const lineupsFit = lineup1.playerIds.length <= playersPerTeam && lineup2.playerIds.length <= playersPerTeam;
+
+  const canStartMatch = team1Name.trim() && team2Name.trim() && tossWinner && tossDecision && (isStandalone || currentGroup) &&
+    sharedPlayerIds.length === 0 && lineupsFit;
 
   // Load current group and team suggestions
   useEffect(() => {
@@ -45,9 +82,14 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
         
         console.log('🏏 Setting up group match for:', group.name);
         
-        // Load team suggestions from group match history
+        // Load team suggestions from the group's saved teams and match history
         try {
-          const matches = await storageService.getAllMatches();
+          const [matches, teams, players, groupTournaments] = await Promise.all([
+            storageService.getAllMatches(),
+            storageService.getGroupTeams(group.id),
+            storageService.getGroupPlayers(group.id),
+            storageService.getGroupTournaments(group.id)
+          ]);
           
           // Filter matches by group
           const groupMatches = matches.filter(match => {
@@ -78,7 +120,13 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
             return bCount - aCount;
           });
           
-          setTeamSuggestions(sortedTeams);
+          // Saved teams come first
+          const savedNames = teams.map(t => t.name);
+          setTeamSuggestions([...savedNames, ...sortedTeams.filter(name => !TeamService.findTeam(teams, name))]);
+          setGroupTeams(teams);
+          setAvailablePlayers(players);
+          setTournaments(groupTournaments.filter(t => KnockoutBracket.getOpenFixtures(t).length > 0));
+          setTeamRosterSizes(getTeamRosterSizes(groupMatches));
           console.log('📋 Loaded team suggestions for group:', sortedTeams);
         } catch (error) {
           console.error('Failed to load team suggestions:', error);
@@ -87,7 +135,10 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
         // For standalone matches, load all team suggestions
         console.log('🏏 Setting up standalone match');
         try {
-          const matches = await storageService.getAllMatches();
+          const [matches, players] = await Promise.all([
+            storageService.getAllMatches(),
+            storageService.getAllPlayers()
+          ]);
           const teamNames = new Set<string>();
           
           matches.forEach(match => {
@@ -96,6 +147,8 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
           });
           
           setTeamSuggestions(Array.from(teamNames).sort());
+          setAvailablePlayers(players);
+          setTeamRosterSizes(getTeamRosterSizes(matches));
         } catch (error) {
           console.error('Failed to load team suggestions:', error);
         }
@@ -105,6 +158,56 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
     loadGroupAndSuggestions();
   }, [isStandalone]);
 
+  // Pre-fill team size from the rosters used the last time these teams played
+  useEffect(() => {
+    const sizes = [teamRosterSizes[team1Name.trim()], teamRosterSizes[team2Name.trim()]].filter(Boolean);
+    if (sizes.length > 0) {
+      setPlayersPerTeam(Math.max(...sizes));
+    }
+  }, [team1Name, team2Name, teamRosterSizes]);
+
+  const openFixtures = tournaments.flatMap(tournament => KnockoutBracket.getOpenFixtures(tournament).map(fixture => {
+    const team1 = TournamentService.getTeam(tournament, fixture.team1Id!)?.name || '';
+    const team2 = TournamentService.getTeam(tournament, fixture.team2Id!)?.name || '';
+    return {
+      tournamentId: tournament.id,
+      fixtureId: fixture.id,
+      team1,
+      team2,
+      label: `${tournament.name} ${KnockoutBracket.getRoundName(tournament.knockout!, fixture.round)}: ${team1} v ${team2}`
+    };
+  }));
+
+  // Renaming a side away from the tie's teams means it is no longer that tie
+  useEffect(() => {
+    const fixture = openFixtures.find(f => f.fixtureId === knockoutFixture?.fixtureId && f.tournamentId === knockoutFixture?.tournamentId);
+    const names = [team1Name, team2Name].map(name => name.trim().toLowerCase()).sort().join('|');
+    if (fixture && names !== [fixture.team1, fixture.team2].map(name => name.toLowerCase()).sort().join('|')) {
+      setKnockoutFixture(null);
+    }
+  }, [team1Name, team2Name]);
+
+  const handleSelectFixture = (key: string) => {
+    const fixture = openFixtures.find(f => `${f.tournamentId}|${f.fixtureId}` === key);
+    if (!fixture) {
+      setKnockoutFixture(null);
+      return;
+    }
+    setKnockoutFixture({ tournamentId: fixture.tournamentId, fixtureId: fixture.fixtureId });
+    setTeam1Name(fixture.team1);
+    setTeam2Name(fixture.team2);
+    setInningsPerSide(1); // Knockout ties are one innings a side
+  };
+
+  // A saved team starts from its squad, captain and keeper
+  useEffect(() => {
+    setLineup1(savedTeam1 ? TeamService.getDefaultLineup(savedTeam1, playersPerTeam) : { playerIds: [] });
+  }, [savedTeam1?.id]);
+
+  useEffect(() => {
+    setLineup2(savedTeam2 ? TeamService.getDefaultLineup(savedTeam2, playersPerTeam) : { playerIds: [] });
+  }, [savedTeam2?.id]);
+
   // Filter suggestions based on input
   useEffect(() => {
     const filter1 = teamSuggestions.filter(name => 
@@ -122,30 +225,43 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
     setFilteredTeam2Suggestions(filter2.slice(0, 5));
   }, [team2Name, teamSuggestions]);
 
+  // Roster size of each team name in its most recent match
+  const getTeamRosterSizes = (matches: Match[]): Record<string, number> => {
+    const sizes: Record<string, number> = {};
+    [...matches]
+      .sort((a, b) => b.startTime - a.startTime)
+      .forEach(m => {
+        [m.team1, m.team2].forEach(team => {
+          if (team?.name && !(team.name in sizes) && team.players?.length >= 2) {
+            sizes[team.name] = team.players.length;
+          }
+        });
+      });
+    return sizes;
+  };
+
   const handleCreateMatch = () => {
     if (!canStartMatch) return;
 
     const overs = selectedFormat.name === 'Custom' ? customOvers : selectedFormat.overs;
+    const ballsPerOver = selectedFormat.name === 'Custom' ? customBallsPerOver : selectedFormat.ballsPerOver;
+    const maxOverPerBowler = selectedFormat.name === 'Custom' ? customMaxOverPerBowler : selectedFormat.maxOverPerBowler;
 
-    const team1: Team = {
-      name: team1Name.trim(),
-      players: [],
-      score: 0,
-      wickets: 0,
-      overs: 0,
-      balls: 0,
-      extras: { byes: 0, legByes: 0, wides: 0, noBalls: 0 }
-    };
+    // Each side takes the playing XI, batting order and roles picked for it
+    const createSide = (name: string, lineup: Lineup, savedTeam?: GroupTeam): Team => TeamService.applyLineup(savedTeam
+      ? TeamService.createMatchSide(savedTeam, availablePlayers)
+      : {
+        name: name.trim(),
+        players: [],
+        score: 0,
+        wickets: 0,
+        overs: 0,
+        balls: 0,
+        extras: { byes: 0, legByes: 0, wides: 0, noBalls: 0 }
+      }, lineup, availablePlayers);
 
-    const team2: Team = {
-      name: team2Name.trim(),
-      players: [],
-      score: 0,
-      wickets: 0,
-      overs: 0,
-      balls: 0,
-      extras: { byes: 0, legByes: 0, wides: 0, noBalls: 0 }
-    };
+    const team1 = createSide(team1Name, lineup1, savedTeam1);
+    const team2 = createSide(team2Name, lineup2, savedTeam2);
 
     const battingFirst = (tossWinner === 'team1' && tossDecision === 'bat') || 
                         (tossWinner === 'team2' && tossDecision === 'bowl');
@@ -154,17 +270,29 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
       id: `match_${Date.now()}`,
       team1,
       team2,
-      tossWinner: tossWinner === 'team1' ? team1Name : team2Name,
+      tossWinner: tossWinner === 'team1' ? team1.name : team2.name,
       tossDecision,
       currentInnings: 1,
       battingTeam: battingFirst ? team1 : team2,
       bowlingTeam: battingFirst ? team2 : team1,
       totalOvers: overs,
+      ballsPerOver,
+      maxOverPerBowler,
+      playersPerTeam,
+      lastManStands,
+      wideRuns,
+      noBallRuns,
+      freeHits,
+      inningsPerSide,
+      followOnMargin: inningsPerSide === 2 ? followOnMargin : undefined,
       balls: [],
+      events: [],
       isCompleted: false,
       isSecondInnings: false,
       startTime: Date.now(),
       groupId: isStandalone ? undefined : currentGroup?.id, // No group ID for standalone matches
+      tournamentId: knockoutFixture?.tournamentId,
+      fixtureId: knockoutFixture?.fixtureId,
       isStandalone: isStandalone // Mark as standalone match
     };
 
@@ -176,11 +304,6 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
   const handleInningsSetup = (striker: Player, nonStriker: Player, bowler: Player) => {
     if (!match) return;
 
-    const updatedMatch = { ...match };
-    updatedMatch.currentStriker = striker;
-    updatedMatch.currentNonStriker = nonStriker;
-    updatedMatch.currentBowler = bowler;
-
     // For standalone matches, don't associate players with groups
     const ensurePlayerSetup = (player: Player) => {
       // Create a copy of the player to avoid modifying the original
@@ -212,16 +335,13 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
     const updatedNonStriker = ensurePlayerSetup(nonStriker);
     const updatedBowler = ensurePlayerSetup(bowler);
 
-    // Add players to their respective teams
-    if (!updatedMatch.battingTeam.players.find(p => p.id === updatedStriker.id)) {
-      updatedMatch.battingTeam.players.push(updatedStriker);
-    }
-    if (!updatedMatch.battingTeam.players.find(p => p.id === updatedNonStriker.id)) {
-      updatedMatch.battingTeam.players.push(updatedNonStriker);
-    }
-    if (!updatedMatch.bowlingTeam.players.find(p => p.id === updatedBowler.id)) {
-      updatedMatch.bowlingTeam.players.push(updatedBowler);
-    }
+    // The openers start the scoring log and join their teams
+    const updatedMatch = MatchReducer.reduce(match, {
+      type: 'openers',
+      striker: updatedStriker,
+      nonStriker: updatedNonStriker,
+      bowler: updatedBowler
+    });
 
     // Save updated players to storage
     storageService.savePlayer(updatedStriker);
@@ -245,6 +365,16 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
     onMatchStart(updatedMatch);
   };
 
+  // "Squad of 12 · Captain: Asha · Keeper: Ravi"
+  const describeSquad = (team: GroupTeam): string => {
+    const playerName = (id?: string) => availablePlayers.find(p => p.id === id)?.name;
+    return [
+      `Squad of ${team.playerIds.length}`,
+      playerName(team.captainId) && `Captain: ${playerName(team.captainId)}`,
+      playerName(team.wicketkeeperId) && `Keeper: ${playerName(team.wicketkeeperId)}`
+    ].filter(Boolean).join(' · ');
+  };
+
   const selectTeamSuggestion = (teamNumber: 1 | 2, name: string) => {
     if (teamNumber === 1) {
       setTeam1Name(name);
@@ -353,6 +483,30 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                 <p className="text-purple-200">Enter team names or select from {isStandalone ? 'match' : 'group'} history</p>
               </div>
 
+              {openFixtures.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-purple-200 mb-3">
+                    <Trophy className="w-4 h-4 inline mr-2" />
+                    Knockout Tie
+                  </label>
+                  <select
+                    value={knockoutFixture ? `${knockoutFixture.tournamentId}|${knockoutFixture.fixtureId}` : ''}
+                    onChange={(e) => handleSelectFixture(e.target.value)}
+                    className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white"
+                  >
+                    <option value="" className="text-gray-900">Not a knockout tie</option>
+                    {openFixtures.map(fixture => (
+                      <option key={`${fixture.tournamentId}|${fixture.fixtureId}`} value={`${fixture.tournamentId}|${fixture.fixtureId}`} className="text-gray-900">
+                        {fixture.label}
+                      </option>
+                    ))}
+                  </select>
+                  {knockoutFixture && (
+                    <p className="text-xs text-purple-300 mt-2">The result goes into the bracket when the match is completed</p>
+                  )}
+                </div>
+              )}
+
               <div className="grid md:grid-cols-2 gap-6">
                 {/* Team 1 */}
                 <div className="relative">
@@ -380,6 +534,10 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                     </button>
                   </div>
                   
+                  {savedTeam1 && (
+                    <p className="text-xs text-purple-300 mt-2">{describeSquad(savedTeam1)}</p>
+                  )}
+
                   {/* Team 1 Suggestions */}
                   {showTeam1Suggestions && filteredTeam1Suggestions.length > 0 && (
                     <div className="absolute z-20 w-full mt-2 bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl overflow-hidden">
@@ -389,7 +547,9 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                           onClick={() => selectTeamSuggestion(1, suggestion)}
                           className="w-full px-4 py-3 text-left text-white hover:bg-white/20 transition-colors flex items-center space-x-3"
                         >
-                          <History className="w-4 h-4 text-purple-300" />
+                          {TeamService.findTeam(groupTeams, suggestion)
+                            ? <Users className="w-4 h-4 text-purple-300" />
+                            : <History className="w-4 h-4 text-purple-300" />}
                           <span>{suggestion}</span>
                         </button>
                       ))}
@@ -423,6 +583,10 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                     </button>
                   </div>
                   
+                  {savedTeam2 && (
+                    <p className="text-xs text-purple-300 mt-2">{describeSquad(savedTeam2)}</p>
+                  )}
+
                   {/* Team 2 Suggestions */}
                   {showTeam2Suggestions && filteredTeam2Suggestions.length > 0 && (
                     <div className="absolute z-20 w-full mt-2 bg-white/10 backdrop-blur-sm border border-white/20 rounded-xl overflow-hidden">
@@ -432,7 +596,9 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                           onClick={() => selectTeamSuggestion(2, suggestion)}
                           className="w-full px-4 py-3 text-left text-white hover:bg-white/20 transition-colors flex items-center space-x-3"
                         >
-                          <History className="w-4 h-4 text-purple-300" />
+                          {TeamService.findTeam(groupTeams, suggestion)
+                            ? <Users className="w-4 h-4 text-purple-300" />
+                            : <History className="w-4 h-4 text-purple-300" />}
                           <span>{suggestion}</span>
                         </button>
                       ))}
@@ -440,8 +606,85 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                   )}
                 </div>
               </div>
+
             </div>
 
+            {/* Playing XI Section */}
+            {availablePlayers.length > 0 && (
+              <div className="space-y-6">
+                <div className="text-center">
+                  <h2 className="text-2xl font-bold text-white mb-2">Playing XI</h2>
+                  <p className="text-purple-200">Pick each side in batting order, with its captain (C) and wicketkeeper (WK)</p>
+                  {!showBalancer && (
+                    <button
+                      type="button"
+                      onClick={() => setShowBalancer(true)}
+                      className="mt-3 px-4 py-2 rounded-lg bg-white/10 text-white text-sm hover:bg-white/20 transition-colors"
+                    >
+                      <Shuffle className="w-4 h-4 inline mr-2" />
+                      Pick Balanced Sides
+                    </button>
+                  )}
+                </div>
+
+                {showBalancer && (
+                  <BalancedTeamPicker
+                    team1Name={team1Name.trim()}
+                    team2Name={team2Name.trim()}
+                    players={availablePlayers}
+                    playersPerTeam={playersPerTeam}
+                    initialPlayerIds={Array.from(new Set([...lineup1.playerIds, ...lineup2.playerIds]))}
+                    initialKeeperIds={[lineup1, lineup2, ...groupTeams]
+                      .map(side => side.wicketkeeperId)
+                      .filter((id): id is string => !!id)}
+                    onApply={(balanced1, balanced2) => {
+                      setLineup1(balanced1);
+                      setLineup2(balanced2);
+                      setShowBalancer(false);
+                    }}
+                    onClose={() => setShowBalancer(false)}
+                  />
+                )}
+
+                <div className="grid md:grid-cols-2 gap-6">
+                  <PlayingXISelector
+                    teamName={team1Name.trim()}
+                    lineup={lineup1}
+                    candidates={availablePlayers}
+                    squadIds={savedTeam1?.playerIds}
+                    takenIds={lineup2.playerIds}
+                    maxPlayers={playersPerTeam}
+                    onChange={setLineup1}
+                  />
+                  <PlayingXISelector
+                    teamName={team2Name.trim()}
+                    lineup={lineup2}
+                    candidates={availablePlayers}
+                    squadIds={savedTeam2?.playerIds}
+                    takenIds={lineup1.playerIds}
+                    maxPlayers={playersPerTeam}
+                    onChange={setLineup2}
+                  />
+                </div>
+
+                {sharedPlayerIds.length > 0 && (
+                  <div className="flex items-start space-x-2 bg-red-500/20 rounded-xl p-4 border border-red-400/30">
+                    <AlertCircle className="w-5 h-5 text-red-300 mt-0.5 flex-shrink-0" />
+                    <p className="text-red-200 text-sm">
+                      {sharedPlayerIds.map(id => availablePlayers.find(p => p.id === id)?.name || 'A player').join(', ')}
+                      {sharedPlayerIds.length === 1 ? ' is' : ' are'} picked for both sides. Take them out of one before starting.
+                    </p>
+                  </div>
+                )}
+                {!lineupsFit && (
+                  <div className="flex items-start space-x-2 bg-red-500/20 rounded-xl p-4 border border-red-400/30">
+                    <AlertCircle className="w-5 h-5 text-red-300 mt-0.5 flex-shrink-0" />
+                    <p className="text-red-200 text-sm">A side has more than {playersPerTeam} players picked.</p>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Match Format Section */}
             <div>
               <div className="text-center mb-6">
@@ -466,7 +709,16 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                       {format.overs > 0 && (
                         <div className="flex items-center justify-center space-x-1 text-sm opacity-80">
                           <Clock className="w-4 h-4" />
-                          <span>{format.overs} overs</span>
+                          <span>
+                            {format.ballsPerOver === 6
+                              ? `${format.overs} overs`
+                              : `${format.overs * format.ballsPerOver} balls`}
+                          </span>
+                        </div>
+                      )}
+                      {format.maxOverPerBowler > 0 && (
+                        <div className="text-xs opacity-60 mt-1">
+                          Max {format.maxOverPerBowler} overs per bowler
                         </div>
                       )}
                     </div>
@@ -526,9 +778,54 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
                       </button>
                     </div>
                   </div>
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-purple-200 mb-2 text-center">
+                      Balls per Over
+                    </label>
+                    <div className="flex gap-2 justify-center">
+                      {[5, 6, 8].map((balls) => (
+                        <button
+                          key={balls}
+                          type="button"
+                          onClick={() => setCustomBallsPerOver(balls)}
+                          className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                            customBallsPerOver === balls
+                              ? 'bg-purple-500 text-white'
+                              : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                          }`}
+                        >
+                          {balls}-ball
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-purple-200 mb-2 text-center">
+                      Max Overs per Bowler
+                    </label>
+                    <div className="flex items-center justify-center space-x-4">
+                      <button
+                        type="button"
+                        onClick={() => setCustomMaxOverPerBowler(Math.max(0, customMaxOverPerBowler - 1))}
+                        className="p-2 bg-purple-500/20 hover:bg-purple-500/40 text-white rounded-lg transition-colors"
+                      >
+                        -
+                      </button>
+                      <div className="text-white font-bold w-20 text-center">
+                        {customMaxOverPerBowler > 0 ? customMaxOverPerBowler : 'No limit'}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setCustomMaxOverPerBowler(Math.min(customOvers, customMaxOverPerBowler + 1))}
+                        className="p-2 bg-purple-500/20 hover:bg-purple-500/40 text-white rounded-lg transition-colors"
+                      >
+                        +
+                      </button>
+                    </div>
+                  </div>
                   <div className="mt-3 text-center">
                     <span className="text-purple-300 text-sm">
-                      Match Duration: Approximately {Math.round(customOvers * 4)} minutes
+                      Match Duration: Approximately {Math.round(customOvers * customBallsPerOver * 4 / 6)} minutes
                     </span>
                   </div>
                   {/* Quick Select Buttons */}
@@ -552,6 +849,173 @@ export const MatchSetup: React.FC<MatchSetupProps> = ({ onMatchStart, isStandalo
               )}
             </div>
 
+            {/* Team Size Section */}
+            <div>
+              <div className="text-center mb-6">
+                <h2 className="text-2xl font-bold text-white mb-2">Team Size</h2>
+                <p className="text-purple-200">Players per side decides when an innings is all out</p>
+              </div>
+
+              <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20 space-y-4">
+                <div className="flex items-center justify-center space-x-4">
+                  <button
+                    type="button"
+                    onClick={() => setPlayersPerTeam(Math.max(2, playersPerTeam - 1))}
+                    className="p-2 bg-purple-500/20 hover:bg-purple-500/40 text-white rounded-lg transition-colors"
+                  >
+                    -
+                  </button>
+                  <div className="text-white text-center">
+                    <div className="text-3xl font-bold">{playersPerTeam}</div>
+                    <div className="text-purple-300 text-sm">players per side</div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setPlayersPerTeam(Math.min(15, playersPerTeam + 1))}
+                    className="p-2 bg-purple-500/20 hover:bg-purple-500/40 text-white rounded-lg transition-colors"
+                  >
+                    +
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2 justify-center">
+                  {[6, 8, 11].map((size) => (
+                    <button
+                      key={size}
+                      type="button"
+                      onClick={() => setPlayersPerTeam(size)}
+                      className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                        playersPerTeam === size
+                          ? 'bg-purple-500 text-white'
+                          : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                      }`}
+                    >
+                      {size}-a-side
+                    </button>
+                  ))}
+                </div>
+
+                <label className="flex items-center justify-between cursor-pointer">
+                  <div>
+                    <div className="text-white font-medium">Last Man Stands</div>
+                    <div className="text-purple-300 text-sm">
+                      The final batter can bat alone ({lastManStands ? playersPerTeam : playersPerTeam - 1} wickets to bowl a side out)
+                    </div>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={lastManStands}
+                    onChange={(e) => setLastManStands(e.target.checked)}
+                    className="w-5 h-5 accent-purple-500"
+                  />
+                </label>
+              </div>
+            </div>
+
+            {/* Extras Section */}
+            <div>
+              <div className="text-center mb-6">
+                <h2 className="text-2xl font-bold text-white mb-2">Extras</h2>
+                <p className="text-purple-200">Runs added for each wide and no ball, on top of any runs taken</p>
+              </div>
+
+              <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20 space-y-4">
+                {([
+                  { label: 'Wide', value: wideRuns, onChange: setWideRuns },
+                  { label: 'No Ball', value: noBallRuns, onChange: setNoBallRuns }
+                ]).map(setting => (
+                  <div key={setting.label} className="flex items-center justify-between">
+                    <div className="text-white font-medium">{setting.label}</div>
+                    <div className="flex gap-2">
+                      {[0, 1, 2].map((runs) => (
+                        <button
+                          key={runs}
+                          type="button"
+                          onClick={() => setting.onChange(runs)}
+                          className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                            setting.value === runs
+                              ? 'bg-purple-500 text-white'
+                              : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                          }`}
+                        >
+                          {runs} run{runs !== 1 ? 's' : ''}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                <label className="flex items-center justify-between cursor-pointer">
+                  <div>
+                    <div className="text-white font-medium">Free Hits</div>
+                    <div className="text-purple-300 text-sm">
+                      The ball after a no ball is a free hit - the batter can only be run out
+                    </div>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={freeHits}
+                    onChange={(e) => setFreeHits(e.target.checked)}
+                    className="w-5 h-5 accent-purple-500"
+                  />
+                </label>
+              </div>
+            </div>
+
+            {/* Innings Section */}
+            <div>
+              <div className="text-center mb-6">
+                <h2 className="text-2xl font-bold text-white mb-2">Innings</h2>
+                <p className="text-purple-200">Two innings per side plays to a result or a draw, with declarations and the follow-on</p>
+              </div>
+
+              <div className="bg-white/10 backdrop-blur-sm rounded-xl p-6 border border-white/20 space-y-4">
+                <div className="flex gap-2 justify-center">
+                  {([1, 2] as const).map((count) => (
+                    <button
+                      key={count}
+                      type="button"
+                      onClick={() => setInningsPerSide(count)}
+                      className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                        inningsPerSide === count
+                          ? 'bg-purple-500 text-white'
+                          : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                      }`}
+                    >
+                      {count === 1 ? 'One innings' : 'Two innings'} per side
+                    </button>
+                  ))}
+                </div>
+
+                {inningsPerSide === 2 && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="text-white font-medium">Follow-on Margin</div>
+                      <div className="text-purple-300 text-sm">
+                        First innings lead needed to make the other side bat again
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {[75, 100, 150, 200].map((margin) => (
+                        <button
+                          key={margin}
+                          type="button"
+                          onClick={() => setFollowOnMargin(margin)}
+                          className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                            followOnMargin === margin
+                              ? 'bg-purple-500 text-white'
+                              : 'bg-white/10 text-purple-200 hover:bg-white/20'
+                          }`}
+                        >
+                          {margin}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
             {/* Toss Section */}
             {team1Name && team2Name && (
               <div className="space-y-6">
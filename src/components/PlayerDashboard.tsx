@@ -3,6 +3,9 @@ import { ArrowLeft, Trophy, Target, TrendingUp, Award, Camera, Edit3 } from 'luc
 import { Player, Match } from '../types/cricket';
 import { storageService } from '../services/storage';
 import { CricketEngine } from '../services/cricketEngine';
+import { WagonWheel } from '../services/wagonWheel';
+import { InningsAnalytics } from '../services/inningsAnalytics';
+import { WagonWheelChart } from './WagonWheelChart';
 
 interface PlayerDashboardProps {
   player: Player;
@@ -85,6 +88,11 @@ export const PlayerDashboard: React.FC<PlayerDashboardProps> = ({
   const strikeRate = CricketEngine.calculateStrikeRate(stats);
   const bowlingAvg = CricketEngine.calculateBowlingAverage(stats);
   const economyRate = CricketEngine.calculateEconomyRate(stats);
+  const ballsFaced = matches.flatMap(match => (match.balls || []).filter(b => b.striker.id === player.id));
+  const zoneRuns = WagonWheel.getZoneRuns(WagonWheel.getShots(ballsFaced)).filter(entry => entry.runs > 0);
+  const bestPartnerships = InningsAnalytics.getPlayerPartnerships(matches, player.id)
+    .filter(p => p.runs > 0)
+    .slice(0, 5);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -237,6 +245,50 @@ export const PlayerDashboard: React.FC<PlayerDashboardProps> = ({
           </div>
         </div>
 
+        {/* Wagon Wheel */}
+        {zoneRuns.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Wagon Wheel</h3>
+            <div className="flex flex-col sm:flex-row items-center gap-6">
+              <WagonWheelChart balls={ballsFaced} size={220} />
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                {zoneRuns.map(({ zone, runs }) => (
+                  <div key={zone.label} className="flex justify-between space-x-3">
+                    <span className="text-gray-600">{zone.label}</span>
+                    <span className="font-semibold text-gray-900">{runs}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Best Partnerships */}
+        {bestPartnerships.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Best Partnerships</h3>
+            <div className="space-y-2">
+              {bestPartnerships.map((partnership, index) => {
+                const own = partnership.batters.find(b => b.player.id === player.id);
+                const partner = partnership.batters.find(b => b.player.id !== player.id);
+                return (
+                  <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                    <div>
+                      <div className="font-medium text-gray-900">with {partner?.player.name || 'unknown'}</div>
+                      <div className="text-xs text-gray-500">
+                        {InningsAnalytics.getOrdinal(partnership.wicket)} wicket · {own?.runs ?? 0} ({own?.balls ?? 0}) · {new Date(partnership.date).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <div className="font-bold text-gray-900">
+                      {partnership.runs}{partnership.unbroken && '*'} <span className="text-xs font-normal text-gray-500">({partnership.balls})</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Bowling Stats */}
         <div className="bg-white rounded-2xl shadow-lg p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -251,7 +303,7 @@ export const PlayerDashboard: React.FC<PlayerDashboardProps> = ({
             </div>
             <div className="bg-orange-50 rounded-lg p-3">
               <div className="text-2xl font-bold text-orange-700">{economyRate}</div>
-              <div className="text-sm text-orange-600">Economy</div>
+              <div className="text-sm text-orange-600">Economy (per 6 balls)</div>
             </div>
           </div>
 
@@ -261,8 +313,8 @@ export const PlayerDashboard: React.FC<PlayerDashboardProps> = ({
               <div className="text-gray-600">Best Figures</div>
             </div>
             <div className="text-center">
-              <div className="font-semibold text-gray-900">{Math.floor(stats.ballsBowled / 6)}.{stats.ballsBowled % 6}</div>
-              <div className="text-gray-600">Overs Bowled</div>
+              <div className="font-semibold text-gray-900">{CricketEngine.formatOvers(stats.ballsBowled)}</div>
+              <div className="text-gray-600">Overs Bowled (6-ball)</div>
             </div>
             <div className="text-center">
               <div className="font-semibold text-gray-900">{stats.maidenOvers}</div>
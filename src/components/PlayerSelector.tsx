@@ -14,6 +14,8 @@ interface PlayerSelectorProps {
   allowAddPlayer?: boolean;
   groupId?: string;
   filterByGroup?: boolean; // New prop to filter by current group
+  playerNotes?: Record<string, string>; // Short status shown next to a player, keyed by player id
+  suggestion?: { playerId: string; label: string }; // Offered above the list, e.g. the next batter in the order
 }
 
 export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
@@ -25,7 +27,9 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
   showOnlyAvailable = false,
   allowAddPlayer = true,
   groupId,
-  filterByGroup = false
+  filterByGroup = false,
+  playerNotes = {},
+  suggestion
 }) => {
   const [filteredPlayers, setFilteredPlayers] = useState<Player[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -289,6 +293,8 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
     onPlayerSelect(player);
   };
 
+  const suggestedPlayer = suggestion ? filteredPlayers.find(p => p.id === suggestion.playerId) : undefined;
+
   const handleClose = () => {
     console.log('❌ Player selector closed');
     onClose();
@@ -310,6 +316,15 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
     }
   };
 
+  const getPlayerNote = (player: Player) => {
+    if (!playerNotes[player.id]) return null;
+    return (
+      <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded-full">
+        {playerNotes[player.id]}
+      </span>
+    );
+  };
+
   const getPlayerTypeBadge = (player: Player) => {
     // Check if player is group admin/creator (match by user ID embedded in player ID)
     const isGroupAdmin = currentGroup && 
@@ -418,6 +433,7 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
                       )}
                     </div>
                     {getPlayerTypeBadge(player)}
+                    {getPlayerNote(player)}
                   </button>
                 ))}
               </div>
@@ -425,6 +441,20 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
           )}
         </div>
 
+        {/* Suggested Player - Fixed */}
+        {suggestedPlayer && !searchTerm && (
+          <div className="p-4 border-b border-gray-200 bg-green-50 flex-shrink-0">
+            <div className="text-xs font-semibold text-green-800 mb-2">{suggestion!.label}</div>
+            <button
+              onClick={() => handlePlayerClick(suggestedPlayer)}
+              className="w-full flex items-center justify-between p-3 bg-white rounded-xl border border-green-200 hover:bg-green-100 transition-colors"
+            >
+              <span className="font-medium text-gray-900">{suggestedPlayer.name}</span>
+              {getPlayerNote(suggestedPlayer)}
+            </button>
+          </div>
+        )}
+
         {/* Guest Player Quick Add - Fixed */}
         <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-orange-50 to-yellow-50 flex-shrink-0">
           <div className="flex items-center justify-between mb-3">
@@ -553,6 +583,7 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
                             <div className="flex items-center space-x-2">
                               <span className="font-medium text-gray-900">{player.name}</span>
                               {getPlayerTypeBadge(player)}
+                              {getPlayerNote(player)}
                             </div>
                             {player.shortId && (
                               <p className="text-sm text-gray-500">ID: {player.shortId}</p>
@@ -603,6 +634,7 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
                             <div className="flex items-center space-x-2">
                               <span className="font-medium text-gray-900">{player.name}</span>
                               {getPlayerTypeBadge(player)}
+                              {getPlayerNote(player)}
                             </div>
                             <div className="flex items-center space-x-4 text-xs text-gray-400 mt-1">
                               <span>Matches: {player.stats.matchesPlayed}</span>
@@ -655,6 +687,7 @@ export const PlayerSelector: React.FC<PlayerSelectorProps> = ({
                             <div className="flex items-center space-x-2">
                               <span className="font-medium text-gray-900">{player.name}</span>
                               {getPlayerTypeBadge(player)}
+                              {getPlayerNote(player)}
                             </div>
                             {player.shortId && (
                               <p className="text-sm text-gray-500">ID: {player.shortId}</p>
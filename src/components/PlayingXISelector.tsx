@@ -0,0 +1,127 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, X, Users } from 'lucide-react';
+import { Player } from '../types/cricket';
+import { Lineup } from '../services/teamService';
+
+interface PlayingXISelectorProps {
+  teamName: string;
+  lineup: Lineup;
+  candidates: Player[];
+  squadIds?: string[]; // Listed first when adding a player
+  takenIds: string[]; // Picked for the other side
+  maxPlayers: number;
+  onChange: (lineup: Lineup) => void;
+}
+
+// One side's playing XI in batting order, with its captain and wicketkeeper
+export const PlayingXISelector: React.FC<PlayingXISelectorProps> = ({
+  teamName,
+  lineup,
+  candidates,
+  squadIds = [],
+  takenIds,
+  maxPlayers,
+  onChange
+}) => {
+  const getPlayer = (id: string) => candidates.find(p => p.id === id);
+  const available = candidates.filter(p => !lineup.playerIds.includes(p.id) && !takenIds.includes(p.id));
+  const squad = available.filter(p => squadIds.includes(p.id));
+  const others = available.filter(p => !squadIds.includes(p.id));
+  const isFull = lineup.playerIds.length >= maxPlayers;
+
+  const move = (index: number, offset: number) => {
+    const playerIds = [...lineup.playerIds];
+    [playerIds[index], playerIds[index + offset]] = [playerIds[index + offset], playerIds[index]];
+    onChange({ ...lineup, playerIds });
+  };
+
+  const remove = (id: string) => {
+    onChange({
+      playerIds: lineup.playerIds.filter(playerId => playerId !== id),
+      captainId: lineup.captainId === id ? undefined : lineup.captainId,
+      wicketkeeperId: lineup.wicketkeeperId === id ? undefined : lineup.wicketkeeperId
+    });
+  };
+
+  const roleButton = (id: string, role: 'captainId' | 'wicketkeeperId', label: string) => (
+    <button
+      type="button"
+      onClick={() => onChange({ ...lineup, [role]: lineup[role] === id ? undefined : id })}
+      className={`px-2 py-0.5 rounded text-xs font-bold transition-colors ${
+        lineup[role] === id ? 'bg-yellow-400 text-slate-900' : 'bg-white/10 text-purple-200 hover:bg-white/20'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4 border border-white/20">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-semibold">{teamName || 'Team'}</h3>
+        <span className={`text-xs ${lineup.playerIds.length > maxPlayers ? 'text-red-300' : 'text-purple-200'}`}>
+          {lineup.playerIds.length}/{maxPlayers} picked
+        </span>
+      </div>
+
+      {lineup.playerIds.length > 0 ? (
+        <ol className="space-y-1 mb-3">
+          {lineup.playerIds.map((id, index) => (
+            <li key={id} className="flex items-center space-x-2 text-sm text-white">
+              <span className="w-5 text-purple-300 text-right">{index + 1}</span>
+              <span className="flex-1 truncate">{getPlayer(id)?.name || 'Unknown player'}</span>
+              {roleButton(id, 'captainId', 'C')}
+              {roleButton(id, 'wicketkeeperId', 'WK')}
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="text-purple-300 hover:text-white disabled:opacity-30"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === lineup.playerIds.length - 1}
+                className="text-purple-300 hover:text-white disabled:opacity-30"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={() => remove(id)} className="text-purple-300 hover:text-red-300">
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-purple-300 mb-3 flex items-center">
+          <Users className="w-4 h-4 mr-2" />
+          No players picked - they can be added as they come in
+        </p>
+      )}
+
+      {!isFull && available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange({ ...lineup, playerIds: [...lineup.playerIds, e.target.value] })}
+          className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+        >
+          <option value="" className="text-gray-900">Add a player...</option>
+          {squad.length > 0 && (
+            <optgroup label="Squad" className="text-gray-900">
+              {squad.map(player => (
+                <option key={player.id} value={player.id}>{player.name}</option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label={squad.length > 0 ? 'Other players' : 'Players'} className="text-gray-900">
+            {others.map(player => (
+              <option key={player.id} value={player.id}>{player.name}</option>
+            ))}
+          </optgroup>
+        </select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { Match, Ball, Player } from '../types/cricket';
+import { DetailedScorecardModal } from './DetailedScorecardModal';
+import { BallEditorModal } from './BallEditorModal';
+import { CricketEngine } from '../services/cricketEngine';
+import { MatchReducer } from '../services/matchReducer';
+import { authService } from '../services/authService';
+
+interface ScorecardCorrectionModalProps {
+  match: Match;
+  onSave: (correctedMatch: Match) => Promise<void>;
+  onClose: () => void;
+}
+
+// Correct the scorecard of a completed match. Changes are made to a draft,
+// replayed from the scoring log, and only saved once a reason is given.
+export const ScorecardCorrectionModal: React.FC<ScorecardCorrectionModalProps> = ({ match, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Match>(match);
+  const [editingBall, setEditingBall] = useState<{ ball: Ball; mode: 'edit' | 'insert' } | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const hasChanges = draft !== match;
+  // A correction can't leave a finished match with play still to come
+  const unfinished = hasChanges && CricketEngine.isMatchFinished(match) && !CricketEngine.isMatchFinished(draft);
+  const previewResult = unfinished
+    ? 'The corrected scorecard no longer finishes the match'
+    : hasChanges ? CricketEngine.getMatchResult(draft) : match.result;
+
+  const handleSaveBall = (ball: Ball, incoming?: Player) => {
+    if (!editingBall) return;
+    try {
+      setDraft(editingBall.mode === 'insert'
+        ? MatchReducer.insertBall(draft, editingBall.ball.id, ball, incoming)
+        : MatchReducer.editBall(draft, ball, incoming));
+      setEditingBall(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not correct this ball');
+    }
+  };
+
+  const handleDeleteBall = () => {
+    if (!editingBall) return;
+    setDraft(MatchReducer.deleteBall(draft, editingBall.ball.id));
+    setEditingBall(null);
+  };
+
+  const handleSave = async () => {
+    if (!hasChanges || unfinished || !reason.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave(CricketEngine.applyCorrection(draft, reason.trim(), authService.getCurrentUser()?.id, match));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not save the correction');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DetailedScorecardModal
+        match={draft}
+        isOpen={true}
+        onClose={onClose}
+        onEditBall={ball => setEditingBall({ ball, mode: 'edit' })}
+      />
+
+      {/* Correction Bar */}
+      <div className="fixed bottom-0 inset-x-0 z-[55] bg-white border-t border-gray-200 shadow-2xl p-4">
+        <div className="max-w-4xl mx-auto space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-semibold text-gray-900">Correcting scorecard</span>
+            <span className={unfinished ? 'text-red-600 font-medium' : hasChanges ? 'text-orange-600 font-medium' : 'text-gray-500'}>
+              {previewResult || 'Tap a ball to change it'}
+            </span>
+          </div>
+          <input
+            type="text"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Reason for the correction (required)"
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onClose}
+              className="flex items-center justify-center space-x-1 bg-gray-100 text-gray-700 py-2 rounded-lg font-medium hover:bg-gray-200"
+            >
+              <X className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges || unfinished || !reason.trim() || saving}
+              className="flex items-center justify-center space-x-1 bg-green-600 text-white py-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save Correction'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {editingBall && (
+        <BallEditorModal
+          match={draft}
+          ball={editingBall.ball}
+          mode={editingBall.mode}
+          onSave={handleSaveBall}
+          onDelete={handleDeleteBall}
+          onInsertBefore={() => setEditingBall({ ball: editingBall.ball, mode: 'insert' })}
+          onClose={() => setEditingBall(null)}
+        />
+      )}
+    </>
+  );
+};
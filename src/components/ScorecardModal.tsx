@@ -3,6 +3,11 @@ import { Match, Player } from '../types/cricket';
 import { X, Share2, Download } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { CricketEngine } from '../services/cricketEngine';
+import { MatchProgressCharts } from './MatchProgressCharts';
+import { MatchAnalytics } from '../services/matchAnalytics';
+import { InningsAnalytics } from '../services/inningsAnalytics';
+import { TeamService } from '../services/teamService';
 
 interface ScorecardModalProps {
   match: Match;
@@ -10,6 +15,19 @@ interface ScorecardModalProps {
 }
 
 export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }) => {
+  const ballsPerOver = CricketEngine.getBallsPerOver(match);
+
+  // The current innings' batters in the order they came in, and the rest
+  const lineup = InningsAnalytics.getBattingLineup(match, CricketEngine.getCurrentInningsNumber(match));
+  const withRole = (player: Player) => `${player.name}${TeamService.getRoleMarker(match.battingTeam, player.id)}`;
+  const didNotBat = lineup.didNotBat.map(withRole).join(', ');
+
+  // One line per Super Over innings, e.g. "Team A: 11/1 (1.0)"
+  const superOverLines = (match.superOvers || []).map(superOver =>
+    `${superOver.battingTeam.name}: ${superOver.battingTeam.score}/${superOver.battingTeam.wickets} ` +
+    `(${CricketEngine.formatOvers(CricketEngine.getLegalBalls(superOver.battingTeam, match), ballsPerOver)})`
+  );
+
   const handleShare = async () => {
     const scorecardText = generateScorecardText();
     
@@ -47,15 +65,15 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
     
     // Add batting scorecard
     doc.text('Batting Scorecard', 14, 50);
-    const battingTable = match.battingTeam.players.map(player => {
+    const battingTable = lineup.batted.map(player => {
       const balls = match.balls.filter(b => b.striker.id === player.id).length;
       const runs = match.balls
         .filter(b => b.striker.id === player.id)
-        .reduce((sum, b) => sum + b.runs, 0);
-      const fours = match.balls.filter(b => b.striker.id === player.id && b.runs === 4).length;
-      const sixes = match.balls.filter(b => b.striker.id === player.id && b.runs === 6).length;
+        .reduce((sum, b) => sum + CricketEngine.getBatRuns(b), 0);
+      const fours = match.balls.filter(b => b.striker.id === player.id && CricketEngine.getBatRuns(b) === 4).length;
+      const sixes = match.balls.filter(b => b.striker.id === player.id && CricketEngine.getBatRuns(b) === 6).length;
       return [
-        player.name,
+        withRole(player),
         runs.toString(),
         balls.toString(),
         fours.toString(),
@@ -70,23 +88,28 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
       body: battingTable,
       theme: 'grid'
     });
+    let lastY = (doc as any).lastAutoTable.finalY + 10;
+    if (didNotBat) {
+      const lines = doc.splitTextToSize(`Did not bat: ${didNotBat}`, 180);
+      doc.text(lines, 14, lastY - 3);
+      lastY += lines.length * 6;
+    }
     
     // Add bowling scorecard
-    const lastY = (doc as any).lastAutoTable.finalY + 10;
     doc.text('Bowling Scorecard', 14, lastY);
     
     const bowlingTable = match.bowlingTeam.players.map(player => {
       const balls = match.balls.filter(b => b.bowler.id === player.id).length;
       const runs = match.balls
         .filter(b => b.bowler.id === player.id)
-        .reduce((sum, b) => sum + b.runs, 0);
+        .reduce((sum, b) => sum + CricketEngine.getBowlerRuns(b), 0);
       const wickets = match.balls.filter(b => b.bowler.id === player.id && b.isWicket).length;
       return [
         player.name,
-        `${Math.floor(balls / 6)}.${balls % 6}`,
+        `${Math.floor(balls / ballsPerOver)}.${balls % ballsPerOver}`,
         runs.toString(),
         wickets.toString(),
-        (runs / (balls / 6)).toFixed(2)
+        (runs / (balls / ballsPerOver)).toFixed(2)
       ];
     });
     
@@ -104,10 +127,22 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
     doc.text(`No Balls: ${match.battingTeam.extras.noBalls}`, 14, extrasY + 14);
     doc.text(`Byes: ${match.battingTeam.extras.byes}`, 14, extrasY + 21);
     doc.text(`Leg Byes: ${match.battingTeam.extras.legByes}`, 14, extrasY + 28);
+    doc.text(`Penalties: ${match.battingTeam.extras.penalties || 0}`, 14, extrasY + 35);
+    
+    // Add Super Over
+    let superOverY = extrasY + 42;
+    if (superOverLines.length > 0) {
+      doc.text('Super Over', 14, superOverY);
+      superOverLines.forEach((line, index) => {
+        doc.text(line, 14, superOverY + 7 * (index + 1));
+      });
+      doc.text(CricketEngine.getSuperOverResult(match), 14, superOverY + 7 * (superOverLines.length + 1));
+      superOverY += 7 * (superOverLines.length + 2);
+    }
     
     // Add Man of the Match if selected
     if (match.manOfTheMatch) {
-      const motmY = extrasY + 35;
+      const motmY = superOverY;
       doc.text(`Man of the Match: ${match.manOfTheMatch.name}`, 14, motmY);
     }
     
@@ -119,21 +154,25 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
     let text = `Match Scorecard\n\n`;
     text += `${match.battingTeam.name} vs ${match.bowlingTeam.name}\n`;
     text += `Date: ${new Date(match.date).toLocaleDateString()}\n`;
-    text += `Venue: ${match.venue}\n\n`;
+    text += `Venue: ${match.venue}\n`;
+    const situation = MatchAnalytics.getSituationText(match);
+    if (situation) text += `${situation}\n`;
+    text += '\n';
 
     // Batting Scorecard
     text += 'Batting Scorecard\n';
     text += 'Batsman\tR\tB\t4s\t6s\tSR\n';
-    match.battingTeam.players.forEach(player => {
+    lineup.batted.forEach(player => {
       const balls = match.balls.filter(b => b.striker.id === player.id).length;
       const runs = match.balls
         .filter(b => b.striker.id === player.id)
-        .reduce((sum, b) => sum + b.runs, 0);
-      const fours = match.balls.filter(b => b.striker.id === player.id && b.runs === 4).length;
-      const sixes = match.balls.filter(b => b.striker.id === player.id && b.runs === 6).length;
+        .reduce((sum, b) => sum + CricketEngine.getBatRuns(b), 0);
+      const fours = match.balls.filter(b => b.striker.id === player.id && CricketEngine.getBatRuns(b) === 4).length;
+      const sixes = match.balls.filter(b => b.striker.id === player.id && CricketEngine.getBatRuns(b) === 6).length;
       const strikeRate = ((runs / balls) * 100).toFixed(2);
-      text += `${player.name}\t${runs}\t${balls}\t${fours}\t${sixes}\t${strikeRate}\n`;
+      text += `${withRole(player)}\t${runs}\t${balls}\t${fours}\t${sixes}\t${strikeRate}\n`;
     });
+    if (didNotBat) text += `Did not bat: ${didNotBat}\n`;
 
     // Bowling Scorecard
     text += '\nBowling Scorecard\n';
@@ -142,10 +181,10 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
       const balls = match.balls.filter(b => b.bowler.id === player.id).length;
       const runs = match.balls
         .filter(b => b.bowler.id === player.id)
-        .reduce((sum, b) => sum + b.runs, 0);
+        .reduce((sum, b) => sum + CricketEngine.getBowlerRuns(b), 0);
       const wickets = match.balls.filter(b => b.bowler.id === player.id && b.isWicket).length;
-      const economy = (runs / (balls / 6)).toFixed(2);
-      text += `${player.name}\t${Math.floor(balls / 6)}.${balls % 6}\t${runs}\t${wickets}\t${economy}\n`;
+      const economy = (runs / (balls / ballsPerOver)).toFixed(2);
+      text += `${player.name}\t${Math.floor(balls / ballsPerOver)}.${balls % ballsPerOver}\t${runs}\t${wickets}\t${economy}\n`;
     });
 
     // Extras
@@ -154,6 +193,16 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
     text += `No Balls: ${match.battingTeam.extras.noBalls}\n`;
     text += `Byes: ${match.battingTeam.extras.byes}\n`;
     text += `Leg Byes: ${match.battingTeam.extras.legByes}\n`;
+    text += `Penalties: ${match.battingTeam.extras.penalties || 0}\n`;
+
+    // Super Over
+    if (superOverLines.length > 0) {
+      text += '\nSuper Over\n';
+      superOverLines.forEach(line => {
+        text += `${line}\n`;
+      });
+      text += `${CricketEngine.getSuperOverResult(match)}\n`;
+    }
 
     // Man of the Match
     if (match.manOfTheMatch) {
@@ -219,17 +268,17 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
                   </tr>
                 </thead>
                 <tbody>
-                  {match.battingTeam.players.map(player => {
+                  {lineup.batted.map(player => {
                     const balls = match.balls.filter(b => b.striker.id === player.id).length;
                     const runs = match.balls
                       .filter(b => b.striker.id === player.id)
-                      .reduce((sum, b) => sum + b.runs, 0);
-                    const fours = match.balls.filter(b => b.striker.id === player.id && b.runs === 4).length;
-                    const sixes = match.balls.filter(b => b.striker.id === player.id && b.runs === 6).length;
+                      .reduce((sum, b) => sum + CricketEngine.getBatRuns(b), 0);
+                    const fours = match.balls.filter(b => b.striker.id === player.id && CricketEngine.getBatRuns(b) === 4).length;
+                    const sixes = match.balls.filter(b => b.striker.id === player.id && CricketEngine.getBatRuns(b) === 6).length;
                     const strikeRate = ((runs / balls) * 100).toFixed(2);
                     return (
                       <tr key={player.id} className="border-t border-gray-200">
-                        <td className="px-4 py-2">{player.name}</td>
+                        <td className="px-4 py-2">{withRole(player)}</td>
                         <td className="px-4 py-2 text-center">{runs}</td>
                         <td className="px-4 py-2 text-center">{balls}</td>
                         <td className="px-4 py-2 text-center">{fours}</td>
@@ -241,6 +290,11 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
                 </tbody>
               </table>
             </div>
+            {didNotBat && (
+              <p className="text-sm text-gray-600 mt-2">
+                <span className="font-semibold">Did not bat:</span> {didNotBat}
+              </p>
+            )}
           </div>
 
           {/* Bowling Scorecard */}
@@ -262,13 +316,13 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
                     const balls = match.balls.filter(b => b.bowler.id === player.id).length;
                     const runs = match.balls
                       .filter(b => b.bowler.id === player.id)
-                      .reduce((sum, b) => sum + b.runs, 0);
+                      .reduce((sum, b) => sum + CricketEngine.getBowlerRuns(b), 0);
                     const wickets = match.balls.filter(b => b.bowler.id === player.id && b.isWicket).length;
-                    const economy = (runs / (balls / 6)).toFixed(2);
+                    const economy = (runs / (balls / ballsPerOver)).toFixed(2);
                     return (
                       <tr key={player.id} className="border-t border-gray-200">
                         <td className="px-4 py-2">{player.name}</td>
-                        <td className="px-4 py-2 text-center">{Math.floor(balls / 6)}.{balls % 6}</td>
+                        <td className="px-4 py-2 text-center">{Math.floor(balls / ballsPerOver)}.{balls % ballsPerOver}</td>
                         <td className="px-4 py-2 text-center">{runs}</td>
                         <td className="px-4 py-2 text-center">{wickets}</td>
                         <td className="px-4 py-2 text-center">{economy}</td>
@@ -288,9 +342,31 @@ export const ScorecardModal: React.FC<ScorecardModalProps> = ({ match, onClose }
               <p className="text-gray-600">No Balls: {match.battingTeam.extras.noBalls}</p>
               <p className="text-gray-600">Byes: {match.battingTeam.extras.byes}</p>
               <p className="text-gray-600">Leg Byes: {match.battingTeam.extras.legByes}</p>
+              <p className="text-gray-600">Penalties: {match.battingTeam.extras.penalties || 0}</p>
             </div>
           </div>
 
+          {/* Charts */}
+          {match.balls.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold mb-2">Charts</h3>
+              <MatchProgressCharts match={match} />
+            </div>
+          )}
+
+          {/* Super Over */}
+          {superOverLines.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold mb-2">Super Over</h3>
+              <div className="bg-gray-50 p-3 rounded-lg">
+                {superOverLines.map((line, index) => (
+                  <p key={index} className="text-gray-600">{line}</p>
+                ))}
+                <p className="text-gray-800 font-medium mt-1">{CricketEngine.getSuperOverResult(match)}</p>
+              </div>
+            </div>
+          )}
+
           {/* Man of the Match */}
           {match.manOfTheMatch && (
             <div>
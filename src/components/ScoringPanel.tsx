@@ -1,14 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { RotateCcw, RefreshCw, UserPlus, Users } from 'lucide-react';
-import { Match, Player, Ball, WicketType } from '../types/cricket';
+import { RotateCcw, RotateCw, RefreshCw, UserPlus, Users, Keyboard, ArrowLeftRight } from 'lucide-react';
+import { Match, Player, Ball, WicketType, RetirementType } from '../types/cricket';
 import { PlayerSelector } from './PlayerSelector';
 import { authService } from '../services/authService';
+import { CricketEngine } from '../services/cricketEngine';
+import { NOTATION_EXAMPLES } from '../services/scoringNotation';
+import { ScoringShortcuts } from '../services/scoringShortcuts';
+import { ScoringKeyBindings } from '../types/auth';
+import { ShotDirectionPicker } from './ShotDirectionPicker';
 
 interface ScoringPanelProps {
   match: Match;
   onScoreUpdate: (ball: Ball) => void;
   onUndo: () => void;
+  onRedo?: () => void;
+  onRetire?: (player: Player, type: RetirementType) => void;
+  onScoreText?: (input: string) => { remaining: string; message?: string }; // Typed scoring notation
+  onSwapStrike?: () => void;
+  shortcutBindings?: ScoringKeyBindings; // Keys for scoring, when shortcuts are on
   canUndo: boolean;
+  canRedo?: boolean;
   pendingStrikeRotation?: boolean;
   onStrikeRotation?: () => void;
 }
@@ -17,7 +28,13 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
   match,
   onScoreUpdate,
   onUndo,
+  onRedo,
+  onRetire,
+  onScoreText,
+  onSwapStrike,
+  shortcutBindings,
   canUndo,
+  canRedo = false,
   pendingStrikeRotation,
   onStrikeRotation
 }) => {
@@ -30,53 +47,88 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
   const [showExtraRuns, setShowExtraRuns] = useState(false);
   const [extraRuns, setExtraRuns] = useState(0);
   const [extraType, setExtraType] = useState<'wide' | 'noBall' | 'bye' | 'legBye' | null>(null);
+  const [showRunOutOptions, setShowRunOutOptions] = useState(false);
+  const [runOutEnd, setRunOutEnd] = useState<'striker' | 'nonStriker'>('striker');
+  const [runOutRuns, setRunOutRuns] = useState(0);
+  const [showRetireOptions, setShowRetireOptions] = useState(false);
+  const [retireEnd, setRetireEnd] = useState<'striker' | 'nonStriker'>('striker');
+  const [retireType, setRetireType] = useState<RetirementType>('retired_hurt');
+  const [showTextEntry, setShowTextEntry] = useState(false);
+  const [scoreText, setScoreText] = useState('');
+  const [scoreTextMessage, setScoreTextMessage] = useState<string | null>(null);
+  const [pendingShot, setPendingShot] = useState<Ball | null>(null);
+  const [askShotDirection, setAskShotDirection] = useState(
+    () => authService.getCurrentUser()?.preferences?.matchSettings?.shotDirections !== false
+  );
 
-  const currentBallNumber = (match.battingTeam.overs * 6) + match.battingTeam.balls + 1;
+  const ballsPerOver = CricketEngine.getBallsPerOver(match);
   const currentOver = match.battingTeam.overs + 1;
+  const isLastManBatting = CricketEngine.isLastManBatting(match);
+  const hasNonStriker = !!match.currentNonStriker || isLastManBatting;
+  const wideRuns = CricketEngine.getWideRuns(match);
+  const noBallRuns = CricketEngine.getNoBallRuns(match);
+  const isFreeHit = CricketEngine.isFreeHitDue(match);
+  const dismissalOptions: { type: WicketType; label: string }[] = [
+    { type: 'bowled', label: 'Bowled' },
+    { type: 'caught', label: 'Caught' },
+    { type: 'lbw', label: 'LBW' },
+    { type: 'run_out', label: 'Run Out' },
+    { type: 'stumped', label: 'Stumped' },
+    { type: 'hit_wicket', label: 'Hit Wicket' }
+  ];
+  const extraRunOptions = extraType === 'wide' ? [0, 1, 2, 3, 4] : extraType === 'noBall' ? [0, 1, 2, 3, 4, 6] : [1, 2, 3, 4, 5, 6];
 
-  const createBall = (runs: number, extras: any = {}, wicket: any = {}): Ball => {
-    return {
-      id: `ball_${Date.now()}_${Math.random()}`,
-      ballNumber: currentBallNumber,
-      overNumber: currentOver,
-      bowler: match.currentBowler!,
-      striker: match.currentStriker!,
-      nonStriker: match.currentNonStriker!,
-      runs,
-      isWide: extras.isWide || false,
-      isNoBall: extras.isNoBall || false,
-      isBye: extras.isBye || false,
-      isLegBye: extras.isLegBye || false,
-      isWicket: wicket.isWicket || false,
-      wicketType: wicket.wicketType,
-      fielder: wicket.fielder,
-      commentary: generateCommentary(runs, extras, wicket),
-      timestamp: Date.now()
-    };
-  };
+  const createBall = (
+    runs: number,
+    extras: Partial<Pick<Ball, 'isWide' | 'isNoBall' | 'isBye' | 'isLegBye' | 'batRuns'>> = {},
+    wicket: { isWicket?: boolean; wicketType?: WicketType | null; fielder?: Player; dismissedPlayer?: Player | null } = {}
+  ): Ball => CricketEngine.createBall(match, {
+    runs,
+    batRuns: extras.isNoBall ? extras.batRuns || 0 : undefined,
+    isWide: extras.isWide || false,
+    isNoBall: extras.isNoBall || false,
+    isBye: extras.isBye || false,
+    isLegBye: extras.isLegBye || false,
+    isWicket: wicket.isWicket || false,
+    wicketType: wicket.wicketType || undefined,
+    fielder: wicket.fielder,
+    dismissedPlayer: wicket.isWicket ? wicket.dismissedPlayer || undefined : undefined
+  });
 
-  const generateCommentary = (runs: number, extras: any, wicket: any): string => {
-    if (wicket.isWicket) {
-      return `${match.currentStriker?.name} ${wicket.wicketType}${wicket.fielder ? ` by ${wicket.fielder.name}` : ''} for ${runs}`;
+  // Scoring shots wait for their direction before they are scored
+  const submitBall = (ball: Ball) => {
+    if (askShotDirection && CricketEngine.getBatRuns(ball) > 0) {
+      setPendingShot(ball);
+    } else {
+      onScoreUpdate(ball);
     }
-    if (extras.isWide) return `Wide, ${runs} runs`;
-    if (extras.isNoBall) return `No ball, ${runs} runs`;
-    if (extras.isBye) return `${runs} bye${runs !== 1 ? 's' : ''}`;
-    if (extras.isLegBye) return `${runs} leg bye${runs !== 1 ? 's' : ''}`;
-    
-    switch (runs) {
-      case 0: return 'Dot ball';
-      case 1: return 'Single';
-      case 2: return 'Two runs';
-      case 3: return 'Three runs';
-      case 4: return 'Four!';
-      case 6: return 'Six!';
-      default: return `${runs} runs`;
+  };
+
+  const handleShotDirection = (angle?: number) => {
+    if (!pendingShot) return;
+    onScoreUpdate(angle === undefined ? pendingShot : { ...pendingShot, shotAngle: angle });
+    setPendingShot(null);
+  };
+
+  const handleShotDirectionsSetting = async (enabled: boolean) => {
+    setAskShotDirection(enabled);
+
+    const user = authService.getCurrentUser();
+    if (!user?.preferences) return;
+    try {
+      await authService.updateUserProfile({
+        preferences: {
+          ...user.preferences,
+          matchSettings: { ...user.preferences.matchSettings, shotDirections: enabled }
+        }
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to save shot direction setting:', error);
     }
   };
 
   const handleRun = (runs: number) => {
-    if (!match.currentStriker || !match.currentNonStriker || !match.currentBowler) {
+    if (!match.currentStriker || !hasNonStriker || !match.currentBowler) {
       setShowPlayerSelector({
         type: 'striker',
         title: 'Please select all players first'
@@ -85,43 +137,55 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
     }
 
     const ball = createBall(runs);
-    onScoreUpdate(ball);
+    submitBall(ball);
   };
 
   const handleExtra = (type: 'wide' | 'noBall' | 'bye' | 'legBye') => {
     setExtraType(type);
-    setExtraRuns(1);
+    // Wides and no-balls start from the penalty alone; byes need at least one run
+    setExtraRuns(type === 'wide' || type === 'noBall' ? 0 : 1);
     setShowExtraRuns(true);
   };
 
   const handleExtraConfirm = () => {
-    if (!match.currentStriker || !match.currentNonStriker || !match.currentBowler || !extraType) {
+    if (!match.currentStriker || !hasNonStriker || !match.currentBowler || !extraType) {
       return;
     }
 
-    const ball = createBall(extraRuns, {
+    // The penalty is added to runs taken off a wide or hit off a no-ball
+    const penalty = extraType === 'wide' ? wideRuns : extraType === 'noBall' ? noBallRuns : 0;
+    const ball = createBall(extraRuns + penalty, {
       isWide: extraType === 'wide',
       isNoBall: extraType === 'noBall',
       isBye: extraType === 'bye',
-      isLegBye: extraType === 'legBye'
+      isLegBye: extraType === 'legBye',
+      batRuns: extraType === 'noBall' ? extraRuns : undefined
     });
 
-    onScoreUpdate(ball);
+    submitBall(ball);
     setShowExtraRuns(false);
     setExtraRuns(0);
     setExtraType(null);
   };
 
   const handleWicket = (type: WicketType) => {
-    if (!match.currentStriker || !match.currentNonStriker || !match.currentBowler) {
+    if (!match.currentStriker || !hasNonStriker || !match.currentBowler) {
+      return;
+    }
+    if (!CricketEngine.isDismissalAllowed(match, type)) {
       return;
     }
 
-    if (type === 'caught' || type === 'run_out' || type === 'stumped') {
+    if (type === 'run_out') {
+      // Ask which end the run out happened at before picking the fielder
+      setRunOutEnd('striker');
+      setRunOutRuns(0);
+      setShowRunOutOptions(true);
+    } else if (type === 'caught' || type === 'stumped') {
       setWicketType(type);
       setShowPlayerSelector({
         type: 'fielder',
-        title: `Select ${type === 'caught' ? 'Fielder' : type === 'run_out' ? 'Run Out By' : 'Wicket Keeper'}`
+        title: `Select ${type === 'caught' ? 'Fielder' : 'Wicket Keeper'}`
       });
     } else {
       const ball = createBall(0, {}, {
@@ -141,15 +205,45 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
     }
   };
 
+  const handleRunOutConfirm = () => {
+    setShowRunOutOptions(false);
+    setWicketType('run_out');
+    setShowPlayerSelector({
+      type: 'fielder',
+      title: 'Select Run Out By'
+    });
+  };
+
+  const handleScoreTextSubmit = () => {
+    if (!onScoreText || !scoreText.trim()) return;
+
+    const { remaining, message } = onScoreText(scoreText);
+    setScoreText(remaining);
+    setScoreTextMessage(message || null);
+    // Close once everything is in; otherwise keep the rest for after the prompt
+    if (!remaining) setShowTextEntry(false);
+  };
+
+  const handleRetireConfirm = () => {
+    const player = retireEnd === 'nonStriker' ? match.currentNonStriker : match.currentStriker;
+    if (player && onRetire) {
+      onRetire(player, retireType);
+    }
+    setShowRetireOptions(false);
+    setShowWicketOptions(false);
+  };
+
   const handlePlayerSelect = (player: Player) => {
     if (!showPlayerSelector) return;
 
     switch (showPlayerSelector.type) {
       case 'fielder':
-        const ball = createBall(0, {}, {
+        const isRunOut = wicketType === 'run_out';
+        const ball = createBall(isRunOut ? runOutRuns : 0, {}, {
           isWicket: true,
           wicketType: wicketType,
-          fielder: player
+          fielder: player,
+          dismissedPlayer: isRunOut && runOutEnd === 'nonStriker' ? match.currentNonStriker : match.currentStriker
         });
         onScoreUpdate(ball);
         setWicketType(null);
@@ -190,7 +284,40 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
   const currentGroup = authService.getCurrentGroup();
 
   // Check if all players are selected
-  const allPlayersSelected = match.currentStriker && match.currentNonStriker && match.currentBowler;
+  const allPlayersSelected = match.currentStriker && hasNonStriker && match.currentBowler;
+  const isPanelBusy = !!showPlayerSelector || showExtraRuns || showRunOutOptions || showRetireOptions || showTextEntry || !!pendingShot;
+
+  // Scoring keys do what the matching button does
+  useEffect(() => {
+    if (!shortcutBindings || !allPlayersSelected || isPanelBusy) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = ScoringShortcuts.getAction(event, shortcutBindings);
+      if (!action) return;
+
+      const runs = action.match(/^run_(\d)$/);
+      if (runs) {
+        handleRun(parseInt(runs[1], 10));
+      } else if (action === 'wide' || action === 'bye') {
+        handleExtra(action);
+      } else if (action === 'no_ball') {
+        handleExtra('noBall');
+      } else if (action === 'leg_bye') {
+        handleExtra('legBye');
+      } else if (dismissalOptions.some(option => option.type === action)) {
+        handleWicket(action as WicketType);
+      } else if (action === 'type_balls' && onScoreText) {
+        setScoreTextMessage(null);
+        setShowTextEntry(true);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [match, shortcutBindings, allPlayersSelected, isPanelBusy]);
 
   if (!allPlayersSelected) {
     return (
@@ -214,7 +341,7 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
               </button>
             )}
             
-            {!match.currentNonStriker && (
+            {!hasNonStriker && (
               <button
                 onClick={() => setShowPlayerSelector({
                   type: 'nonStriker',
@@ -251,11 +378,24 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
         {/* Current Over Info */}
         <div className="bg-green-50 rounded-lg p-3 mb-4 text-center">
           <div className="text-sm text-green-600 font-medium">
-            Over {currentOver} • Ball {(match.battingTeam.balls % 6) + 1}
+            Over {currentOver} • Ball {(match.battingTeam.balls % ballsPerOver) + 1}
           </div>
           <div className="text-xs text-green-500 mt-1">
             {match.currentBowler.name} to {match.currentStriker.name}
           </div>
+          {isLastManBatting && (
+            <div className="text-xs text-orange-600 font-semibold mt-1">Last man stands - batting alone</div>
+          )}
+          {onSwapStrike && match.currentNonStriker && (
+            <button
+              onClick={onSwapStrike}
+              className="mt-2 inline-flex items-center space-x-1 text-xs text-green-700 hover:text-green-900"
+              title={shortcutBindings ? `Swap strike (${shortcutBindings.swap_strike})` : 'Swap strike'}
+            >
+              <ArrowLeftRight className="w-3 h-3" />
+              <span>Swap strike</span>
+            </button>
+          )}
         </div>
 
         {/* Strike Rotation Alert */}
@@ -342,61 +482,106 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
 
           {showWicketOptions && (
             <div className="mt-3 grid grid-cols-2 gap-2">
-              <button
-                onClick={() => handleWicket('bowled')}
-                className="py-2 px-3 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm"
-              >
-                Bowled
-              </button>
-              <button
-                onClick={() => handleWicket('caught')}
-                className="py-2 px-3 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm"
-              >
-                Caught
-              </button>
-              <button
-                onClick={() => handleWicket('lbw')}
-                className="py-2 px-3 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm"
-              >
-                LBW
-              </button>
-              <button
-                onClick={() => handleWicket('run_out')}
-                className="py-2 px-3 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm"
-              >
-                Run Out
-              </button>
-              <button
-                onClick={() => handleWicket('stumped')}
-                className="py-2 px-3 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm"
-              >
-                Stumped
-              </button>
-              <button
-                onClick={() => handleWicket('hit_wicket')}
-                className="py-2 px-3 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm"
-              >
-                Hit Wicket
-              </button>
+              {isFreeHit && (
+                <div className="col-span-2 text-xs text-orange-700 bg-orange-50 border border-orange-200 rounded-lg px-3 py-2">
+                  Free hit - only a run out can be given
+                </div>
+              )}
+              {dismissalOptions
+                .filter(option => CricketEngine.isDismissalAllowed(match, option.type))
+                .map(option => (
+                  <button
+                    key={option.type}
+                    onClick={() => handleWicket(option.type)}
+                    className="py-2 px-3 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm"
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              {onRetire && !match.isSuperOver && (
+                <button
+                  onClick={() => {
+                    setRetireEnd('striker');
+                    setRetireType('retired_hurt');
+                    setShowRetireOptions(true);
+                  }}
+                  className="col-span-2 py-2 px-3 bg-amber-100 text-amber-700 rounded-lg hover:bg-amber-200 transition-colors text-sm"
+                >
+                  Retire Batter
+                </button>
+              )}
             </div>
           )}
         </div>
 
-        {/* Undo */}
-        <button
-          onClick={onUndo}
-          disabled={!canUndo}
-          className={`w-full py-3 rounded-xl font-semibold transition-all ${
-            canUndo
-              ? 'bg-gray-600 text-white hover:bg-gray-700'
-              : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-          }`}
-        >
-          <RotateCcw className="w-5 h-5 inline mr-2" />
-          Undo Last Ball
-        </button>
+        {/* Typed Scoring */}
+        {onScoreText && (
+          <button
+            onClick={() => {
+              setScoreTextMessage(null);
+              setShowTextEntry(true);
+            }}
+            className="w-full mb-3 py-3 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 transition-colors"
+          >
+            <Keyboard className="w-5 h-5 inline mr-2" />
+            Type Balls{scoreText ? ' (continue)' : ''}
+          </button>
+        )}
+
+        {/* Wagon Wheel */}
+        <label className="flex items-center justify-between mb-3 px-1 text-sm text-gray-600">
+          <span>Record shot directions for the wagon wheel</span>
+          <input
+            type="checkbox"
+            checked={askShotDirection}
+            onChange={e => handleShotDirectionsSetting(e.target.checked)}
+          />
+        </label>
+
+        {/* Undo / Redo */}
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className={`flex-1 py-3 rounded-xl font-semibold transition-all ${
+              canUndo
+                ? 'bg-gray-600 text-white hover:bg-gray-700'
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            <RotateCcw className="w-5 h-5 inline mr-2" />
+            Undo Last Ball
+          </button>
+          {onRedo && (
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className={`px-4 py-3 rounded-xl font-semibold transition-all ${
+                canRedo
+                  ? 'bg-gray-600 text-white hover:bg-gray-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <RotateCw className="w-5 h-5 inline mr-2" />
+              Redo
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Shot Direction */}
+      {pendingShot && (
+        <ShotDirectionPicker
+          ball={pendingShot}
+          onPick={angle => handleShotDirection(angle)}
+          onSkip={() => handleShotDirection()}
+          onStopAsking={() => {
+            handleShotDirection();
+            handleShotDirectionsSetting(false);
+          }}
+        />
+      )}
+
       {/* Player Selector Modal */}
       {showPlayerSelector && (
         <PlayerSelector
@@ -409,6 +594,126 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
         />
       )}
 
+      {/* Run Out Modal */}
+      {showRunOutOptions && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm">
+            <h3 className="text-lg font-semibold mb-4">Run Out</h3>
+            <div className="text-sm font-medium text-gray-700 mb-2">Which batter is out?</div>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {((match.currentNonStriker ? ['striker', 'nonStriker'] : ['striker']) as Array<'striker' | 'nonStriker'>).map(end => (
+                <button
+                  key={end}
+                  onClick={() => setRunOutEnd(end)}
+                  className={`p-3 rounded-lg transition-colors text-sm ${
+                    runOutEnd === end
+                      ? 'bg-red-500 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                  }`}
+                >
+                  <div className="font-semibold truncate">
+                    {end === 'striker' ? match.currentStriker?.name : match.currentNonStriker?.name}
+                  </div>
+                  <div className="text-xs opacity-80">{end === 'striker' ? "Striker's end" : "Non-striker's end"}</div>
+                </button>
+              ))}
+            </div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Runs completed</div>
+            <div className="grid grid-cols-4 gap-2 mb-4">
+              {[0, 1, 2, 3].map(runs => (
+                <button
+                  key={runs}
+                  onClick={() => setRunOutRuns(runs)}
+                  className={`p-3 rounded-lg transition-colors ${
+                    runOutRuns === runs
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                  }`}
+                >
+                  {runs}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setShowRunOutOptions(false)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRunOutConfirm}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Retire Batter Modal */}
+      {showRetireOptions && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm">
+            <h3 className="text-lg font-semibold mb-4">Retire Batter</h3>
+            <div className="text-sm font-medium text-gray-700 mb-2">Which batter is retiring?</div>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {((match.currentNonStriker ? ['striker', 'nonStriker'] : ['striker']) as Array<'striker' | 'nonStriker'>).map(end => (
+                <button
+                  key={end}
+                  onClick={() => setRetireEnd(end)}
+                  className={`p-3 rounded-lg transition-colors text-sm ${
+                    retireEnd === end
+                      ? 'bg-amber-500 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                  }`}
+                >
+                  <div className="font-semibold truncate">
+                    {end === 'striker' ? match.currentStriker?.name : match.currentNonStriker?.name}
+                  </div>
+                  <div className="text-xs opacity-80">{end === 'striker' ? 'Striker' : 'Non-striker'}</div>
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              {(['retired_hurt', 'retired_out'] as RetirementType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setRetireType(type)}
+                  className={`p-3 rounded-lg transition-colors text-sm ${
+                    retireType === type
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                  }`}
+                >
+                  {type === 'retired_hurt' ? 'Retired Hurt' : 'Retired Out'}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              {retireType === 'retired_hurt'
+                ? 'Not out - the batter can come back in later.'
+                : 'Counts as a wicket.'}
+            </p>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setShowRetireOptions(false)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRetireConfirm}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                Confirm
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Extra Runs Modal */}
       {showExtraRuns && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -418,8 +723,13 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
                extraType === 'noBall' ? 'No Ball' : 
                extraType === 'bye' ? 'Bye' : 'Leg Bye'} Runs
             </h3>
+            {(extraType === 'wide' || extraType === 'noBall') && (
+              <p className="text-sm text-gray-600 -mt-2 mb-3">
+                {extraType === 'wide' ? 'Runs taken' : 'Runs off the bat'}, plus {extraType === 'wide' ? wideRuns : noBallRuns} for the {extraType === 'wide' ? 'wide' : 'no ball'}
+              </p>
+            )}
             <div className="grid grid-cols-3 gap-2 mb-4">
-              {[1, 2, 3, 4, 5, 6].map(runs => (
+              {extraRunOptions.map(runs => (
                 <button
                   key={runs}
                   onClick={() => setExtraRuns(runs)}
@@ -454,6 +764,54 @@ export const ScoringPanel: React.FC<ScoringPanelProps> = ({
           </div>
         </div>
       )}
+
+      {/* Typed Scoring Modal */}
+      {showTextEntry && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-sm">
+            <h3 className="text-lg font-semibold mb-1">Type Balls</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              One ball or a whole over, e.g. <span className="font-mono">{NOTATION_EXAMPLES}</span>
+            </p>
+            <textarea
+              value={scoreText}
+              onChange={(e) => {
+                setScoreText(e.target.value);
+                setScoreTextMessage(null);
+              }}
+              autoFocus
+              rows={3}
+              placeholder="1 . 4 wd 2lb 6"
+              className="w-full p-3 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+            {scoreTextMessage && (
+              <div className="mt-2 text-xs text-orange-700 bg-orange-50 border border-orange-200 rounded-lg px-3 py-2">
+                {scoreTextMessage}
+              </div>
+            )}
+            <div className="text-xs text-gray-500 mt-2 space-y-0.5">
+              <div><span className="font-mono">.</span> dot • <span className="font-mono">2b 1lb</span> byes • <span className="font-mono">wd+1 nb4</span> wide, no ball</div>
+              <div><span className="font-mono">W b / lbw / c Name / st Name / c&b / hw</span></div>
+              <div><span className="font-mono">ro ns 1 Name</span> run out at that end after 1 run</div>
+            </div>
+            <div className="flex justify-end space-x-2 mt-4">
+              <button
+                onClick={() => setShowTextEntry(false)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleScoreTextSubmit}
+                disabled={!scoreText.trim()}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                Score
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { X, Keyboard, RotateCcw } from 'lucide-react';
+import { ScoringAction, ScoringKeyBindings } from '../types/auth';
+import { ScoringShortcuts, SCORING_ACTIONS, DEFAULT_KEY_BINDINGS } from '../services/scoringShortcuts';
+
+interface ShortcutCheatSheetProps {
+  bindings: ScoringKeyBindings;
+  enabled: boolean;
+  onChange: (bindings: ScoringKeyBindings, enabled: boolean) => void;
+  onClose: () => void;
+}
+
+// Keyboard shortcuts for scoring, and where they are changed
+export const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({ bindings, enabled, onChange, onClose }) => {
+  const [capturing, setCapturing] = useState<ScoringAction | null>(null);
+
+  // While waiting for a new key, the next key press is the binding
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = ScoringShortcuts.getKey(event);
+      if (!key) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (key !== 'Escape') {
+        onChange(ScoringShortcuts.rebind(bindings, capturing, key), enabled);
+      }
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, bindings, enabled, onChange]);
+
+  const groups = ['Runs', 'Extras', 'Wickets', 'Match'] as const;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <Keyboard className="w-5 h-5 text-gray-700" />
+            <h2 className="text-lg font-bold text-gray-900">Keyboard Shortcuts</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-700">Score with the keyboard</span>
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={e => onChange(bindings, e.target.checked)}
+            />
+          </label>
+          <p className="text-xs text-gray-500">
+            Click a key to change it, then press the new key (Esc to cancel). Shortcuts are paused while a selector or text box is open.
+          </p>
+
+          <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${enabled ? '' : 'opacity-50'}`}>
+            {groups.map(group => (
+              <div key={group}>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">{group}</h3>
+                <div className="space-y-1">
+                  {SCORING_ACTIONS.filter(a => a.group === group).map(({ action, label }) => (
+                    <div key={action} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">{label}</span>
+                      <button
+                        onClick={() => setCapturing(action)}
+                        className={`min-w-[3rem] px-2 py-0.5 rounded border font-mono text-xs ${
+                          capturing === action
+                            ? 'border-green-500 bg-green-50 text-green-700'
+                            : 'border-gray-300 bg-gray-50 text-gray-800 hover:bg-gray-100'
+                        }`}
+                      >
+                        {capturing === action ? 'Press key' : bindings[action]}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onChange({ ...DEFAULT_KEY_BINDINGS }, enabled)}
+            className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset to defaults</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
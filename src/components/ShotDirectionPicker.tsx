@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Ball } from '../types/cricket';
+import { CricketEngine } from '../services/cricketEngine';
+import { WagonWheel } from '../services/wagonWheel';
+import { FieldBackground } from './WagonWheelChart';
+
+interface ShotDirectionPickerProps {
+  ball: Ball;
+  onPick: (angle: number) => void;
+  onSkip: () => void;
+  onStopAsking: () => void;
+}
+
+const FIELD_SIZE = 260;
+
+// Tap where a scoring shot went. The ball is scored either way; skipping
+// just leaves it off the wagon wheel.
+export const ShotDirectionPicker: React.FC<ShotDirectionPickerProps> = ({ ball, onPick, onSkip, onStopAsking }) => {
+  const [hoverAngle, setHoverAngle] = useState<number | null>(null);
+  const radius = FIELD_SIZE / 2 - 4;
+  const runs = CricketEngine.getBatRuns(ball);
+
+  const getAngle = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return WagonWheel.getAngle(
+      event.clientX - (rect.left + rect.width / 2),
+      event.clientY - (rect.top + rect.height / 2)
+    );
+  };
+
+  const preview = hoverAngle !== null
+    ? WagonWheel.getEndPoint({ ballId: ball.id, angle: hoverAngle, runs }, radius)
+    : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Where did it go?</h2>
+            <p className="text-xs text-gray-500">
+              {ball.striker.name} - {runs} run{runs === 1 ? '' : 's'}
+              {hoverAngle !== null && ` • ${WagonWheel.getZone(hoverAngle).label}`}
+            </p>
+          </div>
+          <button onClick={onSkip} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col items-center">
+          <svg
+            width={FIELD_SIZE}
+            height={FIELD_SIZE}
+            viewBox={`${-FIELD_SIZE / 2} ${-FIELD_SIZE / 2} ${FIELD_SIZE} ${FIELD_SIZE}`}
+            className="cursor-crosshair touch-manipulation"
+            onMouseMove={e => setHoverAngle(getAngle(e))}
+            onMouseLeave={() => setHoverAngle(null)}
+            onClick={e => onPick(getAngle(e))}
+          >
+            <FieldBackground radius={radius} />
+            <text x={0} y={-radius * 0.25} fontSize={10} fill="#15803d" textAnchor="middle">Bowler</text>
+            {preview && (
+              <line
+                x1={0}
+                y1={0}
+                x2={preview.x}
+                y2={preview.y}
+                stroke={WagonWheel.getColor(runs)}
+                strokeWidth={2}
+                strokeLinecap="round"
+              />
+            )}
+          </svg>
+          <p className="text-xs text-gray-500 mt-2">Off side on the right, as for a right-hander</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 p-4 pt-0">
+          <button
+            onClick={onStopAsking}
+            className="py-2 bg-gray-100 text-gray-600 rounded-lg text-sm hover:bg-gray-200"
+          >
+            Stop asking
+          </button>
+          <button
+            onClick={onSkip}
+            className="py-2 bg-gray-600 text-white rounded-lg text-sm font-medium hover:bg-gray-700"
+          >
+            Skip
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
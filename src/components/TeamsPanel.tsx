@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import { Users, Plus, Edit } from 'lucide-react';
+import { GroupTeam, Match, Player } from '../types/cricket';
+import { storageService } from '../services/storage';
+import { authService } from '../services/authService';
+import { TeamService } from '../services/teamService';
+
+interface TeamsPanelProps {
+  groupId: string;
+}
+
+// A group's saved teams: their squads, captain and keeper, and how each has
+// done across the group's matches
+export const TeamsPanel: React.FC<TeamsPanelProps> = ({ groupId }) => {
+  const [teams, setTeams] = useState<GroupTeam[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<GroupTeam | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, [groupId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [groupTeams, groupPlayers, groupMatches] = await Promise.all([
+        storageService.getGroupTeams(groupId),
+        storageService.getGroupPlayers(groupId),
+        storageService.getGroupMatches(groupId)
+      ]);
+      setTeams(groupTeams);
+      setPlayers(groupPlayers.sort((a, b) => a.name.localeCompare(b.name)));
+      setMatches(groupMatches);
+      setSelectedId(current => current || groupTeams[0]?.id || null);
+    } catch (error) {
+      console.error('Failed to load teams:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleNew = () => {
+    setError('');
+    setEditing(TeamService.createTeam('', groupId, [], { createdBy: authService.getCurrentUser()?.id }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setError('');
+    try {
+      const team = { ...editing, name: editing.name.trim(), lastModified: Date.now() };
+      TeamService.validateTeam(team, teams);
+      setTeams(prev => [...prev.filter(t => t.id !== team.id), team].sort((a, b) => a.name.localeCompare(b.name)));
+      await storageService.saveGroupTeam(team);
+      setSelectedId(team.id);
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the team');
+    }
+  };
+
+  const toggleSquadPlayer = (playerId: string) => {
+    if (!editing) return;
+    const inSquad = editing.playerIds.includes(playerId);
+    setEditing({
+      ...editing,
+      playerIds: inSquad ? editing.playerIds.filter(id => id !== playerId) : [...editing.playerIds, playerId],
+      captainId: inSquad && editing.captainId === playerId ? undefined : editing.captainId,
+      wicketkeeperId: inSquad && editing.wicketkeeperId === playerId ? undefined : editing.wicketkeeperId
+    });
+  };
+
+  const getPlayerName = (playerId: string) => players.find(p => p.id === playerId)?.name || 'Unknown player';
+
+  if (loading) {
+    return <p className="text-gray-500">Loading teams...</p>;
+  }
+
+  const selected = teams.find(t => t.id === selectedId) || null;
+  const record = selected ? TeamService.getTeamRecord(selected, matches) : null;
+  const headToHead = selected ? TeamService.getHeadToHead(selected, teams, matches) : [];
+  const squadPlayers = editing ? players.filter(p => editing.playerIds.includes(p.id)) : [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {teams.map(team => (
+          <button
+            key={team.id}
+            onClick={() => {
+              setSelectedId(team.id);
+              setEditing(null);
+            }}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              team.id === selectedId
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {team.name}
+          </button>
+        ))}
+        <button
+          onClick={handleNew}
+          className="px-3 py-1 rounded-full text-sm font-medium bg-green-600 text-white hover:bg-green-700 transition-colors"
+        >
+          <Plus className="w-4 h-4 inline mr-1" />
+          New Team
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {editing ? (
+        <form onSubmit={handleSave} className="bg-gray-50 rounded-lg p-4 mb-6 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Team Name</label>
+            <input
+              type="text"
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="Team A"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Squad ({editing.playerIds.length} selected)
+            </label>
+            {players.length > 0 ? (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-60 overflow-y-auto">
+                {players.map(player => (
+                  <label key={player.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={editing.playerIds.includes(player.id)}
+                      onChange={() => toggleSquadPlayer(player.id)}
+                    />
+                    <span>{player.name}</span>
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No players in this group yet</p>
+            )}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Captain</label>
+              <select
+                value={editing.captainId || ''}
+                onChange={(e) => setEditing({ ...editing, captainId: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">None</option>
+                {squadPlayers.map(player => (
+                  <option key={player.id} value={player.id}>{player.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Wicketkeeper</label>
+              <select
+                value={editing.wicketkeeperId || ''}
+                onChange={(e) => setEditing({ ...editing, wicketkeeperId: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">None</option>
+                {squadPlayers.map(player => (
+                  <option key={player.id} value={player.id}>{player.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
+              Save Team
+            </button>
+          </div>
+        </form>
+      ) : !selected || !record ? (
+        <div className="text-center py-8">
+          <Users className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">No teams in this group yet</p>
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">{selected.name}</h2>
+            <button
+              onClick={() => {
+                setError('');
+                setEditing(selected);
+              }}
+              className="px-3 py-1 rounded-lg text-sm bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              <Edit className="w-4 h-4 inline mr-1" />
+              Edit
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            {[
+              { label: 'Played', value: record.played },
+              { label: 'Won', value: record.won },
+              { label: 'Lost', value: record.lost },
+              { label: record.drawn > 0 ? 'Tied / Drawn' : 'Tied', value: record.drawn > 0 ? `${record.tied} / ${record.drawn}` : record.tied },
+              {
+                label: 'Highest Total',
+                value: record.highestTotal ? `${record.highestTotal.runs}/${record.highestTotal.wickets}` : '-'
+              }
+            ].map(stat => (
+              <div key={stat.label} className="bg-gray-50 rounded-lg p-3 text-center">
+                <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                <div className="text-xs text-gray-500">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+          {record.highestTotal && (
+            <p className="text-sm text-gray-500 mb-6">
+              Highest total made against {record.highestTotal.opponentName} on {new Date(record.highestTotal.date).toLocaleDateString()}
+            </p>
+          )}
+
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Squad</h3>
+          {selected.playerIds.length > 0 ? (
+            <div className="flex flex-wrap gap-2 mb-8">
+              {selected.playerIds.map(playerId => (
+                <span key={playerId} className="px-3 py-1 bg-gray-100 rounded-full text-sm text-gray-700">
+                  {getPlayerName(playerId)}
+                  {playerId === selected.captainId && ' (c)'}
+                  {playerId === selected.wicketkeeperId && ' (wk)'}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 mb-8">No players in the squad yet</p>
+          )}
+
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Head to Head</h3>
+          {headToHead.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="px-3 py-3 text-left text-sm font-medium text-gray-500">Against</th>
+                    <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">P</th>
+                    <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">W</th>
+                    <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">L</th>
+                    <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">T</th>
+                    <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">D</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {headToHead.map(row => (
+                    <tr key={row.opponentId || row.opponentName}>
+                      <td className="px-3 py-3 text-sm font-medium text-gray-900">{row.opponentName}</td>
+                      <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.played}</td>
+                      <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.won}</td>
+                      <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.lost}</td>
+                      <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.tied}</td>
+                      <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.drawn}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No completed matches for this team yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,391 @@
+import React, { useState, useEffect } from 'react';
+import { Trophy, Plus } from 'lucide-react';
+import { Fixture, KnockoutFixture, Match, TieBreakRule, Tournament } from '../types/cricket';
+import { storageService } from '../services/storage';
+import { authService } from '../services/authService';
+import { CricketEngine } from '../services/cricketEngine';
+import { TournamentService, DEFAULT_POINTS_RULES } from '../services/tournamentService';
+import { KnockoutBracket } from '../services/knockoutBracket';
+import { PDFService } from '../services/pdfService';
+import { KnockoutBracketView, KnockoutSetupForm } from './KnockoutBracketView';
+
+interface TournamentPanelProps {
+  groupId: string;
+}
+
+// A group's tournaments: creating one, linking played matches to its
+// fixtures, the points table and any knockout stage
+export const TournamentPanel: React.FC<TournamentPanelProps> = ({ groupId }) => {
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [teamNames, setTeamNames] = useState('');
+  const [doubleRoundRobin, setDoubleRoundRobin] = useState(false);
+  const [knockoutOnly, setKnockoutOnly] = useState(false);
+  const [showKnockoutSetup, setShowKnockoutSetup] = useState(false);
+  const [bonusPoint, setBonusPoint] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, [groupId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [groupTournaments, groupMatches] = await Promise.all([
+        storageService.getGroupTournaments(groupId),
+        storageService.getGroupMatches(groupId)
+      ]);
+      setTournaments(groupTournaments);
+      setMatches(groupMatches);
+      setSelectedId(current => current || groupTournaments[0]?.id || null);
+    } catch (error) {
+      console.error('Failed to load tournaments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveTournament = async (tournament: Tournament) => {
+    setTournaments(prev => [tournament, ...prev.filter(t => t.id !== tournament.id)]
+      .sort((a, b) => b.createdAt - a.createdAt));
+    await storageService.saveTournament(tournament);
+  };
+
+  const saveMatch = async (match: Match) => {
+    setMatches(prev => prev.map(m => (m.id === match.id ? match : m)));
+    await storageService.saveMatch(match);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const tournament = TournamentService.createTournament(name, groupId, teamNames.split('\n'), {
+        doubleRoundRobin,
+        knockoutOnly,
+        points: { ...DEFAULT_POINTS_RULES, bonus: bonusPoint ? 1 : 0 },
+        createdBy: authService.getCurrentUser()?.id
+      });
+      await saveTournament(tournament);
+      setSelectedId(tournament.id);
+      setShowCreate(false);
+      setName('');
+      setTeamNames('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the tournament');
+    }
+  };
+
+  const handleLinkMatch = async (tournament: Tournament, fixture: Fixture, matchId: string) => {
+    setError('');
+    try {
+      const previous = matches.find(m => m.id === fixture.matchId);
+      if (previous) {
+        await saveMatch({ ...previous, tournamentId: undefined, fixtureId: undefined });
+      }
+      if (!matchId) {
+        await saveTournament(TournamentService.unlinkMatch(tournament, fixture.id));
+        return;
+      }
+
+      const match = matches.find(m => m.id === matchId);
+      if (!match) return;
+      const linked = TournamentService.linkMatch(tournament, fixture.id, match);
+      await saveTournament(linked.tournament);
+      await saveMatch(linked.match);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not link the match');
+    }
+  };
+
+  const handleCreateKnockout = async (tournament: Tournament, seeds: string[], tieBreak: TieBreakRule, seededFromTable: boolean) => {
+    setError('');
+    try {
+      await saveTournament(KnockoutBracket.createStage(tournament, seeds, tieBreak, seededFromTable));
+      setShowKnockoutSetup(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the knockout stage');
+    }
+  };
+
+  const handleLinkKnockoutMatch = async (tournament: Tournament, fixture: KnockoutFixture, matchId: string) => {
+    setError('');
+    try {
+      const previous = matches.find(m => m.id === fixture.matchId);
+      if (previous) {
+        await saveMatch({ ...previous, tournamentId: undefined, fixtureId: undefined });
+      }
+      if (!matchId) {
+        await saveTournament(KnockoutBracket.unlinkMatch(tournament, fixture.id, matches));
+        return;
+      }
+
+      const match = matches.find(m => m.id === matchId);
+      if (!match) return;
+      const linked = KnockoutBracket.linkMatch(tournament, fixture.id, match, matches);
+      await saveTournament(linked.tournament);
+      await saveMatch(linked.match);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not link the match');
+    }
+  };
+
+  const handleExportBracket = async (tournament: Tournament) => {
+    try {
+      await PDFService.downloadBracket(tournament, matches);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export the bracket');
+    }
+  };
+
+  const handleNoResult = async (tournament: Tournament, fixture: Fixture, noResult: boolean) => {
+    await saveTournament(TournamentService.setNoResult(tournament, fixture.id, noResult));
+  };
+
+  // Matches that could be the one played for a fixture and are not counted for another
+  const getCandidateMatches = (tournament: Tournament, fixture: Fixture): Match[] => {
+    const linkedElsewhere = new Set([
+      ...tournament.fixtures.filter(f => f.id !== fixture.id),
+      ...(tournament.knockout?.fixtures || [])
+    ].map(f => f.matchId));
+    return matches
+      .filter(m => !linkedElsewhere.has(m.id) && TournamentService.isMatchForFixture(tournament, fixture, m))
+      .sort((a, b) => b.startTime - a.startTime);
+  };
+
+  const describeOutcome = (tournament: Tournament, fixture: Fixture): string => {
+    const outcome = TournamentService.getFixtureOutcome(tournament, fixture, matches);
+    const match = matches.find(m => m.id === fixture.matchId);
+    switch (outcome.status) {
+      case 'no_result':
+        return 'No result';
+      case 'pending':
+        return match ? 'In progress' : 'To be played';
+      default:
+        return match ? CricketEngine.getMatchResult(match) : '';
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-500">Loading tournaments...</p>;
+  }
+
+  const selected = tournaments.find(t => t.id === selectedId) || null;
+  const rounds = selected ? Array.from(new Set(selected.fixtures.map(f => f.round))).sort((a, b) => a - b) : [];
+  const table = selected ? TournamentService.getPointsTable(selected, matches) : [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {tournaments.map(tournament => (
+          <button
+            key={tournament.id}
+            onClick={() => setSelectedId(tournament.id)}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              tournament.id === selectedId
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {tournament.name}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="px-3 py-1 rounded-full text-sm font-medium bg-green-600 text-white hover:bg-green-700 transition-colors"
+        >
+          <Plus className="w-4 h-4 inline mr-1" />
+          New Tournament
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {showCreate && (
+        <form onSubmit={handleCreate} className="bg-gray-50 rounded-lg p-4 mb-6 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tournament Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder="Summer League"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Teams (one per line)</label>
+            <textarea
+              value={teamNames}
+              onChange={(e) => setTeamNames(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              placeholder={'Team A\nTeam B\nTeam C'}
+              rows={4}
+            />
+            <p className="text-xs text-gray-500 mt-1">Use the same team names when setting up the matches so they can be linked</p>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={doubleRoundRobin} onChange={(e) => setDoubleRoundRobin(e.target.checked)} />
+            <span>Each team plays the others twice</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={knockoutOnly} onChange={(e) => setKnockoutOnly(e.target.checked)} />
+            <span>Knockout only, no league matches</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={bonusPoint} onChange={(e) => setBonusPoint(e.target.checked)} />
+            <span>Bonus point for winning at {DEFAULT_POINTS_RULES.bonusRunRateRatio}× the opponent's run rate</span>
+          </label>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setShowCreate(false)} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
+              Create Tournament
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!selected ? (
+        !showCreate && (
+          <div className="text-center py-8">
+            <Trophy className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No tournaments in this group yet</p>
+          </div>
+        )
+      ) : (
+        <div>
+          {selected.fixtures.length > 0 && (
+            <>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Points Table</h2>
+              <div className="overflow-x-auto mb-8">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-3 py-3 text-left text-sm font-medium text-gray-500">Team</th>
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">P</th>
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">W</th>
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">L</th>
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">T</th>
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">NR</th>
+                      {selected.points.bonus > 0 && (
+                        <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">BP</th>
+                      )}
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">Pts</th>
+                      <th className="px-3 py-3 text-right text-sm font-medium text-gray-500">NRR</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {table.map((row, index) => (
+                      <tr key={row.team.id} className={index === 0 && row.played > 0 ? 'bg-yellow-50' : ''}>
+                        <td className="px-3 py-3 text-sm font-medium text-gray-900">{row.team.name}</td>
+                        <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.played}</td>
+                        <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.won}</td>
+                        <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.lost}</td>
+                        <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.tied}</td>
+                        <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.noResult}</td>
+                        {selected.points.bonus > 0 && (
+                          <td className="px-3 py-3 text-sm text-gray-500 text-right">{row.bonus}</td>
+                        )}
+                        <td className="px-3 py-3 text-sm text-gray-900 text-right font-bold">{row.points}</td>
+                        <td className="px-3 py-3 text-sm text-gray-500 text-right">{TournamentService.formatNetRunRate(row.netRunRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Fixtures</h2>
+              <div className="space-y-4">
+                {rounds.map(round => (
+                  <div key={round}>
+                    <h3 className="text-sm font-semibold text-gray-500 mb-2">Round {round}</h3>
+                    <div className="space-y-2">
+                      {selected.fixtures.filter(f => f.round === round).map(fixture => (
+                        <div key={fixture.id} className="p-3 bg-gray-50 rounded-lg">
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div>
+                              <div className="text-sm font-medium text-gray-900">
+                                {TournamentService.getTeam(selected, fixture.team1Id)?.name} v {TournamentService.getTeam(selected, fixture.team2Id)?.name}
+                              </div>
+                              <div className="text-xs text-gray-500">{describeOutcome(selected, fixture)}</div>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              <select
+                                value={fixture.matchId || ''}
+                                onChange={(e) => handleLinkMatch(selected, fixture, e.target.value)}
+                                disabled={fixture.noResult}
+                                className="px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                              >
+                                <option value="">No match linked</option>
+                                {getCandidateMatches(selected, fixture).map(match => (
+                                  <option key={match.id} value={match.id}>
+                                    {new Date(match.startTime).toLocaleDateString()} · {match.isCompleted ? CricketEngine.getMatchResult(match) : 'In progress'}
+                                  </option>
+                                ))}
+                              </select>
+                              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                                <input
+                                  type="checkbox"
+                                  checked={!!fixture.noResult}
+                                  onChange={(e) => handleNoResult(selected, fixture, e.target.checked)}
+                                />
+                                <span>No result</span>
+                              </label>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className={`flex items-center justify-between mb-4 ${selected.fixtures.length > 0 ? 'mt-8' : ''}`}>
+            <h2 className="text-xl font-semibold text-gray-900">Knockout</h2>
+            {!selected.knockout && !showKnockoutSetup && (
+              <button
+                onClick={() => setShowKnockoutSetup(true)}
+                className="px-3 py-1 rounded-lg text-sm bg-green-600 text-white hover:bg-green-700 transition-colors"
+              >
+                <Plus className="w-4 h-4 inline mr-1" />
+                Add Knockout Stage
+              </button>
+            )}
+          </div>
+          {selected.knockout ? (
+            <KnockoutBracketView
+              tournament={selected}
+              matches={matches}
+              onLinkMatch={(fixture, matchId) => handleLinkKnockoutMatch(selected, fixture, matchId)}
+              onExport={() => handleExportBracket(selected)}
+            />
+          ) : showKnockoutSetup ? (
+            <KnockoutSetupForm
+              key={selected.id}
+              tournament={selected}
+              matches={matches}
+              onCreate={(seeds, tieBreak, seededFromTable) => handleCreateKnockout(selected, seeds, tieBreak, seededFromTable)}
+              onCancel={() => setShowKnockoutSetup(false)}
+            />
+          ) : (
+            <p className="text-sm text-gray-500">No knockout stage yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Ball } from '../types/cricket';
+import { WagonWheel } from '../services/wagonWheel';
+
+interface WagonWheelChartProps {
+  balls: Ball[]; // Any deliveries; only scoring shots with a direction are drawn
+  size?: number;
+  title?: string;
+}
+
+// The field drawn behind wagon wheels and the shot direction picker
+export const FieldBackground: React.FC<{ radius: number }> = ({ radius }) => (
+  <>
+    <circle cx={0} cy={0} r={radius} fill="#dcfce7" stroke="#16a34a" strokeWidth={2} />
+    <circle cx={0} cy={0} r={radius * 0.55} fill="none" stroke="#86efac" strokeWidth={1} strokeDasharray="4 3" />
+    <rect x={-radius * 0.04} y={-radius * 0.18} width={radius * 0.08} height={radius * 0.36} fill="#fde68a" />
+    <text x={radius * 0.85} y={-radius * 0.85} fontSize={radius * 0.1} fill="#15803d" textAnchor="middle">Off</text>
+    <text x={-radius * 0.85} y={-radius * 0.85} fontSize={radius * 0.1} fill="#15803d" textAnchor="middle">Leg</text>
+  </>
+);
+
+export const WagonWheelChart: React.FC<WagonWheelChartProps> = ({ balls, size = 180, title }) => {
+  const shots = WagonWheel.getShots(balls);
+  const radius = size / 2 - 4;
+  const sides = WagonWheel.getSideRuns(shots);
+
+  return (
+    <div className="flex flex-col items-center">
+      {title && <div className="text-sm font-semibold text-gray-800 mb-1">{title}</div>}
+      <svg width={size} height={size} viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}>
+        <FieldBackground radius={radius} />
+        {shots.map(shot => {
+          const end = WagonWheel.getEndPoint(shot, radius);
+          return (
+            <line
+              key={shot.ballId}
+              x1={0}
+              y1={0}
+              x2={end.x}
+              y2={end.y}
+              stroke={WagonWheel.getColor(shot.runs)}
+              strokeWidth={shot.runs >= 4 ? 2 : 1.5}
+              strokeLinecap="round"
+            />
+          );
+        })}
+      </svg>
+      {shots.length > 0 ? (
+        <div className="text-xs text-gray-600 mt-1">
+          Off side {sides.off} • Leg side {sides.leg}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-400 mt-1">No shot directions recorded</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Match } from '../types/cricket';
+import { CricketEngine } from '../services/cricketEngine';
+import { WinProbability, WinModel } from '../services/winProbability';
+
+interface WinProbabilityChartProps {
+  match: Match;
+  model: WinModel;
+}
+
+const WIDTH = 320;
+const HEIGHT = 150;
+const PAD = { left: 30, right: 8, top: 10, bottom: 20 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+// Live split of the chances between the two sides
+export const WinProbabilityBar: React.FC<{ match: Match; model: WinModel }> = ({ match, model }) => {
+  const probability = WinProbability.getLiveProbability(match, model);
+  if (probability === null || match.isCompleted) return null;
+
+  const batting = Math.round(probability * 100);
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-3">
+      <div className="flex justify-between text-xs font-medium text-gray-700 mb-1">
+        <span>{match.battingTeam.name} {batting}%</span>
+        <span className="text-gray-400">Win probability</span>
+        <span>{100 - batting}% {match.bowlingTeam.name}</span>
+      </div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-orange-400">
+        <div className="bg-blue-500 transition-all duration-500" style={{ width: `${batting}%` }} />
+      </div>
+      {model.sampleSize < 3 && (
+        <div className="text-[10px] text-gray-400 mt-1">Based mostly on typical scores until the group has more matches</div>
+      )}
+    </div>
+  );
+};
+
+// How the chances of the side batting first moved ball by ball
+export const WinProbabilityChart: React.FC<WinProbabilityChartProps> = ({ match, model }) => {
+  const points = WinProbability.getTimeline(match, model);
+  if (points.length === 0) return null;
+
+  const ballsPerOver = CricketEngine.getBallsPerOver(match);
+  const firstInningsBalls = CricketEngine.getInningsOversLimit(match, 1) * ballsPerOver;
+  const totalBalls = firstInningsBalls + CricketEngine.getInningsOversLimit(match, 2) * ballsPerOver;
+  const battingFirst = CricketEngine.getInningsTeams(match, 1).battingTeam.name;
+  const battingSecond = CricketEngine.getInningsTeams(match, 2).battingTeam.name;
+
+  const x = (innings: 1 | 2, legalBalls: number) =>
+    PAD.left + ((innings === 1 ? legalBalls : firstInningsBalls + legalBalls) / totalBalls) * PLOT_WIDTH;
+  const y = (probability: number) => PAD.top + (1 - probability) * PLOT_HEIGHT;
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span className="text-blue-600 font-medium">▲ {battingFirst}</span>
+        <span>
+          {match.isCompleted ? 'Final' : 'Now'}: {battingFirst} {Math.round(last.probability * 100)}%
+        </span>
+        <span className="text-orange-600 font-medium">▼ {battingSecond}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <rect x={PAD.left} y={PAD.top} width={PLOT_WIDTH} height={PLOT_HEIGHT / 2} fill="#eff6ff" />
+        <rect x={PAD.left} y={PAD.top + PLOT_HEIGHT / 2} width={PLOT_WIDTH} height={PLOT_HEIGHT / 2} fill="#fff7ed" />
+        {[0, 0.5, 1].map(p => (
+          <text key={p} x={PAD.left - 4} y={y(p) + 3} fontSize={8} fill="#6b7280" textAnchor="end">
+            {Math.round(p * 100)}%
+          </text>
+        ))}
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0.5)} y2={y(0.5)} stroke="#9ca3af" strokeDasharray="3 3" />
+        <line x1={x(2, 0)} x2={x(2, 0)} y1={PAD.top} y2={PAD.top + PLOT_HEIGHT} stroke="#d1d5db" />
+        <text x={(PAD.left + x(2, 0)) / 2} y={HEIGHT - 6} fontSize={8} fill="#6b7280" textAnchor="middle">1st innings</text>
+        <text x={(x(2, 0) + WIDTH - PAD.right) / 2} y={HEIGHT - 6} fontSize={8} fill="#6b7280" textAnchor="middle">2nd innings</text>
+        <polyline
+          fill="none"
+          stroke="#4b5563"
+          strokeWidth={1.5}
+          points={points.map(p => `${x(p.innings, p.legalBalls)},${y(p.probability)}`).join(' ')}
+        />
+      </svg>
+      {model.sampleSize < 3 && (
+        <p className="text-xs text-gray-400 mt-1">
+          Calibrated on {model.sampleSize} group match{model.sampleSize === 1 ? '' : 'es'}; leaning on typical scores for now.
+        </p>
+      )}
+    </div>
+  );
+};
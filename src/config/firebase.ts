@@ -1,5 +1,5 @@
 import { initializeApp } from 'firebase/app';
-import { getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from 'firebase/firestore';
+import { Firestore, getFirestore, initializeFirestore, persistentLocalCache, persistentMultipleTabManager } from 'firebase/firestore';
 import { getAuth, GoogleAuthProvider } from 'firebase/auth';
 
 const firebaseConfig = {
@@ -18,7 +18,7 @@ const app = initializeApp(firebaseConfig, {
 });
 
 // Initialize Firestore with better error handling and offline support
-let db;
+let db: Firestore;
 
 try {
   db = initializeFirestore(app, {
@@ -64,7 +64,7 @@ try {
           set: async () => { console.log('📱 Offline mode: Data saved locally only'); }, 
           get: async () => ({ exists: false, data: () => null }) 
         })
-      };
+      } as unknown as Firestore;
     }
   }
 }
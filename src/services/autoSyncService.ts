@@ -2,7 +2,7 @@ import { storageService } from './storage';
 import { cloudStorageService } from './cloudStorageService';
 import { rigidGroupManager } from './rigidGroupManager';
 import { auth } from '../config/firebase';
-import { User, Group, Player, Match } from '../types/cricket';
+import { User, Group, Player, Match, Tournament, GroupTeam } from '../types/cricket';
 
 interface SyncStatus {
   isEnabled: boolean;
@@ -17,7 +17,7 @@ interface SyncStatus {
 interface SyncOperation {
   id: string;
   type: 'CREATE' | 'UPDATE' | 'DELETE';
-  entity: 'USER' | 'GROUP' | 'PLAYER' | 'MATCH';
+  entity: 'USER' | 'GROUP' | 'PLAYER' | 'MATCH' | 'TOURNAMENT' | 'GROUP_TEAM';
   data: any;
   timestamp: number;
   attempts: number;
@@ -197,6 +197,20 @@ class AutoSyncService {
     this.queueSyncOperation('UPDATE', 'MATCH', match);
   }
 
+  /**
+   * Auto-sync tournament changes
+   */
+  async autoSyncTournament(tournament: Tournament): Promise<void> {
+    this.queueSyncOperation('UPDATE', 'TOURNAMENT', tournament);
+  }
+
+  /**
+   * Auto-sync group team changes
+   */
+  async autoSyncGroupTeam(team: GroupTeam): Promise<void> {
+    this.queueSyncOperation('UPDATE', 'GROUP_TEAM', team);
+  }
+
   /**
    * Auto-sync group deletion
    */
@@ -338,6 +352,18 @@ class AutoSyncService {
         }
         break;
 
+      case 'TOURNAMENT':
+        if (type === 'UPDATE') {
+          await cloudStorageService.saveTournament(data);
+        }
+        break;
+
+      case 'GROUP_TEAM':
+        if (type === 'UPDATE') {
+          await cloudStorageService.saveGroupTeam(data);
+        }
+        break;
+
       default:
         throw new Error(`Unknown entity type: ${entity}`);
     }
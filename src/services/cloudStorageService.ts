@@ -18,7 +18,7 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { User as AuthUser } from 'firebase/auth';
-import { User, Group, Match, Player, Invitation } from '../types/cricket';
+import { User, Group, Match, Player, Invitation, Tournament, GroupTeam } from '../types/cricket';
 
 // Quota error handling utilities for CloudStorageService
 const clearFirebaseCache = (): void => {
@@ -107,7 +107,9 @@ const COLLECTIONS = {
   MATCHES: 'matches',
   PLAYERS: 'players',
   INVITATIONS: 'invitations',
-  USER_PROFILES: 'user_profiles'
+  USER_PROFILES: 'user_profiles',
+  TOURNAMENTS: 'tournaments',
+  GROUP_TEAMS: 'group_teams'
 } as const;
 
 class CloudStorageService {
@@ -527,6 +529,73 @@ class CloudStorageService {
     }
   }
 
+  // Tournament Management
+  async saveTournament(tournament: Tournament): Promise<void> {
+    return withQuotaErrorHandling(async () => {
+      const tournamentRef = doc(db, COLLECTIONS.TOURNAMENTS, tournament.id);
+
+      await setDoc(tournamentRef, {
+        ...tournament,
+        createdBy: tournament.createdBy || this.getCurrentUserId(),
+        lastUpdated: serverTimestamp()
+      }, { merge: true });
+      console.log('✅ Tournament saved to cloud:', tournament.name);
+    }, 'saveTournament');
+  }
+
+  // Not kept in the offline cache: group matches are looked up there by groupId
+  async getGroupTournaments(groupId: string): Promise<Tournament[]> {
+    try {
+      if (!this.isOnline) return [];
+
+      const tournamentsQuery = query(
+        collection(db, COLLECTIONS.TOURNAMENTS),
+        where('groupId', '==', groupId)
+      );
+      const tournamentsSnapshot = await getDocs(tournamentsQuery);
+      const tournaments = tournamentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Tournament);
+
+      console.log('✅ Loaded group tournaments from cloud:', tournaments.length);
+      return tournaments;
+    } catch (error) {
+      console.error('❌ Failed to get group tournaments:', error);
+      return [];
+    }
+  }
+
+  // Group Team Management
+  async saveGroupTeam(team: GroupTeam): Promise<void> {
+    return withQuotaErrorHandling(async () => {
+      const teamRef = doc(db, COLLECTIONS.GROUP_TEAMS, team.id);
+
+      await setDoc(teamRef, {
+        ...team,
+        createdBy: team.createdBy || this.getCurrentUserId(),
+        lastUpdated: serverTimestamp()
+      }, { merge: true });
+      console.log('✅ Group team saved to cloud:', team.name);
+    }, 'saveGroupTeam');
+  }
+
+  async getGroupTeams(groupId: string): Promise<GroupTeam[]> {
+    try {
+      if (!this.isOnline) return [];
+
+      const teamsQuery = query(
+        collection(db, COLLECTIONS.GROUP_TEAMS),
+        where('groupId', '==', groupId)
+      );
+      const teamsSnapshot = await getDocs(teamsQuery);
+      const teams = teamsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as GroupTeam);
+
+      console.log('✅ Loaded group teams from cloud:', teams.length);
+      return teams;
+    } catch (error) {
+      console.error('❌ Failed to get group teams:', error);
+      return [];
+    }
+  }
+
   // Real-time subscriptions
   subscribeToUserGroups(callback: (groups: Group[]) => void): () => void {
     const userId = this.getCurrentUserId();
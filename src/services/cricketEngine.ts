@@ -1,50 +1,681 @@
-import { Match, Player, Ball, Team, WicketType, PlayerStats, PlayerPerformance } from '../types/cricket';
+import { Match, Player, Ball, Team, WicketType, PlayerStats, PlayerPerformance, SuperOverInnings, Retirement, RetirementType, PenaltyAward, InningsRecord } from '../types/cricket';
+import { DLSCalculator } from './dlsCalculator';
+
+export const DEFAULT_PLAYERS_PER_TEAM = 11;
+export const DEFAULT_BALLS_PER_OVER = 6;
+export const SUPER_OVER_MAX_WICKETS = 2;
+export const DEFAULT_WIDE_RUNS = 1;
+export const DEFAULT_NO_BALL_RUNS = 1;
+export const PENALTY_RUNS = 5;
+// The only way to be out on a free hit that this scorer records
+export const FREE_HIT_DISMISSALS: WicketType[] = ['run_out'];
+export const DEFAULT_FOLLOW_ON_MARGIN = 100; // Two-day matches
+
+// A player's batting and bowling in one innings
+interface PlayerInningsFigures {
+  runsScored: number;
+  ballsFaced: number;
+  fours: number;
+  sixes: number;
+  dotBalls: number; // Faced
+  gotOut: boolean;
+  wicketsTaken: number;
+  runsConceded: number;
+  ballsBowled: number;
+  bowlingDotBalls: number;
+  maidenOvers: number;
+}
 
 export class CricketEngine {
+  static getBallsPerOver(match: Match): number {
+    return match.ballsPerOver || DEFAULT_BALLS_PER_OVER;
+  }
+
+  // Legal deliveries faced by a team so far
+  static getLegalBalls(team: Team, match: Match): number {
+    return team.overs * this.getBallsPerOver(match) + team.balls;
+  }
+
+  // Over notation, e.g. 13 balls -> "2.1" with 6-ball overs or "2.3" with 5-ball overs
+  static formatOvers(legalBalls: number, ballsPerOver: number = DEFAULT_BALLS_PER_OVER): string {
+    return `${Math.floor(legalBalls / ballsPerOver)}.${legalBalls % ballsPerOver}`;
+  }
+
+  // Runs per over of the match's over length
+  static calculateRunRate(runs: number, legalBalls: number, ballsPerOver: number = DEFAULT_BALLS_PER_OVER): string {
+    if (legalBalls === 0) return '0.00';
+    return ((runs / legalBalls) * ballsPerOver).toFixed(2);
+  }
+
+  static getWideRuns(match: Match): number {
+    return match.wideRuns ?? DEFAULT_WIDE_RUNS;
+  }
+
+  static getNoBallRuns(match: Match): number {
+    return match.noBallRuns ?? DEFAULT_NO_BALL_RUNS;
+  }
+
+  // Runs credited to the striker. Older no-balls have no batRuns and credit nothing.
+  static getBatRuns(ball: Ball): number {
+    if (ball.isWide || ball.isBye || ball.isLegBye) return 0;
+    if (ball.isNoBall) return ball.batRuns || 0;
+    return ball.runs;
+  }
+
+  // Runs charged to the bowler - everything except byes and leg byes
+  static getBowlerRuns(ball: Ball): number {
+    return ball.isBye || ball.isLegBye ? 0 : ball.runs;
+  }
+
+  // A no-ball counts as a ball faced; a wide does not
+  static isBallFaced(ball: Ball): boolean {
+    return !ball.isWide;
+  }
+
+  // Runs the batters actually ran (or hit) on a wide or no-ball, without the penalty
+  static getRunsTaken(ball: Ball, match: Match): number {
+    if (ball.isNoBall) return ball.batRuns ?? Math.max(0, ball.runs - this.getNoBallRuns(match));
+    if (ball.isWide) return Math.max(0, ball.runs - this.getWideRuns(match));
+    return ball.runs;
+  }
+
+  // Extras conceded on a delivery, by type
+  static addExtras(team: Team, ball: Ball, sign: 1 | -1 = 1): void {
+    if (ball.isWide) {
+      team.extras.wides += sign * ball.runs;
+    } else if (ball.isNoBall) {
+      team.extras.noBalls += sign * (ball.runs - this.getBatRuns(ball));
+    } else if (ball.isBye) {
+      team.extras.byes += sign * ball.runs;
+    } else if (ball.isLegBye) {
+      team.extras.legByes += sign * ball.runs;
+    }
+  }
+
+  static getTotalExtras(team: Team): number {
+    const { byes, legByes, wides, noBalls, penalties } = team.extras;
+    return byes + legByes + wides + noBalls + (penalties || 0);
+  }
+
+  // Award penalty runs to either side. Runs to the fielding side count towards
+  // their own innings - the one already batted, or the next one if they have not batted yet.
+  static createPenaltyAward(match: Match, team: Team, reason?: string): PenaltyAward {
+    return {
+      id: `penalty_${Date.now()}`,
+      teamName: team.name,
+      runs: PENALTY_RUNS,
+      innings: this.getCurrentInningsNumber(match),
+      toFieldingSide: team === match.bowlingTeam || undefined,
+      reason: reason || undefined,
+      timestamp: Date.now()
+    };
+  }
+
+  static addPenaltyAward(match: Match, award: PenaltyAward): Match {
+    const updatedMatch = this.copyForUpdate(match);
+    updatedMatch.penaltyAwards = [...(updatedMatch.penaltyAwards || []), award];
+    this.applyPenalty(updatedMatch, award.toFieldingSide ? updatedMatch.bowlingTeam : updatedMatch.battingTeam, award.runs);
+    return updatedMatch;
+  }
+
+  static removePenaltyAward(match: Match, awardId: string): Match {
+    const award = (match.penaltyAwards || []).find(a => a.id === awardId);
+    if (!award) return match;
+
+    const updatedMatch = this.copyForUpdate(match);
+    updatedMatch.penaltyAwards = (updatedMatch.penaltyAwards || []).filter(a => a.id !== awardId);
+    const team = updatedMatch.battingTeam.name === award.teamName ? updatedMatch.battingTeam : updatedMatch.bowlingTeam;
+    this.applyPenalty(updatedMatch, team, -award.runs);
+    return updatedMatch;
+  }
+
+  private static applyPenalty(match: Match, team: Team, runs: number): void {
+    if (this.isMultiInnings(match) && team === match.bowlingTeam) {
+      // Carried into the fielding side's next innings, or added to its last one if it has batted out
+      if (this.hasInningsToCome(match, team.name)) return;
+      const last = [...(match.completedInnings || [])].reverse().find(r => r.battingTeam === team.name);
+      match.completedInnings = (match.completedInnings || []).map(record => record !== last ? record : {
+        ...record,
+        score: record.score + runs,
+        extras: { ...record.extras, penalties: (record.extras.penalties || 0) + runs }
+      });
+      return;
+    }
+
+    team.score += runs;
+    team.extras.penalties = (team.extras.penalties || 0) + runs;
+    // The side that batted first has its total, and so the target, changed
+    if (match.isSecondInnings && team === match.bowlingTeam && match.firstInningsScore !== undefined) {
+      match.firstInningsScore += runs;
+    }
+  }
+
+  // Penalty runs a side was awarded while fielding since it last batted
+  static getCarriedPenalties(match: Match, teamName: string): number {
+    const current = this.getCurrentInningsNumber(match);
+    let lastBatted = 0;
+    for (let innings = 1; innings <= current; innings++) {
+      if (this.getInningsTeams(match, innings).battingTeam.name === teamName) lastBatted = innings;
+    }
+    return (match.penaltyAwards || [])
+      .filter(a => a.teamName === teamName && a.toFieldingSide && a.innings > lastBatted)
+      .reduce((sum, a) => sum + a.runs, 0);
+  }
+
+  static getInningsPerSide(match: Match): number {
+    return match.inningsPerSide || 1;
+  }
+
+  static isMultiInnings(match: Match): boolean {
+    return this.getInningsPerSide(match) > 1;
+  }
+
+  static getTotalInnings(match: Match): number {
+    return this.getInningsPerSide(match) * 2;
+  }
+
+  // Innings in progress. Older matches never moved currentInnings past 1.
+  static getCurrentInningsNumber(match: Match): number {
+    if (!match.isSecondInnings) return 1;
+    return Math.max(match.currentInnings || 2, 2);
+  }
+
+  static isFinalInnings(match: Match): boolean {
+    return this.getCurrentInningsNumber(match) >= this.getTotalInnings(match);
+  }
+
+  static formatInnings(innings: number): string {
+    return ['1st', '2nd', '3rd', '4th'][innings - 1] || `${innings}th`;
+  }
+
+  private static getTeamByName(match: Match, name: string): Team {
+    return match.team2.name === name ? match.team2 : match.team1;
+  }
+
+  // Batting and bowling sides for an innings. Finished innings of a two-innings
+  // match come from their records; the innings in progress uses the live teams.
+  static getInningsTeams(match: Match, innings: number): { battingTeam: Team; bowlingTeam: Team } {
+    if (this.isMultiInnings(match)) {
+      const record = (match.completedInnings || []).find(r => r.innings === innings);
+      if (record) {
+        return {
+          battingTeam: {
+            ...this.getTeamByName(match, record.battingTeam),
+            score: record.score,
+            wickets: record.wickets,
+            overs: record.overs,
+            balls: record.balls,
+            extras: record.extras,
+            fallOfWickets: record.fallOfWickets
+          },
+          bowlingTeam: this.getTeamByName(match, record.bowlingTeam)
+        };
+      }
+      if (innings === this.getCurrentInningsNumber(match)) {
+        return { battingTeam: match.battingTeam, bowlingTeam: match.bowlingTeam };
+      }
+    }
+
+    // One innings each: work out who batted first from the toss
+    const { battingTeam: firstInningsBattingTeam, bowlingTeam: firstInningsBowlingTeam } = this.getTossBattingOrder(match);
+
+    return innings % 2 === 1
+      ? { battingTeam: firstInningsBattingTeam, bowlingTeam: firstInningsBowlingTeam }
+      : { battingTeam: firstInningsBowlingTeam, bowlingTeam: firstInningsBattingTeam };
+  }
+
+  // Sides for the first innings, as decided at the toss
+  static getTossBattingOrder(match: Match): { battingTeam: Team; bowlingTeam: Team } {
+    const tossWinnerBattedFirst = match.tossDecision === 'bat';
+    const team1WonToss = match.tossWinner === match.team1.name;
+    const team1BattedFirst = team1WonToss === tossWinnerBattedFirst;
+    return team1BattedFirst
+      ? { battingTeam: match.team1, bowlingTeam: match.team2 }
+      : { battingTeam: match.team2, bowlingTeam: match.team1 };
+  }
+
+  // Which innings a ball was bowled in, for balls saved without one
+  static getBallInnings(ball: Ball, match: Match): number {
+    if (ball.innings) return ball.innings;
+
+    const { battingTeam: firstInningsBattingTeam } = this.getInningsTeams(match, 1);
+    if (ball.battingTeamId) {
+      return ball.battingTeamId === firstInningsBattingTeam.name ? 1 : 2;
+    }
+    return firstInningsBattingTeam.players.some(p => p.id === ball.striker.id) ? 1 : 2;
+  }
+
+  // Total runs a side has scored across all its innings so far
+  static getSideTotal(match: Match, teamName: string): number {
+    let total = 0;
+    for (let innings = 1; innings <= this.getCurrentInningsNumber(match); innings++) {
+      const { battingTeam } = this.getInningsTeams(match, innings);
+      if (battingTeam.name === teamName) total += battingTeam.score;
+    }
+    return total;
+  }
+
+  static getInningsBattedCount(match: Match, teamName: string): number {
+    let count = 0;
+    for (let innings = 1; innings <= this.getCurrentInningsNumber(match); innings++) {
+      if (this.getInningsTeams(match, innings).battingTeam.name === teamName) count++;
+    }
+    return count;
+  }
+
+  static hasInningsToCome(match: Match, teamName: string): boolean {
+    return this.getInningsBattedCount(match, teamName) < this.getInningsPerSide(match);
+  }
+
+  // Runs the batting side is ahead by across all innings (negative when behind)
+  static getLead(match: Match): number {
+    return this.getSideTotal(match, match.battingTeam.name) - this.getSideTotal(match, match.bowlingTeam.name);
+  }
+
+  static getFollowOnMargin(match: Match): number {
+    return match.followOnMargin ?? DEFAULT_FOLLOW_ON_MARGIN;
+  }
+
+  // At the end of the second innings, the side that batted first may make the other side bat again
+  static canEnforceFollowOn(match: Match): boolean {
+    return this.isMultiInnings(match) &&
+      this.getCurrentInningsNumber(match) === 2 &&
+      -this.getLead(match) >= this.getFollowOnMargin(match);
+  }
+
+  // The side batting third is out and still behind: the other side never needs to bat again
+  static isWonByInnings(match: Match): boolean {
+    return this.isMultiInnings(match) &&
+      !match.isDrawn &&
+      this.getCurrentInningsNumber(match) === 3 &&
+      this.getLead(match) < 0;
+  }
+
+  // Target in the last innings of a two-innings match
+  private static getFourthInningsTarget(match: Match): number {
+    const previous = this.getSideTotal(match, match.battingTeam.name) - match.battingTeam.score;
+    return this.getSideTotal(match, match.bowlingTeam.name) - previous + 1;
+  }
+
+  static isDeclared(match: Match, innings: number): boolean {
+    return (match.declaredInnings || []).includes(innings);
+  }
+
+  // A copy of the match whose sides and ball logs can be changed without
+  // touching the match passed in. Sides shared between the match's fields
+  // (the batting side and team1, say) stay shared in the copy.
+  private static copyForUpdate(match: Match): Match {
+    const copies = new Map<Team, Team>();
+    const copyOf = (team: Team): Team => {
+      if (!copies.has(team)) {
+        copies.set(team, {
+          ...team,
+          players: [...team.players],
+          extras: { ...team.extras },
+          fallOfWickets: team.fallOfWickets && [...team.fallOfWickets]
+        });
+      }
+      return copies.get(team)!;
+    };
+
+    return {
+      ...match,
+      team1: copyOf(match.team1),
+      team2: copyOf(match.team2),
+      battingTeam: copyOf(match.battingTeam),
+      bowlingTeam: copyOf(match.bowlingTeam),
+      balls: [...match.balls],
+      superOvers: match.superOvers?.map(superOver => ({
+        ...superOver,
+        battingTeam: copyOf(superOver.battingTeam),
+        bowlingTeam: copyOf(superOver.bowlingTeam),
+        balls: [...superOver.balls]
+      }))
+    };
+  }
+
+  private static createInningsRecord(match: Match, innings: number): InningsRecord {
+    const team = match.battingTeam;
+    return {
+      innings,
+      battingTeam: team.name,
+      bowlingTeam: match.bowlingTeam.name,
+      score: team.score,
+      wickets: team.wickets,
+      overs: team.overs,
+      balls: team.balls,
+      extras: { ...team.extras },
+      fallOfWickets: [...(team.fallOfWickets || [])]
+    };
+  }
+
+  // Close the innings in progress and set up the next one. The sides swap
+  // unless the follow-on is enforced, when the same side bats again.
+  static startNextInnings(match: Match, enforceFollowOn: boolean = false): Match {
+    const updatedMatch = this.copyForUpdate(match);
+    const innings = this.getCurrentInningsNumber(match);
+    updatedMatch.completedInnings = [...(match.completedInnings || []), this.createInningsRecord(match, innings)];
+    updatedMatch.isSecondInnings = true;
+    updatedMatch.currentInnings = (innings + 1) as Match['currentInnings'];
+
+    if (enforceFollowOn) {
+      updatedMatch.followOnEnforced = true;
+    } else {
+      [updatedMatch.battingTeam, updatedMatch.bowlingTeam] = [updatedMatch.bowlingTeam, updatedMatch.battingTeam];
+    }
+    if (innings === 1) {
+      updatedMatch.firstInningsScore = match.battingTeam.score;
+    }
+
+    // Reset batting team stats - penalty runs they were awarded while fielding carry over
+    const carriedPenalties = this.getCarriedPenalties(match, updatedMatch.battingTeam.name);
+    updatedMatch.battingTeam.score = carriedPenalties;
+    updatedMatch.battingTeam.overs = 0;
+    updatedMatch.battingTeam.balls = 0;
+    updatedMatch.battingTeam.wickets = 0;
+    updatedMatch.battingTeam.extras = { wides: 0, noBalls: 0, byes: 0, legByes: 0, penalties: carriedPenalties };
+    updatedMatch.battingTeam.fallOfWickets = [];
+
+    // Clear current players for new selection
+    updatedMatch.currentStriker = undefined;
+    updatedMatch.currentNonStriker = undefined;
+    updatedMatch.currentBowler = undefined;
+    return updatedMatch;
+  }
+
+  static getPlayersPerTeam(match: Match): number {
+    return match.playersPerTeam || DEFAULT_PLAYERS_PER_TEAM;
+  }
+
+  // Wickets that end an innings - one fewer than the team size unless the last man can bat alone
+  static getMaxWickets(match: Match): number {
+    const playersPerTeam = this.getPlayersPerTeam(match);
+    return match.lastManStands ? playersPerTeam : playersPerTeam - 1;
+  }
+
+  // Last man stands: only one batter left, batting without a partner
+  static isLastManBatting(match: Match): boolean {
+    return !!match.lastManStands && match.battingTeam.wickets === this.getPlayersPerTeam(match) - 1;
+  }
+
+  // Super Over innings currently being batted, if any
+  static getCurrentSuperOver(match: Match): SuperOverInnings | undefined {
+    if (!match.isSuperOver || !match.superOvers?.length) return undefined;
+    return match.superOvers[match.superOvers.length - 1];
+  }
+
+  // 1 or 2 - which side of the current Super Over is batting
+  static getSuperOverInningsNumber(match: Match): number {
+    return (match.superOvers?.length || 0) % 2 === 1 ? 1 : 2;
+  }
+
+  // Balls of the innings being scored right now
+  static getCurrentInningsBalls(match: Match): Ball[] {
+    const superOver = this.getCurrentSuperOver(match);
+    if (superOver) return superOver.balls;
+    const innings = this.getCurrentInningsNumber(match);
+    return match.balls.filter(b => (b.innings || 1) === innings);
+  }
+
+  // The next delivery is a free hit after a no-ball, and stays one through any
+  // wides or further no-balls until a legal ball is bowled
+  static isFreeHitDue(match: Match): boolean {
+    if (!match.freeHits) return false;
+    const balls = this.getCurrentInningsBalls(match);
+    for (let i = balls.length - 1; i >= 0; i--) {
+      if (balls[i].isNoBall) return true;
+      if (!balls[i].isWide) return false;
+    }
+    return false;
+  }
+
+  static isDismissalAllowed(match: Match, type: WicketType): boolean {
+    return !this.isFreeHitDue(match) || FREE_HIT_DISMISSALS.includes(type);
+  }
+
+  // The next delivery from the players at the crease, ready to be scored
+  static createBall(match: Match, fields: Partial<Ball> = {}): Ball {
+    const ball: Ball = {
+      id: `ball_${Date.now()}_${Math.random()}`,
+      ballNumber: this.getLegalBalls(match.battingTeam, match) + 1,
+      overNumber: match.battingTeam.overs + 1,
+      bowler: match.currentBowler!,
+      striker: match.currentStriker!,
+      // A last man batting alone is recorded as their own partner
+      nonStriker: match.currentNonStriker || match.currentStriker!,
+      runs: 0,
+      isWide: false,
+      isNoBall: false,
+      isBye: false,
+      isLegBye: false,
+      isWicket: false,
+      isFreeHit: this.isFreeHitDue(match) || undefined,
+      innings: match.isSuperOver ? this.getSuperOverInningsNumber(match) : this.getCurrentInningsNumber(match),
+      battingTeamId: match.battingTeam.name,
+      commentary: '',
+      timestamp: Date.now(),
+      ...fields
+    };
+    if (ball.isWicket && !ball.dismissedPlayer) {
+      ball.dismissedPlayer = ball.striker;
+    }
+    ball.commentary = this.getCommentary(ball, match);
+    return ball;
+  }
+
+  // Ball-by-ball commentary line, flagging free hits
+  static getCommentary(ball: Ball, match: Match): string {
+    const commentary = this.describeBall(ball);
+    if (ball.isFreeHit) return `Free hit: ${commentary}`;
+    if (ball.isNoBall && match.freeHits) return `${commentary} - free hit to follow`;
+    return commentary;
+  }
+
+  private static describeBall(ball: Ball): string {
+    const runs = ball.runs;
+    if (ball.isWicket) {
+      const dismissed = this.getDismissedPlayer(ball);
+      return `${dismissed?.name} ${ball.wicketType}${ball.fielder ? ` by ${ball.fielder.name}` : ''} for ${runs}`;
+    }
+    if (ball.isWide) return `Wide, ${runs} run${runs !== 1 ? 's' : ''}`;
+    if (ball.isNoBall) {
+      return ball.batRuns ? `No ball, ${ball.batRuns} off the bat (${runs} total)` : `No ball, ${runs} run${runs !== 1 ? 's' : ''}`;
+    }
+    if (ball.isBye) return `${runs} bye${runs !== 1 ? 's' : ''}`;
+    if (ball.isLegBye) return `${runs} leg bye${runs !== 1 ? 's' : ''}`;
+
+    switch (runs) {
+      case 0: return 'Dot ball';
+      case 1: return 'Single';
+      case 2: return 'Two runs';
+      case 3: return 'Three runs';
+      case 4: return 'Four!';
+      case 6: return 'Six!';
+      default: return `${runs} runs`;
+    }
+  }
+
+  // Overs available to the batting side - a Super Over is a single over
+  static getInningsOvers(match: Match): number {
+    if (match.isSuperOver) return 1;
+    if (this.isMultiInnings(match)) return match.totalOvers;
+    return this.getInningsOversLimit(match, match.isSecondInnings ? 2 : 1);
+  }
+
+  // Overs allotted to an innings after any interruptions. The second innings
+  // gets the same overs as the first unless it was cut separately.
+  static getInningsOversLimit(match: Match, innings: 1 | 2): number {
+    const cuts = (match.interruptions || []).filter(i => i.innings === innings);
+    if (cuts.length > 0) return cuts[cuts.length - 1].oversAfter;
+    return innings === 1 ? match.totalOvers : this.getInningsOversLimit(match, 1);
+  }
+
+  static hasInterruptions(match: Match): boolean {
+    return (match.interruptions || []).length > 0;
+  }
+
+  // Resources (%) an innings had: its starting overs, less whatever each stoppage took away
+  static getInningsResources(match: Match, innings: 1 | 2): number {
+    const ballsPerOver = this.getBallsPerOver(match);
+    const maxWickets = this.getMaxWickets(match);
+    const startingOvers = innings === 1 ? match.totalOvers : this.getInningsOversLimit(match, 1);
+
+    return (match.interruptions || [])
+      .filter(i => i.innings === innings)
+      .reduce((resources, cut) => {
+        const oversBowled = cut.legalBalls / ballsPerOver;
+        const lost = DLSCalculator.getResources(cut.oversBefore - oversBowled, cut.wickets, maxWickets) -
+          DLSCalculator.getResources(cut.oversAfter - oversBowled, cut.wickets, maxWickets);
+        return resources - lost;
+      }, DLSCalculator.getResources(startingOvers, 0, maxWickets));
+  }
+
+  // Target for the side batting second, revised by resources when play was lost
+  static getRevisedTarget(match: Match, firstInningsScore: number): number {
+    if (!this.hasInterruptions(match)) return firstInningsScore + 1;
+    return DLSCalculator.getParScore(
+      firstInningsScore,
+      this.getInningsResources(match, 1),
+      this.getInningsResources(match, 2)
+    ) + 1;
+  }
+
+  // Score the chasing side should have after legalBalls with wickets down, or
+  // null when no play has been lost
+  static getParScoreAt(match: Match, firstInningsScore: number, legalBalls: number, wickets: number): number | null {
+    if (!this.hasInterruptions(match)) return null;
+    const remaining = DLSCalculator.getResources(
+      this.getInningsOversLimit(match, 2) - legalBalls / this.getBallsPerOver(match),
+      wickets,
+      this.getMaxWickets(match)
+    );
+    return DLSCalculator.getParScore(
+      firstInningsScore,
+      this.getInningsResources(match, 1),
+      this.getInningsResources(match, 2) - remaining
+    );
+  }
+
+  // Par score for the chase as it stands
+  static getParScore(match: Match): number | null {
+    if (match.isSuperOver || !match.isSecondInnings || this.isMultiInnings(match)) return null;
+    return this.getParScoreAt(
+      match,
+      match.firstInningsScore || 0,
+      this.getLegalBalls(match.battingTeam, match),
+      match.battingTeam.wickets
+    );
+  }
+
+  // Runs the batting side needs to win, or null when batting first
+  static getTarget(match: Match): number | null {
+    if (match.isSuperOver) {
+      if (this.getSuperOverInningsNumber(match) === 1) return null;
+      const superOvers = match.superOvers!;
+      return superOvers[superOvers.length - 2].battingTeam.score + 1;
+    }
+    if (this.isMultiInnings(match)) {
+      return this.isFinalInnings(match) ? this.getFourthInningsTarget(match) : null;
+    }
+    return match.isSecondInnings ? this.getRevisedTarget(match, match.firstInningsScore || 0) : null;
+  }
+
+  // Scores level once the chasing side's innings is over
+  static isTied(match: Match): boolean {
+    const target = this.getTarget(match);
+    return target !== null && match.battingTeam.score === target - 1;
+  }
+
+  private static createSuperOverTeam(team: Team): Team {
+    return {
+      name: team.name,
+      players: [...team.players],
+      score: 0,
+      wickets: 0,
+      overs: 0,
+      balls: 0,
+      extras: { wides: 0, noBalls: 0, byes: 0, legByes: 0 },
+      fallOfWickets: []
+    };
+  }
+
+  // Start the next Super Over innings. The side that batted last in the tied
+  // match (or Super Over) bats first; the sides then swap for the reply.
+  static startSuperOverInnings(match: Match): Match {
+    const updatedMatch = { ...match };
+    const superOvers = [...(match.superOvers || [])];
+    const previous = this.getCurrentSuperOver(match);
+    const isReply = !!previous && this.getSuperOverInningsNumber(match) === 1;
+
+    const battingTeam = this.createSuperOverTeam(isReply ? previous!.bowlingTeam : match.battingTeam);
+    const bowlingTeam = this.createSuperOverTeam(isReply ? previous!.battingTeam : match.bowlingTeam);
+    superOvers.push({ battingTeam, bowlingTeam, balls: [] });
+
+    updatedMatch.superOvers = superOvers;
+    updatedMatch.isSuperOver = true;
+    updatedMatch.battingTeam = battingTeam;
+    updatedMatch.bowlingTeam = bowlingTeam;
+    updatedMatch.currentStriker = undefined;
+    updatedMatch.currentNonStriker = undefined;
+    updatedMatch.currentBowler = undefined;
+    updatedMatch.previousBowler = undefined;
+    return updatedMatch;
+  }
+
   // STRICT match format enforcement - EXACTLY n overs, no more, no less
   static isInningsComplete(match: Match): boolean {
     const battingTeam = match.battingTeam;
+
+    if (match.isSuperOver) {
+      const superOverTarget = this.getTarget(match);
+      return battingTeam.overs >= 1 ||
+        battingTeam.wickets >= Math.min(SUPER_OVER_MAX_WICKETS, this.getMaxWickets(match)) ||
+        (superOverTarget !== null && battingTeam.score >= superOverTarget);
+    }
     
+    const inningsOvers = this.getInningsOvers(match);
     console.log(`🏏 CHECKING INNINGS COMPLETION:`);
-    console.log(`Current: ${battingTeam.overs}.${battingTeam.balls} / ${match.totalOvers} overs`);
-    console.log(`Wickets: ${battingTeam.wickets}/10`);
+    console.log(`Current: ${battingTeam.overs}.${battingTeam.balls} / ${inningsOvers} overs`);
+    const maxWickets = this.getMaxWickets(match);
+    console.log(`Wickets: ${battingTeam.wickets}/${maxWickets}`);
     
     // CRITICAL: EXACTLY the specified number of overs must be completed
-    if (battingTeam.overs >= match.totalOvers) {
-      console.log(`✅ INNINGS COMPLETE: All ${match.totalOvers} overs bowled`);
+    if (battingTeam.overs >= inningsOvers) {
+      console.log(`✅ INNINGS COMPLETE: All ${inningsOvers} overs bowled`);
       return true;
     }
     
-    // All wickets lost (10 wickets max)
-    if (battingTeam.wickets >= 10) {
+    // All wickets lost (team size decides how many)
+    if (battingTeam.wickets >= maxWickets) {
       console.log(`✅ INNINGS COMPLETE: All wickets lost`);
       return true;
     }
     
     // Target reached in second innings
-    if (match.isSecondInnings && match.firstInningsScore && 
-        battingTeam.score > match.firstInningsScore) {
+    const target = this.getTarget(match);
+    if (target !== null && battingTeam.score >= target) {
       console.log(`✅ INNINGS COMPLETE: Target reached`);
       return true;
     }
     
-    console.log(`⏳ INNINGS CONTINUES: ${match.totalOvers - battingTeam.overs} overs remaining`);
+    console.log(`⏳ INNINGS CONTINUES: ${inningsOvers - battingTeam.overs} overs remaining`);
     return false;
   }
 
-  // STRICT over completion - EXACTLY 6 valid balls
+  // STRICT over completion - EXACTLY the format's number of valid balls
   static isOverComplete(match: Match): boolean {
     const currentOver = match.battingTeam.overs + 1;
-    const validBalls = match.balls.filter(b => 
+    const validBalls = this.getCurrentInningsBalls(match).filter(b => 
       b.overNumber === currentOver && 
       !b.isWide && 
       !b.isNoBall
     );
     
-    const isComplete = validBalls.length >= 6;
+    const ballsPerOver = this.getBallsPerOver(match);
+    const isComplete = validBalls.length >= ballsPerOver;
     
     if (isComplete) {
-      console.log(`🏏 OVER ${currentOver} COMPLETED: 6 valid balls bowled`);
+      console.log(`🏏 OVER ${currentOver} COMPLETED: ${ballsPerOver} valid balls bowled`);
     }
     
     return isComplete;
@@ -65,11 +696,38 @@ export class CricketEngine {
   }
 
   // ABSOLUTE STRICT bowler validation - ZERO tolerance for consecutive overs
+  // Overs one bowler may bowl in the current innings, 0 for no limit
+  static getMaxOversPerBowler(match: Match): number {
+    if (match.isSuperOver) return 0;
+    return match.maxOverPerBowler || 0;
+  }
+
+  // Legal deliveries a bowler has sent down in the current innings
+  static getBowlerLegalBalls(match: Match, bowlerId: string): number {
+    return this.getCurrentInningsBalls(match)
+      .filter(b => b.bowler?.id === bowlerId && !b.isWide && !b.isNoBall)
+      .length;
+  }
+
+  // Overs a bowler has left under the limit, or null when there is none. An
+  // unfinished over counts as a full one against the bowler's allowance.
+  static getBowlerOversRemaining(match: Match, bowlerId: string): number | null {
+    const limit = this.getMaxOversPerBowler(match);
+    if (!limit) return null;
+    const oversUsed = Math.ceil(this.getBowlerLegalBalls(match, bowlerId) / this.getBallsPerOver(match));
+    return Math.max(0, limit - oversUsed);
+  }
+
+  static hasBowlerReachedLimit(match: Match, bowlerId: string): boolean {
+    return this.getBowlerOversRemaining(match, bowlerId) === 0;
+  }
+
   static canBowlerBowlNextOver(bowler: Player, match: Match): boolean {
     console.log(`🏏 CHECKING: Can ${bowler.name} bowl next over?`);
     
-    if (match.balls.length === 0) {
-      console.log(`✅ ALLOWED: First over of match`);
+    const inningsBalls = this.getCurrentInningsBalls(match);
+    if (inningsBalls.length === 0) {
+      console.log(`✅ ALLOWED: First over of the innings`);
       return true;
     }
     
@@ -81,8 +739,8 @@ export class CricketEngine {
       return true;
     }
     
-    // Get ALL balls from the previous over
-    const previousOverBalls = match.balls.filter(b => b.overNumber === previousOver);
+    // Get ALL balls from the previous over of this innings
+    const previousOverBalls = inningsBalls.filter(b => b.overNumber === previousOver);
     
     if (previousOverBalls.length === 0) {
       console.log(`✅ ALLOWED: No balls found in previous over ${previousOver}`);
@@ -110,7 +768,11 @@ export class CricketEngine {
   static getAvailableBowlers(match: Match, nextOver: number): Player[] {
     console.log(`\n🏏 GETTING AVAILABLE BOWLERS FOR OVER ${nextOver}`);
     
-    const allBowlers = match.bowlingTeam.players;
+    const allBowlers = match.bowlingTeam.players.filter(bowler => {
+      const bowledOut = this.hasBowlerReachedLimit(match, bowler.id);
+      if (bowledOut) console.log(`🚫 ${bowler.name} has bowled their ${this.getMaxOversPerBowler(match)} overs (EXCLUDED)`);
+      return !bowledOut;
+    });
     console.log(`📋 All bowlers in team:`, allBowlers.map(b => b.name));
     
     if (nextOver <= 1) {
@@ -126,8 +788,8 @@ export class CricketEngine {
     const previousOver = nextOver - 1;
     console.log(`🔍 Checking previous over: ${previousOver}`);
     
-    // Get who bowled the previous over
-    const previousOverBalls = match.balls.filter(b => b.overNumber === previousOver);
+    // Get who bowled the previous over of this innings
+    const previousOverBalls = this.getCurrentInningsBalls(match).filter(b => b.overNumber === previousOver);
     
     if (previousOverBalls.length === 0) {
       console.log(`⚠️ No balls found in previous over ${previousOver}`);
@@ -165,26 +827,90 @@ export class CricketEngine {
     return availableBowlers;
   }
 
+  // Batter dismissed on this ball - the non-striker can be run out at the other end
+  static getDismissedPlayer(ball: Ball): Player | null {
+    if (!ball.isWicket) return null;
+    return ball.dismissedPlayer || ball.striker;
+  }
+
+  // Take a batter off between deliveries. Retired out is a wicket and goes into
+  // the fall of wickets; retired hurt leaves the batter not out.
+  static retireBatter(match: Match, player: Player, type: RetirementType, timestamp: number = Date.now()): Match {
+    const updatedMatch = this.copyForUpdate(match);
+    const battingTeam = updatedMatch.battingTeam;
+    const over = this.formatOvers(this.getLegalBalls(battingTeam, match), this.getBallsPerOver(match));
+
+    updatedMatch.retirements = [...(match.retirements || []), {
+      player,
+      type,
+      innings: this.getCurrentInningsNumber(match),
+      score: battingTeam.score,
+      over,
+      timestamp
+    }];
+
+    if (type === 'retired_out') {
+      battingTeam.wickets++;
+      battingTeam.fallOfWickets = [...(battingTeam.fallOfWickets || []), {
+        wicketNumber: battingTeam.wickets,
+        score: battingTeam.score,
+        batsman: player.name,
+        over,
+        bowler: '',
+        wicketType: 'retired_out'
+      }];
+    }
+
+    return updatedMatch;
+  }
+
+  // Latest retirement of a batter in an innings that still stands (not followed by a return)
+  static getActiveRetirement(match: Match, playerId: string, innings: number): Retirement | undefined {
+    const retirements = (match.retirements || []).filter(r => r.player.id === playerId && r.innings === innings);
+    const latest = retirements[retirements.length - 1];
+    return latest && !latest.returned ? latest : undefined;
+  }
+
+  static isRetiredHurt(match: Match, playerId: string): boolean {
+    return this.getActiveRetirement(match, playerId, this.getCurrentInningsNumber(match))?.type === 'retired_hurt';
+  }
+
+  // A retired hurt batter resuming their innings
+  static returnRetiredBatter(match: Match, playerId: string): Match {
+    const retirement = this.getActiveRetirement(match, playerId, this.getCurrentInningsNumber(match));
+    if (!retirement || retirement.type !== 'retired_hurt') return match;
+    return {
+      ...match,
+      retirements: (match.retirements || []).map(r => r === retirement ? { ...r, returned: true } : r)
+    };
+  }
+
+  // Batter still at the crease after being dismissed or retiring, waiting to be replaced
+  static getBatterToReplace(match: Match): Player | undefined {
+    return [match.currentStriker, match.currentNonStriker].find(p =>
+      p && (this.isOutInCurrentInnings(match, p.id) || this.isRetiredHurt(match, p.id))
+    );
+  }
+
+  // Out in the current innings, by a delivery or by retiring out
+  static isOutInCurrentInnings(match: Match, playerId: string): boolean {
+    const dismissed = this.getCurrentInningsBalls(match).some(b => this.getDismissedPlayer(b)?.id === playerId);
+    return dismissed || (!match.isSuperOver && this.getActiveRetirement(match, playerId, this.getCurrentInningsNumber(match))?.type === 'retired_out');
+  }
+
   // Process ball and update match state with STRICT over completion checking
   static processBall(match: Match, ball: Ball): Match {
-    const updatedMatch = { ...match };
+    const updatedMatch = this.copyForUpdate(match);
     
-    // Add ball to match
-    updatedMatch.balls.push(ball);
+    // Add ball to match - Super Over balls are kept with their own innings
+    const superOver = this.getCurrentSuperOver(updatedMatch);
+    (superOver ? superOver.balls : updatedMatch.balls).push(ball);
     
     // Update team score
     updatedMatch.battingTeam.score += ball.runs;
     
     // Handle extras
-    if (ball.isWide) {
-      updatedMatch.battingTeam.extras.wides++;
-    } else if (ball.isNoBall) {
-      updatedMatch.battingTeam.extras.noBalls++;
-    } else if (ball.isBye) {
-      updatedMatch.battingTeam.extras.byes += ball.runs;
-    } else if (ball.isLegBye) {
-      updatedMatch.battingTeam.extras.legByes += ball.runs;
-    }
+    this.addExtras(updatedMatch.battingTeam, ball);
     
     // Handle wickets and Fall of Wickets
     if (ball.isWicket) {
@@ -202,7 +928,7 @@ export class CricketEngine {
       updatedMatch.battingTeam.fallOfWickets.push({
         wicketNumber,
         score: currentScore,
-        batsman: ball.striker.name,
+        batsman: this.getDismissedPlayer(ball)?.name || ball.striker.name,
         over: currentOver,
         bowler: ball.bowler.name,
         wicketType: ball.wicketType || 'out'
@@ -213,17 +939,15 @@ export class CricketEngine {
     if (!ball.isWide && !ball.isNoBall) {
       updatedMatch.battingTeam.balls++;
       
-      // Check if over is complete (EXACTLY 6 valid balls)
-      if (updatedMatch.battingTeam.balls >= 6) {
+      // Check if over is complete (EXACTLY the format's balls per over)
+      if (updatedMatch.battingTeam.balls >= this.getBallsPerOver(updatedMatch)) {
         console.log(`🏏 OVER ${updatedMatch.battingTeam.overs + 1} COMPLETED!`);
         
         updatedMatch.battingTeam.overs++;
         updatedMatch.battingTeam.balls = 0;
         
         // Force strike rotation at end of over
-        const temp = updatedMatch.currentStriker;
-        updatedMatch.currentStriker = updatedMatch.currentNonStriker;
-        updatedMatch.currentNonStriker = temp;
+        this.swapStrike(updatedMatch);
         
         console.log(`🔄 Strike rotated: ${updatedMatch.currentStriker?.name} now on strike`);
         
@@ -235,31 +959,61 @@ export class CricketEngine {
       } else {
         // Check for strike rotation during over
         if (this.shouldRotateStrike(ball, false)) {
-          const temp = updatedMatch.currentStriker;
-          updatedMatch.currentStriker = updatedMatch.currentNonStriker;
-          updatedMatch.currentNonStriker = temp;
+          this.swapStrike(updatedMatch);
           console.log(`🔄 Strike rotated mid-over: ${updatedMatch.currentStriker?.name} now on strike`);
         }
       }
     } else {
-      // For wides and no-balls, only rotate if extra runs are taken
-      if (ball.runs > 1) {
-        const temp = updatedMatch.currentStriker;
-        updatedMatch.currentStriker = updatedMatch.currentNonStriker;
-        updatedMatch.currentNonStriker = temp;
+      // For wides and no-balls, only rotate if an odd number of runs are taken
+      if (this.getRunsTaken(ball, updatedMatch) % 2 === 1) {
+        this.swapStrike(updatedMatch);
         console.log(`🔄 Strike rotated on extra: ${updatedMatch.currentStriker?.name} now on strike`);
       }
     }
+
+    if (superOver) {
+      superOver.battingTeam = updatedMatch.battingTeam;
+      superOver.bowlingTeam = updatedMatch.bowlingTeam;
+    }
     
     return updatedMatch;
   }
 
+  private static swapStrike(match: Match): void {
+    // A last man batting alone always stays on strike
+    if (!match.currentNonStriker) return;
+
+    const temp = match.currentStriker;
+    match.currentStriker = match.currentNonStriker;
+    match.currentNonStriker = temp;
+  }
+
+  // Name of the side that won a completed match, Super Over included;
+  // undefined for a tie, a draw or a match still going
+  static getWinningTeamName(match: Match): string | undefined {
+    if (!match.isCompleted) return undefined;
+    const result = this.getMatchResult(match);
+    return [match.team1.name, match.team2.name].find(name => result.startsWith(`${name} won`));
+  }
+
   // Get proper cricket match result
   static getMatchResult(match: Match): string {
     if (!match.isCompleted) {
       return 'Match in progress';
     }
 
+    if (match.superOvers && match.superOvers.length >= 2) {
+      return this.getSuperOverResult(match);
+    }
+
+    if (this.isMultiInnings(match)) {
+      return this.getMultiInningsResult(match);
+    }
+
+    if (match.isSecondInnings && this.hasInterruptions(match)) {
+      return this.getDLSResult(match);
+    }
+
     // Determine which team batted first and second
     let firstInningsTeam: Team;
     let secondInningsTeam: Team;
@@ -284,14 +1038,8 @@ export class CricketEngine {
     // Calculate result based on cricket rules
     if (secondInningsScore > firstInningsScore) {
       // Team 2 (chasing team) won
-      const wicketsRemaining = 10 - secondInningsTeam.wickets;
-      const ballsRemaining = (match.totalOvers * 6) - (secondInningsTeam.overs * 6 + secondInningsTeam.balls);
-      
-      if (wicketsRemaining === 10) {
-        return `${secondInningsTeam.name} won by 10 wickets`;
-      } else {
-        return `${secondInningsTeam.name} won by ${wicketsRemaining} wicket${wicketsRemaining === 1 ? '' : 's'}`;
-      }
+      const wicketsRemaining = this.getMaxWickets(match) - secondInningsTeam.wickets;
+      return `${secondInningsTeam.name} won by ${wicketsRemaining} wicket${wicketsRemaining === 1 ? '' : 's'}`;
     } else if (firstInningsScore > secondInningsScore) {
       // Team 1 (batting first) won
       const runsMargin = firstInningsScore - secondInningsScore;
@@ -305,98 +1053,168 @@ export class CricketEngine {
     }
   }
 
+  // Two-innings result on aggregate. A final innings that ends neither all out nor
+  // with the target reached, or play called off early, is a draw.
+  static getMultiInningsResult(match: Match): string {
+    if (match.isDrawn) return 'Match drawn';
+
+    const batting = match.battingTeam;
+    const bowling = match.bowlingTeam;
+    const lead = this.getLead(match);
+
+    if (this.isWonByInnings(match)) {
+      return `${bowling.name} won by an innings and ${-lead} run${lead === -1 ? '' : 's'}`;
+    }
+    if (!this.isFinalInnings(match)) return 'Match drawn';
+
+    if (lead > 0) {
+      const wicketsRemaining = this.getMaxWickets(match) - batting.wickets;
+      return `${batting.name} won by ${wicketsRemaining} wicket${wicketsRemaining === 1 ? '' : 's'}`;
+    }
+    if (batting.wickets >= this.getMaxWickets(match)) {
+      if (lead === 0) return 'Match tied';
+      return `${bowling.name} won by ${-lead} run${lead === -1 ? '' : 's'}`;
+    }
+    return 'Match drawn';
+  }
+
+  // Chase decided against the par score once overs were lost
+  static getDLSResult(match: Match): string {
+    const chasingTeam = match.battingTeam;
+    const defendingTeam = match.bowlingTeam;
+    const par = this.getParScore(match) ?? (match.firstInningsScore || 0);
+
+    if (chasingTeam.score > par) {
+      const wicketsRemaining = this.getMaxWickets(match) - chasingTeam.wickets;
+      return `${chasingTeam.name} won by ${wicketsRemaining} wicket${wicketsRemaining === 1 ? '' : 's'} (DLS method)`;
+    }
+    if (par > chasingTeam.score) {
+      const runsMargin = par - chasingTeam.score;
+      return `${defendingTeam.name} won by ${runsMargin} run${runsMargin === 1 ? '' : 's'} (DLS method)`;
+    }
+    return 'Match tied (DLS method)';
+  }
+
+  // Decided by the last complete Super Over
+  static getSuperOverResult(match: Match): string {
+    const superOvers = match.superOvers || [];
+    const lastComplete = superOvers.length - (superOvers.length % 2);
+    if (lastComplete < 2) return 'Match tied';
+
+    const first = superOvers[lastComplete - 2].battingTeam;
+    const second = superOvers[lastComplete - 1].battingTeam;
+    if (first.score === second.score) return 'Super Over tied';
+    const winner = first.score > second.score ? first : second;
+    return `${winner.name} won the Super Over`;
+  }
+
+  // Whether play reached its end on the scorecard: the last innings (or an
+  // innings win, or a Super Over reply) complete, or a draw called
+  static isMatchFinished(match: Match): boolean {
+    if (match.isDrawn) return true;
+    if (match.isSuperOver) {
+      return this.getSuperOverInningsNumber(match) === 2 && this.isInningsComplete(match);
+    }
+    return this.isInningsComplete(match) && (this.isFinalInnings(match) || this.isWonByInnings(match));
+  }
+
+  // Redo the result and man of the match for a completed match whose
+  // scorecard has been corrected, recording why it was changed. A match that
+  // finished on the scorecard has to still finish once replayed; one ended
+  // early by hand stays ended.
+  static applyCorrection(match: Match, reason: string, correctedBy?: string, original?: Match): Match {
+    if (original && this.isMatchFinished(original) && !this.isMatchFinished(match)) {
+      throw new Error('The corrected scorecard no longer finishes the match');
+    }
+    const corrected: Match = { ...match, isCompleted: true };
+    corrected.result = this.getMatchResult(corrected);
+    corrected.manOfTheMatch = this.calculateManOfTheMatch(corrected) || undefined;
+    corrected.corrections = [
+      ...(match.corrections || []),
+      { timestamp: Date.now(), reason, correctedBy, previousResult: match.result }
+    ];
+    return corrected;
+  }
+
+  static isPlayerInMatch(match: Match, playerId: string): boolean {
+    return [...(match.team1?.players || []), ...(match.team2?.players || [])].some(p => p.id === playerId);
+  }
+
+  static createEmptyStats(): PlayerStats {
+    return {
+      matchesPlayed: 0,
+      runsScored: 0,
+      ballsFaced: 0,
+      fours: 0,
+      sixes: 0,
+      fifties: 0,
+      hundreds: 0,
+      highestScore: 0,
+      timesOut: 0,
+      wicketsTaken: 0,
+      ballsBowled: 0,
+      runsConceded: 0,
+      catches: 0,
+      runOuts: 0,
+      motmAwards: 0,
+      ducks: 0,
+      dotBalls: 0,
+      maidenOvers: 0,
+      bestBowlingFigures: '0/0'
+    };
+  }
+
+  // Career figures worked out from scratch over every completed match the player was in
+  static calculateCareerStats(player: Player, matches: Match[]): PlayerStats {
+    return matches
+      .filter(match => match.isCompleted && this.isPlayerInMatch(match, player.id))
+      .reduce((stats, match) => this.updatePlayerStats({ ...player, stats }, match), this.createEmptyStats());
+  }
+
   // Calculate comprehensive player stats with enhanced tracking
   static updatePlayerStats(player: Player, match: Match): PlayerStats {
     const stats = { ...player.stats };
     stats.matchesPlayed++;
 
-    // Batting stats
-    const battingBalls = match.balls.filter(b => b.striker.id === player.id);
+    // Batting and bowling go in one innings at a time, so milestones, ducks,
+    // best figures and maidens count as they would on the scorecard
     let runsScored = 0;
     let ballsFaced = 0;
-    let fours = 0;
-    let sixes = 0;
-    let gotOut = false;
-    let dotBalls = 0;
-
-    battingBalls.forEach(ball => {
-      if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-        runsScored += ball.runs;
-      }
-      if (!ball.isWide && !ball.isNoBall) {
-        ballsFaced++;
-        if (ball.runs === 0) dotBalls++;
-      }
-      if (ball.runs === 4) fours++;
-      if (ball.runs === 6) sixes++;
-      if (ball.isWicket && ball.striker.id === player.id) gotOut = true;
-    });
-
-    stats.runsScored += runsScored;
-    stats.ballsFaced += ballsFaced;
-    stats.fours += fours;
-    stats.sixes += sixes;
-    stats.dotBalls += dotBalls;
-    if (gotOut) stats.timesOut++;
-    if (gotOut && runsScored === 0) stats.ducks++;
-    if (runsScored >= 50 && runsScored < 100) stats.fifties++;
-    if (runsScored >= 100) stats.hundreds++;
-    if (runsScored > stats.highestScore) stats.highestScore = runsScored;
-
-    // Bowling stats with proper over calculation
-    const bowlingBalls = match.balls.filter(b => b.bowler.id === player.id);
     let wicketsTaken = 0;
-    let runsConceded = 0;
     let ballsBowled = 0;
-    let maidenOvers = 0;
 
-    // Calculate bowling stats per over
-    const bowlingOvers = new Map<number, { runs: number, wickets: number, balls: number }>();
-    
-    bowlingBalls.forEach(ball => {
-      if (!ball.isWide && !ball.isNoBall) {
-        ballsBowled++;
-      }
-      if (ball.isWicket && ball.wicketType !== 'run_out') {
-        wicketsTaken++;
-      }
-      runsConceded += ball.runs;
+    this.getPlayedInnings(match).forEach(innings => {
+      const figures = this.getPlayerInningsFigures(player, match, innings);
+      runsScored += figures.runsScored;
+      ballsFaced += figures.ballsFaced;
+      wicketsTaken += figures.wicketsTaken;
+      ballsBowled += figures.ballsBowled;
 
-      // Track per over
-      const overKey = ball.overNumber;
-      if (!bowlingOvers.has(overKey)) {
-        bowlingOvers.set(overKey, { runs: 0, wickets: 0, balls: 0 });
-      }
-      const overStats = bowlingOvers.get(overKey)!;
-      overStats.runs += ball.runs;
-      if (ball.isWicket && ball.wicketType !== 'run_out') {
-        overStats.wickets++;
-      }
-      if (!ball.isWide && !ball.isNoBall) {
-        overStats.balls++;
-      }
-    });
+      stats.runsScored += figures.runsScored;
+      stats.ballsFaced += figures.ballsFaced;
+      stats.fours += figures.fours;
+      stats.sixes += figures.sixes;
+      stats.dotBalls += figures.dotBalls;
+      if (figures.gotOut) stats.timesOut++;
+      if (figures.gotOut && figures.runsScored === 0) stats.ducks++;
+      if (figures.runsScored >= 50 && figures.runsScored < 100) stats.fifties++;
+      if (figures.runsScored >= 100) stats.hundreds++;
+      if (figures.runsScored > stats.highestScore) stats.highestScore = figures.runsScored;
 
-    // Count maiden overs (6 balls, 0 runs)
-    bowlingOvers.forEach(overStat => {
-      if (overStat.balls === 6 && overStat.runs === 0) {
-        maidenOvers++;
-      }
-    });
+      stats.wicketsTaken += figures.wicketsTaken;
+      stats.ballsBowled += figures.ballsBowled;
+      stats.runsConceded += figures.runsConceded;
+      stats.maidenOvers += figures.maidenOvers;
 
-    stats.wicketsTaken += wicketsTaken;
-    stats.ballsBowled += ballsBowled;
-    stats.runsConceded += runsConceded;
-    stats.maidenOvers += maidenOvers;
-
-    // Update best bowling figures
-    if (wicketsTaken > 0) {
-      const currentFigures = `${wicketsTaken}/${runsConceded}`;
-      if (!stats.bestBowlingFigures || stats.bestBowlingFigures === '0/0' || 
-          this.compareBowlingFigures(currentFigures, stats.bestBowlingFigures)) {
-        stats.bestBowlingFigures = currentFigures;
+      // Update best bowling figures
+      if (figures.wicketsTaken > 0) {
+        const currentFigures = `${figures.wicketsTaken}/${figures.runsConceded}`;
+        if (!stats.bestBowlingFigures || stats.bestBowlingFigures === '0/0' ||
+            this.compareBowlingFigures(currentFigures, stats.bestBowlingFigures)) {
+          stats.bestBowlingFigures = currentFigures;
+        }
       }
-    }
+    });
 
     // Fielding stats
     const catches = match.balls.filter(b => 
@@ -432,6 +1250,65 @@ export class CricketEngine {
     return stats;
   }
 
+  // Innings of the match with balls bowled or a batter retiring, in order
+  private static getPlayedInnings(match: Match): number[] {
+    const innings = new Set([
+      ...match.balls.map(ball => this.getBallInnings(ball, match)),
+      ...(match.retirements || []).map(r => r.innings)
+    ]);
+    return Array.from(innings).sort((a, b) => a - b);
+  }
+
+  // What a player did with the bat and ball in one innings
+  private static getPlayerInningsFigures(player: Player, match: Match, innings: number): PlayerInningsFigures {
+    const balls = match.balls.filter(ball => this.getBallInnings(ball, match) === innings);
+    const figures: PlayerInningsFigures = {
+      runsScored: 0, ballsFaced: 0, fours: 0, sixes: 0, dotBalls: 0, gotOut: false,
+      wicketsTaken: 0, runsConceded: 0, ballsBowled: 0, bowlingDotBalls: 0, maidenOvers: 0
+    };
+
+    balls.filter(b => b.striker.id === player.id).forEach(ball => {
+      const batRuns = this.getBatRuns(ball);
+      figures.runsScored += batRuns;
+      if (this.isBallFaced(ball)) {
+        figures.ballsFaced++;
+        if (batRuns === 0) figures.dotBalls++;
+      }
+      if (batRuns === 4) figures.fours++;
+      if (batRuns === 6) figures.sixes++;
+    });
+
+    // A batter can be out without facing the ball (e.g. run out at the non-striker's end).
+    // Retiring out counts as a dismissal; retiring hurt does not.
+    figures.gotOut = balls.some(ball => this.getDismissedPlayer(ball)?.id === player.id) ||
+      (match.retirements || []).some(r => r.player.id === player.id && r.innings === innings && r.type === 'retired_out');
+
+    // Runs and legal balls per over of this innings, for maidens
+    const bowlingOvers = new Map<number, { runs: number; balls: number }>();
+    balls.filter(b => b.bowler.id === player.id).forEach(ball => {
+      const bowlerRuns = this.getBowlerRuns(ball);
+      const legal = !ball.isWide && !ball.isNoBall;
+      if (legal) {
+        figures.ballsBowled++;
+        if (bowlerRuns === 0) figures.bowlingDotBalls++;
+      }
+      if (ball.isWicket && ball.wicketType !== 'run_out') figures.wicketsTaken++;
+      figures.runsConceded += bowlerRuns;
+
+      const overStats = bowlingOvers.get(ball.overNumber) || { runs: 0, balls: 0 };
+      overStats.runs += bowlerRuns;
+      if (legal) overStats.balls++;
+      bowlingOvers.set(ball.overNumber, overStats);
+    });
+
+    const ballsPerOver = this.getBallsPerOver(match);
+    bowlingOvers.forEach(overStats => {
+      if (overStats.balls === ballsPerOver && overStats.runs === 0) figures.maidenOvers++;
+    });
+
+    return figures;
+  }
+
   private static compareBowlingFigures(current: string, best: string): boolean {
     const [currentWickets, currentRuns] = current.split('/').map(Number);
     const [bestWickets, bestRuns] = best.split('/').map(Number);
@@ -459,10 +1336,11 @@ export class CricketEngine {
     return (stats.runsConceded / stats.wicketsTaken).toFixed(2);
   }
 
-  // Calculate economy rate
-  static calculateEconomyRate(stats: PlayerStats): string {
+  // Runs per over. Career stats mix formats, so unless a match's balls per
+  // over is given this is runs per 6 balls
+  static calculateEconomyRate(stats: PlayerStats, ballsPerOver: number = DEFAULT_BALLS_PER_OVER): string {
     if (stats.ballsBowled === 0) return '0.00';
-    return ((stats.runsConceded / stats.ballsBowled) * 6).toFixed(2);
+    return ((stats.runsConceded / stats.ballsBowled) * ballsPerOver).toFixed(2);
   }
 
   // Calculate Man of the Match based on performance
@@ -503,96 +1381,69 @@ export class CricketEngine {
     let bowlingScore = 0;
     let fieldingScore = 0;
 
-    // Batting Performance
-    const battingBalls = match.balls.filter(b => b.striker.id === player.id);
+    // Batting and bowling are scored one innings at a time, so two
+    // thirties are not taken for a fifty
     let runsScored = 0;
     let ballsFaced = 0;
-    let fours = 0;
-    let sixes = 0;
-    let gotOut = false;
-
-    battingBalls.forEach(ball => {
-      if (ball.striker.id === player.id) {
-        if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-          runsScored += ball.runs;
-        }
-        if (!ball.isWide && !ball.isNoBall) {
-          ballsFaced++;
-        }
-        if (ball.runs === 4) fours++;
-        if (ball.runs === 6) sixes++;
-        if (ball.isWicket) gotOut = true;
-      }
-    });
+    let wicketsTaken = 0;
 
-    // Enhanced batting score calculation
-    if (ballsFaced > 0) {
-      const strikeRate = (runsScored / ballsFaced) * 100;
-      
-      // Base runs score
-      battingScore += runsScored * 1.5;
-      
-      // Strike rate bonus/penalty
-      if (strikeRate >= 150) battingScore += runsScored * 0.4;
-      else if (strikeRate >= 120) battingScore += runsScored * 0.2;
-      else if (strikeRate < 80 && ballsFaced >= 10) battingScore -= runsScored * 0.1;
-      
-      // Milestone bonuses
-      if (runsScored >= 100) battingScore += 50;
-      else if (runsScored >= 50) battingScore += 25;
-      else if (runsScored >= 30) battingScore += 10;
-      
-      // Boundary bonuses
-      battingScore += fours * 2;
-      battingScore += sixes * 4;
-      
-      // Not out bonus for significant scores
-      if (!gotOut && runsScored >= 20) battingScore += 10;
-      
-      // Duck penalty
-      if (gotOut && runsScored === 0) battingScore -= 10;
-    }
+    this.getPlayedInnings(match).forEach(innings => {
+      const figures = this.getPlayerInningsFigures(player, match, innings);
+      runsScored += figures.runsScored;
+      ballsFaced += figures.ballsFaced;
+      wicketsTaken += figures.wicketsTaken;
 
-    // Bowling Performance
-    const bowlingBalls = match.balls.filter(b => b.bowler.id === player.id);
-    let wicketsTaken = 0;
-    let runsConceded = 0;
-    let ballsBowled = 0;
-    let dotBalls = 0;
+      // Enhanced batting score calculation
+      if (figures.ballsFaced > 0) {
+        const strikeRate = (figures.runsScored / figures.ballsFaced) * 100;
+
+        // Base runs score
+        battingScore += figures.runsScored * 1.5;
 
-    bowlingBalls.forEach(ball => {
-      if (!ball.isWide && !ball.isNoBall) {
-        ballsBowled++;
-        if (ball.runs === 0) dotBalls++;
+        // Strike rate bonus/penalty
+        if (strikeRate >= 150) battingScore += figures.runsScored * 0.4;
+        else if (strikeRate >= 120) battingScore += figures.runsScored * 0.2;
+        else if (strikeRate < 80 && figures.ballsFaced >= 10) battingScore -= figures.runsScored * 0.1;
+
+        // Milestone bonuses
+        if (figures.runsScored >= 100) battingScore += 50;
+        else if (figures.runsScored >= 50) battingScore += 25;
+        else if (figures.runsScored >= 30) battingScore += 10;
+
+        // Boundary bonuses
+        battingScore += figures.fours * 2;
+        battingScore += figures.sixes * 4;
+
+        // Not out bonus for significant scores
+        if (!figures.gotOut && figures.runsScored >= 20) battingScore += 10;
+
+        // Duck penalty
+        if (figures.gotOut && figures.runsScored === 0) battingScore -= 10;
       }
-      if (ball.isWicket && ball.wicketType !== 'run_out') {
-        wicketsTaken++;
+
+      // Enhanced bowling score calculation
+      if (figures.ballsBowled > 0) {
+        const economyRate = (figures.runsConceded / figures.ballsBowled) * this.getBallsPerOver(match);
+        const dotBallPercentage = (figures.bowlingDotBalls / figures.ballsBowled) * 100;
+
+        // Wicket points
+        bowlingScore += figures.wicketsTaken * 25;
+
+        // Economy rate bonus/penalty
+        if (economyRate <= 4) bowlingScore += 20;
+        else if (economyRate <= 6) bowlingScore += 10;
+        else if (economyRate >= 10) bowlingScore -= 10;
+
+        // Dot ball bonus
+        if (dotBallPercentage >= 60) bowlingScore += 15;
+        else if (dotBallPercentage >= 40) bowlingScore += 8;
+
+        // Wicket milestone bonuses
+        if (figures.wicketsTaken >= 5) bowlingScore += 30;
+        else if (figures.wicketsTaken >= 3) bowlingScore += 15;
       }
-      runsConceded += ball.runs;
     });
 
-    // Enhanced bowling score calculation
-    if (ballsBowled > 0) {
-      const economyRate = (runsConceded / ballsBowled) * 6;
-      const dotBallPercentage = (dotBalls / ballsBowled) * 100;
-      
-      // Wicket points
-      bowlingScore += wicketsTaken * 25;
-      
-      // Economy rate bonus/penalty
-      if (economyRate <= 4) bowlingScore += 20;
-      else if (economyRate <= 6) bowlingScore += 10;
-      else if (economyRate >= 10) bowlingScore -= 10;
-      
-      // Dot ball bonus
-      if (dotBallPercentage >= 60) bowlingScore += 15;
-      else if (dotBallPercentage >= 40) bowlingScore += 8;
-      
-      // Wicket milestone bonuses
-      if (wicketsTaken >= 5) bowlingScore += 30;
-      else if (wicketsTaken >= 3) bowlingScore += 15;
-    }
-
     // Fielding Performance
     const catches = match.balls.filter(b => 
       b.isWicket && b.wicketType === 'caught' && b.fielder?.id === player.id
@@ -0,0 +1,55 @@
+// Duckworth-Lewis style resources table.
+//
+// Resources are the percentage of a full 50-over, 10-wicket innings a side
+// still has, given overs remaining and wickets lost. The table is built from
+// the exponential D/L model Z(u, w) = Z0 * F(w) * (1 - e^(-b * u / F(w))) with
+// parameters fitted to the published Standard Edition figures
+// (e.g. 20 overs, 0 down = 56.6%; 50 overs, 5 down = 49.0%).
+
+const TABLE_OVERS = 50;
+const Z0 = 133.92;
+const DECAY = 0.027464;
+const WICKET_FACTORS = [1.0, 0.8849, 0.7604, 0.6308, 0.5003, 0.3756, 0.262, 0.1643, 0.0889, 0.0351];
+
+// Average score of a full 50-over innings (G50), Standard Edition
+const G50 = 245;
+
+// RESOURCE_TABLE[wicketsLost][oversRemaining]
+const RESOURCE_TABLE: number[][] = WICKET_FACTORS.map(factor =>
+  Array.from({ length: TABLE_OVERS + 1 }, (_, overs) =>
+    Math.round(Z0 * factor * (1 - Math.exp(-DECAY * overs / factor)) * 10) / 10
+  )
+);
+
+export class DLSCalculator {
+  // Resources left (%), interpolating between whole overs. Wickets are scaled
+  // to a 10-wicket innings so short-handed sides lose resources just as fast.
+  static getResources(oversRemaining: number, wicketsLost: number, maxWickets: number = 10): number {
+    const overs = Math.min(Math.max(oversRemaining, 0), TABLE_OVERS);
+    const wickets = maxWickets > 0 ? (wicketsLost * 10) / maxWickets : 10;
+    if (wickets >= 10) return 0;
+
+    const lookup = (w: number): number => {
+      if (w >= 10) return 0;
+      const lower = Math.floor(overs);
+      const upper = Math.min(lower + 1, TABLE_OVERS);
+      const row = RESOURCE_TABLE[w];
+      return row[lower] + (row[upper] - row[lower]) * (overs - lower);
+    };
+
+    const lowerWickets = Math.floor(wickets);
+    const fraction = wickets - lowerWickets;
+    return lookup(lowerWickets) * (1 - fraction) + lookup(lowerWickets + 1) * fraction;
+  }
+
+  // Team 2's score to beat. With fewer resources than team 1 had, the first
+  // innings total is scaled down by them; with more, the extra resources are
+  // worth their share of an average 50-over score on top of it
+  static getParScore(firstInningsScore: number, firstInningsResources: number, resourcesUsed: number): number {
+    if (firstInningsResources <= 0) return firstInningsScore;
+    if (resourcesUsed > firstInningsResources) {
+      return Math.floor(firstInningsScore + (G50 * (resourcesUsed - firstInningsResources)) / 100);
+    }
+    return Math.floor((firstInningsScore * resourcesUsed) / firstInningsResources);
+  }
+}
@@ -4,7 +4,7 @@ import { realTimeSyncService } from './realTimeSyncService';
 import { rigidGroupManager } from './rigidGroupManager';
 import { auth } from '../config/firebase';
 import { User, Group } from '../types/auth';
-import { Player, Match } from '../types/cricket';
+import { Player, Match, Tournament, GroupTeam } from '../types/cricket';
 
 // Enhanced Sync Quota Error Handling Utilities
 class EnhancedSyncQuotaHandler {
@@ -104,7 +104,7 @@ interface SyncStatus {
 interface SyncOperation {
   id: string;
   type: 'CREATE' | 'UPDATE' | 'DELETE' | 'DOWNLOAD';
-  entity: 'USER' | 'GROUP' | 'PLAYER' | 'MATCH' | 'ALL';
+  entity: 'USER' | 'GROUP' | 'PLAYER' | 'MATCH' | 'TOURNAMENT' | 'GROUP_TEAM' | 'ALL';
   data: any;
   timestamp: number;
   attempts: number;
@@ -310,6 +310,14 @@ class EnhancedSyncService {
     this.queueSyncOperation('UPDATE', 'MATCH', match, 'HIGH');
   }
 
+  async autoSyncTournament(tournament: Tournament): Promise<void> {
+    this.queueSyncOperation('UPDATE', 'TOURNAMENT', tournament, 'NORMAL');
+  }
+
+  async autoSyncGroupTeam(team: GroupTeam): Promise<void> {
+    this.queueSyncOperation('UPDATE', 'GROUP_TEAM', team, 'NORMAL');
+  }
+
   async autoSyncGroupDeletion(groupId: string): Promise<void> {
     this.queueSyncOperation('DELETE', 'GROUP', { id: groupId }, 'HIGH');
   }
@@ -513,6 +521,18 @@ class EnhancedSyncService {
           }
           break;
 
+        case 'TOURNAMENT':
+          if (type === 'UPDATE') {
+            await cloudStorageService.saveTournament(data);
+          }
+          break;
+
+        case 'GROUP_TEAM':
+          if (type === 'UPDATE') {
+            await cloudStorageService.saveGroupTeam(data);
+          }
+          break;
+
         default:
           throw new Error(`Unknown entity type: ${entity}`);
       }
@@ -553,6 +573,16 @@ class EnhancedSyncService {
                 await cloudStorageService.deleteMatch(data.id);
               }
               break;
+            case 'TOURNAMENT':
+              if (type === 'UPDATE') {
+                await cloudStorageService.saveTournament(data);
+              }
+              break;
+            case 'GROUP_TEAM':
+              if (type === 'UPDATE') {
+                await cloudStorageService.saveGroupTeam(data);
+              }
+              break;
           }
           
           console.log('✅ Enhanced Sync: Operation succeeded after quota cleanup');
@@ -656,6 +686,40 @@ class EnhancedSyncService {
         console.warn('⚠️ Failed to download players:', error.message);
       }
 
+      // Download tournaments for current groups
+      try {
+        const userGroups = await storageService.getAllGroups();
+        for (const group of userGroups) {
+          if (!rigidGroupManager.isGroupDeleted(group.id)) {
+            const cloudTournaments = await cloudStorageService.getGroupTournaments(group.id);
+            for (const cloudTournament of cloudTournaments) {
+              const localTournament = await storageService.getTournament(cloudTournament.id);
+              const mergedTournament = this.mergeData(localTournament, cloudTournament, 'TOURNAMENT');
+              await storageService.saveTournament(mergedTournament);
+            }
+          }
+        }
+      } catch (error: any) {
+        console.warn('⚠️ Failed to download tournaments:', error.message);
+      }
+
+      // Download teams for current groups
+      try {
+        const userGroups = await storageService.getAllGroups();
+        for (const group of userGroups) {
+          if (!rigidGroupManager.isGroupDeleted(group.id)) {
+            const cloudTeams = await cloudStorageService.getGroupTeams(group.id);
+            for (const cloudTeam of cloudTeams) {
+              const localTeam = await storageService.getGroupTeam(cloudTeam.id);
+              const mergedTeam = this.mergeData(localTeam, cloudTeam, 'GROUP_TEAM');
+              await storageService.saveGroupTeam(mergedTeam);
+            }
+          }
+        }
+      } catch (error: any) {
+        console.warn('⚠️ Failed to download group teams:', error.message);
+      }
+
       console.log('✅ Cloud data download and merge completed');
       
     } catch (error) {
@@ -0,0 +1,401 @@
+import { Ball, FallOfWicket, Match, PenaltyAward, Player, Retirement } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+
+// Partnerships, fall of wickets, bowling spells and phase splits for an
+// innings, worked out from the ball log and retirements. Scorecards, the PDF,
+// player profiles and group records all read from here.
+
+export interface PartnershipBatter {
+  player: Player;
+  runs: number; // Off the bat
+  balls: number; // Faced
+}
+
+export interface Partnership {
+  wicket: number; // The wicket it was for: 1 for the openers
+  runs: number; // Including extras
+  balls: number; // Legal deliveries
+  batters: PartnershipBatter[];
+  unbroken: boolean;
+}
+
+export interface BowlerSpell {
+  bowler: Player;
+  spell: number; // 1 for the bowler's first spell of the innings
+  fromOver: number;
+  toOver: number;
+  legalBalls: number;
+  overs: string; // "3.2"
+  runs: number;
+  wickets: number;
+  maidens: number;
+}
+
+export interface PhaseSplit {
+  label: 'Powerplay' | 'Middle' | 'Death';
+  fromOver: number;
+  toOver: number;
+  runs: number;
+  wickets: number;
+  legalBalls: number;
+  boundaries: number;
+}
+
+export interface InningsTotal {
+  innings: number;
+  teamName: string; // Batting side
+  runs: number; // Penalty runs awarded to the side included
+  wickets: number;
+  legalBalls: number;
+}
+
+// Penalty runs that count towards an innings
+export interface InningsPenalties {
+  carried: number; // Awarded to the side while fielding before it came in to bat
+  during: PenaltyAward[]; // Awarded while it was batting
+  after: number; // Awarded while fielding once it had no innings left to bat
+}
+
+// Something in an innings that changes the score or the wickets, in the
+// order it happened
+export type InningsLogEntry =
+  | { type: 'ball'; ball: Ball }
+  | { type: 'retirement'; retirement: Retirement }
+  | { type: 'penalty'; award: PenaltyAward };
+
+export interface PartnershipRecord extends Partnership {
+  teamName: string;
+  matchId: string;
+  date: number;
+}
+
+export interface SpellRecord extends BowlerSpell {
+  teamName: string; // Side the bowler played for
+  matchId: string;
+  date: number;
+}
+
+export interface GroupRecords {
+  partnershipsByWicket: PartnershipRecord[]; // Highest for each wicket that has one
+  bestSpells: SpellRecord[];
+}
+
+export class InningsAnalytics {
+  // Innings of a match that can hold balls, in order
+  static getInningsNumbers(match: Match): number[] {
+    return CricketEngine.isMultiInnings(match)
+      ? Array.from({ length: CricketEngine.getCurrentInningsNumber(match) }, (_, i) => i + 1)
+      : [1, 2];
+  }
+
+  static getInningsBalls(match: Match, innings: number): Ball[] {
+    return (match.balls || []).filter(b => CricketEngine.getBallInnings(b, match) === innings);
+  }
+
+  static getInningsTotal(match: Match, innings: number): InningsTotal {
+    const teamName = CricketEngine.getInningsTeams(match, innings).battingTeam.name;
+    const balls = this.getInningsBalls(match, innings);
+    const penalties = this.getInningsPenalties(match, innings);
+
+    return {
+      innings,
+      teamName,
+      runs: balls.reduce((sum, b) => sum + b.runs, 0) +
+        penalties.carried + penalties.during.reduce((sum, award) => sum + award.runs, 0) + penalties.after,
+      wickets: this.getFallOfWickets(match, innings).length,
+      legalBalls: balls.filter(b => !b.isWide && !b.isNoBall).length
+    };
+  }
+
+  // Batters in the order they came in, then the rest of the side who did not bat
+  static getBattingLineup(match: Match, innings: number): { batted: Player[]; didNotBat: Player[] } {
+    const side = CricketEngine.getInningsTeams(match, innings).battingTeam;
+    const pairs: (Player | undefined)[][] = this.getInningsBalls(match, innings).map(ball => [ball.striker, ball.nonStriker]);
+    // A batter just in has not been on the field for a ball yet
+    if (!match.isCompleted && !match.isSuperOver && innings === CricketEngine.getCurrentInningsNumber(match)) {
+      pairs.push([match.currentStriker, match.currentNonStriker]);
+    }
+
+    const batted: Player[] = [];
+    pairs.flat().forEach(player => {
+      if (player && !batted.some(p => p.id === player.id)) {
+        batted.push(side.players.find(p => p.id === player.id) || player);
+      }
+    });
+
+    return {
+      batted,
+      didNotBat: side.players.filter(p => !batted.some(b => b.id === p.id))
+    };
+  }
+
+  // Penalty runs for the side batting in an innings, split as CricketEngine
+  // applies them: runs awarded while fielding carry into the side's next
+  // innings, or go on its last one if it has none left
+  static getInningsPenalties(match: Match, innings: number): InningsPenalties {
+    const teamName = CricketEngine.getInningsTeams(match, innings).battingTeam.name;
+    const battedIn = this.getInningsNumbers(match)
+      .filter(i => CricketEngine.getInningsTeams(match, i).battingTeam.name === teamName);
+    const previous = Math.max(0, ...battedIn.filter(i => i < innings));
+    const isLast = battedIn.filter(i => i <= innings).length >= CricketEngine.getInningsPerSide(match);
+    const awards = (match.penaltyAwards || []).filter(award => award.teamName === teamName);
+    const sum = (list: PenaltyAward[]) => list.reduce((total, award) => total + award.runs, 0);
+
+    return {
+      carried: sum(awards.filter(a => a.toFieldingSide && a.innings > previous && a.innings < innings)),
+      during: awards.filter(a => !a.toFieldingSide && a.innings === innings),
+      after: isLast ? sum(awards.filter(a => a.toFieldingSide && a.innings > innings)) : 0
+    };
+  }
+
+  // Wickets in the order they fell, retired out included, in the same form
+  // CricketEngine records them on the team while scoring. Scores count the
+  // penalty runs the side had by then.
+  static getFallOfWickets(match: Match, innings: number): FallOfWicket[] {
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const wickets: FallOfWicket[] = [];
+    let score = this.getInningsPenalties(match, innings).carried;
+    let legalBalls = 0;
+
+    this.getInningsLog(match, innings).forEach(entry => {
+      if (entry.type === 'penalty') {
+        score += entry.award.runs;
+        return;
+      }
+      if (entry.type === 'retirement') {
+        wickets.push({
+          wicketNumber: wickets.length + 1,
+          score,
+          batsman: entry.retirement.player.name,
+          over: entry.retirement.over,
+          bowler: '',
+          wicketType: 'retired_out'
+        });
+        return;
+      }
+
+      const ball = entry.ball;
+      const isLegal = !ball.isWide && !ball.isNoBall;
+      score += ball.runs;
+      if (ball.isWicket) {
+        wickets.push({
+          wicketNumber: wickets.length + 1,
+          score,
+          batsman: CricketEngine.getDismissedPlayer(ball)?.name || ball.striker.name,
+          over: `${Math.floor(legalBalls / ballsPerOver)}.${legalBalls % ballsPerOver + (isLegal ? 1 : 0)}`,
+          bowler: ball.bowler.name,
+          wicketType: ball.wicketType || 'out'
+        });
+      }
+      if (isLegal) legalBalls++;
+    });
+
+    return wickets;
+  }
+
+  // A partnership lasts while the same two batters are in. A wicket or a
+  // retirement starts the next one; retired hurt keeps the wicket number.
+  static getPartnerships(match: Match, innings: number): Partnership[] {
+    const partnerships: Partnership[] = [];
+    const pairKey = (ball: Ball) => [ball.striker.id, ball.nonStriker.id].sort().join('|');
+    let currentKey = '';
+    let current: Partnership | null = null;
+
+    this.getInningsBalls(match, innings).forEach(ball => {
+      if (!current || pairKey(ball) !== currentKey) {
+        if (current) current.unbroken = false;
+        current = { wicket: this.getWicketsBefore(match, innings, ball) + 1, runs: 0, balls: 0, batters: [], unbroken: true };
+        partnerships.push(current);
+        currentKey = pairKey(ball);
+      }
+
+      current.runs += ball.runs;
+      if (!ball.isWide && !ball.isNoBall) current.balls++;
+      [ball.striker, ball.nonStriker].forEach(player => {
+        if (!current!.batters.some(b => b.player.id === player.id)) {
+          current!.batters.push({ player, runs: 0, balls: 0 });
+        }
+      });
+      const striker = current.batters.find(b => b.player.id === ball.striker.id)!;
+      striker.runs += CricketEngine.getBatRuns(ball);
+      if (CricketEngine.isBallFaced(ball)) striker.balls++;
+      if (ball.isWicket) current.unbroken = false;
+    });
+
+    // The last stand was ended off the field
+    const last = partnerships[partnerships.length - 1];
+    if (last?.unbroken && this.isEndedByRetirement(match, innings, last)) {
+      last.unbroken = false;
+    }
+    return partnerships;
+  }
+
+  // Consecutive overs from one end make a spell; missing a turn ends it
+  static getBowlerSpells(match: Match, innings: number): BowlerSpell[] {
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const overs = new Map<number, Ball[]>();
+    this.getInningsBalls(match, innings).forEach(ball => {
+      overs.set(ball.overNumber, [...(overs.get(ball.overNumber) || []), ball]);
+    });
+
+    const spells: BowlerSpell[] = [];
+    Array.from(overs.entries())
+      .sort(([a], [b]) => a - b)
+      .forEach(([overNumber, balls]) => {
+        const bowler = balls[0].bowler;
+        const bowlerSpells = spells.filter(s => s.bowler.id === bowler.id);
+        let spell = bowlerSpells[bowlerSpells.length - 1];
+        if (!spell || overNumber > spell.toOver + 2) {
+          spell = {
+            bowler,
+            spell: bowlerSpells.length + 1,
+            fromOver: overNumber,
+            toOver: overNumber,
+            legalBalls: 0,
+            overs: '0.0',
+            runs: 0,
+            wickets: 0,
+            maidens: 0
+          };
+          spells.push(spell);
+        }
+
+        const overRuns = balls.reduce((sum, b) => sum + CricketEngine.getBowlerRuns(b), 0);
+        const overBalls = balls.filter(b => !b.isWide && !b.isNoBall).length;
+        spell.toOver = overNumber;
+        spell.legalBalls += overBalls;
+        spell.overs = CricketEngine.formatOvers(spell.legalBalls, ballsPerOver);
+        spell.runs += overRuns;
+        spell.wickets += balls.filter(b => b.isWicket && b.wicketType !== 'run_out' && b.wicketType !== 'retired_out').length;
+        if (overBalls === ballsPerOver && overRuns === 0) spell.maidens++;
+      });
+
+    return spells;
+  }
+
+  // Powerplay, middle and death overs of a limited-overs innings. Empty for
+  // two-innings matches and very short games.
+  static getPhaseSplits(match: Match, innings: number): PhaseSplit[] {
+    if (CricketEngine.isMultiInnings(match) || innings > 2) return [];
+    const overs = CricketEngine.getInningsOversLimit(match, innings as 1 | 2);
+    if (overs < 5) return [];
+
+    const powerplay = Math.min(Math.max(Math.round(overs * 0.3), 1), 10);
+    const death = Math.min(Math.round(overs * 0.2), 10);
+    const phases: Omit<PhaseSplit, 'runs' | 'wickets' | 'legalBalls' | 'boundaries'>[] = [
+      { label: 'Powerplay', fromOver: 1, toOver: powerplay },
+      { label: 'Middle', fromOver: powerplay + 1, toOver: overs - death },
+      { label: 'Death', fromOver: overs - death + 1, toOver: overs }
+    ];
+    const balls = this.getInningsBalls(match, innings);
+
+    return phases
+      .filter(phase => phase.toOver >= phase.fromOver)
+      .map(phase => {
+        const inPhase = balls.filter(b => b.overNumber >= phase.fromOver && b.overNumber <= phase.toOver);
+        return {
+          ...phase,
+          runs: inPhase.reduce((sum, b) => sum + b.runs, 0),
+          wickets: inPhase.filter(b => b.isWicket).length,
+          legalBalls: inPhase.filter(b => !b.isWide && !b.isNoBall).length,
+          boundaries: inPhase.filter(b => CricketEngine.getBatRuns(b) === 4 || CricketEngine.getBatRuns(b) === 6).length
+        };
+      });
+  }
+
+  // Best partnership for each wicket and the best spells across matches
+  static getGroupRecords(matches: Match[], spellCount: number = 5): GroupRecords {
+    const best = new Map<number, PartnershipRecord>();
+    const spells: SpellRecord[] = [];
+
+    matches.forEach(match => {
+      this.getInningsNumbers(match).forEach(innings => {
+        const { battingTeam, bowlingTeam } = CricketEngine.getInningsTeams(match, innings);
+        const context = { matchId: match.id, date: match.startTime };
+
+        this.getPartnerships(match, innings).forEach(partnership => {
+          const record = best.get(partnership.wicket);
+          if (!record || partnership.runs > record.runs) {
+            best.set(partnership.wicket, { ...partnership, teamName: battingTeam.name, ...context });
+          }
+        });
+        this.getBowlerSpells(match, innings).forEach(spell => {
+          spells.push({ ...spell, teamName: bowlingTeam.name, ...context });
+        });
+      });
+    });
+
+    return {
+      partnershipsByWicket: Array.from(best.values()).sort((a, b) => a.wicket - b.wicket),
+      bestSpells: spells
+        .filter(spell => spell.wickets > 0)
+        .sort((a, b) => b.wickets - a.wickets || a.runs - b.runs)
+        .slice(0, spellCount)
+    };
+  }
+
+  // A player's partnerships across matches, biggest first
+  static getPlayerPartnerships(matches: Match[], playerId: string): PartnershipRecord[] {
+    return matches
+      .flatMap(match => this.getInningsNumbers(match).flatMap(innings => {
+        const teamName = CricketEngine.getInningsTeams(match, innings).battingTeam.name;
+        return this.getPartnerships(match, innings)
+          .filter(p => p.batters.some(b => b.player.id === playerId))
+          .map(p => ({ ...p, teamName, matchId: match.id, date: match.startTime }));
+      }))
+      .sort((a, b) => b.runs - a.runs);
+  }
+
+  // 1st, 2nd, 3rd, 4th ...
+  static getOrdinal(n: number): string {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+    return `${n}${suffix}`;
+  }
+
+  private static getWicketsBefore(match: Match, innings: number, ball: Ball): number {
+    const log = this.getInningsLog(match, innings);
+    const index = log.findIndex(entry => entry.type === 'ball' && entry.ball.id === ball.id);
+    return log.slice(0, index).filter(entry =>
+      entry.type === 'retirement' || (entry.type === 'ball' && entry.ball.isWicket)
+    ).length;
+  }
+
+  // Balls, retirements out and penalties of an innings in the order they were
+  // scored. The scoring log gives the order; matches saved before it had one
+  // could not have balls inserted or edited, so their timestamps are used.
+  static getInningsLog(match: Match, innings: number): InningsLogEntry[] {
+    const balls = this.getInningsBalls(match, innings);
+    const retirements = (match.retirements || []).filter(r => r.innings === innings && r.type === 'retired_out');
+    const awards = this.getInningsPenalties(match, innings).during;
+
+    if (!match.events) {
+      const entries: (InningsLogEntry & { timestamp: number })[] = [
+        ...balls.map(ball => ({ type: 'ball' as const, ball, timestamp: ball.timestamp })),
+        ...retirements.map(retirement => ({ type: 'retirement' as const, retirement, timestamp: retirement.timestamp })),
+        ...awards.map(award => ({ type: 'penalty' as const, award, timestamp: award.timestamp }))
+      ];
+      return entries.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    return match.events.flatMap((event): InningsLogEntry[] => {
+      if (event.type === 'ball') {
+        const ball = balls.find(b => b.id === event.ballId);
+        return ball ? [{ type: 'ball', ball }] : [];
+      }
+      if (event.type === 'retire') {
+        const retirement = retirements.find(r => r.player.id === event.player.id && r.timestamp === event.timestamp);
+        return retirement ? [{ type: 'retirement', retirement }] : [];
+      }
+      if (event.type === 'penalty') {
+        const award = awards.find(a => a.id === event.award.id);
+        return award ? [{ type: 'penalty', award }] : [];
+      }
+      return [];
+    });
+  }
+
+  private static isEndedByRetirement(match: Match, innings: number, partnership: Partnership): boolean {
+    const ids = partnership.batters.map(b => b.player.id);
+    return (match.retirements || []).some(r => r.innings === innings && ids.includes(r.player.id) && !r.returned);
+  }
+}
@@ -0,0 +1,241 @@
+import { KnockoutFixture, KnockoutStage, Match, TieBreakRule, Tournament } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+import { TournamentService } from './tournamentService';
+import { storageService } from './storage';
+
+// Knockout stages of a tournament. Seeds are placed so the top two can only
+// meet in the final, byes go to the top seeds, and each fixture's winner is
+// worked out from its linked match and moved into the next round.
+
+export const TIE_BREAK_LABELS: Record<TieBreakRule, string> = {
+  boundaries: 'More boundaries',
+  fewer_wickets: 'Fewer wickets lost',
+  higher_seed: 'Higher seed'
+};
+
+export class KnockoutBracket {
+  static createStage(tournament: Tournament, seeds: string[], tieBreak: TieBreakRule, seededFromTable: boolean): Tournament {
+    if (seeds.length < 2) throw new Error('A knockout needs at least two teams');
+    if (new Set(seeds).size !== seeds.length) throw new Error('A team can only be seeded once');
+    if (seeds.some(id => !TournamentService.getTeam(tournament, id))) throw new Error('Seeded team not found');
+
+    const size = this.getBracketSize(seeds.length);
+    const order = this.getSeedOrder(size);
+    const rounds = Math.log2(size);
+    const fixtures: KnockoutFixture[] = [];
+
+    for (let round = 1; round <= rounds; round++) {
+      const count = size / 2 ** round;
+      for (let position = 0; position < count; position++) {
+        const fixture: KnockoutFixture = { id: `ko_${round}_${position + 1}`, round, position };
+        if (round === 1) {
+          fixture.team1Id = seeds[order[position * 2] - 1];
+          fixture.team2Id = seeds[order[position * 2 + 1] - 1];
+        }
+        fixtures.push(fixture);
+      }
+    }
+
+    return this.settle({ ...tournament, knockout: { seeds, seededFromTable, tieBreak, fixtures } }, []);
+  }
+
+  // The leading sides of the points table, best first
+  static getSeedsFromTable(tournament: Tournament, matches: Match[], count: number): string[] {
+    return TournamentService.getPointsTable(tournament, matches).slice(0, count).map(row => row.team.id);
+  }
+
+  static getRoundCount(stage: KnockoutStage): number {
+    return Math.max(0, ...stage.fixtures.map(f => f.round));
+  }
+
+  static getRoundName(stage: KnockoutStage, round: number): string {
+    const fromEnd = this.getRoundCount(stage) - round;
+    if (fromEnd === 0) return 'Final';
+    if (fromEnd === 1) return 'Semi-finals';
+    if (fromEnd === 2) return 'Quarter-finals';
+    return `Round ${round}`;
+  }
+
+  static getChampionId(stage: KnockoutStage): string | undefined {
+    return stage.fixtures.find(f => f.round === this.getRoundCount(stage))?.winnerId;
+  }
+
+  static getSeed(stage: KnockoutStage, teamId: string): number | undefined {
+    const index = stage.seeds.indexOf(teamId);
+    return index >= 0 ? index + 1 : undefined;
+  }
+
+  // Fixtures with both sides known and no match played for them yet, which a
+  // new match can be started for
+  static getOpenFixtures(tournament: Tournament): KnockoutFixture[] {
+    return (tournament.knockout?.fixtures || []).filter(f => f.team1Id && f.team2Id && !f.matchId && !f.winnerId);
+  }
+
+  static linkMatch(tournament: Tournament, fixtureId: string, match: Match, matches: Match[]): { tournament: Tournament; match: Match } {
+    const stage = tournament.knockout;
+    const fixture = stage?.fixtures.find(f => f.id === fixtureId);
+    if (!stage || !fixture) throw new Error('Fixture not found');
+    if (!TournamentService.isMatchForFixture(tournament, fixture, match)) {
+      throw new Error('This match was not a one-innings game between the two teams of this fixture');
+    }
+
+    const fixtures = stage.fixtures.map(f => {
+      if (f.id === fixtureId) return { ...f, matchId: match.id };
+      return f.matchId === match.id ? { ...f, matchId: undefined } : f;
+    });
+    return {
+      tournament: this.settle({ ...tournament, knockout: { ...stage, fixtures } }, [...matches.filter(m => m.id !== match.id), match]),
+      match: { ...match, tournamentId: tournament.id, fixtureId }
+    };
+  }
+
+  static unlinkMatch(tournament: Tournament, fixtureId: string, matches: Match[]): Tournament {
+    const stage = tournament.knockout;
+    if (!stage) return tournament;
+    const fixtures = stage.fixtures.map(f => (f.id === fixtureId ? { ...f, matchId: undefined } : f));
+    return this.settle({ ...tournament, knockout: { ...stage, fixtures } }, matches);
+  }
+
+  // Work every fixture's winner out again, round by round, filling later
+  // rounds with the sides that came through. A linked match that no longer
+  // fits a fixture's sides is dropped.
+  static settle(tournament: Tournament, matches: Match[]): Tournament {
+    const stage = tournament.knockout;
+    if (!stage) return tournament;
+
+    const fixtures = stage.fixtures.map(f => ({ ...f }));
+    const find = (round: number, position: number) => fixtures.find(f => f.round === round && f.position === position);
+
+    fixtures
+      .sort((a, b) => a.round - b.round || a.position - b.position)
+      .forEach(fixture => {
+        if (fixture.round > 1) {
+          fixture.team1Id = find(fixture.round - 1, fixture.position * 2)?.winnerId;
+          fixture.team2Id = find(fixture.round - 1, fixture.position * 2 + 1)?.winnerId;
+        }
+
+        const match = matches.find(m => m.id === fixture.matchId);
+        const fits = !!match && TournamentService.isMatchForFixture(tournament, fixture, match);
+        if (match && !fits) fixture.matchId = undefined;
+        // A linked match we were not given keeps the winner already recorded
+        if (fixture.matchId && !match) return;
+        Object.assign(fixture, this.getWinner(tournament, stage, fixture, fits ? match : undefined));
+      });
+
+    return { ...tournament, knockout: { ...stage, fixtures }, lastModified: Date.now() };
+  }
+
+  // Called as a match completes or is corrected: link it to the knockout
+  // fixture it was started for and work the winners out again, so a changed
+  // result moves the right side on. A match that no longer fits its fixture,
+  // knockout or league, is unlinked. Other matches between the same sides are
+  // left alone. Returns the match with its tournament link.
+  static async recordResult(match: Match): Promise<Match> {
+    if (!match.tournamentId) return match;
+    const unlinked = { ...match, tournamentId: undefined, fixtureId: undefined };
+    try {
+      const tournament = await storageService.getTournament(match.tournamentId);
+      if (!tournament) return match;
+
+      // The points table is worked out from the stored matches, so a league
+      // fixture only needs its link checked
+      const leagueFixture = tournament.fixtures.find(f => f.matchId === match.id);
+      if (leagueFixture) {
+        if (TournamentService.isMatchForFixture(tournament, leagueFixture, match)) return match;
+        await storageService.saveTournament(TournamentService.unlinkMatch(tournament, leagueFixture.id));
+        return unlinked;
+      }
+
+      const stage = tournament.knockout;
+      const fixture = stage?.fixtures.find(f => f.matchId === match.id || f.id === match.fixtureId);
+      if (!stage || !fixture) return match;
+
+      const linkedMatches = (await Promise.all(
+        stage.fixtures
+          .filter(f => f.matchId && f.matchId !== match.id)
+          .map(f => storageService.getMatch(f.matchId!))
+      )).filter((m): m is Match => !!m);
+      if (!TournamentService.isMatchForFixture(tournament, fixture, match)) {
+        await storageService.saveTournament(this.unlinkMatch(tournament, fixture.id, linkedMatches));
+        return unlinked;
+      }
+
+      const linked = this.linkMatch(tournament, fixture.id, match, linkedMatches);
+      await storageService.saveTournament(linked.tournament);
+      return linked.match;
+    } catch (error) {
+      console.warn('⚠️ Could not update the knockout bracket:', error);
+    }
+    return match;
+  }
+
+  // Smallest power of two that holds every seed
+  private static getBracketSize(teams: number): number {
+    return 2 ** Math.ceil(Math.log2(teams));
+  }
+
+  // Seed numbers in bracket order: 1 v 8, 4 v 5, 2 v 7, 3 v 6 for eight
+  private static getSeedOrder(size: number): number[] {
+    let order = [1];
+    while (order.length < size) {
+      const next = order.length * 2 + 1;
+      order = order.flatMap(seed => [seed, next - seed]);
+    }
+    return order;
+  }
+
+  private static getWinner(
+    tournament: Tournament,
+    stage: KnockoutStage,
+    fixture: KnockoutFixture,
+    match: Match | undefined
+  ): Pick<KnockoutFixture, 'winnerId' | 'decidedBy'> {
+    const undecided = { winnerId: undefined, decidedBy: undefined };
+
+    // A first-round side without an opponent goes straight through
+    if (fixture.round === 1 && (!fixture.team1Id || !fixture.team2Id)) {
+      const winnerId = fixture.team1Id || fixture.team2Id;
+      return winnerId ? { winnerId, decidedBy: 'bye' } : undecided;
+    }
+    if (!match || !match.isCompleted || !fixture.team1Id || !fixture.team2Id) return undecided;
+
+    const winner = TournamentService.getWinningTeam(tournament, match);
+    if (winner) return { winnerId: winner.id, decidedBy: 'result' };
+    return { winnerId: this.breakTie(tournament, stage, fixture.team1Id, fixture.team2Id, match), decidedBy: 'tie_break' };
+  }
+
+  // Settle a tied match by the stage's rule, falling back on the higher seed
+  private static breakTie(tournament: Tournament, stage: KnockoutStage, team1Id: string, team2Id: string, match: Match): string {
+    if (stage.tieBreak !== 'higher_seed') {
+      const score = (teamId: string) => (stage.tieBreak === 'boundaries'
+        ? this.countBoundaries(tournament, match, teamId)
+        : -this.countWicketsLost(tournament, match, teamId));
+      const difference = score(team1Id) - score(team2Id);
+      if (difference !== 0) return difference > 0 ? team1Id : team2Id;
+    }
+    return (this.getSeed(stage, team1Id) ?? Infinity) <= (this.getSeed(stage, team2Id) ?? Infinity) ? team1Id : team2Id;
+  }
+
+  // Fours and sixes a side hit in the match and any Super Overs
+  private static countBoundaries(tournament: Tournament, match: Match, teamId: string): number {
+    const superOvers = (match.superOvers || []).filter(s => this.isTeam(tournament, s.battingTeam.name, teamId));
+    const balls = [
+      ...([1, 2] as const)
+        .filter(i => this.isTeam(tournament, CricketEngine.getInningsTeams(match, i).battingTeam.name, teamId))
+        .flatMap(i => (match.balls || []).filter(b => CricketEngine.getBallInnings(b, match) === i)),
+      ...superOvers.flatMap(s => s.balls)
+    ];
+    return balls.filter(b => CricketEngine.getBatRuns(b) === 4 || CricketEngine.getBatRuns(b) === 6).length;
+  }
+
+  private static countWicketsLost(tournament: Tournament, match: Match, teamId: string): number {
+    return ([1, 2] as const)
+      .map(i => CricketEngine.getInningsTeams(match, i).battingTeam)
+      .filter(team => this.isTeam(tournament, team.name, teamId))
+      .reduce((sum, team) => sum + team.wickets, 0);
+  }
+
+  private static isTeam(tournament: Tournament, teamName: string, teamId: string): boolean {
+    return TournamentService.findTeam(tournament, teamName)?.id === teamId;
+  }
+}
@@ -0,0 +1,133 @@
+import { Match } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+import { DLSCalculator } from './dlsCalculator';
+
+// Live match numbers built on CricketEngine: projected totals while batting
+// first, and the state of a chase. Shared by the score display, the innings
+// break and share text so they always agree.
+
+export interface Projection {
+  label: string; // "Current rate", "+1 rpo", ...
+  runRate: number;
+  total: number;
+}
+
+export interface ChaseState {
+  target: number;
+  runsNeeded: number;
+  ballsLeft: number;
+  currentRate: number;
+  requiredRate: number;
+  parScore: number | null; // Where the chase should be at this wicket count
+  isRevised: boolean; // Target changed by lost overs
+}
+
+export class MatchAnalytics {
+  // Totals the batting side would reach over the rest of its overs at the
+  // current rate and a little faster. Empty when there is nothing to project.
+  static getProjections(match: Match, increments: number[] = [0, 1, 2]): Projection[] {
+    if (match.isCompleted || CricketEngine.getTarget(match) !== null) return [];
+
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const legalBalls = CricketEngine.getLegalBalls(match.battingTeam, match);
+    const ballsLeft = this.getBallsLeft(match);
+    if (legalBalls === 0 || ballsLeft === 0) return [];
+
+    const currentRate = (match.battingTeam.score / legalBalls) * ballsPerOver;
+    return increments.map(extra => {
+      const runRate = currentRate + extra;
+      return {
+        label: extra === 0 ? 'Current rate' : `+${extra} rpo`,
+        runRate,
+        total: Math.round(match.battingTeam.score + (runRate * ballsLeft) / ballsPerOver)
+      };
+    });
+  }
+
+  // Where the chase stands, or null when the batting side is not chasing
+  static getChase(match: Match): ChaseState | null {
+    const target = CricketEngine.getTarget(match);
+    if (target === null) return null;
+
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const legalBalls = CricketEngine.getLegalBalls(match.battingTeam, match);
+    const ballsLeft = this.getBallsLeft(match);
+    const runsNeeded = Math.max(target - match.battingTeam.score, 0);
+
+    return {
+      target,
+      runsNeeded,
+      ballsLeft,
+      currentRate: legalBalls > 0 ? (match.battingTeam.score / legalBalls) * ballsPerOver : 0,
+      requiredRate: this.getRequiredRate(runsNeeded, ballsLeft, ballsPerOver),
+      parScore: this.getParScore(match),
+      isRevised: !match.isSuperOver && !CricketEngine.isMultiInnings(match) && CricketEngine.hasInterruptions(match)
+    };
+  }
+
+  static getRequiredRate(runsNeeded: number, ballsLeft: number, ballsPerOver: number): number {
+    if (ballsLeft <= 0) return runsNeeded > 0 ? Infinity : 0;
+    return (runsNeeded / ballsLeft) * ballsPerOver;
+  }
+
+  // Par for the chasing side as it stands: the first innings total scaled by
+  // the resources used so far. Limited-overs chases only.
+  static getParScore(match: Match): number | null {
+    if (match.isSuperOver || !match.isSecondInnings || CricketEngine.isMultiInnings(match)) return null;
+    return this.getParScoreAt(
+      match,
+      match.firstInningsScore || 0,
+      CricketEngine.getLegalBalls(match.battingTeam, match),
+      match.battingTeam.wickets
+    );
+  }
+
+  // Par after legalBalls with wickets down. Uses the revised resources when
+  // play has been lost, and the full innings otherwise.
+  static getParScoreAt(match: Match, firstInningsScore: number, legalBalls: number, wickets: number): number {
+    const revised = CricketEngine.getParScoreAt(match, firstInningsScore, legalBalls, wickets);
+    if (revised !== null) return revised;
+
+    const overs = CricketEngine.getInningsOversLimit(match, 2);
+    const remaining = DLSCalculator.getResources(
+      overs - legalBalls / CricketEngine.getBallsPerOver(match),
+      wickets,
+      CricketEngine.getMaxWickets(match)
+    );
+    const available = CricketEngine.getInningsResources(match, 2);
+    return DLSCalculator.getParScore(firstInningsScore, CricketEngine.getInningsResources(match, 1), available - remaining);
+  }
+
+  // "Need 34 from 20 balls"
+  static describeChase(chase: ChaseState): string {
+    if (chase.runsNeeded === 0) return 'Target reached';
+    return `Need ${chase.runsNeeded} from ${chase.ballsLeft} ball${chase.ballsLeft === 1 ? '' : 's'}`;
+  }
+
+  static formatRate(rate: number): string {
+    return Number.isFinite(rate) ? rate.toFixed(2) : '-';
+  }
+
+  // One line on the state of play for share text, or null once the match is over
+  static getSituationText(match: Match): string | null {
+    if (match.isCompleted) return null;
+
+    const chase = this.getChase(match);
+    if (chase) {
+      return `${match.battingTeam.name}: ${this.describeChase(chase)} (RRR ${this.formatRate(chase.requiredRate)})`;
+    }
+
+    const [projection] = this.getProjections(match, [0]);
+    if (!projection) return null;
+    return `${match.battingTeam.name} projected: ${projection.total} at ${this.formatRate(projection.runRate)} rpo`;
+  }
+
+  // Legal balls left in the current innings
+  private static getBallsLeft(match: Match): number {
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    return Math.max(
+      CricketEngine.getInningsOvers(match) * ballsPerOver - CricketEngine.getLegalBalls(match.battingTeam, match),
+      0
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { Match } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+import { InningsAnalytics } from './inningsAnalytics';
+
+// Over-by-over figures behind the worm, Manhattan and run-rate charts
+
+export interface OverSummary {
+  over: number; // 1-based over number
+  runs: number;
+  wickets: number;
+  total: number; // Innings score at the end of the over
+  oversBowled: number; // Overs completed at the end of it, fractional for an unfinished over
+  runRate: number; // Innings run rate at the end of the over
+}
+
+export interface InningsProgression {
+  innings: number;
+  teamName: string;
+  overs: OverSummary[];
+  wickets: { oversBowled: number; total: number }[]; // Where each wicket fell, for the worm
+}
+
+const INNINGS_COLORS = ['#2563eb', '#f97316', '#16a34a', '#dc2626'];
+
+export class MatchCharts {
+  // Every innings with at least one ball scored
+  static getProgressions(match: Match): InningsProgression[] {
+    const inningsNumbers = CricketEngine.isMultiInnings(match)
+      ? Array.from({ length: CricketEngine.getCurrentInningsNumber(match) }, (_, i) => i + 1)
+      : [1, 2];
+
+    return inningsNumbers
+      .map(innings => this.getProgression(match, innings))
+      .filter(progression => progression.overs.length > 0);
+  }
+
+  static getProgression(match: Match, innings: number): InningsProgression {
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const penalties = InningsAnalytics.getInningsPenalties(match, innings);
+    const overs: OverSummary[] = [];
+    const wickets: InningsProgression['wickets'] = [];
+    let total = penalties.carried;
+    let legalBalls = 0;
+
+    const setTotal = (summary: OverSummary) => {
+      summary.total = total;
+      summary.oversBowled = legalBalls / ballsPerOver;
+      summary.runRate = legalBalls > 0 ? (total * ballsPerOver) / legalBalls : 0;
+    };
+
+    // Penalty runs and retirements out between balls count in the over in
+    // progress, so the worm ends on the scorecard total
+    InningsAnalytics.getInningsLog(match, innings).forEach(entry => {
+      const current = overs[overs.length - 1];
+      if (entry.type === 'penalty') {
+        total += entry.award.runs;
+        if (current) {
+          current.runs += entry.award.runs;
+          setTotal(current);
+        }
+        return;
+      }
+      if (entry.type === 'retirement') {
+        if (current) current.wickets++;
+        wickets.push({ oversBowled: legalBalls / ballsPerOver, total });
+        return;
+      }
+
+      const ball = entry.ball;
+      total += ball.runs;
+      if (!ball.isWide && !ball.isNoBall) legalBalls++;
+
+      let summary = overs.find(o => o.over === ball.overNumber);
+      if (!summary) {
+        summary = { over: ball.overNumber, runs: 0, wickets: 0, total: 0, oversBowled: 0, runRate: 0 };
+        overs.push(summary);
+      }
+      summary.runs += ball.runs;
+      setTotal(summary);
+
+      if (ball.isWicket) {
+        summary.wickets++;
+        wickets.push({ oversBowled: legalBalls / ballsPerOver, total });
+      }
+    });
+
+    // Penalties awarded once the side had no innings left to bat
+    const last = overs[overs.length - 1];
+    if (penalties.after > 0 && last) {
+      total += penalties.after;
+      last.runs += penalties.after;
+      setTotal(last);
+    }
+
+    return {
+      innings,
+      teamName: CricketEngine.getInningsTeams(match, innings).battingTeam.name,
+      overs,
+      wickets
+    };
+  }
+
+  // Length of the overs axis: the full allocation for limited-overs games,
+  // otherwise as far as the longest innings went
+  static getOversAxis(match: Match, progressions: InningsProgression[]): number {
+    const longest = Math.max(1, ...progressions.map(p => Math.ceil(p.overs[p.overs.length - 1]?.oversBowled || 0)));
+    return CricketEngine.isMultiInnings(match) ? longest : Math.max(longest, match.totalOvers || 0);
+  }
+
+  // A round number just above the highest value, so axis labels stay tidy
+  static getAxisMax(value: number): number {
+    if (value <= 10) return 10;
+    const step = value <= 50 ? 10 : value <= 200 ? 25 : 50;
+    return Math.ceil(value / step) * step;
+  }
+
+  static getInningsColor(innings: number): string {
+    return INNINGS_COLORS[(innings - 1) % INNINGS_COLORS.length];
+  }
+}
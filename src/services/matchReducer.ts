@@ -0,0 +1,396 @@
+import { Ball, Match, MatchEvent, Player, Team } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+
+// Match state as a fold over the scoring log.
+//
+// Every change made while scoring is recorded as a MatchEvent on match.events,
+// with deliveries referring to their Ball in the ball log. reduce() applies one
+// event to a copy of the match, and replay() rebuilds the whole state from the
+// setup, so undo, redo and resuming a saved match all end up in exactly the
+// same place as scoring the balls live. Correcting a past delivery is the
+// same replay with the ball log changed underneath it.
+
+// Events that start a new innings - undo never reaches back past one
+const INNINGS_BOUNDARIES: MatchEvent['type'][] = ['next_innings', 'super_over'];
+
+// Events taken back by an undo, with their deliveries so they can be redone
+export interface UndoneEvents {
+  events: MatchEvent[];
+  balls: Ball[];
+}
+
+export class MatchReducer {
+  // balls: deliveries the events refer to that are not in the match's ball log yet
+  static reduce(match: Match, event: MatchEvent, balls: Ball[] = []): Match {
+    return this.reduceAll(match, [event], balls);
+  }
+
+  static reduceAll(match: Match, events: MatchEvent[], balls: Ball[] = []): Match {
+    const ballLog = this.getBallLog(match, balls);
+    let state = this.clone(match);
+    events.forEach(event => { state = this.applyEvent(state, event, ballLog); });
+    return state;
+  }
+
+  static scoreBall(match: Match, ball: Ball): Match {
+    return this.reduce(match, { type: 'ball', ballId: ball.id }, [ball]);
+  }
+
+  // Rebuild the match from its setup and log. Completion details (result,
+  // man of the match) are kept as they are. Older matches were saved without
+  // a log and are returned unchanged.
+  // balls: deliveries to use in place of, or as well as, those in the ball log
+  static replay(match: Match, events: MatchEvent[] | undefined = match.events, balls: Ball[] = []): Match {
+    if (!events) return match;
+
+    const ballLog = this.getBallLog(match, balls);
+    let state = this.createInitialState(match);
+    events.forEach(event => { state = this.applyEvent(state, event, ballLog); });
+    return state;
+  }
+
+  // The match as it was before the first ball: sides from the toss, nothing scored
+  static createInitialState(match: Match): Match {
+    const state = this.clone(match);
+    const resetTeam = (team: Team): Team => ({
+      ...team,
+      score: 0,
+      wickets: 0,
+      overs: 0,
+      balls: 0,
+      extras: { byes: 0, legByes: 0, wides: 0, noBalls: 0 },
+      fallOfWickets: []
+    });
+
+    state.team1 = resetTeam(state.team1);
+    state.team2 = resetTeam(state.team2);
+    const { battingTeam, bowlingTeam } = CricketEngine.getTossBattingOrder(state);
+    state.battingTeam = battingTeam;
+    state.bowlingTeam = bowlingTeam;
+
+    state.currentInnings = 1;
+    state.isSecondInnings = false;
+    state.firstInningsScore = undefined;
+    state.completedInnings = undefined;
+    state.declaredInnings = undefined;
+    state.isDrawn = undefined;
+    state.followOnEnforced = undefined;
+    state.isSuperOver = undefined;
+    state.superOvers = undefined;
+    state.interruptions = undefined;
+    state.retirements = undefined;
+    state.penaltyAwards = undefined;
+    state.currentStriker = undefined;
+    state.currentNonStriker = undefined;
+    state.currentBowler = undefined;
+    state.previousBowler = undefined;
+    state.balls = [];
+    state.events = [];
+    return state;
+  }
+
+  // Undo takes back the last ball of the innings in progress, along with
+  // anything recorded after it (a new batter, the next bowler)
+  static canUndo(match: Match): boolean {
+    return this.getUndoIndex(match) !== -1;
+  }
+
+  static undo(match: Match): { match: Match; undone: UndoneEvents } {
+    const index = this.getUndoIndex(match);
+    if (index === -1) return { match, undone: { events: [], balls: [] } };
+
+    const events = match.events || [];
+    const ballLog = this.getBallLog(match);
+    const undoneEvents = events.slice(index);
+    return {
+      match: this.replay(match, events.slice(0, index)),
+      undone: {
+        events: undoneEvents,
+        balls: undoneEvents.flatMap(e => e.type === 'ball' && ballLog.has(e.ballId) ? [ballLog.get(e.ballId)!] : [])
+      }
+    };
+  }
+
+  static redo(match: Match, undone: UndoneEvents): Match {
+    return this.reduceAll(match, undone.events, undone.balls);
+  }
+
+  // Past deliveries can only be corrected when the match has a log to replay
+  static canEditBalls(match: Match): boolean {
+    return !!match.events;
+  }
+
+  // incoming: who came in next, when the correction gets out a batter who is
+  // still at the crease on later balls
+  static editBall(match: Match, ball: Ball, incoming?: Player): Match {
+    return this.replay(match, match.events, [ball, ...this.bringInBatter(ball, this.getLaterBalls(match, ball), incoming)]);
+  }
+
+  // A blank delivery for the scorer to fill in before an existing one, from
+  // the same batters and bowler and timed between that ball and the one
+  // logged before it
+  static createMissedBall(match: Match, beforeBall: Ball): Ball {
+    const ballIds = (match.events || []).flatMap(e => (e.type === 'ball' ? [e.ballId] : []));
+    const previous = this.getBallLog(match).get(ballIds[ballIds.indexOf(beforeBall.id) - 1]);
+    const timestamp = previous && previous.timestamp < beforeBall.timestamp
+      ? Math.round((previous.timestamp + beforeBall.timestamp) / 2)
+      : beforeBall.timestamp - 1;
+
+    return {
+      id: `ball_${Date.now()}_${Math.random()}`,
+      ballNumber: beforeBall.ballNumber,
+      overNumber: beforeBall.overNumber,
+      bowler: beforeBall.bowler,
+      striker: beforeBall.striker,
+      nonStriker: beforeBall.nonStriker,
+      runs: 0,
+      isWide: false,
+      isNoBall: false,
+      isBye: false,
+      isLegBye: false,
+      isWicket: false,
+      commentary: '',
+      timestamp,
+      innings: beforeBall.innings,
+      battingTeamId: beforeBall.battingTeamId
+    };
+  }
+
+  // A delivery the scorer missed, bowled just before an existing one
+  static insertBall(match: Match, beforeBallId: string, ball: Ball, incoming?: Player): Match {
+    const events = [...(match.events || [])];
+    const index = events.findIndex(e => e.type === 'ball' && e.ballId === beforeBallId);
+    if (index === -1) return match;
+
+    const later = this.getLaterBalls(match, ball, beforeBallId);
+    events.splice(index, 0, { type: 'ball', ballId: ball.id });
+    return this.replay(match, events, [ball, ...this.bringInBatter(ball, later, incoming)]);
+  }
+
+  // Whether a corrected or missed ball gets out a batter who is still at the
+  // crease later in the innings, so the scorer has to say who came in next
+  static needsIncomingBatter(match: Match, ball: Ball, beforeBallId?: string): boolean {
+    const dismissed = CricketEngine.getDismissedPlayer(ball);
+    return !!dismissed && this.getLaterBalls(match, ball, beforeBallId)
+      .some(b => b.striker.id === dismissed.id || b.nonStriker.id === dismissed.id);
+  }
+
+  static deleteBall(match: Match, ballId: string): Match {
+    const events = (match.events || []).filter(e => !(e.type === 'ball' && e.ballId === ballId));
+    return this.replay(match, events);
+  }
+
+  // Balls logged after a corrected one in the same innings, or for a missed
+  // ball, the one it goes before and those after
+  private static getLaterBalls(match: Match, ball: Ball, beforeBallId?: string): Ball[] {
+    const events = match.events || [];
+    const position = events.findIndex(e => e.type === 'ball' && e.ballId === (beforeBallId || ball.id));
+    if (position === -1) return [];
+
+    const log = this.getBallLog(match);
+    const later: Ball[] = [];
+    for (const event of events.slice(beforeBallId ? position : position + 1)) {
+      if (INNINGS_BOUNDARIES.includes(event.type)) break;
+      if (event.type === 'ball' && log.has(event.ballId)) later.push(log.get(event.ballId)!);
+    }
+    return later;
+  }
+
+  // Later balls with the batter a corrected ball gets out replaced by the one
+  // who came in. A batter cannot be out and still bat, so without anyone to
+  // bring in the correction is refused.
+  private static bringInBatter(ball: Ball, later: Ball[], incoming?: Player): Ball[] {
+    const dismissed = CricketEngine.getDismissedPlayer(ball);
+    if (!dismissed) return [];
+    const affected = later.filter(b => b.striker.id === dismissed.id || b.nonStriker.id === dismissed.id);
+    if (affected.length === 0) return [];
+    if (!incoming) {
+      throw new Error(`${dismissed.name} is out on this ball but bats on later balls - choose who came in next`);
+    }
+
+    const swap = (player: Player) => (player.id === dismissed.id ? incoming : player);
+    return affected.map(b => ({
+      ...b,
+      striker: swap(b.striker),
+      nonStriker: swap(b.nonStriker),
+      dismissedPlayer: b.dismissedPlayer && swap(b.dismissedPlayer)
+    }));
+  }
+
+  private static getUndoIndex(match: Match): number {
+    const events = match.events || [];
+    for (let i = events.length - 1; i >= 0; i--) {
+      if (events[i].type === 'ball') return i;
+      if (INNINGS_BOUNDARIES.includes(events[i].type)) return -1;
+    }
+    return -1;
+  }
+
+  // Every delivery recorded for the match, main innings and Super Overs alike
+  private static getBallLog(match: Match, extra: Ball[] = []): Map<string, Ball> {
+    const balls = [
+      ...match.balls,
+      ...(match.superOvers || []).flatMap(superOver => superOver.balls),
+      ...extra
+    ];
+    return new Map(balls.map(ball => [ball.id, ball]));
+  }
+
+  // Mutates the state it is given - callers pass in their own copy
+  private static applyEvent(state: Match, event: MatchEvent, ballLog: Map<string, Ball>): Match {
+    let next = state;
+
+    switch (event.type) {
+      case 'openers':
+        next.currentStriker = event.striker;
+        next.currentNonStriker = event.nonStriker;
+        next.currentBowler = event.bowler;
+        this.addToSide(next.battingTeam, event.striker);
+        this.addToSide(next.battingTeam, event.nonStriker);
+        this.addToSide(next.bowlingTeam, event.bowler);
+        break;
+
+      case 'ball': {
+        const ball = ballLog.get(event.ballId);
+        if (!ball) {
+          console.warn(`⚠️ Ball ${event.ballId} is missing from the ball log - skipped`);
+          return state;
+        }
+        // A correction earlier on can end the innings before this ball was bowled
+        if (CricketEngine.isInningsComplete(next)) {
+          console.warn(`⚠️ Ball ${event.ballId} comes after the end of the innings - dropped`);
+          return state;
+        }
+        next = CricketEngine.processBall(next, this.restateBall(next, ball));
+        if (ball.isWicket && !CricketEngine.isInningsComplete(next)) {
+          this.leaveLastManAlone(next, CricketEngine.getDismissedPlayer(ball));
+        }
+        break;
+      }
+
+      case 'bowler':
+        next.previousBowler = next.currentBowler;
+        next.currentBowler = event.bowler;
+        this.addToSide(next.bowlingTeam, event.bowler);
+        break;
+
+      case 'swap_strike':
+        if (next.currentNonStriker) {
+          [next.currentStriker, next.currentNonStriker] = [next.currentNonStriker, next.currentStriker];
+        }
+        break;
+
+      case 'new_batter':
+        // A retired hurt batter coming back resumes their innings
+        next = CricketEngine.returnRetiredBatter(next, event.batter.id);
+        // Replace the out batter at the end where the wicket fell
+        if (event.replacing && next.currentNonStriker?.id === event.replacing) {
+          next.currentNonStriker = event.batter;
+        } else {
+          next.currentStriker = event.batter;
+        }
+        this.addToSide(next.battingTeam, event.batter);
+        break;
+
+      case 'retire':
+        next = CricketEngine.retireBatter(next, event.player, event.retirementType, event.timestamp);
+        if (event.retirementType === 'retired_out' && !CricketEngine.isInningsComplete(next)) {
+          this.leaveLastManAlone(next, event.player);
+        }
+        break;
+
+      case 'penalty':
+        next = CricketEngine.addPenaltyAward(next, event.award);
+        break;
+
+      case 'remove_penalty':
+        next = CricketEngine.removePenaltyAward(next, event.awardId);
+        break;
+
+      case 'interruption':
+        next.interruptions = [...(next.interruptions || []), event.interruption];
+        break;
+
+      case 'declare':
+        next.declaredInnings = [...(next.declaredInnings || []), CricketEngine.getCurrentInningsNumber(next)];
+        break;
+
+      case 'draw':
+        next.isDrawn = true;
+        break;
+
+      case 'add_player': {
+        const team = [next.battingTeam, next.bowlingTeam].find(t => t.name === event.teamName);
+        if (team) this.addToSide(team, event.player);
+        break;
+      }
+
+      case 'next_innings':
+        next = CricketEngine.startNextInnings(next, event.enforceFollowOn);
+        break;
+
+      case 'super_over':
+        next = CricketEngine.startSuperOverInnings(next);
+        break;
+    }
+
+    // Matches from before the log carry on without one
+    if (state.events) next.events = [...state.events, event];
+    return next;
+  }
+
+  // A logged ball brought in line with the state it is replayed onto. After a
+  // correction earlier in the innings the over, ball number, free hit and
+  // strike may all have moved, so they are worked out again here. The logged
+  // batters take the crease if they are not the pair already there, which
+  // keeps a replay going where the scorer swapped ends by hand.
+  private static restateBall(state: Match, logged: Ball): Ball {
+    const ball: Ball = { ...logged };
+    const pairKey = (a?: Player, b?: Player) => [a?.id, (b || a)?.id].sort().join('|');
+
+    if (pairKey(state.currentStriker, state.currentNonStriker) === pairKey(ball.striker, ball.nonStriker)) {
+      ball.striker = state.currentStriker!;
+      ball.nonStriker = state.currentNonStriker || state.currentStriker!;
+    } else {
+      state.currentStriker = ball.striker;
+      state.currentNonStriker = ball.nonStriker.id === ball.striker.id ? undefined : ball.nonStriker;
+    }
+    state.currentBowler = ball.bowler;
+
+    ball.overNumber = state.battingTeam.overs + 1;
+    ball.ballNumber = CricketEngine.getLegalBalls(state.battingTeam, state) + 1;
+    ball.innings = state.isSuperOver ? CricketEngine.getSuperOverInningsNumber(state) : CricketEngine.getCurrentInningsNumber(state);
+    ball.isFreeHit = CricketEngine.isFreeHitDue(state) || undefined;
+    if (ball.isWicket && ball.wicketType !== 'run_out') {
+      ball.dismissedPlayer = ball.striker;
+    }
+    ball.commentary = CricketEngine.getCommentary(ball, state);
+    return ball;
+  }
+
+  // Last man stands: the survivor carries on alone, no new batter needed
+  private static leaveLastManAlone(match: Match, outgoing: Player | null): void {
+    if (!CricketEngine.isLastManBatting(match)) return;
+    if (match.currentStriker?.id === outgoing?.id) {
+      match.currentStriker = match.currentNonStriker;
+    }
+    match.currentNonStriker = undefined;
+  }
+
+  private static addToSide(team: Team, player: Player): void {
+    if (!team.players.find(p => p.id === player.id)) {
+      team.players.push(player);
+    }
+  }
+
+  // Deep copy. JSON loses shared references, so the live batting and bowling
+  // sides are pointed back at the team objects they belong to.
+  private static clone(match: Match): Match {
+    const copy: Match = JSON.parse(JSON.stringify(match));
+    const superOver = CricketEngine.getCurrentSuperOver(copy);
+    const teams = superOver ? [superOver.battingTeam, superOver.bowlingTeam] : [copy.team1, copy.team2];
+    copy.battingTeam = teams.find(t => t.name === copy.battingTeam.name) || copy.battingTeam;
+    copy.bowlingTeam = teams.find(t => t.name === copy.bowlingTeam.name) || copy.bowlingTeam;
+    return copy;
+  }
+}
@@ -1,7 +1,14 @@
-import { Match } from '../types/cricket';
+import { Match, Ball, Player, SuperOverInnings, Tournament } from '../types/cricket';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { CricketEngine } from './cricketEngine';
+import { InningsAnalytics } from './inningsAnalytics';
+import { WagonWheel } from './wagonWheel';
+import { MatchCharts, InningsProgression } from './matchCharts';
+import { MatchAnalytics } from './matchAnalytics';
+import { KnockoutBracket, TIE_BREAK_LABELS } from './knockoutBracket';
+import { TournamentService } from './tournamentService';
+import { TeamService } from './teamService';
 
 export class PDFService {
   static async generateDetailedScorecard(match: Match): Promise<Blob> {
@@ -16,20 +23,44 @@ export class PDFService {
     y = this.addMatchResult(doc, match, y);
     y += 15;
 
-    // === FIRST INNINGS ===
-    y = this.addInningsSection(doc, match, 1, y);
-    
-    // Check if we need a new page
-    if (y > 220) {
-      doc.addPage();
-      y = 20;
-    } else {
-      y += 15;
+    // === INNINGS ===
+    // Both innings of a one-innings match; a two-innings match lists those played so far
+    const inningsPlayed = CricketEngine.isMultiInnings(match)
+      ? CricketEngine.getCurrentInningsNumber(match)
+      : match.isSecondInnings || match.isCompleted ? 2 : 1;
+    for (let innings = 1; innings <= inningsPlayed; innings++) {
+      if (innings > 1) {
+        // Check if we need a new page
+        if (y > 220) {
+          doc.addPage();
+          y = 20;
+        } else {
+          y += 15;
+        }
+      }
+      y = this.addInningsSection(doc, match, innings, y);
     }
 
-    // === SECOND INNINGS ===
-    if (match.isSecondInnings || match.isCompleted) {
-      y = this.addInningsSection(doc, match, 2, y);
+    // === CHARTS ===
+    if (MatchCharts.getProgressions(match).length > 0) {
+      if (y > 150) {
+        doc.addPage();
+        y = 20;
+      } else {
+        y += 10;
+      }
+      y = this.addMatchCharts(doc, match, y);
+    }
+
+    // === SUPER OVER ===
+    if (match.superOvers && match.superOvers.length > 0) {
+      if (y > 220) {
+        doc.addPage();
+        y = 20;
+      } else {
+        y += 10;
+      }
+      y = this.addSuperOverSection(doc, match, y);
     }
 
     // Check if we need a new page for MOTM
@@ -68,7 +99,9 @@ export class PDFService {
       month: 'long',
       day: 'numeric'
     });
-    doc.text(`${matchDate} • ${match.totalOvers} overs per side`, doc.internal.pageSize.width / 2, y + 18, { align: 'center' });
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const overLength = ballsPerOver !== 6 ? ` (${ballsPerOver}-ball overs)` : '';
+    doc.text(`${matchDate} • ${match.totalOvers} overs per side${overLength}`, doc.internal.pageSize.width / 2, y + 18, { align: 'center' });
     
     return y + 25;
   }
@@ -98,46 +131,15 @@ export class PDFService {
     return y + 5;
   }
 
-  // Helper method to get correct team for each innings based on toss
-  private static getInningsTeams(match: Match, innings: number): { battingTeam: any, bowlingTeam: any } {
-    // Determine who batted first based on toss
-    const tossWinnerBattedFirst = match.tossDecision === 'bat';
-    const team1WonToss = match.tossWinner === match.team1.name;
-    
-    let firstInningsBattingTeam, firstInningsBowlingTeam;
-    
-    if ((team1WonToss && tossWinnerBattedFirst) || (!team1WonToss && !tossWinnerBattedFirst)) {
-      // Team 1 batted first
-      firstInningsBattingTeam = match.team1;
-      firstInningsBowlingTeam = match.team2;
-    } else {
-      // Team 2 batted first
-      firstInningsBattingTeam = match.team2;
-      firstInningsBowlingTeam = match.team1;
-    }
-    
-    if (innings === 1) {
-      return {
-        battingTeam: firstInningsBattingTeam,
-        bowlingTeam: firstInningsBowlingTeam
-      };
-    } else {
-      return {
-        battingTeam: firstInningsBowlingTeam,
-        bowlingTeam: firstInningsBattingTeam
-      };
-    }
-  }
-
   private static addInningsSection(doc: jsPDF, match: Match, innings: number, y: number): number {
-    const { battingTeam, bowlingTeam } = this.getInningsTeams(match, innings);
+    const { battingTeam, bowlingTeam } = CricketEngine.getInningsTeams(match, innings);
     
     // Debug logs
     console.log(`🏏 PDF Generation - Innings ${innings}:`, {
       battingTeam: battingTeam.name,
       bowlingTeam: bowlingTeam.name,
       totalBalls: match.balls.length,
-      ballsForInnings: match.balls.filter(b => this.getBallInnings(b, match) === innings).length
+      ballsForInnings: match.balls.filter(b => CricketEngine.getBallInnings(b, match) === innings).length
     });
     
     // Innings header
@@ -145,11 +147,14 @@ export class PDFService {
     doc.setTextColor(255, 255, 255);
     doc.rect(14, y, 182, 8, 'F');
     doc.setFontSize(11);
-    doc.text(`${battingTeam.name} - ${innings === 1 ? '1st' : '2nd'} Innings`, 16, y + 6);
+    const followingOn = innings === 3 && match.followOnEnforced ? ' (following on)' : '';
+    doc.text(`${battingTeam.name} - ${CricketEngine.formatInnings(innings)} Innings${followingOn}`, 16, y + 6);
     
     // Total score
-    const runRate = battingTeam.overs > 0 ? ((battingTeam.score / (battingTeam.overs + battingTeam.balls / 6)) || 0).toFixed(2) : '0.00';
-    doc.text(`${battingTeam.score}/${battingTeam.wickets} (${battingTeam.overs}.${battingTeam.balls} overs, RR: ${runRate})`, 
+    const runRate = CricketEngine.calculateRunRate(
+      battingTeam.score, CricketEngine.getLegalBalls(battingTeam, match), CricketEngine.getBallsPerOver(match));
+    const declared = CricketEngine.isDeclared(match, innings) ? ' dec' : '';
+    doc.text(`${battingTeam.score}/${battingTeam.wickets}${declared} (${battingTeam.overs}.${battingTeam.balls} overs, RR: ${runRate})`, 
              190, y + 6, { align: 'right' });
     
     y += 12;
@@ -190,12 +195,24 @@ export class PDFService {
       y += 15;
     }
 
+    // Did not bat
+    const didNotBat = InningsAnalytics.getBattingLineup(match, innings).didNotBat;
+    if (didNotBat.length > 0) {
+      doc.setFontSize(9);
+      doc.setTextColor(0, 0, 0);
+      const names = didNotBat.map(player => `${player.name}${TeamService.getRoleMarker(battingTeam, player.id)}`).join(', ');
+      const lines = doc.splitTextToSize(`Did not bat: ${names}`, 178);
+      doc.text(lines, 16, y + 3);
+      y += lines.length * 5 + 2;
+    }
+
     // Extras and Total
     doc.setFontSize(9);
     doc.setTextColor(0, 0, 0);
     const extras = battingTeam.extras;
-    const totalExtras = extras.byes + extras.legByes + extras.wides + extras.noBalls;
-    doc.text(`Extras: ${totalExtras} (b ${extras.byes}, lb ${extras.legByes}, w ${extras.wides}, nb ${extras.noBalls})`, 16, y + 3);
+    const totalExtras = CricketEngine.getTotalExtras(battingTeam);
+    const penalties = extras.penalties ? `, p ${extras.penalties}` : '';
+    doc.text(`Extras: ${totalExtras} (b ${extras.byes}, lb ${extras.legByes}, w ${extras.wides}, nb ${extras.noBalls}${penalties})`, 16, y + 3);
     y += 8;
 
     doc.setFontSize(10);
@@ -211,66 +228,281 @@ export class PDFService {
     // Bowling figures
     y = this.addBowlingFigures(doc, match, bowlingTeam, innings, y);
 
+    // Wagon wheel
+    y = this.addWagonWheel(doc, match, innings, y);
+
     return y;
   }
 
-  // Enhanced method to determine which innings a ball belongs to
-  private static getBallInnings(ball: any, match: Match): number {
-    // First check if innings property is set directly
-    if (ball.innings) {
-      return ball.innings;
+  // Every recorded scoring shot of the innings, with runs by zone alongside
+  private static addWagonWheel(doc: jsPDF, match: Match, innings: number, y: number): number {
+    const shots = WagonWheel.getShots(match.balls.filter(b => CricketEngine.getBallInnings(b, match) === innings));
+    if (shots.length === 0) return y;
+
+    if (y > 210) {
+      doc.addPage();
+      y = 20;
     }
-    
-    // Fallback: use battingTeamId logic if available
-    if (ball.battingTeamId) {
-      // We need to figure out which team had which innings based on toss
-      const { battingTeam: firstInningsBattingTeam } = this.getInningsTeams(match, 1);
-      return ball.battingTeamId === firstInningsBattingTeam.name ? 1 : 2;
+
+    doc.setFontSize(9);
+    doc.setTextColor(0, 0, 0);
+    doc.text('Wagon wheel:', 16, y + 3);
+
+    const centreX = 50;
+    const centreY = y + 40;
+    const radius = 30;
+
+    doc.setFillColor(220, 252, 231);
+    doc.setDrawColor(22, 163, 74);
+    doc.setLineWidth(0.5);
+    doc.circle(centreX, centreY, radius, 'FD');
+    doc.setLineDashPattern([1, 1], 0);
+    doc.circle(centreX, centreY, radius * 0.55, 'S');
+    doc.setLineDashPattern([], 0);
+    doc.setFillColor(253, 230, 138);
+    doc.rect(centreX - 1, centreY - 5, 2, 10, 'F');
+
+    shots.forEach(shot => {
+      const end = WagonWheel.getEndPoint(shot, radius);
+      doc.setDrawColor(WagonWheel.getColor(shot.runs));
+      doc.setLineWidth(shot.runs >= 4 ? 0.6 : 0.4);
+      doc.line(centreX, centreY, centreX + end.x, centreY + end.y);
+    });
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.2);
+
+    doc.setFontSize(7);
+    doc.setTextColor(21, 128, 61);
+    doc.text('Off', centreX + radius - 2, centreY - radius + 4);
+    doc.text('Leg', centreX - radius - 2, centreY - radius + 4);
+
+    doc.setFontSize(8);
+    doc.setTextColor(0, 0, 0);
+    let zoneY = y + 14;
+    WagonWheel.getZoneRuns(shots).forEach(({ zone, runs }) => {
+      doc.text(zone.label, 100, zoneY);
+      doc.text(String(runs), 135, zoneY, { align: 'right' });
+      zoneY += 5;
+    });
+    const sides = WagonWheel.getSideRuns(shots);
+    doc.text(`Off side ${sides.off}, leg side ${sides.leg} (${shots.length} shots recorded)`, 100, zoneY + 3);
+
+    return y + 78;
+  }
+
+  // Worm and Manhattan side by side, run rate underneath
+  private static addMatchCharts(doc: jsPDF, match: Match, y: number): number {
+    const progressions = MatchCharts.getProgressions(match);
+    const oversAxis = MatchCharts.getOversAxis(match, progressions);
+
+    doc.setFontSize(11);
+    doc.setTextColor(0, 0, 0);
+    doc.text('Match Charts', 14, y + 3);
+
+    // Legend
+    doc.setFontSize(8);
+    let legendX = 50;
+    progressions.forEach(p => {
+      doc.setFillColor(MatchCharts.getInningsColor(p.innings));
+      doc.rect(legendX, y, 3, 3, 'F');
+      const label = progressions.length > 2 ? `${p.teamName} (inns ${p.innings})` : p.teamName;
+      doc.text(label, legendX + 4, y + 3);
+      legendX += doc.getTextWidth(label) + 10;
+    });
+    y += 8;
+
+    const wormMax = MatchCharts.getAxisMax(Math.max(...progressions.flatMap(p => p.overs.map(o => o.total))));
+    const overMax = MatchCharts.getAxisMax(Math.max(...progressions.flatMap(p => p.overs.map(o => o.runs))));
+    const rateMax = MatchCharts.getAxisMax(Math.max(...progressions.flatMap(p => p.overs.map(o => o.runRate))));
+    const height = 45;
+
+    this.drawChartFrame(doc, 'Worm', 14, y, 85, height, oversAxis, wormMax);
+    this.drawChartFrame(doc, 'Manhattan', 111, y, 85, height, oversAxis, overMax);
+    this.drawChartFrame(doc, 'Run rate', 14, y + height + 15, 182, height, oversAxis, rateMax);
+
+    progressions.forEach((p, index) => {
+      this.drawWorm(doc, p, 14, y, 85, height, oversAxis, wormMax);
+      this.drawManhattan(doc, p, index, progressions.length, 111, y, 85, height, oversAxis, overMax);
+      this.drawRunRate(doc, p, 14, y + height + 15, 182, height, oversAxis, rateMax);
+    });
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.2);
+
+    return y + height * 2 + 25;
+  }
+
+  private static drawChartFrame(doc: jsPDF, title: string, x: number, y: number, width: number, height: number, oversAxis: number, yMax: number): void {
+    doc.setFontSize(9);
+    doc.setTextColor(0, 0, 0);
+    doc.text(title, x, y + 3);
+
+    const top = y + 6;
+    doc.setFontSize(6);
+    doc.setTextColor(110, 110, 110);
+    doc.setLineWidth(0.1);
+    [0, 0.5, 1].forEach(f => {
+      const lineY = top + height - f * height;
+      doc.setDrawColor(220, 220, 220);
+      doc.line(x + 8, lineY, x + width, lineY);
+      doc.text(String(Math.round(yMax * f)), x + 7, lineY + 1, { align: 'right' });
+    });
+    const step = Math.max(1, Math.ceil(oversAxis / 10));
+    for (let over = 0; over <= oversAxis; over += step) {
+      doc.text(String(over), x + 8 + (over / oversAxis) * (width - 8), top + height + 4, { align: 'center' });
     }
-    
-    // Final fallback: determine by striker's team and toss decision
-    const { battingTeam: firstInningsBattingTeam } = this.getInningsTeams(match, 1);
-    const strikerIsFirstInningsTeam = firstInningsBattingTeam.players.some(p => p.id === ball.striker.id);
-    
-    return strikerIsFirstInningsTeam ? 1 : 2;
+  }
+
+  private static drawWorm(doc: jsPDF, p: InningsProgression, x: number, y: number, width: number, height: number, oversAxis: number, yMax: number): void {
+    const plotX = (overs: number) => x + 8 + (overs / oversAxis) * (width - 8);
+    const plotY = (runs: number) => y + 6 + height - (runs / yMax) * height;
+
+    doc.setDrawColor(MatchCharts.getInningsColor(p.innings));
+    doc.setLineWidth(0.5);
+    let last = { x: plotX(0), y: plotY(0) };
+    p.overs.forEach(o => {
+      const next = { x: plotX(o.oversBowled), y: plotY(o.total) };
+      doc.line(last.x, last.y, next.x, next.y);
+      last = next;
+    });
+
+    doc.setFillColor(220, 38, 38);
+    p.wickets.forEach(wicket => doc.circle(plotX(wicket.oversBowled), plotY(wicket.total), 0.8, 'F'));
+  }
+
+  private static drawManhattan(doc: jsPDF, p: InningsProgression, index: number, count: number, x: number, y: number, width: number, height: number, oversAxis: number, yMax: number): void {
+    const overWidth = (width - 8) / oversAxis;
+    const barWidth = overWidth / count;
+    const bottom = y + 6 + height;
+
+    p.overs.forEach(o => {
+      const left = x + 8 + (o.over - 1) * overWidth + index * barWidth;
+      const barHeight = (o.runs / yMax) * height;
+      doc.setFillColor(MatchCharts.getInningsColor(p.innings));
+      if (barHeight > 0) doc.rect(left + barWidth * 0.1, bottom - barHeight, barWidth * 0.8, barHeight, 'F');
+      doc.setFillColor(220, 38, 38);
+      for (let w = 0; w < o.wickets; w++) {
+        doc.circle(left + barWidth / 2, bottom - barHeight - 1.5 - w * 2, 0.7, 'F');
+      }
+    });
+  }
+
+  private static drawRunRate(doc: jsPDF, p: InningsProgression, x: number, y: number, width: number, height: number, oversAxis: number, yMax: number): void {
+    const plotX = (overs: number) => x + 8 + (overs / oversAxis) * (width - 8);
+    const plotY = (rate: number) => y + 6 + height - (rate / yMax) * height;
+
+    doc.setDrawColor(MatchCharts.getInningsColor(p.innings));
+    doc.setLineWidth(0.5);
+    p.overs.slice(1).forEach((o, i) => {
+      const previous = p.overs[i];
+      doc.line(plotX(previous.oversBowled), plotY(previous.runRate), plotX(o.oversBowled), plotY(o.runRate));
+    });
+  }
+
+  private static addSuperOverSection(doc: jsPDF, match: Match, y: number): number {
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+
+    match.superOvers!.forEach((superOver: SuperOverInnings) => {
+      if (y > 240) {
+        doc.addPage();
+        y = 20;
+      }
+
+      const battingTeam = superOver.battingTeam;
+      const overs = CricketEngine.formatOvers(CricketEngine.getLegalBalls(battingTeam, match), ballsPerOver);
+
+      // Super Over header
+      doc.setFillColor(103, 58, 183);
+      doc.setTextColor(255, 255, 255);
+      doc.rect(14, y, 182, 8, 'F');
+      doc.setFontSize(11);
+      doc.text(`${battingTeam.name} - Super Over`, 16, y + 6);
+      doc.text(`${battingTeam.score}/${battingTeam.wickets} (${overs} overs)`, 190, y + 6, { align: 'right' });
+      y += 12;
+
+      const battingData = battingTeam.players
+        .filter(player => superOver.balls.some(b =>
+          b.striker.id === player.id || CricketEngine.getDismissedPlayer(b)?.id === player.id))
+        .map(player => {
+          const faced = superOver.balls.filter(b => b.striker.id === player.id);
+          const wicketBall = superOver.balls.find(b => CricketEngine.getDismissedPlayer(b)?.id === player.id);
+          const runs = faced.reduce((sum, b) => sum + CricketEngine.getBatRuns(b), 0);
+          return [
+            player.name,
+            wicketBall ? this.getWicketType(wicketBall) : 'not out',
+            runs.toString(),
+            faced.filter(b => CricketEngine.isBallFaced(b)).length.toString()
+          ];
+        });
+
+      const bowlingData = superOver.bowlingTeam.players
+        .filter(player => superOver.balls.some(b => b.bowler.id === player.id))
+        .map(player => {
+          const bowled = superOver.balls.filter(b => b.bowler.id === player.id);
+          return [
+            player.name,
+            CricketEngine.formatOvers(bowled.filter(b => !b.isWide && !b.isNoBall).length, ballsPerOver),
+            bowled.reduce((sum, b) => sum + CricketEngine.getBowlerRuns(b), 0).toString(),
+            bowled.filter(b => b.isWicket && b.wicketType !== 'run_out').length.toString()
+          ];
+        });
+
+      autoTable(doc, {
+        startY: y,
+        head: [['Batsman', 'Dismissal', 'R', 'B']],
+        body: battingData,
+        theme: 'grid',
+        headStyles: { fillColor: [103, 58, 183], textColor: [255, 255, 255], fontSize: 9 },
+        bodyStyles: { fontSize: 8 }
+      });
+      y = (doc as any).lastAutoTable.finalY + 3;
+
+      autoTable(doc, {
+        startY: y,
+        head: [['Bowler', 'O', 'R', 'W']],
+        body: bowlingData,
+        theme: 'grid',
+        headStyles: { fillColor: [139, 69, 19], textColor: [255, 255, 255], fontSize: 9 },
+        bodyStyles: { fontSize: 8 }
+      });
+      y = (doc as any).lastAutoTable.finalY + 8;
+    });
+
+    return y;
   }
 
   private static prepareBattingData(match: Match, battingTeam: any, innings: number): any[][] {
     const battingData: any[][] = [];
     
     // Get all balls for this innings
-    const inningsBalls = match.balls.filter(b => this.getBallInnings(b, match) === innings);
+    const inningsBalls = match.balls.filter(b => CricketEngine.getBallInnings(b, match) === innings);
     console.log(`🏏 Total balls in innings ${innings}:`, inningsBalls.length);
     
-    battingTeam.players.forEach((player: any) => {
+    // Everyone who came out to bat, in the order they came in
+    InningsAnalytics.getBattingLineup(match, innings).batted.forEach((player: Player) => {
       const playerBalls = inningsBalls.filter((b: any) => b.striker.id === player.id);
       
       console.log(`🏏 ${player.name}: ${playerBalls.length} balls faced in innings ${innings}`);
-      
-      // Only include players who faced at least one ball
-      if (playerBalls.length === 0) return;
 
       let runs = 0;
       let ballsFaced = 0;
       let fours = 0;
       let sixes = 0;
 
-      playerBalls.forEach((ball: any) => {
-        if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-          runs += ball.runs;
-        }
-        if (!ball.isWide && !ball.isNoBall) {
+      playerBalls.forEach((ball: Ball) => {
+        const batRuns = CricketEngine.getBatRuns(ball);
+        runs += batRuns;
+        if (CricketEngine.isBallFaced(ball)) {
           ballsFaced++;
         }
-        if (ball.runs === 4) fours++;
-        if (ball.runs === 6) sixes++;
+        if (batRuns === 4) fours++;
+        if (batRuns === 6) sixes++;
       });
 
       const strikeRate = ballsFaced > 0 ? ((runs / ballsFaced) * 100).toFixed(1) : '0.0';
       const dismissal = this.getDismissalInfo(match, player, innings);
 
       battingData.push([
-        player.name,
+        `${player.name}${TeamService.getRoleMarker(battingTeam, player.id)}`,
         dismissal,
         runs.toString(),
         ballsFaced.toString(),
@@ -284,7 +516,7 @@ export class PDFService {
   }
 
   private static addFallOfWickets(doc: jsPDF, match: Match, battingTeam: any, innings: number, y: number): number {
-    const fallOfWickets = this.calculateFallOfWickets(match, battingTeam, innings);
+    const fallOfWickets = InningsAnalytics.getFallOfWickets(match, innings);
     
     console.log(`🏏 Fall of wickets for ${battingTeam.name} innings ${innings}:`, fallOfWickets.length);
     
@@ -317,7 +549,7 @@ export class PDFService {
   }
 
   private static addPartnerships(doc: jsPDF, match: Match, battingTeam: any, innings: number, y: number): number {
-    const partnerships = this.calculatePartnerships(match, battingTeam, innings);
+    const partnerships = InningsAnalytics.getPartnerships(match, innings);
     
     console.log(`🏏 Partnerships for ${battingTeam.name} innings ${innings}:`, partnerships.length);
     
@@ -329,7 +561,8 @@ export class PDFService {
     y += 8;
 
     partnerships.forEach((partnership) => {
-      const partnershipText = `${partnership.runs} runs for ${partnership.wicket} wicket (${partnership.batsman1} & ${partnership.batsman2})`;
+      const contributions = partnership.batters.map(b => `${b.player.name} ${b.runs} (${b.balls})`).join(', ');
+      const partnershipText = `${InningsAnalytics.getOrdinal(partnership.wicket)} wkt: ${partnership.runs}${partnership.unbroken ? '*' : ''} (${partnership.balls}) - ${contributions}`;
       doc.text(partnershipText, 16, y + 3);
       y += 6;
     });
@@ -337,98 +570,6 @@ export class PDFService {
     return y + 3;
   }
 
-  private static calculatePartnerships(match: Match, battingTeam: any, innings: number): any[] {
-    const partnerships: any[] = [];
-    const teamBalls = match.balls.filter((b: any) => 
-      this.getBallInnings(b, match) === innings && 
-      battingTeam.players.some((p: any) => p.id === b.striker.id)
-    );
-
-    if (teamBalls.length === 0) return partnerships;
-
-    let currentPartnership = {
-      runs: 0,
-      wicket: 1,
-      batsman1: teamBalls[0]?.striker?.name || '',
-      batsman2: teamBalls[0]?.nonStriker?.name || '',
-      startBall: 0
-    };
-
-    let wicketCount = 0;
-
-    teamBalls.forEach((ball: any, index: number) => {
-      currentPartnership.runs += ball.runs;
-
-      if (ball.isWicket) {
-        wicketCount++;
-        partnerships.push({
-          ...currentPartnership,
-          wicket: wicketCount
-        });
-
-        // Start new partnership if not the last wicket
-        if (wicketCount < 10 && index < teamBalls.length - 1) {
-          const nextBall = teamBalls[index + 1];
-          currentPartnership = {
-            runs: 0,
-            wicket: wicketCount + 1,
-            batsman1: nextBall?.striker?.name || '',
-            batsman2: nextBall?.nonStriker?.name || '',
-            startBall: index + 1
-          };
-        }
-      }
-    });
-
-    // Add unfinished partnership if innings ended without all wickets falling
-    if (wicketCount < 10 && currentPartnership.runs > 0) {
-      partnerships.push({
-        ...currentPartnership,
-        wicket: wicketCount + 1
-      });
-    }
-
-    return partnerships;
-  }
-
-  private static calculateFallOfWickets(match: Match, battingTeam: any, innings: number): any[] {
-    const fallOfWickets: any[] = [];
-    let wicketCount = 0;
-
-    match.balls.forEach((ball: any) => {
-      if (this.getBallInnings(ball, match) === innings && ball.isWicket && 
-          battingTeam.players.some((p: any) => p.id === ball.striker.id)) {
-        wicketCount++;
-        const overNumber = `${ball.overNumber}.${((ball.ballNumber - 1) % 6) + 1}`;
-        
-        fallOfWickets.push({
-          wicketNumber: wicketCount,
-          score: this.getScoreAtWicket(match, ball, innings),
-          batsman: ball.striker.name,
-          over: overNumber,
-          dismissal: this.getWicketType(ball)
-        });
-      }
-    });
-
-    return fallOfWickets;
-  }
-
-  private static getScoreAtWicket(match: Match, wicketBall: any, innings: number): number {
-    let score = 0;
-    
-    for (const ball of match.balls) {
-      if (this.getBallInnings(ball, match) === innings && 
-          (ball.ballNumber < wicketBall.ballNumber || 
-           (ball.ballNumber === wicketBall.ballNumber && ball.id === wicketBall.id))) {
-        score += ball.runs;
-      }
-      if (ball.id === wicketBall.id) break;
-    }
-    
-    return score;
-  }
-
   private static addBowlingFigures(doc: jsPDF, match: Match, bowlingTeam: any, innings: number, y: number): number {
     const bowlingData = this.prepareBowlingData(match, bowlingTeam, innings);
     
@@ -474,9 +615,10 @@ export class PDFService {
 
   private static prepareBowlingData(match: Match, bowlingTeam: any, innings: number): any[][] {
     const bowlingData: any[][] = [];
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
     
     // Get all balls for this innings
-    const inningsBalls = match.balls.filter(b => this.getBallInnings(b, match) === innings);
+    const inningsBalls = match.balls.filter(b => CricketEngine.getBallInnings(b, match) === innings);
     console.log(`🏏 Total balls in innings ${innings} for bowling:`, inningsBalls.length);
     
     bowlingTeam.players.forEach((player: any) => {
@@ -498,17 +640,18 @@ export class PDFService {
       // Calculate per-over stats for maidens
       const overStats = new Map<number, { runs: number, balls: number }>();
 
-      playerBalls.forEach((ball: any) => {
-        runs += ball.runs;
+      playerBalls.forEach((ball: Ball) => {
+        const bowlerRuns = CricketEngine.getBowlerRuns(ball);
+        runs += bowlerRuns;
         
         if (!ball.isWide && !ball.isNoBall) {
           ballsBowled++;
-          if (ball.runs === 0) dots++;
+          if (bowlerRuns === 0) dots++;
         }
         
         if (ball.isWicket && ball.wicketType !== 'run_out') wickets++;
-        if (ball.runs === 4) fours++;
-        if (ball.runs === 6) sixes++;
+        if (CricketEngine.getBatRuns(ball) === 4) fours++;
+        if (CricketEngine.getBatRuns(ball) === 6) sixes++;
 
         // Track over stats for maiden calculation
         const overKey = ball.overNumber;
@@ -516,7 +659,7 @@ export class PDFService {
           overStats.set(overKey, { runs: 0, balls: 0 });
         }
         const overStat = overStats.get(overKey)!;
-        overStat.runs += ball.runs;
+        overStat.runs += bowlerRuns;
         if (!ball.isWide && !ball.isNoBall) {
           overStat.balls++;
         }
@@ -524,15 +667,15 @@ export class PDFService {
 
       // Count maiden overs
       overStats.forEach(stat => {
-        if (stat.balls === 6 && stat.runs === 0) {
+        if (stat.balls === ballsPerOver && stat.runs === 0) {
           maidens++;
         }
       });
 
-      const overs = Math.floor(ballsBowled / 6);
-      const remainingBalls = ballsBowled % 6;
+      const overs = Math.floor(ballsBowled / ballsPerOver);
+      const remainingBalls = ballsBowled % ballsPerOver;
       const oversStr = remainingBalls > 0 ? `${overs}.${remainingBalls}` : overs.toString();
-      const economy = ballsBowled > 0 ? ((runs / ballsBowled) * 6).toFixed(2) : '0.00';
+      const economy = CricketEngine.calculateRunRate(runs, ballsBowled, ballsPerOver);
 
       bowlingData.push([
         player.name,
@@ -594,6 +737,7 @@ export class PDFService {
 
   private static getPlayerPerformanceDetails(match: Match, player: any): any {
     const allBalls = match.balls;
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
     const battingBalls = allBalls.filter(b => b.striker.id === player.id);
     const bowlingBalls = allBalls.filter(b => b.bowler.id === player.id);
     const fieldingWickets = allBalls.filter(b => 
@@ -608,16 +752,11 @@ export class PDFService {
 
     // Batting performance
     if (battingBalls.length > 0) {
-      const runs = battingBalls.reduce((sum, ball) => {
-        if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-          return sum + ball.runs;
-        }
-        return sum;
-      }, 0);
+      const runs = battingBalls.reduce((sum, ball) => sum + CricketEngine.getBatRuns(ball), 0);
       
-      const ballsFaced = battingBalls.filter(b => !b.isWide && !b.isNoBall).length;
-      const fours = battingBalls.filter(b => b.runs === 4).length;
-      const sixes = battingBalls.filter(b => b.runs === 6).length;
+      const ballsFaced = battingBalls.filter(b => CricketEngine.isBallFaced(b)).length;
+      const fours = battingBalls.filter(b => CricketEngine.getBatRuns(b) === 4).length;
+      const sixes = battingBalls.filter(b => CricketEngine.getBatRuns(b) === 6).length;
       const strikeRate = ballsFaced > 0 ? ((runs / ballsFaced) * 100).toFixed(1) : '0.0';
       
       battingPerformance = `${runs}${runs >= 50 ? '*' : ''} (${ballsFaced}b, ${fours}×4, ${sixes}×6, SR: ${strikeRate})`;
@@ -625,13 +764,13 @@ export class PDFService {
 
     // Bowling performance
     if (bowlingBalls.length > 0) {
-      const runs = bowlingBalls.reduce((sum, ball) => sum + ball.runs, 0);
+      const runs = bowlingBalls.reduce((sum, ball) => sum + CricketEngine.getBowlerRuns(ball), 0);
       const ballsBowled = bowlingBalls.filter(b => !b.isWide && !b.isNoBall).length;
       const wickets = bowlingBalls.filter(b => b.isWicket && b.wicketType !== 'run_out').length;
-      const overs = Math.floor(ballsBowled / 6);
-      const remainingBalls = ballsBowled % 6;
+      const overs = Math.floor(ballsBowled / ballsPerOver);
+      const remainingBalls = ballsBowled % ballsPerOver;
       const oversStr = remainingBalls > 0 ? `${overs}.${remainingBalls}` : overs.toString();
-      const economy = ballsBowled > 0 ? ((runs / ballsBowled) * 6).toFixed(2) : '0.00';
+      const economy = CricketEngine.calculateRunRate(runs, ballsBowled, ballsPerOver);
       
       bowlingPerformance = `${wickets}/${runs} (${oversStr} overs, Econ: ${economy})`;
     }
@@ -664,12 +803,15 @@ export class PDFService {
 
   private static getDismissalInfo(match: Match, player: any, innings: number): string {
     const wicketBall = match.balls.find(b => 
-      b.isWicket && b.striker.id === player.id && this.getBallInnings(b, match) === innings
+      CricketEngine.getDismissedPlayer(b)?.id === player.id && CricketEngine.getBallInnings(b, match) === innings
     );
     
-    if (!wicketBall) return 'not out';
+    if (wicketBall) return this.getWicketType(wicketBall);
+
+    const retirement = CricketEngine.getActiveRetirement(match, player.id, innings);
+    if (retirement) return retirement.type === 'retired_hurt' ? 'retired hurt' : 'retired out';
     
-    return this.getWicketType(wicketBall);
+    return 'not out';
   }
 
   private static getWicketType(ball: any): string {
@@ -686,11 +828,113 @@ export class PDFService {
         return `st ${ball.wicketFielder?.name || ball.fielder?.name || ''} b ${ball.bowler.name}`;
       case 'hit_wicket':
         return `hit wicket b ${ball.bowler.name}`;
+      case 'retired_out':
+        return 'retired out';
       default:
         return 'out';
     }
   }
 
+  // Knockout bracket of a tournament on one landscape page, rounds left to right
+  static async generateBracketPDF(tournament: Tournament, matches: Match[] = []): Promise<Blob> {
+    const stage = tournament.knockout;
+    if (!stage) throw new Error('This tournament has no knockout stage');
+
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const pageWidth = doc.internal.pageSize.width;
+    const rounds = KnockoutBracket.getRoundCount(stage);
+    const columnWidth = (pageWidth - 28) / rounds;
+    const boxWidth = columnWidth - 12;
+    const boxHeight = 14;
+    const top = 40;
+    const height = 150;
+
+    doc.setFontSize(18);
+    doc.setTextColor(0, 0, 0);
+    doc.text(tournament.name.toUpperCase(), pageWidth / 2, 15, { align: 'center' });
+    doc.setFontSize(10);
+    doc.setTextColor(100, 100, 100);
+    const championId = KnockoutBracket.getChampionId(stage);
+    const champion = championId ? TournamentService.getTeam(tournament, championId)?.name : undefined;
+    doc.text(
+      `${champion ? `Champions: ${champion}` : 'Knockout bracket'} • Ties settled by ${TIE_BREAK_LABELS[stage.tieBreak].toLowerCase()}`,
+      pageWidth / 2, 22, { align: 'center' }
+    );
+
+    const getCenter = (round: number, position: number) => {
+      const count = stage.fixtures.filter(f => f.round === round).length;
+      return top + ((position + 0.5) * height) / count;
+    };
+
+    for (let round = 1; round <= rounds; round++) {
+      const x = 14 + (round - 1) * columnWidth;
+      doc.setFontSize(10);
+      doc.setTextColor(0, 0, 0);
+      doc.text(KnockoutBracket.getRoundName(stage, round), x + boxWidth / 2, top - 6, { align: 'center' });
+
+      stage.fixtures.filter(f => f.round === round).forEach(fixture => {
+        const center = getCenter(round, fixture.position);
+        const boxTop = center - boxHeight / 2;
+        doc.setDrawColor(156, 163, 175);
+        doc.rect(x, boxTop, boxWidth, boxHeight);
+        doc.line(x, center, x + boxWidth, center);
+
+        [fixture.team1Id, fixture.team2Id].forEach((teamId, index) => {
+          const isWinner = !!teamId && teamId === fixture.winnerId;
+          const seed = teamId ? KnockoutBracket.getSeed(stage, teamId) : undefined;
+          const name = teamId
+            ? `${seed ? `(${seed}) ` : ''}${TournamentService.getTeam(tournament, teamId)?.name || ''}`
+            : round === 1 ? 'Bye' : 'TBD';
+          doc.setFont('helvetica', isWinner ? 'bold' : 'normal');
+          doc.setFontSize(8);
+          doc.setTextColor(isWinner ? 22 : 60, isWinner ? 101 : 60, isWinner ? 52 : 60);
+          doc.text(name, x + 2, boxTop + 5 + index * 7, { maxWidth: boxWidth - 4 });
+        });
+        doc.setFont('helvetica', 'normal');
+
+        const match = matches.find(m => m.id === fixture.matchId);
+        const note = match?.isCompleted
+          ? CricketEngine.getMatchResult(match) + (fixture.decidedBy === 'tie_break' ? ' (tie-break)' : '')
+          : '';
+        if (note) {
+          doc.setFontSize(6);
+          doc.setTextColor(100, 100, 100);
+          doc.text(note, x, boxTop + boxHeight + 4, { maxWidth: boxWidth });
+        }
+
+        // Join the fixture to the one its winner goes on to
+        if (round < rounds) {
+          const nextCenter = getCenter(round + 1, Math.floor(fixture.position / 2));
+          const midX = x + boxWidth + 6;
+          doc.setDrawColor(156, 163, 175);
+          doc.line(x + boxWidth, center, midX, center);
+          doc.line(midX, center, midX, nextCenter);
+          doc.line(midX, nextCenter, x + columnWidth, nextCenter);
+        }
+      });
+    }
+
+    this.addFooter(doc);
+    return doc.output('blob');
+  }
+
+  static async downloadBracket(tournament: Tournament, matches: Match[] = []): Promise<void> {
+    try {
+      const blob = await this.generateBracketPDF(tournament, matches);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${tournament.name.replace(/\s+/g, '_')}_bracket.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export bracket:', error);
+      throw error;
+    }
+  }
+
   // Keep existing methods for backward compatibility
   static async generateScoreboardPDF(match: Match): Promise<Blob> {
     return this.generateDetailedScorecard(match);
@@ -729,6 +973,7 @@ export class PDFService {
   static async shareToWhatsApp(match: Match): Promise<void> {
     try {
       const result = match.isCompleted ? CricketEngine.getMatchResult(match) : 'Match in progress';
+      const situation = MatchAnalytics.getSituationText(match);
       
       const text = `🏏 CRICKET MATCH SCORECARD\n\n` +
         `${match.team1.name} vs ${match.team2.name}\n\n` +
@@ -736,6 +981,7 @@ export class PDFService {
         `${match.team1.name}: ${match.team1.score}/${match.team1.wickets} (${match.team1.overs}.${match.team1.balls})\n` +
         `${match.team2.name}: ${match.team2.score}/${match.team2.wickets} (${match.team2.overs}.${match.team2.balls})\n\n` +
         `🏆 RESULT: ${result}\n\n` +
+        `${situation ? `📈 ${situation}\n\n` : ''}` +
         `🎯 Toss: ${match.tossWinner} elected to ${match.tossDecision === 'bat' ? 'bat first' : 'bowl first'}\n\n` +
         `${match.manOfTheMatch ? `⭐ Man of the Match: ${match.manOfTheMatch.name}\n\n` : ''}` +
         `📱 Generated by ScoreWise Cricket Scorer`;
@@ -0,0 +1,235 @@
+import { Ball, Match, Player, WicketType } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+import { MatchReducer } from './matchReducer';
+
+// Compact text notation for scoring without the tap-through modals, e.g.
+//
+//   1  4  .  2lb  3b  wd  wd+1  nb  nb4        runs, dots and extras
+//   W b  |  W lbw  |  W c Rahul  |  W st Dhoni  |  W c&b  |  W hw
+//   ro ns 1 Rahul                               run out: end, runs completed, fielder
+//
+// Deliveries are separated by commas, semicolons, new lines or "|". Plain
+// runs and extras can also be separated by spaces, so a whole over from a
+// paper scoresheet reads "1 . 4 wd 2lb 6". A wicket runs to the end of its
+// entry, so anything after one needs a comma: "1 . 4 W c Rahul, 2 1".
+
+export const NOTATION_EXAMPLES = '1, 4, ., 2lb, wd+1, nb4, W c Rahul, ro ns 1';
+
+export interface ParsedDelivery {
+  text: string; // As typed, for error messages and for handing back unscored input
+  runs: number; // Runs taken or off the bat, without any wide or no-ball penalty
+  extra?: 'wide' | 'noBall' | 'bye' | 'legBye';
+  wicketType?: WicketType;
+  runOutEnd?: 'striker' | 'nonStriker';
+  fielderName?: string;
+  caughtAndBowled?: boolean;
+}
+
+export interface NotationResult {
+  match: Match;
+  scored: number;
+  remaining: string; // Deliveries not scored yet, in notation
+  stoppedFor?: string; // Why scoring stopped early, e.g. a new batter is needed
+}
+
+const DISMISSAL_WORDS: Record<string, WicketType> = {
+  b: 'bowled',
+  bowled: 'bowled',
+  c: 'caught',
+  ct: 'caught',
+  caught: 'caught',
+  lbw: 'lbw',
+  st: 'stumped',
+  stumped: 'stumped',
+  hw: 'hit_wicket',
+  hitwicket: 'hit_wicket',
+  ro: 'run_out',
+  runout: 'run_out'
+};
+
+const END_WORDS: Record<string, 'striker' | 'nonStriker'> = {
+  s: 'striker',
+  striker: 'striker',
+  ns: 'nonStriker',
+  nonstriker: 'nonStriker',
+  'non-striker': 'nonStriker'
+};
+
+export class ScoringNotation {
+  // Throws an Error naming the first entry that could not be read
+  static parse(input: string): ParsedDelivery[] {
+    const deliveries: ParsedDelivery[] = [];
+
+    input.split(/[,;|\n]+/).map(chunk => chunk.trim()).filter(Boolean).forEach(chunk => {
+      const tokens = chunk.replace(/run\s*out/gi, 'ro').replace(/hit\s*wicket/gi, 'hw').split(/\s+/);
+      const wicketAt = tokens.findIndex(token => /^(w|wkt|ro)$/i.test(token));
+      const simple = wicketAt === -1 ? tokens : tokens.slice(0, wicketAt);
+
+      simple.forEach(token => deliveries.push(this.parseToken(token)));
+      if (wicketAt !== -1) {
+        deliveries.push(this.parseWicket(tokens.slice(wicketAt)));
+      }
+    });
+
+    if (deliveries.length === 0) {
+      throw new Error(`Nothing to score. Try ${NOTATION_EXAMPLES}`);
+    }
+    return deliveries;
+  }
+
+  // Score parsed deliveries one after another. Scoring stops where the
+  // scorer has to choose someone - a new batter or the next bowler - or the
+  // innings ends; whatever is left is handed back to enter afterwards.
+  static score(match: Match, deliveries: ParsedDelivery[]): NotationResult {
+    let current = match;
+    let scored = 0;
+    let stoppedFor: string | undefined;
+
+    for (const delivery of deliveries) {
+      stoppedFor = this.getStopReason(current);
+      if (stoppedFor) break;
+
+      try {
+        current = MatchReducer.scoreBall(current, this.toBall(delivery, current));
+      } catch (error) {
+        stoppedFor = error instanceof Error ? error.message : String(error);
+        break;
+      }
+      scored++;
+    }
+
+    const remaining = deliveries.slice(scored).map(d => d.text).join(', ');
+    return { match: current, scored, remaining, stoppedFor: remaining ? stoppedFor : undefined };
+  }
+
+  static toBall(delivery: ParsedDelivery, match: Match): Ball {
+    if (!match.currentStriker || !match.currentBowler) {
+      throw new Error('Pick the batters and bowler before scoring');
+    }
+
+    const { runs, extra, wicketType } = delivery;
+    if (wicketType && !CricketEngine.isDismissalAllowed(match, wicketType)) {
+      throw new Error(`"${delivery.text}": this ball is a free hit - only a run out counts`);
+    }
+
+    let dismissedPlayer: Player | undefined;
+    if (wicketType) {
+      if (delivery.runOutEnd === 'nonStriker') {
+        if (!match.currentNonStriker) {
+          throw new Error(`"${delivery.text}": there is no non-striker to run out`);
+        }
+        dismissedPlayer = match.currentNonStriker;
+      } else {
+        dismissedPlayer = match.currentStriker;
+      }
+    }
+
+    const penalty = extra === 'wide' ? CricketEngine.getWideRuns(match) : extra === 'noBall' ? CricketEngine.getNoBallRuns(match) : 0;
+    return CricketEngine.createBall(match, {
+      runs: runs + penalty,
+      batRuns: extra === 'noBall' ? runs : undefined,
+      isWide: extra === 'wide',
+      isNoBall: extra === 'noBall',
+      isBye: extra === 'bye',
+      isLegBye: extra === 'legBye',
+      isWicket: !!wicketType,
+      wicketType,
+      fielder: delivery.caughtAndBowled ? match.currentBowler : this.findFielder(delivery, match),
+      dismissedPlayer
+    });
+  }
+
+  // The scorer has to act before another ball can be scored
+  private static getStopReason(match: Match): string | undefined {
+    if (CricketEngine.isInningsComplete(match)) return 'The innings is over';
+    const outgoing = CricketEngine.getBatterToReplace(match);
+    if (outgoing) return `Choose the batter replacing ${outgoing.name}`;
+    if (!match.currentBowler) return 'Choose the bowler for the next over';
+    if (!match.currentStriker) return 'Choose the batters at the crease';
+    return undefined;
+  }
+
+  private static parseToken(token: string): ParsedDelivery {
+    const text = token;
+    const t = token.toLowerCase();
+    let match: RegExpMatchArray | null;
+
+    if (t === '.' || t === 'dot') return { text, runs: 0 };
+    if ((match = t.match(/^(\d)$/))) return { text, runs: this.toRuns(match[1], text) };
+
+    // Wides: wd, wd+1, wd1, 1wd
+    if ((match = t.match(/^wd\+?(\d)?$/) || t.match(/^(\d)wd$/))) {
+      return { text, runs: match[1] ? this.toRuns(match[1], text) : 0, extra: 'wide' };
+    }
+    // No-balls, with runs off the bat: nb, nb4, nb+4, 4nb
+    if ((match = t.match(/^nb\+?(\d)?$/) || t.match(/^(\d)nb$/))) {
+      return { text, runs: match[1] ? this.toRuns(match[1], text) : 0, extra: 'noBall' };
+    }
+    // Byes and leg byes: b, 2b, b2, lb, 2lb, lb2
+    if (/^(\d?(lb|b)|(lb|b)\d)$/.test(t)) {
+      const digit = t.match(/\d/)?.[0];
+      const runs = digit ? this.toRuns(digit, text) : 1;
+      if (runs === 0) throw new Error(`"${text}": byes and leg byes need at least one run`);
+      return { text, runs, extra: t.includes('lb') ? 'legBye' : 'bye' };
+    }
+
+    throw new Error(`Couldn't read "${text}". Try ${NOTATION_EXAMPLES}`);
+  }
+
+  // W [how] [fielder], or ro [s|ns] [runs] [fielder]
+  private static parseWicket(words: string[]): ParsedDelivery {
+    const text = words.join(' ');
+    if (/^(w|wkt)$/i.test(words[0])) words = words.slice(1);
+
+    const how = (words.shift() || 'b').toLowerCase();
+    if (how === 'c&b' || how === 'cb') {
+      return { text, runs: 0, wicketType: 'caught', caughtAndBowled: true };
+    }
+
+    const wicketType = DISMISSAL_WORDS[how];
+    if (!wicketType) {
+      throw new Error(`"${text}": unknown dismissal "${how}". Use b, c, lbw, st, hw, c&b or ro`);
+    }
+
+    let runs = 0;
+    let runOutEnd: 'striker' | 'nonStriker' | undefined;
+    if (wicketType === 'run_out') {
+      runOutEnd = 'striker';
+      if (words.length && END_WORDS[words[0].toLowerCase()]) {
+        runOutEnd = END_WORDS[words.shift()!.toLowerCase()];
+      }
+      if (words.length && /^\d$/.test(words[0])) {
+        runs = this.toRuns(words.shift()!, text);
+      }
+    }
+
+    const fielderName = words.join(' ').trim() || undefined;
+    if (fielderName && (wicketType === 'bowled' || wicketType === 'lbw' || wicketType === 'hit_wicket')) {
+      throw new Error(`"${text}": no fielder is involved in a ${wicketType.replace('_', ' ')} dismissal`);
+    }
+    return { text, runs, wicketType, runOutEnd, fielderName };
+  }
+
+  private static toRuns(digit: string, text: string): number {
+    const runs = parseInt(digit, 10);
+    if (runs > 7) throw new Error(`"${text}": no more than 7 runs can come off one ball`);
+    return runs;
+  }
+
+  // Fielder by name from the bowling side: an exact match, or a unique partial one
+  private static findFielder(delivery: ParsedDelivery, match: Match): Player | undefined {
+    if (!delivery.fielderName) return undefined;
+
+    const name = delivery.fielderName.toLowerCase();
+    const fielders = match.bowlingTeam.players;
+    const exact = fielders.find(p => p.name.toLowerCase() === name);
+    if (exact) return exact;
+
+    const partial = fielders.filter(p => p.name.toLowerCase().includes(name));
+    if (partial.length === 1) return partial[0];
+    if (partial.length > 1) {
+      throw new Error(`"${delivery.text}": "${delivery.fielderName}" could be ${partial.map(p => p.name).join(' or ')}`);
+    }
+    throw new Error(`"${delivery.text}": no fielder called "${delivery.fielderName}" in ${match.bowlingTeam.name}`);
+  }
+}
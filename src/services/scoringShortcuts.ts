@@ -0,0 +1,112 @@
+import { ScoringAction, ScoringKeyBindings, User } from '../types/auth';
+
+export const DEFAULT_KEY_BINDINGS: ScoringKeyBindings = {
+  run_0: '0',
+  run_1: '1',
+  run_2: '2',
+  run_3: '3',
+  run_4: '4',
+  run_6: '6',
+  wide: 'W',
+  no_ball: 'N',
+  bye: 'B',
+  leg_bye: 'L',
+  bowled: 'Shift+B',
+  caught: 'Shift+C',
+  lbw: 'Shift+L',
+  run_out: 'Shift+R',
+  stumped: 'Shift+S',
+  hit_wicket: 'Shift+H',
+  type_balls: 'T',
+  undo: 'U',
+  redo: 'Y',
+  swap_strike: 'S',
+  change_bowler: 'O',
+  shortcut_help: '?'
+};
+
+// Actions in the order the cheat sheet lists them
+export const SCORING_ACTIONS: { action: ScoringAction; label: string; group: 'Runs' | 'Extras' | 'Wickets' | 'Match' }[] = [
+  { action: 'run_0', label: 'Dot ball', group: 'Runs' },
+  { action: 'run_1', label: '1 run', group: 'Runs' },
+  { action: 'run_2', label: '2 runs', group: 'Runs' },
+  { action: 'run_3', label: '3 runs', group: 'Runs' },
+  { action: 'run_4', label: 'Four', group: 'Runs' },
+  { action: 'run_6', label: 'Six', group: 'Runs' },
+  { action: 'wide', label: 'Wide', group: 'Extras' },
+  { action: 'no_ball', label: 'No ball', group: 'Extras' },
+  { action: 'bye', label: 'Bye', group: 'Extras' },
+  { action: 'leg_bye', label: 'Leg bye', group: 'Extras' },
+  { action: 'bowled', label: 'Bowled', group: 'Wickets' },
+  { action: 'caught', label: 'Caught', group: 'Wickets' },
+  { action: 'lbw', label: 'LBW', group: 'Wickets' },
+  { action: 'run_out', label: 'Run out', group: 'Wickets' },
+  { action: 'stumped', label: 'Stumped', group: 'Wickets' },
+  { action: 'hit_wicket', label: 'Hit wicket', group: 'Wickets' },
+  { action: 'type_balls', label: 'Type balls', group: 'Match' },
+  { action: 'undo', label: 'Undo', group: 'Match' },
+  { action: 'redo', label: 'Redo', group: 'Match' },
+  { action: 'swap_strike', label: 'Swap strike', group: 'Match' },
+  { action: 'change_bowler', label: 'Change bowler', group: 'Match' },
+  { action: 'shortcut_help', label: 'Show shortcuts', group: 'Match' }
+];
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+export class ScoringShortcuts {
+  // On unless the user has turned them off in their match settings
+  static isEnabled(user: User | null): boolean {
+    return user?.preferences?.matchSettings?.scoringShortcuts !== false;
+  }
+
+  static getBindings(user: User | null): ScoringKeyBindings {
+    return { ...DEFAULT_KEY_BINDINGS, ...(user?.preferences?.matchSettings?.scoringKeyBindings || {}) };
+  }
+
+  // A key press in the form bindings are written in, e.g. "4", "W", "Shift+C".
+  // Shift is already part of symbols like "?", so it is only named for
+  // letters and named keys.
+  static getKey(event: KeyboardEvent): string | null {
+    if (MODIFIER_KEYS.includes(event.key)) return null;
+
+    const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+    const parts: string[] = [];
+    if (event.ctrlKey || event.metaKey) parts.push('Ctrl');
+    if (event.altKey) parts.push('Alt');
+    if (event.shiftKey && (/^[A-Z]$/.test(key) || event.key.length > 1)) parts.push('Shift');
+    parts.push(key);
+    return parts.join('+');
+  }
+
+  // The action for a key press, unless it is going into a text field
+  static getAction(event: KeyboardEvent, bindings: ScoringKeyBindings): ScoringAction | null {
+    if (event.defaultPrevented || event.repeat || this.isTypingTarget(event.target)) return null;
+
+    const key = this.getKey(event);
+    if (!key) return null;
+    const entry = (Object.entries(bindings) as [ScoringAction, string][]).find(([, bound]) => bound === key);
+    return entry ? entry[0] : null;
+  }
+
+  static isTypingTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+  }
+
+  // Give an action a new key. An action already on that key takes the old
+  // one, so no key ever does two things.
+  static rebind(bindings: ScoringKeyBindings, action: ScoringAction, key: string): ScoringKeyBindings {
+    const updated = { ...bindings };
+    const clash = (Object.keys(updated) as ScoringAction[]).find(a => a !== action && updated[a] === key);
+    if (clash) updated[clash] = bindings[action];
+    updated[action] = key;
+    return updated;
+  }
+
+  // Only the keys that differ from the defaults are saved
+  static getOverrides(bindings: ScoringKeyBindings): Partial<ScoringKeyBindings> {
+    return (Object.keys(bindings) as ScoringAction[])
+      .filter(action => bindings[action] !== DEFAULT_KEY_BINDINGS[action])
+      .reduce((overrides, action) => ({ ...overrides, [action]: bindings[action] }), {} as Partial<ScoringKeyBindings>);
+  }
+}
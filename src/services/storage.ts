@@ -1,12 +1,12 @@
-import { Match, Player } from '../types/cricket';
-import { User, Group, Invitation } from '../types/auth';
+import { GroupTeam, Match, Player, Tournament } from '../types/cricket';
+import { User, Group, Invitation, UserStatistics } from '../types/auth';
 // Import sync services but avoid circular dependency
 let autoSyncService: any = null;
 let realTimeSyncService: any = null;
 let enhancedSyncService: any = null;
 
 const DB_NAME = 'CricketScorerDB';
-const DB_VERSION = 6; // Increment version to fix group indexing issues
+const DB_VERSION = 8; // Adds the group teams store
 const BACKUP_KEY = 'cricket_scorer_backup';
 const AUTO_BACKUP_INTERVAL = 15 * 60 * 1000; // 15 minutes - reduced frequency to prevent crashes
 
@@ -171,6 +171,18 @@ class StorageService {
               db.createObjectStore('settings', { keyPath: 'key' });
             }
 
+            // Create tournaments store
+            if (!db.objectStoreNames.contains('tournaments')) {
+              const tournamentsStore = db.createObjectStore('tournaments', { keyPath: 'id' });
+              tournamentsStore.createIndex('groupId', 'groupId', { unique: false });
+            }
+
+            // Create group teams store
+            if (!db.objectStoreNames.contains('groupTeams')) {
+              const groupTeamsStore = db.createObjectStore('groupTeams', { keyPath: 'id' });
+              groupTeamsStore.createIndex('groupId', 'groupId', { unique: false });
+            }
+
             console.log('✅ Database schema upgrade completed');
           } catch (upgradeError) {
             console.error('❌ Database upgrade failed:', upgradeError);
@@ -806,6 +818,136 @@ class StorageService {
     };
   }
 
+  // Tournament methods
+  async saveTournament(tournament: Tournament): Promise<void> {
+    this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tournaments'], 'readwrite');
+      const store = transaction.objectStore('tournaments');
+      const request = store.put(tournament);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        if (enhancedSyncService) {
+          enhancedSyncService.autoSyncTournament(tournament);
+        } else if (autoSyncService) {
+          autoSyncService.autoSyncTournament(tournament);
+        }
+        resolve();
+      };
+    });
+  }
+
+  async getTournament(id: string): Promise<Tournament | null> {
+    this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tournaments'], 'readonly');
+      const store = transaction.objectStore('tournaments');
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || null);
+    });
+  }
+
+  async getGroupTournaments(groupId: string): Promise<Tournament[]> {
+    return this.withMobileErrorHandling(async () => {
+      this.ensureDbReady();
+
+      return new Promise<Tournament[]>((resolve, reject) => {
+        const transaction = this.db!.transaction(['tournaments'], 'readonly');
+        const index = transaction.objectStore('tournaments').index('groupId');
+        const request = index.getAll(groupId);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const tournaments: Tournament[] = request.result || [];
+          resolve(tournaments.sort((a, b) => b.createdAt - a.createdAt));
+        };
+      });
+    }, `getGroupTournaments(${groupId})`, []);
+  }
+
+  async getAllTournaments(): Promise<Tournament[]> {
+    this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tournaments'], 'readonly');
+      const store = transaction.objectStore('tournaments');
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || []);
+    });
+  }
+
+  // Group team methods
+  async saveGroupTeam(team: GroupTeam): Promise<void> {
+    this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['groupTeams'], 'readwrite');
+      const store = transaction.objectStore('groupTeams');
+      const request = store.put(team);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        if (enhancedSyncService) {
+          enhancedSyncService.autoSyncGroupTeam(team);
+        } else if (autoSyncService) {
+          autoSyncService.autoSyncGroupTeam(team);
+        }
+        resolve();
+      };
+    });
+  }
+
+  async getGroupTeam(id: string): Promise<GroupTeam | null> {
+    this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['groupTeams'], 'readonly');
+      const store = transaction.objectStore('groupTeams');
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || null);
+    });
+  }
+
+  async getGroupTeams(groupId: string): Promise<GroupTeam[]> {
+    return this.withMobileErrorHandling(async () => {
+      this.ensureDbReady();
+
+      return new Promise<GroupTeam[]>((resolve, reject) => {
+        const transaction = this.db!.transaction(['groupTeams'], 'readonly');
+        const index = transaction.objectStore('groupTeams').index('groupId');
+        const request = index.getAll(groupId);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const teams: GroupTeam[] = request.result || [];
+          resolve(teams.sort((a, b) => a.name.localeCompare(b.name)));
+        };
+      });
+    }, `getGroupTeams(${groupId})`, []);
+  }
+
+  async getAllGroupTeams(): Promise<GroupTeam[]> {
+    this.ensureDbReady();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['groupTeams'], 'readonly');
+      const store = transaction.objectStore('groupTeams');
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || []);
+    });
+  }
+
   // Invitation methods
   async saveInvitation(invitation: Invitation): Promise<void> {
     this.ensureDbReady();
@@ -838,9 +980,9 @@ class StorageService {
     this.ensureDbReady();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['players', 'matches', 'users', 'groups', 'invitations', 'settings'], 'readwrite');
+      const transaction = this.db!.transaction(['players', 'matches', 'users', 'groups', 'invitations', 'settings', 'tournaments', 'groupTeams'], 'readwrite');
       
-      const stores = ['players', 'matches', 'users', 'groups', 'invitations', 'settings'];
+      const stores = ['players', 'matches', 'users', 'groups', 'invitations', 'settings', 'tournaments', 'groupTeams'];
       let completed = 0;
       
       stores.forEach(storeName => {
@@ -865,12 +1007,16 @@ class StorageService {
     const matches = await this.getAllMatches();
     const users = await this.getAllUsers();
     const groups = await this.getAllGroups();
+    const tournaments = await this.getAllTournaments();
+    const groupTeams = await this.getAllGroupTeams();
     
     return JSON.stringify({
       players,
       matches,
       users,
       groups,
+      tournaments,
+      groupTeams,
       exportDate: new Date().toISOString()
     }, null, 2);
   }
@@ -902,6 +1048,18 @@ class StorageService {
           await this.saveGroup(group);
         }
       }
+
+      if (data.tournaments) {
+        for (const tournament of data.tournaments) {
+          await this.saveTournament(tournament);
+        }
+      }
+
+      if (data.groupTeams) {
+        for (const team of data.groupTeams) {
+          await this.saveGroupTeam(team);
+        }
+      }
     } catch (error) {
       throw new Error('Invalid import data format');
     }
@@ -1354,8 +1512,6 @@ class StorageService {
 
   // Ensure user has complete profile structure with defaults
   private ensureCompleteUserProfile(user: User): User {
-    const now = Date.now();
-    
     return {
       ...user,
       profile: user.profile || {
@@ -1363,41 +1519,7 @@ class StorageService {
         battingStyle: 'unknown',
         bowlingStyle: 'none'
       },
-      statistics: user.statistics || {
-        totalMatches: 0,
-        totalWins: 0,
-        totalLosses: 0,
-        totalDraws: 0,
-        totalRuns: 0,
-        totalBallsFaced: 0,
-        highestScore: 0,
-        battingAverage: 0,
-        strikeRate: 0,
-        centuries: 0,
-        halfCenturies: 0,
-        fours: 0,
-        sixes: 0,
-        ducks: 0,
-        totalWickets: 0,
-        totalBallsBowled: 0,
-        totalRunsConceded: 0,
-        bestBowlingFigures: '0/0',
-        bowlingAverage: 0,
-        economyRate: 0,
-        maidenOvers: 0,
-        fiveWicketHauls: 0,
-        catches: 0,
-        runOuts: 0,
-        stumpings: 0,
-        manOfTheMatchAwards: 0,
-        manOfTheSeriesAwards: 0,
-        achievements: [],
-        recentMatches: [],
-        favoriteGroups: [],
-        lastUpdated: now,
-        performanceRating: 0,
-        consistency: 0
-      },
+      statistics: user.statistics || this.createEmptyUserStatistics(),
       preferences: user.preferences || {
         theme: 'auto',
         language: 'en',
@@ -1437,6 +1559,45 @@ class StorageService {
     };
   }
 
+  // Statistics for a user who has not played a match yet
+  private createEmptyUserStatistics(): UserStatistics {
+    return {
+      totalMatches: 0,
+      totalWins: 0,
+      totalLosses: 0,
+      totalDraws: 0,
+      totalRuns: 0,
+      totalBallsFaced: 0,
+      highestScore: 0,
+      battingAverage: 0,
+      strikeRate: 0,
+      centuries: 0,
+      halfCenturies: 0,
+      fours: 0,
+      sixes: 0,
+      ducks: 0,
+      totalWickets: 0,
+      totalBallsBowled: 0,
+      totalRunsConceded: 0,
+      bestBowlingFigures: '0/0',
+      bowlingAverage: 0,
+      economyRate: 0,
+      maidenOvers: 0,
+      fiveWicketHauls: 0,
+      catches: 0,
+      runOuts: 0,
+      stumpings: 0,
+      manOfTheMatchAwards: 0,
+      manOfTheSeriesAwards: 0,
+      achievements: [],
+      recentMatches: [],
+      favoriteGroups: [],
+      lastUpdated: Date.now(),
+      performanceRating: 0,
+      consistency: 0
+    };
+  }
+
   // Get all user groups with comprehensive data
   async getUserGroups(userId: string): Promise<Group[]> {
     this.ensureDbReady();
@@ -1526,6 +1687,36 @@ class StorageService {
     console.log('✅ User statistics updated successfully');
   }
 
+  // Replace user statistics with totals worked out from each match they played
+  async rebuildUserStatistics(userId: string, matchStats: any[]): Promise<void> {
+    this.ensureDbReady();
+
+    console.log(`📊 Rebuilding user statistics for ${userId} from ${matchStats.length} matches`);
+
+    const user = await this.getUser(userId);
+    if (!user) {
+      console.warn('User not found for statistics rebuild:', userId);
+      return;
+    }
+
+    const completeUser = this.ensureCompleteUserProfile(user);
+
+    // Awards and achievements are not derived from match scorecards, so they carry over
+    completeUser.statistics = matchStats.reduce(
+      (statistics, stats) => this.calculateUpdatedStatistics(statistics, stats),
+      {
+        ...this.createEmptyUserStatistics(),
+        manOfTheSeriesAwards: completeUser.statistics.manOfTheSeriesAwards,
+        achievements: completeUser.statistics.achievements,
+        favoriteGroups: completeUser.statistics.favoriteGroups
+      }
+    );
+    completeUser.statistics.lastUpdated = Date.now();
+
+    await this.saveUserProfile(completeUser);
+    console.log('✅ User statistics rebuilt successfully');
+  }
+
   // Calculate updated statistics
   private calculateUpdatedStatistics(current: any, matchStats: any): any {
     return {
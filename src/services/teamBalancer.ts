@@ -0,0 +1,243 @@
+import { Player, PlayerStats } from '../types/cricket';
+
+// Splitting the players who turned up into two even sides.
+//
+// Each player gets a rating from their career stats: batting from average
+// and strike rate, bowling from wickets per match and economy, with the
+// better of the two counting in full and the other at half so all-rounders
+// come out on top. Ratings are blended with a newcomer's rating until a
+// player has a few matches behind them. Sides are split greedily, strongest
+// first, then improved by moving and swapping players until no change brings
+// the totals closer without breaking a constraint.
+
+export interface PlayerRating {
+  playerId: string;
+  batting: number; // 0 to 100
+  bowling: number; // 0 to 100
+  overall: number; // 0 to 100
+  battingAverage: number;
+  strikeRate: number;
+  economy?: number; // Unset until the player has bowled
+  wicketsPerMatch: number;
+}
+
+export interface PairConstraint {
+  playerIds: [string, string];
+  type: 'together' | 'apart';
+}
+
+export interface BalanceConstraints {
+  pairs: PairConstraint[];
+  keeperIds: string[]; // With two or more, each side gets at least one
+}
+
+export interface BalancedSides {
+  team1: string[];
+  team2: string[];
+}
+
+export interface SideBalance {
+  team1Rating: number;
+  team2Rating: number;
+  score: number; // 100 when the sides are rated the same
+  issues: string[]; // Constraints the sides break
+}
+
+// Rating for a player with no matches yet, and how many matches of their own
+// stats count the same as it
+export const NEWCOMER_RATING = 40;
+const PRIOR_MATCHES = 3;
+
+// Broken constraints and uneven numbers weigh more than any rating gap
+const VIOLATION_COST = 1000;
+const MAX_IMPROVEMENT_PASSES = 50;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+export class TeamBalancer {
+  static getPlayerRating(player: Player): PlayerRating {
+    const stats: PlayerStats = player.stats;
+    const battingAverage = stats.timesOut > 0 ? stats.runsScored / stats.timesOut : stats.runsScored;
+    const strikeRate = stats.ballsFaced > 0 ? (stats.runsScored / stats.ballsFaced) * 100 : 0;
+    const economy = stats.ballsBowled > 0 ? (stats.runsConceded / stats.ballsBowled) * 6 : undefined;
+    const wicketsPerMatch = stats.matchesPlayed > 0 ? stats.wicketsTaken / stats.matchesPlayed : 0;
+
+    // An average of 40 and a strike rate of 150 earn full marks; so do two
+    // wickets a match and an economy of 4, with 12 an over earning none
+    const batting = 100 * (0.6 * clamp(battingAverage / 40) + 0.4 * clamp(strikeRate / 150));
+    const bowling = 100 * (0.5 * clamp(wicketsPerMatch / 2) + 0.5 * (economy === undefined ? 0 : clamp((12 - economy) / 8)));
+    const skill = (Math.max(batting, bowling) + 0.5 * Math.min(batting, bowling)) / 1.5;
+
+    const matches = stats.matchesPlayed;
+    const overall = (skill * matches + NEWCOMER_RATING * PRIOR_MATCHES) / (matches + PRIOR_MATCHES);
+
+    return { playerId: player.id, batting, bowling, overall, battingAverage, strikeRate, economy, wicketsPerMatch };
+  }
+
+  static getRatings(players: Player[]): Map<string, PlayerRating> {
+    return new Map(players.map(p => [p.id, this.getPlayerRating(p)]));
+  }
+
+  // Two sides as close in rating as the constraints allow, with sizes at most
+  // one apart
+  static proposeSides(players: Player[], constraints: BalanceConstraints): BalancedSides {
+    const ratings = this.getRatings(players);
+    const ids = players.map(p => p.id);
+    const units = this.getUnits(ids, constraints);
+    const unitRating = (unit: string[]) => unit.reduce((sum, id) => sum + (ratings.get(id)?.overall || 0), 0);
+
+    // Strongest groups first, each to the side it leaves better balanced
+    let sides: BalancedSides = { team1: [], team2: [] };
+    [...units]
+      .sort((a, b) => unitRating(b) - unitRating(a) || b.length - a.length)
+      .forEach(unit => {
+        const toTeam1 = { team1: [...sides.team1, ...unit], team2: sides.team2 };
+        const toTeam2 = { team1: sides.team1, team2: [...sides.team2, ...unit] };
+        sides = this.getCost(toTeam1, ids.length, ratings, constraints) <= this.getCost(toTeam2, ids.length, ratings, constraints)
+          ? toTeam1
+          : toTeam2;
+      });
+
+    // Move or swap whole groups while that lowers the cost
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      const cost = this.getCost(sides, ids.length, ratings, constraints);
+      const inTeam1 = units.filter(unit => sides.team1.includes(unit[0]));
+      const inTeam2 = units.filter(unit => sides.team2.includes(unit[0]));
+      const candidates: BalancedSides[] = [
+        ...inTeam1.map(unit => this.exchange(sides, unit, [])),
+        ...inTeam2.map(unit => this.exchange(sides, [], unit)),
+        ...inTeam1.flatMap(unit1 => inTeam2.map(unit2 => this.exchange(sides, unit1, unit2)))
+      ];
+
+      let best: BalancedSides | undefined;
+      let bestCost = cost;
+      candidates.forEach(candidate => {
+        const candidateCost = this.getCost(candidate, ids.length, ratings, constraints);
+        if (candidateCost < bestCost - 1e-9) {
+          best = candidate;
+          bestCost = candidateCost;
+        }
+      });
+      if (!best) break;
+      sides = best;
+    }
+
+    return sides;
+  }
+
+  // Put a player on the other side
+  static movePlayer(sides: BalancedSides, playerId: string): BalancedSides {
+    if (sides.team1.includes(playerId)) return this.exchange(sides, [playerId], []);
+    if (sides.team2.includes(playerId)) return this.exchange(sides, [], [playerId]);
+    return sides;
+  }
+
+  // Trade two players on opposite sides
+  static swapPlayers(sides: BalancedSides, playerId: string, otherId: string): BalancedSides {
+    const inTeam1 = sides.team1.includes(playerId);
+    if (inTeam1 === sides.team1.includes(otherId)) throw new Error('Only players on different sides can be swapped');
+    return inTeam1 ? this.exchange(sides, [playerId], [otherId]) : this.exchange(sides, [otherId], [playerId]);
+  }
+
+  static getBalance(sides: BalancedSides, players: Player[], constraints: BalanceConstraints): SideBalance {
+    const ratings = this.getRatings(players);
+    const team1Rating = this.getSideRating(sides.team1, ratings);
+    const team2Rating = this.getSideRating(sides.team2, ratings);
+    const total = team1Rating + team2Rating;
+    const name = (id: string) => players.find(p => p.id === id)?.name || 'A player';
+    const issues: string[] = [];
+
+    if (Math.abs(sides.team1.length - sides.team2.length) > 1) {
+      issues.push(`The sides have ${sides.team1.length} and ${sides.team2.length} players`);
+    }
+    this.getBrokenPairs(sides, constraints).forEach(pair => {
+      const [a, b] = pair.playerIds.map(name);
+      issues.push(pair.type === 'together' ? `${a} and ${b} should be on the same side` : `${a} and ${b} should be on different sides`);
+    });
+    if (!this.keepersSplit(sides, constraints)) {
+      issues.push('One side has no wicketkeeper');
+    }
+
+    return {
+      team1Rating,
+      team2Rating,
+      score: total > 0 ? Math.round(100 * (1 - Math.abs(team1Rating - team2Rating) / total)) : 100,
+      issues
+    };
+  }
+
+  // A side's players in batting order, best batters first
+  static getBattingOrder(playerIds: string[], players: Player[]): string[] {
+    const ratings = this.getRatings(players.filter(p => playerIds.includes(p.id)));
+    return [...playerIds].sort((a, b) => (ratings.get(b)?.batting || 0) - (ratings.get(a)?.batting || 0));
+  }
+
+  // "Avg 32.5 · SR 128 · Econ 7.2 · 1.4 wkts/match"
+  static describeRating(rating: PlayerRating): string {
+    const parts = [
+      `Avg ${rating.battingAverage.toFixed(1)}`,
+      `SR ${Math.round(rating.strikeRate)}`,
+      rating.economy !== undefined && `Econ ${rating.economy.toFixed(1)}`,
+      rating.economy !== undefined && `${rating.wicketsPerMatch.toFixed(1)} wkts/match`
+    ].filter(Boolean);
+    return parts.join(' · ');
+  }
+
+  static getSideRating(playerIds: string[], ratings: Map<string, PlayerRating>): number {
+    return playerIds.reduce((sum, id) => sum + (ratings.get(id)?.overall || 0), 0);
+  }
+
+  // Players who have to go together, joined through chains of "together"
+  // pairs; everyone else on their own
+  private static getUnits(ids: string[], constraints: BalanceConstraints): string[][] {
+    const parent = new Map(ids.map(id => [id, id]));
+    const find = (id: string): string => {
+      const root = parent.get(id)!;
+      return root === id ? id : find(root);
+    };
+
+    constraints.pairs
+      .filter(pair => pair.type === 'together' && pair.playerIds.every(id => parent.has(id)))
+      .forEach(pair => parent.set(find(pair.playerIds[0]), find(pair.playerIds[1])));
+
+    const units = new Map<string, string[]>();
+    ids.forEach(id => units.set(find(id), [...(units.get(find(id)) || []), id]));
+    return Array.from(units.values());
+  }
+
+  private static getCost(
+    sides: BalancedSides,
+    playerCount: number,
+    ratings: Map<string, PlayerRating>,
+    constraints: BalanceConstraints
+  ): number {
+    const sideSize = Math.ceil(playerCount / 2);
+    const overfull = Math.max(0, sides.team1.length - sideSize) + Math.max(0, sides.team2.length - sideSize);
+    const broken = this.getBrokenPairs(sides, constraints).length + (this.keepersSplit(sides, constraints) ? 0 : 1);
+    const gap = Math.abs(this.getSideRating(sides.team1, ratings) - this.getSideRating(sides.team2, ratings));
+    return (overfull + broken) * VIOLATION_COST + gap;
+  }
+
+  private static getBrokenPairs(sides: BalancedSides, constraints: BalanceConstraints): PairConstraint[] {
+    const sideOf = (id: string) => (sides.team1.includes(id) ? 1 : sides.team2.includes(id) ? 2 : 0);
+    return constraints.pairs.filter(pair => {
+      const [a, b] = pair.playerIds.map(sideOf);
+      if (!a || !b) return false;
+      return pair.type === 'together' ? a !== b : a === b;
+    });
+  }
+
+  // Whether each side has a keeper, when two or more are playing
+  private static keepersSplit(sides: BalancedSides, constraints: BalanceConstraints): boolean {
+    const keepers = constraints.keeperIds.filter(id => sides.team1.includes(id) || sides.team2.includes(id));
+    if (keepers.length < 2) return true;
+    return [sides.team1, sides.team2].every(side => side.some(id => keepers.includes(id)));
+  }
+
+  private static exchange(sides: BalancedSides, fromTeam1: string[], fromTeam2: string[]): BalancedSides {
+    return {
+      team1: [...sides.team1.filter(id => !fromTeam1.includes(id)), ...fromTeam2],
+      team2: [...sides.team2.filter(id => !fromTeam2.includes(id)), ...fromTeam1]
+    };
+  }
+}
@@ -0,0 +1,229 @@
+import { GroupTeam, Match, Player, Team } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+import { InningsAnalytics } from './inningsAnalytics';
+
+// Teams a group keeps from match to match: their squads, the side they put
+// out in a new match and their record across the group's matches.
+
+export type TeamOutcome = 'won' | 'lost' | 'tied' | 'drawn';
+
+// The players picked for a match, in the order they are planned to bat
+export interface Lineup {
+  playerIds: string[];
+  captainId?: string;
+  wicketkeeperId?: string;
+}
+
+export interface TeamTotal {
+  runs: number;
+  wickets: number;
+  opponentName: string;
+  matchId: string;
+  date: number;
+}
+
+export interface TeamRecord {
+  played: number; // Completed matches
+  won: number;
+  lost: number;
+  tied: number;
+  drawn: number;
+  highestTotal?: TeamTotal;
+}
+
+export interface HeadToHeadRow {
+  opponentName: string;
+  opponentId?: string; // Set when the opponent is one of the group's teams
+  played: number;
+  won: number;
+  lost: number;
+  tied: number;
+  drawn: number;
+}
+
+export class TeamService {
+  static createTeam(
+    name: string,
+    groupId: string,
+    playerIds: string[],
+    options: { captainId?: string; wicketkeeperId?: string; createdBy?: string } = {}
+  ): GroupTeam {
+    const now = Date.now();
+    return {
+      id: `group_team_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      groupId,
+      name: name.trim(),
+      playerIds: Array.from(new Set(playerIds)),
+      captainId: options.captainId,
+      wicketkeeperId: options.wicketkeeperId,
+      createdBy: options.createdBy,
+      createdAt: now,
+      lastModified: now
+    };
+  }
+
+  // A team needs a name no other team in the group has, and its captain and
+  // wicketkeeper have to be in the squad
+  static validateTeam(team: GroupTeam, teams: GroupTeam[]): void {
+    if (!team.name.trim()) throw new Error('Team name is required');
+    const clash = this.findTeam(teams, team.name);
+    if (clash && clash.id !== team.id) throw new Error(`There is already a team called ${clash.name}`);
+    if (team.captainId && !team.playerIds.includes(team.captainId)) {
+      throw new Error('The captain must be in the squad');
+    }
+    if (team.wicketkeeperId && !team.playerIds.includes(team.wicketkeeperId)) {
+      throw new Error('The wicketkeeper must be in the squad');
+    }
+  }
+
+  static findTeam(teams: GroupTeam[], name: string): GroupTeam | undefined {
+    const key = name.trim().toLowerCase();
+    return teams.find(t => t.name.trim().toLowerCase() === key);
+  }
+
+  // Whether a match side is this team: picked from it, or for matches scored
+  // before the team was saved, playing under its name
+  static isTeamSide(team: GroupTeam, side: Team | undefined): boolean {
+    if (!side) return false;
+    if (side.teamId) return side.teamId === team.id;
+    return side.name.trim().toLowerCase() === team.name.trim().toLowerCase();
+  }
+
+  // The side a team puts out in a new match, with the squad members found
+  // among the given players and its usual captain and wicketkeeper
+  static createMatchSide(team: GroupTeam, players: Player[]): Team {
+    const squad = team.playerIds
+      .map(id => players.find(p => p.id === id))
+      .filter((p): p is Player => !!p);
+    const inSquad = (id?: string) => (id && squad.some(p => p.id === id) ? id : undefined);
+
+    return {
+      name: team.name,
+      teamId: team.id,
+      players: squad,
+      captainId: inSquad(team.captainId),
+      wicketkeeperId: inSquad(team.wicketkeeperId),
+      score: 0,
+      wickets: 0,
+      overs: 0,
+      balls: 0,
+      extras: { byes: 0, legByes: 0, wides: 0, noBalls: 0 }
+    };
+  }
+
+  // The squad as first picked for a match: its first players up to the side's
+  // size, with the usual captain and keeper if they made it in
+  static getDefaultLineup(team: GroupTeam, playersPerTeam: number): Lineup {
+    const playerIds = team.playerIds.slice(0, playersPerTeam);
+    return {
+      playerIds,
+      captainId: team.captainId && playerIds.includes(team.captainId) ? team.captainId : undefined,
+      wicketkeeperId: team.wicketkeeperId && playerIds.includes(team.wicketkeeperId) ? team.wicketkeeperId : undefined
+    };
+  }
+
+  // A match side with its playing XI, batting order, captain and keeper
+  static applyLineup(side: Team, lineup: Lineup, players: Player[]): Team {
+    const picked = lineup.playerIds
+      .map(id => players.find(p => p.id === id))
+      .filter((p): p is Player => !!p);
+    const inSide = (id?: string) => (id && picked.some(p => p.id === id) ? id : undefined);
+
+    return {
+      ...side,
+      players: picked,
+      battingOrder: picked.length > 0 ? picked.map(p => p.id) : undefined,
+      captainId: inSide(lineup.captainId),
+      wicketkeeperId: inSide(lineup.wicketkeeperId)
+    };
+  }
+
+  // First player in the batting side's planned order who has not batted yet
+  // this innings
+  static getNextBatter(match: Match): Player | undefined {
+    const side = match.battingTeam;
+    if (!side.battingOrder?.length || match.isSuperOver) return undefined;
+    const { batted } = InningsAnalytics.getBattingLineup(match, CricketEngine.getCurrentInningsNumber(match));
+
+    return side.battingOrder
+      .filter(id => !batted.some(p => p.id === id))
+      .map(id => side.players.find(p => p.id === id))
+      .find((p): p is Player => !!p);
+  }
+
+  // " (c)", " (wk)" or " (c & wk)" after a name on the scorecard
+  static getRoleMarker(side: Team, playerId: string): string {
+    const roles = [
+      side.captainId === playerId && 'c',
+      side.wicketkeeperId === playerId && 'wk'
+    ].filter(Boolean);
+    return roles.length > 0 ? ` (${roles.join(' & ')})` : '';
+  }
+
+  // Completed matches the team played in, latest first
+  static getTeamMatches(team: GroupTeam, matches: Match[]): Match[] {
+    return matches
+      .filter(m => m.isCompleted && this.getSides(team, m))
+      .sort((a, b) => b.startTime - a.startTime);
+  }
+
+  static getTeamRecord(team: GroupTeam, matches: Match[]): TeamRecord {
+    const record: TeamRecord = { played: 0, won: 0, lost: 0, tied: 0, drawn: 0 };
+
+    this.getTeamMatches(team, matches).forEach(match => {
+      const { side, opponent } = this.getSides(team, match)!;
+      record.played++;
+      record[this.getOutcome(match, side)]++;
+
+      InningsAnalytics.getInningsNumbers(match)
+        .map(innings => InningsAnalytics.getInningsTotal(match, innings))
+        .filter(total => total.teamName === side.name && total.legalBalls > 0)
+        .forEach(total => {
+          if (!record.highestTotal || total.runs > record.highestTotal.runs) {
+            record.highestTotal = {
+              runs: total.runs,
+              wickets: total.wickets,
+              opponentName: opponent.name,
+              matchId: match.id,
+              date: match.startTime
+            };
+          }
+        });
+    });
+
+    return record;
+  }
+
+  // The team's results against each side it has played, most played first
+  static getHeadToHead(team: GroupTeam, teams: GroupTeam[], matches: Match[]): HeadToHeadRow[] {
+    const rows = new Map<string, HeadToHeadRow>();
+
+    this.getTeamMatches(team, matches).forEach(match => {
+      const { side, opponent } = this.getSides(team, match)!;
+      const opponentTeam = teams.find(t => t.id !== team.id && this.isTeamSide(t, opponent));
+      const key = opponentTeam?.id || opponent.name.trim().toLowerCase();
+      const row = rows.get(key) || {
+        opponentName: opponentTeam?.name || opponent.name,
+        opponentId: opponentTeam?.id,
+        played: 0, won: 0, lost: 0, tied: 0, drawn: 0
+      };
+      row.played++;
+      row[this.getOutcome(match, side)]++;
+      rows.set(key, row);
+    });
+
+    return Array.from(rows.values()).sort((a, b) => b.played - a.played || b.won - a.won);
+  }
+
+  private static getSides(team: GroupTeam, match: Match): { side: Team; opponent: Team } | undefined {
+    if (this.isTeamSide(team, match.team1)) return { side: match.team1, opponent: match.team2 };
+    if (this.isTeamSide(team, match.team2)) return { side: match.team2, opponent: match.team1 };
+    return undefined;
+  }
+
+  private static getOutcome(match: Match, side: Team): TeamOutcome {
+    const winnerName = CricketEngine.getWinningTeamName(match);
+    if (winnerName) return winnerName === side.name ? 'won' : 'lost';
+    return CricketEngine.getMatchResult(match).includes('drawn') ? 'drawn' : 'tied';
+  }
+}
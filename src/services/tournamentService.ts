@@ -0,0 +1,277 @@
+import { Fixture, Match, PointsRules, Tournament, TournamentTeam } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+import { InningsAnalytics } from './inningsAnalytics';
+
+// Tournaments built from a group's matches: round-robin fixtures, linking
+// played matches to them and the points table with net run rate.
+
+export const DEFAULT_POINTS_RULES: PointsRules = {
+  win: 2,
+  tie: 1,
+  noResult: 1,
+  loss: 0,
+  bonus: 0,
+  bonusRunRateRatio: 1.25
+};
+
+export type FixtureOutcome =
+  | { status: 'pending' } // Not linked yet, or the match is still going
+  | { status: 'won'; winnerId: string; loserId: string; bonus: boolean }
+  | { status: 'tied' }
+  | { status: 'no_result' };
+
+export interface PointsTableRow {
+  team: TournamentTeam;
+  played: number;
+  won: number;
+  lost: number;
+  tied: number;
+  noResult: number;
+  bonus: number;
+  points: number;
+  runsFor: number;
+  oversFaced: number; // A side bowled out is charged its full overs
+  runsAgainst: number;
+  oversBowled: number;
+  netRunRate: number;
+}
+
+// One side's batting in a linked match, as net run rate counts it
+interface InningsFigures {
+  teamName: string;
+  runs: number;
+  overs: number;
+}
+
+export class TournamentService {
+  static createTournament(
+    name: string,
+    groupId: string,
+    teamNames: string[],
+    options: { doubleRoundRobin?: boolean; knockoutOnly?: boolean; points?: PointsRules; createdBy?: string } = {}
+  ): Tournament {
+    const names = teamNames.map(n => n.trim()).filter(Boolean);
+    if (!name.trim()) throw new Error('Tournament name is required');
+    if (names.length < 2) throw new Error('A tournament needs at least two teams');
+    if (new Set(names.map(n => n.toLowerCase())).size !== names.length) {
+      throw new Error('Team names must be different');
+    }
+
+    const now = Date.now();
+    const teams = names.map((teamName, index) => ({ id: `team_${now}_${index}`, name: teamName }));
+    return {
+      id: `tournament_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim(),
+      groupId,
+      teams,
+      fixtures: options.knockoutOnly ? [] : this.generateRoundRobin(teams, options.doubleRoundRobin),
+      points: options.points || DEFAULT_POINTS_RULES,
+      createdBy: options.createdBy,
+      createdAt: now,
+      lastModified: now
+    };
+  }
+
+  // Every side plays every other once (twice with home and away swapped),
+  // paired by the circle method so each round has no side playing twice
+  static generateRoundRobin(teams: TournamentTeam[], doubleRoundRobin: boolean = false): Fixture[] {
+    const ids: (string | null)[] = teams.map(t => t.id);
+    if (ids.length % 2 === 1) ids.push(null); // Bye
+    const rounds = ids.length - 1;
+    const pairings: Omit<Fixture, 'id'>[] = [];
+
+    for (let round = 0; round < rounds; round++) {
+      for (let i = 0; i < ids.length / 2; i++) {
+        const home = ids[i];
+        const away = ids[ids.length - 1 - i];
+        if (!home || !away) continue;
+        const [team1Id, team2Id] = round % 2 === 0 ? [home, away] : [away, home];
+        pairings.push({ round: round + 1, team1Id, team2Id });
+      }
+      // Keep the first side fixed and rotate the rest
+      ids.splice(1, 0, ids.pop()!);
+    }
+
+    const returnLegs = doubleRoundRobin
+      ? pairings.map(p => ({ round: p.round + rounds, team1Id: p.team2Id, team2Id: p.team1Id }))
+      : [];
+    return [...pairings, ...returnLegs].map((p, index) => ({ id: `fixture_${index + 1}`, ...p }));
+  }
+
+  static getTeam(tournament: Tournament, teamId: string): TournamentTeam | undefined {
+    return tournament.teams.find(t => t.id === teamId);
+  }
+
+  // Tournament side a match team plays as, matched by name
+  static findTeam(tournament: Tournament, teamName: string): TournamentTeam | undefined {
+    const key = teamName.trim().toLowerCase();
+    return tournament.teams.find(t => t.name.trim().toLowerCase() === key);
+  }
+
+  // Whether a match was between the two sides of a fixture
+  static isMatchForFixture(tournament: Tournament, fixture: { team1Id?: string; team2Id?: string }, match: Match): boolean {
+    if (CricketEngine.isMultiInnings(match) || !fixture.team1Id || !fixture.team2Id) return false;
+    const ids = [match.team1?.name, match.team2?.name].map(name => name && this.findTeam(tournament, name)?.id);
+    return ids.includes(fixture.team1Id) && ids.includes(fixture.team2Id);
+  }
+
+  // Record a match as the one played for a fixture. A match can only count
+  // for one fixture, so any earlier link to it is dropped.
+  static linkMatch(tournament: Tournament, fixtureId: string, match: Match): { tournament: Tournament; match: Match } {
+    const fixture = tournament.fixtures.find(f => f.id === fixtureId);
+    if (!fixture) throw new Error('Fixture not found');
+    if (!this.isMatchForFixture(tournament, fixture, match)) {
+      const team1 = this.getTeam(tournament, fixture.team1Id)?.name;
+      const team2 = this.getTeam(tournament, fixture.team2Id)?.name;
+      throw new Error(`This match was not a one-innings game between ${team1} and ${team2}`);
+    }
+
+    return {
+      tournament: {
+        ...tournament,
+        fixtures: tournament.fixtures.map(f => {
+          if (f.id === fixtureId) return { ...f, matchId: match.id, noResult: false };
+          return f.matchId === match.id ? { ...f, matchId: undefined } : f;
+        }),
+        lastModified: Date.now()
+      },
+      match: { ...match, tournamentId: tournament.id, fixtureId }
+    };
+  }
+
+  static unlinkMatch(tournament: Tournament, fixtureId: string): Tournament {
+    return this.updateFixture(tournament, fixtureId, { matchId: undefined });
+  }
+
+  static setNoResult(tournament: Tournament, fixtureId: string, noResult: boolean): Tournament {
+    return this.updateFixture(tournament, fixtureId, { noResult });
+  }
+
+  static getFixtureOutcome(tournament: Tournament, fixture: Fixture, matches: Match[]): FixtureOutcome {
+    if (fixture.noResult) return { status: 'no_result' };
+    const match = matches.find(m => m.id === fixture.matchId);
+    if (!match || !match.isCompleted) return { status: 'pending' };
+
+    const winner = this.getWinningTeam(tournament, match);
+    if (!winner) return { status: 'tied' };
+
+    const loserId = winner.id === fixture.team1Id ? fixture.team2Id : fixture.team1Id;
+    return { status: 'won', winnerId: winner.id, loserId, bonus: this.isBonusWin(tournament, match, winner) };
+  }
+
+  // Side that won a completed match, Super Over included; undefined for a tie
+  static getWinningTeam(tournament: Tournament, match: Match): TournamentTeam | undefined {
+    const winnerName = CricketEngine.getWinningTeamName(match);
+    return winnerName ? this.findTeam(tournament, winnerName) : undefined;
+  }
+
+  // Standings on points, then net run rate, then wins
+  static getPointsTable(tournament: Tournament, matches: Match[]): PointsTableRow[] {
+    const rows = new Map<string, PointsTableRow>(tournament.teams.map(team => [team.id, {
+      team, played: 0, won: 0, lost: 0, tied: 0, noResult: 0, bonus: 0, points: 0,
+      runsFor: 0, oversFaced: 0, runsAgainst: 0, oversBowled: 0, netRunRate: 0
+    }]));
+    const rules = tournament.points;
+
+    tournament.fixtures.forEach(fixture => {
+      const outcome = this.getFixtureOutcome(tournament, fixture, matches);
+      if (outcome.status === 'pending') return;
+      const sides = [fixture.team1Id, fixture.team2Id]
+        .map(id => rows.get(id))
+        .filter((row): row is PointsTableRow => !!row);
+      if (sides.length < 2) return;
+      sides.forEach(row => row.played++);
+
+      if (outcome.status === 'no_result') {
+        sides.forEach(row => {
+          row.noResult++;
+          row.points += rules.noResult;
+        });
+        return;
+      }
+
+      if (outcome.status === 'tied') {
+        sides.forEach(row => {
+          row.tied++;
+          row.points += rules.tie;
+        });
+      } else {
+        const winner = rows.get(outcome.winnerId)!;
+        const loser = rows.get(outcome.loserId)!;
+        winner.won++;
+        winner.points += rules.win;
+        loser.lost++;
+        loser.points += rules.loss;
+        if (outcome.bonus) {
+          winner.bonus += rules.bonus;
+          winner.points += rules.bonus;
+        }
+      }
+
+      // Run rates count for every match with a result
+      const match = matches.find(m => m.id === fixture.matchId)!;
+      const figures = this.getInningsFigures(match);
+      figures.forEach(batting => {
+        const team = this.findTeam(tournament, batting.teamName);
+        const row = team && rows.get(team.id);
+        const opponent = sides.find(side => side !== row);
+        if (!row || !opponent) return;
+        row.runsFor += batting.runs;
+        row.oversFaced += batting.overs;
+        opponent.runsAgainst += batting.runs;
+        opponent.oversBowled += batting.overs;
+      });
+    });
+
+    return Array.from(rows.values())
+      .map(row => ({ ...row, netRunRate: this.getNetRunRate(row) }))
+      .sort((a, b) => b.points - a.points || b.netRunRate - a.netRunRate || b.won - a.won);
+  }
+
+  static getNetRunRate(row: Pick<PointsTableRow, 'runsFor' | 'oversFaced' | 'runsAgainst' | 'oversBowled'>): number {
+    const scoring = row.oversFaced > 0 ? row.runsFor / row.oversFaced : 0;
+    const conceding = row.oversBowled > 0 ? row.runsAgainst / row.oversBowled : 0;
+    return scoring - conceding;
+  }
+
+  // "+0.523", "-1.250"
+  static formatNetRunRate(netRunRate: number): string {
+    return `${netRunRate >= 0 ? '+' : ''}${netRunRate.toFixed(3)}`;
+  }
+
+  // Runs and overs for both innings, worked out from the balls. A side bowled
+  // out is charged the overs it had, as net run rate rules require.
+  private static getInningsFigures(match: Match): InningsFigures[] {
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const maxWickets = CricketEngine.getMaxWickets(match);
+
+    return ([1, 2] as const).map(innings => {
+      const total = InningsAnalytics.getInningsTotal(match, innings);
+      const allOut = total.wickets >= maxWickets;
+
+      return {
+        teamName: total.teamName,
+        runs: total.runs,
+        overs: allOut ? CricketEngine.getInningsOversLimit(match, innings) : total.legalBalls / ballsPerOver
+      };
+    });
+  }
+
+  private static isBonusWin(tournament: Tournament, match: Match, winner: TournamentTeam): boolean {
+    if (tournament.points.bonus <= 0) return false;
+    const figures = this.getInningsFigures(match);
+    const rate = (f: InningsFigures) => (f.overs > 0 ? f.runs / f.overs : 0);
+    const won = figures.find(f => this.findTeam(tournament, f.teamName)?.id === winner.id);
+    const lost = figures.find(f => f !== won);
+    if (!won || !lost) return false;
+    return rate(won) >= rate(lost) * tournament.points.bonusRunRateRatio;
+  }
+
+  private static updateFixture(tournament: Tournament, fixtureId: string, changes: Partial<Fixture>): Tournament {
+    return {
+      ...tournament,
+      fixtures: tournament.fixtures.map(f => (f.id === fixtureId ? { ...f, ...changes } : f)),
+      lastModified: Date.now()
+    };
+  }
+}
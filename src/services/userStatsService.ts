@@ -1,45 +1,68 @@
 import { Match, Player, Ball } from '../types/cricket';
 import { storageService } from './storage';
 import { authService } from './authService';
+import { cloudStorageService } from './cloudStorageService';
+import { CricketEngine, DEFAULT_BALLS_PER_OVER } from './cricketEngine';
 
 export class UserStatsService {
   
-  // Update user statistics automatically after match completion
+  // Career stats are worked out again from the stored matches of the people
+  // who played rather than added to as matches finish, so completing,
+  // correcting or deleting a match never leaves them double counted or stale.
+
+  // Update statistics for everyone who played in a completed, corrected or deleted match
   static async updateMatchStatistics(match: Match): Promise<void> {
-    console.log('📊 Updating user statistics for completed match:', match.id);
+    console.log('📊 Updating statistics for match:', match.id);
 
-    try {
-      // Get all players who participated in the match
-      const allPlayers = [
-        ...match.team1.players,
-        ...match.team2.players
-      ];
-
-      // Update statistics for each player
-      for (const player of allPlayers) {
-        const playerStats = this.calculatePlayerMatchStats(match, player);
-        await storageService.updateUserStatistics(player.id, playerStats);
-        console.log(`✅ Updated stats for player: ${player.name}`);
-      }
+    const playerIds = [...match.team1.players, ...match.team2.players].map(p => p.id);
+    await this.recomputePlayerStats(playerIds);
+  }
+
+  // One-off rebuild of every group member's statistics
+  static async rebuildGroupStats(groupId: string): Promise<number> {
+    console.log('🔁 Rebuilding all statistics for group:', groupId);
+
+    const players = await storageService.getGroupPlayers(groupId);
+    return this.recomputePlayerStats(players.map(p => p.id));
+  }
+
+  // Work the players' stats out again from the completed matches they played
+  // in. Returns how many players had their stats rebuilt
+  static async recomputePlayerStats(playerIds: string[]): Promise<number> {
+    const ids = new Set(playerIds);
+    const matches = (await storageService.getAllMatches())
+      .filter(m => m.isCompleted && [...ids].some(id => CricketEngine.isPlayerInMatch(m, id)));
+    let rebuilt = 0;
+
+    for (const playerId of ids) {
+      try {
+        const playedIn = matches.filter(m => CricketEngine.isPlayerInMatch(m, playerId));
+
+        // Player record used on group dashboards
+        const player = await storageService.getPlayer(playerId);
+        if (player) {
+          await this.savePlayerStats({ ...player, stats: CricketEngine.calculateCareerStats(player, playedIn) });
+          rebuilt++;
+        }
 
-      // If current user participated, update their session
-      const currentUser = authService.getCurrentUser();
-      if (currentUser) {
-        const userParticipated = allPlayers.some(p => p.id === currentUser.id);
-        if (userParticipated) {
-          const userStats = this.calculatePlayerMatchStats(match, 
-            allPlayers.find(p => p.id === currentUser.id)!
+        // User profile statistics, for players with an account
+        const user = await storageService.getUser(playerId);
+        if (user) {
+          const matchStats = playedIn.map(m =>
+            this.calculatePlayerMatchStats(m, [...m.team1.players, ...m.team2.players].find(p => p.id === playerId)!)
           );
-          await authService.updateUserStatistics(userStats);
-          console.log('✅ Updated current user session statistics');
+          await storageService.rebuildUserStatistics(playerId, matchStats);
         }
+      } catch (error) {
+        console.error(`❌ Failed to rebuild stats for player ${playerId}:`, error);
       }
+    }
 
-      console.log('🎉 All user statistics updated successfully');
+    await this.refreshCurrentUser(playerIds);
 
-    } catch (error) {
-      console.error('❌ Failed to update user statistics:', error);
-    }
+    console.log(`🎉 Rebuilt statistics for ${rebuilt} players from ${matches.length} matches`);
+    window.dispatchEvent(new CustomEvent('playerStatsUpdated'));
+    return rebuilt;
   }
 
   // Calculate comprehensive match statistics for a player
@@ -78,39 +101,35 @@ export class UserStatsService {
     const battingBalls = match.balls.filter(ball => ball.striker.id === player.id);
     
     battingBalls.forEach(ball => {
-      if (!ball.isWide && !ball.isNoBall) {
+      if (CricketEngine.isBallFaced(ball)) {
         stats.ballsFaced++;
       }
       
-      if (!ball.isWide && !ball.isNoBall && !ball.isBye && !ball.isLegBye) {
-        stats.runs += ball.runs;
-        
-        if (ball.runs === 4) stats.fours++;
-        if (ball.runs === 6) stats.sixes++;
-      }
+      const batRuns = CricketEngine.getBatRuns(ball);
+      stats.runs += batRuns;
+      if (batRuns === 4) stats.fours++;
+      if (batRuns === 6) stats.sixes++;
     });
 
     // Calculate bowling stats
     const bowlingBalls = match.balls.filter(ball => ball.bowler.id === player.id);
-    const bowlingOvers = this.groupBallsByOver(bowlingBalls);
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const bowlingOvers = this.groupBallsByOver(bowlingBalls, ballsPerOver);
     
     bowlingBalls.forEach(ball => {
       stats.ballsBowled++;
-      stats.runsConceded += ball.runs;
+      // Wide and no-ball penalties are already part of the ball's runs
+      stats.runsConceded += CricketEngine.getBowlerRuns(ball);
       
       if (ball.isWicket && ball.wicketType !== 'run_out') {
         stats.wickets++;
       }
-      
-      if (ball.isWide || ball.isNoBall) {
-        stats.runsConceded += 1; // Extra run for wide/no-ball
-      }
     });
 
     // Calculate maiden overs
     bowlingOvers.forEach(over => {
-      const overRuns = over.reduce((total, ball) => total + ball.runs, 0);
-      if (overRuns === 0 && over.length >= 6) {
+      const overRuns = over.reduce((total, ball) => total + CricketEngine.getBowlerRuns(ball), 0);
+      if (overRuns === 0 && over.length >= ballsPerOver) {
         stats.maidenOvers++;
       }
     });
@@ -164,7 +183,7 @@ export class UserStatsService {
   }
 
   // Group balls by over for maiden over calculation
-  static groupBallsByOver(balls: Ball[]): Ball[][] {
+  static groupBallsByOver(balls: Ball[], ballsPerOver: number = DEFAULT_BALLS_PER_OVER): Ball[][] {
     const overs: Ball[][] = [];
     let currentOver: Ball[] = [];
     let ballCount = 0;
@@ -176,8 +195,8 @@ export class UserStatsService {
 
       currentOver.push(ball);
 
-      // Complete over (6 legal balls)
-      if (ballCount === 6) {
+      // Complete over (legal balls per over of the format)
+      if (ballCount === ballsPerOver) {
         overs.push([...currentOver]);
         currentOver = [];
         ballCount = 0;
@@ -200,14 +219,14 @@ export class UserStatsService {
         score: match.team1.score,
         wickets: match.team1.wickets,
         overs: `${match.team1.overs}.${match.team1.balls}`,
-        runRate: match.team1.overs > 0 ? (match.team1.score / (match.team1.overs + match.team1.balls / 6)).toFixed(2) : '0.00'
+        runRate: CricketEngine.calculateRunRate(match.team1.score, CricketEngine.getLegalBalls(match.team1, match), CricketEngine.getBallsPerOver(match))
       },
       team2: {
         name: match.team2.name,
         score: match.team2.score,
         wickets: match.team2.wickets,
         overs: `${match.team2.overs}.${match.team2.balls}`,
-        runRate: match.team2.overs > 0 ? (match.team2.score / (match.team2.overs + match.team2.balls / 6)).toFixed(2) : '0.00'
+        runRate: CricketEngine.calculateRunRate(match.team2.score, CricketEngine.getLegalBalls(match.team2, match), CricketEngine.getBallsPerOver(match))
       },
       winner: match.winner,
       margin: this.calculateWinMargin(match),
@@ -334,6 +353,27 @@ export class UserStatsService {
 
     return csvContent;
   }
+
+  // Player record used on group dashboards, locally and in the cloud
+  private static async savePlayerStats(player: Player): Promise<void> {
+    await storageService.savePlayer(player);
+    if (navigator.onLine) {
+      try {
+        await cloudStorageService.savePlayer(player);
+      } catch (error) {
+        console.warn('Failed to save player to cloud:', error);
+      }
+    }
+  }
+
+  // Keep the signed-in user's session in step with their updated profile
+  private static async refreshCurrentUser(playerIds: string[]): Promise<void> {
+    const currentUser = authService.getCurrentUser();
+    if (currentUser && playerIds.includes(currentUser.id)) {
+      const refreshedUser = await storageService.getUser(currentUser.id);
+      if (refreshedUser) authService.setCurrentUser(refreshedUser);
+    }
+  }
 }
 
 export const userStatsService = new UserStatsService(); 
\ No newline at end of file
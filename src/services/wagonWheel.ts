@@ -0,0 +1,81 @@
+import { Ball } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+
+// Shot directions are angles on a field drawn with the bowler at the top and
+// the batter in the middle: 0 is straight back past the bowler, 90 square on
+// the off side and 270 square on the leg side, as for a right-hander.
+
+export interface ShotZone {
+  label: string;
+  from: number; // Degrees where the zone starts; each zone is 45 wide
+}
+
+export const SHOT_ZONES: ShotZone[] = [
+  { label: 'Long off', from: 0 },
+  { label: 'Cover', from: 45 },
+  { label: 'Point', from: 90 },
+  { label: 'Third man', from: 135 },
+  { label: 'Fine leg', from: 180 },
+  { label: 'Square leg', from: 225 },
+  { label: 'Midwicket', from: 270 },
+  { label: 'Long on', from: 315 }
+];
+
+export interface WagonWheelShot {
+  ballId: string;
+  angle: number;
+  runs: number; // Runs off the bat
+}
+
+export class WagonWheel {
+  static getZone(angle: number): ShotZone {
+    return SHOT_ZONES[Math.floor(this.normalize(angle) / 45) % SHOT_ZONES.length];
+  }
+
+  // Angle of a point tapped on the field, given as an offset from the
+  // batter with y running down the screen
+  static getAngle(dx: number, dy: number): number {
+    return this.normalize(Math.round((Math.atan2(dx, -dy) * 180) / Math.PI));
+  }
+
+  // Scoring shots with a recorded direction
+  static getShots(balls: Ball[]): WagonWheelShot[] {
+    return balls
+      .filter(ball => ball.shotAngle !== undefined && CricketEngine.getBatRuns(ball) > 0)
+      .map(ball => ({ ballId: ball.id, angle: ball.shotAngle!, runs: CricketEngine.getBatRuns(ball) }));
+  }
+
+  static getZoneRuns(shots: WagonWheelShot[]): { zone: ShotZone; runs: number }[] {
+    return SHOT_ZONES.map(zone => ({
+      zone,
+      runs: shots.filter(shot => this.getZone(shot.angle) === zone).reduce((sum, shot) => sum + shot.runs, 0)
+    }));
+  }
+
+  static getSideRuns(shots: WagonWheelShot[]): { off: number; leg: number } {
+    return shots.reduce((sides, shot) => {
+      if (this.normalize(shot.angle) < 180) sides.off += shot.runs;
+      else sides.leg += shot.runs;
+      return sides;
+    }, { off: 0, leg: 0 });
+  }
+
+  // Where a shot's line ends, as an offset from the batter. Boundaries reach
+  // the rope; running shots go further the more runs they brought.
+  static getEndPoint(shot: WagonWheelShot, radius: number): { x: number; y: number } {
+    const length = shot.runs >= 4 ? radius : radius * Math.min(0.35 + 0.15 * shot.runs, 0.85);
+    const radians = (shot.angle * Math.PI) / 180;
+    return { x: Math.sin(radians) * length, y: -Math.cos(radians) * length };
+  }
+
+  static getColor(runs: number): string {
+    if (runs >= 6) return '#7c3aed';
+    if (runs === 4) return '#2563eb';
+    if (runs >= 2) return '#f59e0b';
+    return '#6b7280';
+  }
+
+  private static normalize(angle: number): number {
+    return ((angle % 360) + 360) % 360;
+  }
+}
@@ -0,0 +1,200 @@
+import { Match } from '../types/cricket';
+import { CricketEngine } from './cricketEngine';
+import { DLSCalculator } from './dlsCalculator';
+import { InningsAnalytics } from './inningsAnalytics';
+import { storageService } from './storage';
+
+// Win probability for one-innings limited-overs matches.
+//
+// Runs still to come are estimated from the resources left (overs and
+// wickets, as in DLS) times the scoring rate this group usually manages,
+// with a spread that narrows as the innings runs out. The rate, spread and
+// how often the side batting first wins are calibrated from the group's
+// completed matches and blended with defaults until there is enough history.
+
+export interface WinModel {
+  runRate: number; // Typical first-innings runs per over
+  runRateSpread: number; // Standard deviation of that rate between matches
+  battingFirstWinRate: number;
+  sampleSize: number; // Completed matches the model was fitted to
+}
+
+export interface WinProbabilityPoint {
+  innings: 1 | 2;
+  legalBalls: number; // Into the innings
+  probability: number; // Chance the side batting first wins, 0 to 1
+}
+
+export const DEFAULT_WIN_MODEL: WinModel = {
+  runRate: 7.5,
+  runRateSpread: 1.5,
+  battingFirstWinRate: 0.5,
+  sampleSize: 0
+};
+
+// Matches of history worth the same as the defaults
+const PRIOR_MATCHES = 5;
+
+interface InningsState {
+  score: number;
+  wickets: number;
+  legalBalls: number;
+}
+
+export class WinProbability {
+  static isSupported(match: Match): boolean {
+    return !CricketEngine.isMultiInnings(match) && !match.isSuperOver && !(match.superOvers && match.superOvers.length > 0);
+  }
+
+  // Model for a match, fitted to the other matches of its group
+  static async loadModel(match: Match): Promise<WinModel> {
+    if (!match.groupId) return DEFAULT_WIN_MODEL;
+    try {
+      const matches = await storageService.getGroupMatches(match.groupId);
+      return this.calibrate(matches.filter(m => m.id !== match.id));
+    } catch (error) {
+      console.warn('⚠️ Could not load group history for win probability:', error);
+      return DEFAULT_WIN_MODEL;
+    }
+  }
+
+  static calibrate(matches: Match[]): WinModel {
+    const history = matches.filter(m => m.isCompleted && this.isSupported(m) && m.balls && m.balls.length > 0);
+
+    const rates = history.map(m => this.getInningsRuns(m, 1) / Math.max(CricketEngine.getInningsOversLimit(m, 1), 1));
+    const weight = rates.length / (rates.length + PRIOR_MATCHES);
+    const meanRate = rates.length > 0 ? rates.reduce((sum, r) => sum + r, 0) / rates.length : DEFAULT_WIN_MODEL.runRate;
+    const spread = rates.length > 1
+      ? Math.sqrt(rates.reduce((sum, r) => sum + (r - meanRate) ** 2, 0) / (rates.length - 1))
+      : DEFAULT_WIN_MODEL.runRateSpread;
+
+    const decided = history
+      .map(m => this.getBattingFirstResult(m))
+      .filter((result): result is boolean => result !== null);
+    const battingFirstWins = decided.filter(Boolean).length;
+
+    return {
+      runRate: weight * meanRate + (1 - weight) * DEFAULT_WIN_MODEL.runRate,
+      runRateSpread: Math.max(weight * spread + (1 - weight) * DEFAULT_WIN_MODEL.runRateSpread, 0.5),
+      battingFirstWinRate: (battingFirstWins + DEFAULT_WIN_MODEL.battingFirstWinRate * PRIOR_MATCHES) / (decided.length + PRIOR_MATCHES),
+      sampleSize: history.length
+    };
+  }
+
+  // Chance the side batting now goes on to win, or null when the match
+  // format is not covered
+  static getLiveProbability(match: Match, model: WinModel): number | null {
+    if (!this.isSupported(match)) return null;
+
+    const state = {
+      score: match.battingTeam.score,
+      wickets: match.battingTeam.wickets,
+      legalBalls: CricketEngine.getLegalBalls(match.battingTeam, match)
+    };
+    if (match.isSecondInnings) {
+      return 1 - this.getBattingFirstProbability(match, model, 2, state);
+    }
+    return this.getBattingFirstProbability(match, model, 1, state);
+  }
+
+  // Probability for the side batting first after every ball of the match
+  static getTimeline(match: Match, model: WinModel): WinProbabilityPoint[] {
+    if (!this.isSupported(match)) return [];
+
+    const points: WinProbabilityPoint[] = [];
+    ([1, 2] as const).forEach(innings => {
+      // Retirements out and penalty runs move the chance as much as balls do
+      const log = InningsAnalytics.getInningsLog(match, innings);
+      if (!log.some(entry => entry.type === 'ball')) return;
+
+      const state: InningsState = { score: InningsAnalytics.getInningsPenalties(match, innings).carried, wickets: 0, legalBalls: 0 };
+      points.push({ innings, legalBalls: 0, probability: this.getBattingFirstProbability(match, model, innings, state) });
+      log.forEach(entry => {
+        if (entry.type === 'penalty') {
+          state.score += entry.award.runs;
+        } else if (entry.type === 'retirement') {
+          state.wickets++;
+        } else {
+          state.score += entry.ball.runs;
+          if (entry.ball.isWicket) state.wickets++;
+          if (!entry.ball.isWide && !entry.ball.isNoBall) state.legalBalls++;
+        }
+        points.push({
+          innings,
+          legalBalls: state.legalBalls,
+          probability: this.getBattingFirstProbability(match, model, innings, state)
+        });
+      });
+    });
+    return points;
+  }
+
+  private static getBattingFirstProbability(match: Match, model: WinModel, innings: 1 | 2, state: InningsState): number {
+    const ballsPerOver = CricketEngine.getBallsPerOver(match);
+    const maxWickets = CricketEngine.getMaxWickets(match);
+    const overs = CricketEngine.getInningsOversLimit(match, innings);
+    const oversLeft = Math.max(overs - state.legalBalls / ballsPerOver, 0);
+    const fullResources = DLSCalculator.getResources(overs, 0, maxWickets);
+    const remaining = fullResources > 0 ? DLSCalculator.getResources(oversLeft, state.wickets, maxWickets) / fullResources : 0;
+
+    // Runs still to come, and how far they might stray from that
+    const expectedRuns = model.runRate * overs * remaining;
+    const spread = Math.max(model.runRateSpread * overs * Math.sqrt(remaining), 1);
+    // History's lean towards batting first or chasing counts for less as the match takes shape
+    const historyLean = this.logit(model.battingFirstWinRate) * remaining;
+
+    if (innings === 1) {
+      const projected = state.score + expectedRuns;
+      const chaseOvers = CricketEngine.getInningsOversLimit(match, 2);
+      const chaseExpected = model.runRate * chaseOvers;
+      const chaseSpread = model.runRateSpread * chaseOvers;
+      const z = (projected - chaseExpected) / Math.sqrt(spread ** 2 + chaseSpread ** 2);
+      return this.clamp(this.logistic(this.logit(this.normalCdf(z)) + this.logit(model.battingFirstWinRate)));
+    }
+
+    const firstInningsScore = this.getInningsRuns(match, 1);
+    const needed = CricketEngine.getRevisedTarget(match, firstInningsScore) - state.score;
+    if (needed <= 0) return 0;
+    if (remaining <= 0) return needed === 1 ? 0.5 : 1;
+
+    const chaseProbability = this.normalCdf((expectedRuns - needed + 0.5) / spread);
+    return this.clamp(1 - this.logistic(this.logit(chaseProbability) - historyLean));
+  }
+
+  private static getBattingFirstResult(match: Match): boolean | null {
+    const first = this.getInningsRuns(match, 1);
+    const second = this.getInningsRuns(match, 2);
+    const target = CricketEngine.getRevisedTarget(match, first);
+    if (second >= target) return false;
+    if (second === target - 1) return null;
+    return true;
+  }
+
+  // Runs recorded for an innings, not the side's running score, which a
+  // finished match may have moved on from
+  private static getInningsRuns(match: Match, innings: 1 | 2): number {
+    if (innings === 1 && match.firstInningsScore !== undefined) return match.firstInningsScore;
+    return InningsAnalytics.getInningsTotal(match, innings).runs;
+  }
+
+  // Abramowitz and Stegun approximation of the standard normal CDF
+  private static normalCdf(z: number): number {
+    const t = 1 / (1 + 0.2316419 * Math.abs(z));
+    const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+    const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    return z >= 0 ? 1 - tail : tail;
+  }
+
+  private static logit(p: number): number {
+    const q = Math.min(Math.max(p, 0.001), 0.999);
+    return Math.log(q / (1 - q));
+  }
+
+  private static logistic(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+  }
+
+  private static clamp(p: number): number {
+    return Math.min(Math.max(p, 0.01), 0.99);
+  }
+}
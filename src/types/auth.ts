@@ -126,10 +126,22 @@ export interface MatchPreferences {
   preferredRole: 'batting' | 'bowling' | 'any';
   autoSaveFrequency: number; // minutes
   scoringShortcuts: boolean;
+  scoringKeyBindings?: Partial<ScoringKeyBindings>; // Keys changed from the defaults
+  shotDirections?: boolean; // Ask where each scoring shot went, for wagon wheels
   soundEffects: boolean;
   vibration: boolean;
 }
 
+// Things a scorer can do from the keyboard
+export type ScoringAction =
+  | 'run_0' | 'run_1' | 'run_2' | 'run_3' | 'run_4' | 'run_6'
+  | 'wide' | 'no_ball' | 'bye' | 'leg_bye'
+  | 'bowled' | 'caught' | 'lbw' | 'run_out' | 'stumped' | 'hit_wicket'
+  | 'type_balls' | 'undo' | 'redo' | 'swap_strike' | 'change_bowler' | 'shortcut_help';
+
+// Key for each action, e.g. "4", "W", "Shift+C", "?"
+export type ScoringKeyBindings = Record<ScoringAction, string>;
+
 export interface UserSocialProfile {
   friends: string[]; // User IDs
   followedUsers: string[]; // User IDs
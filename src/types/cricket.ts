@@ -42,7 +42,11 @@ export interface FallOfWicket {
 
 export interface Team {
   name: string;
+  teamId?: string; // Group team the side was picked from
   players: Player[];
+  battingOrder?: string[]; // Player ids in the order the side planned to bat
+  captainId?: string;
+  wicketkeeperId?: string;
   score: number;
   wickets: number;
   overs: number;
@@ -52,6 +56,7 @@ export interface Team {
     legByes: number;
     wides: number;
     noBalls: number;
+    penalties?: number; // 5-run penalty awards
   };
   fallOfWickets?: FallOfWicket[];
 }
@@ -63,21 +68,39 @@ export interface Ball {
   bowler: Player;
   striker: Player;
   nonStriker: Player;
-  runs: number;
+  runs: number; // Total runs added to the score, including any wide or no-ball penalty
+  batRuns?: number; // Runs off the bat on a no-ball, credited to the striker
   isWide: boolean;
   isNoBall: boolean;
   isBye: boolean;
   isLegBye: boolean;
   isWicket: boolean;
+  isFreeHit?: boolean; // Bowled as a free hit after a no-ball
   wicketType?: WicketType;
   fielder?: Player;
+  dismissedPlayer?: Player; // Batter who was out; defaults to striker when missing (older matches)
+  shotAngle?: number; // Where a scoring shot went: degrees clockwise from straight, off side first as for a right-hander
   commentary: string;
   timestamp: number;
   innings?: number; // Track which innings this ball belongs to
   battingTeamId?: string; // Track which team was batting
 }
 
-export type WicketType = 'bowled' | 'caught' | 'lbw' | 'run_out' | 'stumped' | 'hit_wicket';
+export type WicketType = 'bowled' | 'caught' | 'lbw' | 'run_out' | 'stumped' | 'hit_wicket' | 'retired_out';
+
+export type RetirementType = 'retired_hurt' | 'retired_out';
+
+// A batter leaving between deliveries. Retired out counts as a wicket;
+// retired hurt is not out and the batter may resume the innings later.
+export interface Retirement {
+  player: Player;
+  type: RetirementType;
+  innings: number;
+  score: number; // Team score when the batter retired
+  over: string;
+  returned?: boolean; // Retired hurt batter came back in
+  timestamp: number;
+}
 
 export interface Match {
   id: string;
@@ -85,16 +108,31 @@ export interface Match {
   team2: Team;
   tossWinner: string;
   tossDecision: 'bat' | 'bowl';
-  currentInnings: 1 | 2;
+  currentInnings: 1 | 2 | 3 | 4;
   battingTeam: Team;
   bowlingTeam: Team;
   totalOvers: number;
+  ballsPerOver?: number; // Legal balls per over, defaults to 6
+  maxOverPerBowler?: number; // Overs one bowler may bowl in an innings, 0 or unset for no limit
+  playersPerTeam?: number; // Players per side, defaults to 11
+  lastManStands?: boolean; // Final batter may keep batting alone
+  wideRuns?: number; // Penalty for a wide, defaults to 1
+  noBallRuns?: number; // Penalty for a no-ball, defaults to 1
+  freeHits?: boolean; // The delivery after a no-ball is a free hit
+  inningsPerSide?: 1 | 2; // Two for Test-style matches, defaults to 1
+  followOnMargin?: number; // First innings lead that lets the side batting first enforce the follow-on
+  completedInnings?: InningsRecord[];
+  declaredInnings?: number[];
+  followOnEnforced?: boolean;
+  isDrawn?: boolean; // Play ended before a result in a two-innings match
   balls: Ball[];
   isCompleted: boolean;
   isSecondInnings?: boolean;
   firstInningsScore?: number;
   winner?: string;
   resultMargin?: string; // e.g., "5 wickets", "23 runs"
+  result?: string; // Result line, e.g. "Team A won by 5 wickets"
+  completedAt?: string; // ISO time the match was completed
   manOfTheMatch?: Player;
   startTime: number;
   endTime?: number;
@@ -104,19 +142,169 @@ export interface Match {
   previousBowler?: Player;
   groupId?: string; // Associate match with a group
   isStandalone?: boolean; // Mark standalone matches
+  tournamentId?: string;
+  fixtureId?: string; // Tournament fixture this match was played for
+  isSuperOver?: boolean; // A Super Over is being played to break a tie
+  superOvers?: SuperOverInnings[]; // Super Over innings in the order they were batted
+  interruptions?: Interruption[]; // Rain or bad light stoppages that cut the overs
+  retirements?: Retirement[];
+  penaltyAwards?: PenaltyAward[];
+  events?: MatchEvent[]; // Scoring log the match state is rebuilt from; missing on older matches
+  corrections?: MatchCorrection[]; // Changes made to the scorecard after the match was completed
+}
+
+export interface MatchCorrection {
+  timestamp: number;
+  reason: string;
+  correctedBy?: string; // Id of the user who made the correction
+  previousResult?: string;
+}
+
+// One entry in the scoring log. Replaying the log and the balls it refers to
+// over the match setup gives the score, extras, fall of wickets, strike and bowler.
+export type MatchEvent =
+  | { type: 'openers'; striker: Player; nonStriker: Player; bowler: Player }
+  | { type: 'ball'; ballId: string } // Delivery kept in the match's ball log
+  | { type: 'bowler'; bowler: Player }
+  | { type: 'swap_strike' } // Batters changed ends by hand
+  | { type: 'new_batter'; batter: Player; replacing?: string } // Id of the batter leaving the crease
+  | { type: 'retire'; player: Player; retirementType: RetirementType; timestamp: number }
+  | { type: 'penalty'; award: PenaltyAward }
+  | { type: 'remove_penalty'; awardId: string }
+  | { type: 'interruption'; interruption: Interruption }
+  | { type: 'declare' }
+  | { type: 'draw' } // Play called off with no result in a two-innings match
+  | { type: 'add_player'; player: Player; teamName: string } // Joined a side mid-match
+  | { type: 'next_innings'; enforceFollowOn?: boolean }
+  | { type: 'super_over' };
+
+// Penalty runs awarded by the umpires, added to the receiving side's extras
+export interface PenaltyAward {
+  id: string;
+  teamName: string; // Side the runs were awarded to
+  runs: number;
+  innings: number; // Innings in progress when awarded
+  toFieldingSide?: boolean;
+  reason?: string;
+  timestamp: number;
+}
+
+// A finished innings. Teams are reset when they bat again, so two-innings
+// matches keep each side's earlier figures here.
+export interface InningsRecord {
+  innings: number;
+  battingTeam: string;
+  bowlingTeam: string;
+  score: number;
+  wickets: number;
+  overs: number;
+  balls: number;
+  extras: Team['extras'];
+  fallOfWickets: FallOfWicket[];
+}
+
+// A stoppage that reduced the overs available to an innings
+export interface Interruption {
+  innings: 1 | 2;
+  legalBalls: number; // Legal balls bowled in the innings when play stopped
+  wickets: number; // Wickets down when play stopped
+  oversBefore: number;
+  oversAfter: number;
+  reason: 'rain' | 'bad_light' | 'other';
+  timestamp: number;
+}
+
+// One side's Super Over, kept apart from the main match balls
+export interface SuperOverInnings {
+  battingTeam: Team;
+  bowlingTeam: Team;
+  balls: Ball[];
+}
+
+// A side a group keeps from match to match, with its squad and the captain
+// and wicketkeeper it usually plays with
+export interface GroupTeam {
+  id: string;
+  groupId: string;
+  name: string;
+  playerIds: string[];
+  captainId?: string;
+  wicketkeeperId?: string;
+  createdBy?: string;
+  createdAt: number;
+  lastModified: number;
+}
+
+// A competition between sides of a group, played as a set of fixtures
+export interface Tournament {
+  id: string;
+  name: string;
+  groupId: string;
+  teams: TournamentTeam[];
+  fixtures: Fixture[];
+  points: PointsRules;
+  knockout?: KnockoutStage; // Playoffs after, or instead of, the league
+  createdBy?: string;
+  createdAt: number;
+  lastModified: number;
+}
+
+export interface TournamentTeam {
+  id: string;
+  name: string; // Matched against the team names of linked matches
+}
+
+export interface Fixture {
+  id: string;
+  round: number;
+  team1Id: string;
+  team2Id: string;
+  matchId?: string; // Match played for this fixture
+  noResult?: boolean; // Called off without a result
+}
+
+export interface KnockoutStage {
+  seeds: string[]; // Team ids, best first
+  seededFromTable: boolean;
+  tieBreak: TieBreakRule; // Settles a tie the Super Over did not
+  fixtures: KnockoutFixture[];
+}
+
+export type TieBreakRule = 'boundaries' | 'fewer_wickets' | 'higher_seed';
+
+export interface KnockoutFixture {
+  id: string;
+  round: number; // 1 for the first knockout round
+  position: number; // Place in the round, top of the bracket first
+  team1Id?: string; // Unknown until the earlier round is decided
+  team2Id?: string;
+  matchId?: string;
+  winnerId?: string;
+  decidedBy?: 'result' | 'tie_break' | 'bye';
+}
+
+export interface PointsRules {
+  win: number;
+  tie: number;
+  noResult: number;
+  loss: number;
+  bonus: number; // Extra point for a win by a wide margin, 0 for none
+  bonusRunRateRatio: number; // Winner's run rate needed, as a multiple of the loser's, for the bonus
 }
 
 export interface MatchFormat {
   name: string;
   overs: number;
+  ballsPerOver: number;
   maxOverPerBowler: number;
 }
 
 export const MATCH_FORMATS: MatchFormat[] = [
-  { name: 'T20', overs: 20, maxOverPerBowler: 4 },
-  { name: 'T10', overs: 10, maxOverPerBowler: 3 },
-  { name: '5 Overs', overs: 5, maxOverPerBowler: 2 },
-  { name: 'Custom', overs: 0, maxOverPerBowler: 0 }
+  { name: 'T20', overs: 20, ballsPerOver: 6, maxOverPerBowler: 4 },
+  { name: 'T10', overs: 10, ballsPerOver: 6, maxOverPerBowler: 3 },
+  { name: '5 Overs', overs: 5, ballsPerOver: 6, maxOverPerBowler: 2 },
+  { name: 'The Hundred', overs: 20, ballsPerOver: 5, maxOverPerBowler: 4 }, // 100 balls in sets of 5
+  { name: 'Custom', overs: 0, ballsPerOver: 6, maxOverPerBowler: 0 }
 ];
 
 export interface ScoringAction {